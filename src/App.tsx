@@ -14,6 +14,8 @@ import CreateGroup from "./pages/CreateGroup";
 import JoinGroup from "./pages/JoinGroup";
 import GroupWorkspace from "./pages/GroupWorkspace";
 import Invoice from "./pages/Invoice";
+import VerificationQueue from "./pages/VerificationQueue";
+import StatementImport from "./pages/StatementImport";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -36,6 +38,8 @@ const App = () => (
               <Route path="/groups/join" element={<JoinGroup />} />
               <Route path="/groups/:id" element={<GroupWorkspace />} />
               <Route path="/groups/:groupId/invoice/:cycleId" element={<Invoice />} />
+              <Route path="/groups/:id/statement" element={<StatementImport />} />
+              <Route path="/verify" element={<VerificationQueue />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -9,7 +9,15 @@ import {
   RotateCcw,
   CheckCircle,
   XCircle,
-  Clock
+  Clock,
+  Wallet,
+  BadgeMinus,
+  CalendarClock,
+  Trophy,
+  Repeat,
+  ListOrdered,
+  ArrowLeftRight,
+  Receipt
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -19,6 +27,7 @@ import { getGroupActivities, formatActivityMessage, type ActivityLog, type Activ
 
 interface ActivityFeedProps {
   groupId: string;
+  currency?: string | null; // the group's currency, for amounts in messages
   limit?: number;
   showHeader?: boolean;
   maxHeight?: string;
@@ -36,6 +45,23 @@ const activityIcons: Record<ActivityType, typeof DollarSign> = {
   cycle_closed: Calendar,
   reminder_sent: Bell,
   member_reminded: Bell,
+  payout_sent: Wallet,
+  payout_confirmed: CheckCircle,
+  penalty_waived: BadgeMinus,
+  payment_extended: CalendarClock,
+  cycle_reopened: RotateCcw,
+  round_completed: Trophy,
+  round_started: Repeat,
+  queue_ordered: ListOrdered,
+  queue_reordered: ListOrdered,
+  arrears_recorded: Receipt,
+  arrears_paid: Receipt,
+  swap_proposed: ArrowLeftRight,
+  swap_accepted: ArrowLeftRight,
+  swap_declined: ArrowLeftRight,
+  swap_cancelled: ArrowLeftRight,
+  swap_approved: ArrowLeftRight,
+  swap_rejected: ArrowLeftRight,
 };
 
 const activityColors: Record<ActivityType, string> = {
@@ -49,6 +75,23 @@ const activityColors: Record<ActivityType, string> = {
   cycle_closed: 'bg-gray-500/10 text-gray-600',
   reminder_sent: 'bg-amber-500/10 text-amber-600',
   member_reminded: 'bg-amber-500/10 text-amber-600',
+  payout_sent: 'bg-purple-500/10 text-purple-600',
+  payout_confirmed: 'bg-green-500/10 text-green-600',
+  penalty_waived: 'bg-amber-500/10 text-amber-600',
+  payment_extended: 'bg-blue-500/10 text-blue-600',
+  cycle_reopened: 'bg-amber-500/10 text-amber-600',
+  round_completed: 'bg-green-500/10 text-green-600',
+  round_started: 'bg-blue-500/10 text-blue-600',
+  queue_ordered: 'bg-purple-500/10 text-purple-600',
+  queue_reordered: 'bg-purple-500/10 text-purple-600',
+  arrears_recorded: 'bg-amber-500/10 text-amber-600',
+  arrears_paid: 'bg-green-500/10 text-green-600',
+  swap_proposed: 'bg-blue-500/10 text-blue-600',
+  swap_accepted: 'bg-blue-500/10 text-blue-600',
+  swap_declined: 'bg-gray-500/10 text-gray-600',
+  swap_cancelled: 'bg-gray-500/10 text-gray-600',
+  swap_approved: 'bg-green-500/10 text-green-600',
+  swap_rejected: 'bg-red-500/10 text-red-600',
 };
 
 /**
@@ -57,6 +100,7 @@ const activityColors: Record<ActivityType, string> = {
  */
 export function ActivityFeed({ 
   groupId, 
+  currency,
   limit = 10, 
   showHeader = true, 
   maxHeight = '300px',
@@ -125,7 +169,7 @@ export function ActivityFeed({
               {activities.map((activity) => {
                 const Icon = activityIcons[activity.action_type] || Clock;
                 const colorClass = activityColors[activity.action_type] || 'bg-muted text-muted-foreground';
-                const message = formatActivityMessage(activity);
+                const message = formatActivityMessage(activity, currency);
 
                 return (
                   <div key={activity.id} className="flex items-start gap-3 group">
@@ -154,9 +198,10 @@ export function ActivityFeed({
  */
 export function ActivityList({ 
   groupId, 
+  currency,
   limit = 5,
   className 
-}: { groupId: string; limit?: number; className?: string }) {
+}: { groupId: string; currency?: string | null; limit?: number; className?: string }) {
   const [activities, setActivities] = useState<ActivityLog[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -197,7 +242,7 @@ export function ActivityList({
       {activities.map((activity) => {
         const Icon = activityIcons[activity.action_type] || Clock;
         const colorClass = activityColors[activity.action_type] || 'text-muted-foreground';
-        const message = formatActivityMessage(activity);
+        const message = formatActivityMessage(activity, currency);
 
         return (
           <div key={activity.id} className="flex items-center gap-2 text-sm">
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { HandCoins, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getArrearsBalance, recordArrearsPayment } from '@/lib/arrears';
+import { formatMoney } from '@/lib/currency';
+import { parseAmount } from '@/lib/money';
+import { Arrears } from '@/types/database';
+
+interface ArrearsMember {
+  name: string;
+  userId: string;
+}
+
+interface ArrearsLedgerProps {
+  arrears: Arrears[];
+  members: Map<string, ArrearsMember>; // keyed by group member id
+  currency?: string | null;
+  canRecord?: boolean;
+  currentUserId?: string;
+  currentUserName?: string;
+  onChange?: () => void;
+}
+
+/**
+ * Arrears recorded when locked members were restored, with what is still owed
+ * Presidents record payments until each one is settled
+ */
+export function ArrearsLedger({
+  arrears,
+  members,
+  currency,
+  canRecord = false,
+  currentUserId,
+  currentUserName,
+  onChange,
+}: ArrearsLedgerProps) {
+  const { toast } = useToast();
+  const [paying, setPaying] = useState<Arrears | null>(null);
+  const [amount, setAmount] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const openPayment = (record: Arrears) => {
+    setPaying(record);
+    setAmount(getArrearsBalance(record).toFixed(2));
+  };
+
+  const handleRecord = async () => {
+    if (!paying) return;
+
+    const member = members.get(paying.member_id);
+    setSaving(true);
+    try {
+      const result = await recordArrearsPayment({
+        arrears: paying,
+        amount: parseAmount(amount, currency),
+        currency,
+        memberUserId: member?.userId || null,
+        memberName: member?.name || 'Unknown',
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: result.arrears?.status === 'settled' ? "Arrears Settled" : "Payment Recorded",
+        description: result.restored
+          ? `${member?.name || 'The member'} has paid off their arrears and is restored to the group.`
+          : `${formatMoney(result.arrears ? getArrearsBalance(result.arrears) : 0, currency)} still owed.`,
+      });
+      setPaying(null);
+      onChange?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to record payment";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (arrears.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No arrears recorded</p>;
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {arrears.map(record => {
+          const balance = getArrearsBalance(record);
+          return (
+            <div key={record.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">
+                    {members.get(record.member_id)?.name || 'Unknown'} · {formatMoney(record.amount, currency)} arrears
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {record.cycle_ids.length} missed cycle{record.cycle_ids.length === 1 ? '' : 's'} · {format(new Date(record.created_at), 'MMM d, yyyy')}
+                    {record.status === 'outstanding' && record.restore_on_settle && ' · restored once paid'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {record.status === 'settled' ? (
+                    <Badge variant="secondary">Settled</Badge>
+                  ) : (
+                    <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20">{formatMoney(balance, currency)} owed</Badge>
+                  )}
+                  {canRecord && record.status === 'outstanding' && (
+                    <Button size="sm" variant="ghost" onClick={() => openPayment(record)}>
+                      <HandCoins className="w-4 h-4 mr-1" />
+                      Record Payment
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {record.status === 'outstanding' && Number(record.amount_paid) > 0 && (
+                <Progress value={(Number(record.amount_paid) / Number(record.amount)) * 100} className="h-1.5" />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!paying} onOpenChange={(open) => !open && setPaying(null)}>
+        <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+          <DialogHeader>
+            <DialogTitle className="dark:text-white">Record Arrears Payment</DialogTitle>
+            <DialogDescription className="dark:text-slate-400">
+              {members.get(paying?.member_id)?.name || 'This member'} owes {formatMoney(paying ? getArrearsBalance(paying) : 0, currency)}.
+              {paying?.restore_on_settle && ' They are restored to the group once it is paid off.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <label className="text-sm font-medium">Amount received</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="rounded-xl"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaying(null)} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button onClick={handleRecord} disabled={saving || !amount} className="rounded-xl">
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
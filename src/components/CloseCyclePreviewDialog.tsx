@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import { addDays, endOfDay, format, startOfDay } from 'date-fns';
+import { AlertTriangle, CalendarClock, CheckCircle, Clock, Loader2, Lock, StopCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Calendar as CalendarComponent } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatMoney } from '@/lib/currency';
+import { previewCycleClose, type ClosedMemberResult, type CloseCycleReport } from '@/lib/cycleManagement';
+import { formatLockThreshold, LockPolicy } from '@/lib/lockPolicy';
+import { GroupMember, PaymentCycle, PaymentLog, Profile } from '@/types/database';
+
+type PreviewMember = GroupMember & { profile?: Profile | null };
+
+interface CloseCyclePreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cycle: PaymentCycle;
+  members: PreviewMember[];
+  paymentLogs: PaymentLog[];
+  lockPolicy: LockPolicy;
+  currency?: string | null;
+  closing: boolean;
+  verifyingLogId: string | null;
+  onVerify: (log: PaymentLog, missed: ClosedMemberResult | null) => void; // missed: the preview's result if it still counts as missed
+  onExtend: (log: PaymentLog, until: Date) => Promise<void>;
+  onConfirm: () => void;
+}
+
+const missReasons: Record<string, string> = {
+  unpaid: 'Not paid',
+  rejected: 'Payment rejected',
+  pending: 'Paid after the grace period',
+  verified: 'Paid after the grace period',
+};
+
+/**
+ * Dry run of closing the active cycle, shown before the president commits
+ * Lists who will miss a payment (with their new missed count), who will be locked,
+ * and who is still awaiting verification. Members can be verified or given more
+ * time from here, and the preview refreshes as payments change
+ */
+export function CloseCyclePreviewDialog({
+  open,
+  onOpenChange,
+  cycle,
+  members,
+  paymentLogs,
+  lockPolicy,
+  currency,
+  closing,
+  verifyingLogId,
+  onVerify,
+  onExtend,
+  onConfirm,
+}: CloseCyclePreviewDialogProps) {
+  const [report, setReport] = useState<CloseCycleReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [extendingLogId, setExtendingLogId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const fetchPreview = async () => {
+      setLoading(true);
+      const result = await previewCycleClose(cycle.id);
+      if (cancelled) return;
+      setReport(result.report || null);
+      setError(result.success ? null : result.error || 'Failed to preview cycle close');
+      setLoading(false);
+    };
+
+    fetchPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, cycle.id, paymentLogs]);
+
+  const getMember = (memberId: string) => members.find(m => m.id === memberId);
+  const getLog = (memberId: string) => paymentLogs.find(l => l.member_id === memberId);
+  const getName = (memberId: string) => getMember(memberId)?.profile?.name || 'Unknown';
+
+  const handleExtend = async (log: PaymentLog, date: Date | undefined) => {
+    if (!date) return;
+    setExtendingLogId(log.id);
+    try {
+      await onExtend(log, endOfDay(date));
+    } finally {
+      setExtendingLogId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[24px] max-w-2xl max-h-[90vh] overflow-y-auto dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Close Current Cycle?</DialogTitle>
+          <DialogDescription className="dark:text-slate-400">
+            Here is exactly what closing the cycle will do. Nothing changes until you confirm.
+            Members are locked after {formatLockThreshold(lockPolicy)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !report ? (
+          <div className="space-y-3 py-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 p-4 rounded-xl bg-red-50 dark:bg-red-500/10 text-sm text-red-700 dark:text-red-400">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </div>
+        ) : report && (
+          <div className="space-y-6 py-2">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="p-3 rounded-xl bg-green-50 dark:bg-green-500/10">
+                <p className="text-xs text-slate-500 dark:text-slate-400">Verified</p>
+                <p className="text-xl font-semibold text-green-700 dark:text-green-400">{report.verifiedCount}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-amber-50 dark:bg-amber-500/10">
+                <p className="text-xs text-slate-500 dark:text-slate-400">Pending</p>
+                <p className="text-xl font-semibold text-amber-700 dark:text-amber-400">{report.pendingCount}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                <p className="text-xs text-slate-500 dark:text-slate-400">Missed</p>
+                <p className="text-xl font-semibold text-slate-900 dark:text-white">{report.missedPayments}</p>
+              </div>
+              <div className="p-3 rounded-xl bg-red-50 dark:bg-red-500/10">
+                <p className="text-xs text-slate-500 dark:text-slate-400">Locked</p>
+                <p className="text-xl font-semibold text-red-700 dark:text-red-400">{report.lockedMembers.length}</p>
+              </div>
+            </div>
+
+            {report.members.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">Will get a missed payment</p>
+                {report.members.map(result => {
+                  const log = getLog(result.memberId);
+                  const previousCount = getMember(result.memberId)?.missed_payment_count ?? result.missedPaymentCount - 1;
+                  const canExtend = log && ['unpaid', 'rejected'].includes(result.logStatus);
+                  return (
+                    <div key={result.memberId} className="flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-100 dark:border-white/5">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-white flex items-center gap-2">
+                          {getName(result.memberId)}
+                          {result.locked && (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400">
+                              <Lock className="w-3 h-3" />
+                              Will be locked
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {missReasons[result.logStatus]} · missed payments {previousCount} → {result.missedPaymentCount}
+                        </p>
+                      </div>
+                      {canExtend && (
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="rounded-lg shrink-0"
+                              disabled={extendingLogId === log.id || closing}
+                            >
+                              {extendingLogId === log.id ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                <>
+                                  <CalendarClock className="w-4 h-4 mr-1" />
+                                  Extend
+                                </>
+                              )}
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="end">
+                            <CalendarComponent
+                              mode="single"
+                              defaultMonth={addDays(new Date(), 7)}
+                              disabled={date => date < startOfDay(addDays(new Date(), 1))}
+                              onSelect={date => handleExtend(log, date)}
+                              initialFocus
+                            />
+                          </PopoverContent>
+                        </Popover>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {report.pendingMembers.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">Still awaiting verification</p>
+                {report.pendingMembers.map(pending => {
+                  const log = getLog(pending.memberId);
+                  return (
+                    <div key={pending.memberId} className="flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-100 dark:border-white/5">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-900 dark:text-white">{getName(pending.memberId)}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {pending.markedAt ? `Marked as sent ${format(new Date(pending.markedAt), 'MMM d, h:mm a')}` : 'Marked as sent'}
+                        </p>
+                      </div>
+                      {log && (
+                        <Button
+                          size="sm"
+                          className="bg-green-500 hover:bg-green-600 text-white rounded-lg shrink-0 dark:bg-green-600 dark:hover:bg-green-700"
+                          onClick={() => onVerify(log, report.members.find(m => m.memberId === pending.memberId) || null)}
+                          disabled={verifyingLogId === log.id || closing}
+                        >
+                          {verifyingLogId === log.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <>
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Verify
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {report.extendedMembers.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">Given more time (settled at the first close after it ends)</p>
+                {report.extendedMembers.map(extended => (
+                  <div key={extended.memberId} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-blue-50 dark:bg-blue-500/10 text-sm">
+                    <span className="text-slate-900 dark:text-white">{getName(extended.memberId)}</span>
+                    <span className="text-slate-500 dark:text-slate-400">
+                      Until {format(new Date(extended.extendedUntil), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.lapsedExtensions.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">Extensions that have ended</p>
+                {report.lapsedExtensions.map(lapsed => (
+                  <div key={lapsed.logId} className="flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-100 dark:border-white/5 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-900 dark:text-white flex items-center gap-2">
+                        {getName(lapsed.memberId)}
+                        {lapsed.locked && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400">
+                            <Lock className="w-3 h-3" />
+                            Will be locked
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {lapsed.missed
+                          ? `${missReasons[lapsed.logStatus]} · missed payments → ${lapsed.missedPaymentCount}`
+                          : 'Paid within the extension'}
+                      </p>
+                    </div>
+                    <span className="text-slate-500 dark:text-slate-400 shrink-0">
+                      Ended {format(new Date(lapsed.extendedUntil), 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.penalties.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">Late fees to charge</p>
+                {report.penalties.map(penalty => (
+                  <div key={penalty.paymentLogId} className="flex items-center justify-between text-sm px-3">
+                    <span className="text-slate-600 dark:text-slate-300">
+                      {getName(penalty.memberId)} · {penalty.daysLate} day{penalty.daysLate === 1 ? '' : 's'} late
+                    </span>
+                    <span className="font-medium text-slate-900 dark:text-white">{formatMoney(penalty.amount, currency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.members.length === 0 && report.pendingMembers.length === 0 && !report.lapsedExtensions.some(lapsed => lapsed.missed) && (
+              <div className="flex items-center gap-2 p-4 rounded-xl bg-green-50 dark:bg-green-500/10 text-sm text-green-700 dark:text-green-400">
+                <CheckCircle className="w-4 h-4" />
+                Every payment is verified. No one will get a missed payment.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="dark:bg-slate-800 dark:text-white dark:border-white/10"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={onConfirm}
+            disabled={closing || loading || !!error}
+            className="bg-red-500 hover:bg-red-600 text-white"
+          >
+            {closing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <StopCircle className="w-4 h-4 mr-2" strokeWidth={1.5} />
+            )}
+            Close Cycle
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Wallet, Send, CheckCircle, Clock, Loader2, Calendar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { formatMoney, getCurrency } from '@/lib/currency';
+import { parseAmount } from '@/lib/money';
+import { useToast } from '@/hooks/use-toast';
+import { markPayoutSent, confirmPayoutReceived } from '@/lib/payouts';
+import { Group, GroupMember, PaymentCycle, Payout, PayoutStatus, Profile } from '@/types/database';
+
+interface CyclePayoutCardProps {
+  group: Group;
+  cycle: PaymentCycle;
+  recipient: GroupMember & { profile?: Profile | null };
+  payout: Payout | null;
+  expectedAmount: number;
+  splits?: { name: string; amount: number }[]; // shares of a slot held by more than one member
+  isPresident: boolean;
+  currentUserId: string;
+  currentUserName: string;
+  onPayoutChange: () => void;
+}
+
+const payoutStatusConfig: Record<PayoutStatus | 'not_sent', { className: string; label: string }> = {
+  not_sent: { className: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400', label: 'Not Sent' },
+  pending: { className: 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400', label: 'Not Sent' },
+  sent: { className: 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400', label: 'Awaiting Confirmation' },
+  confirmed: { className: 'bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400', label: 'Received' },
+};
+
+/**
+ * Payout disbursement card for a cycle
+ * President marks the pot as sent, the recipient confirms receipt
+ */
+export function CyclePayoutCard({
+  group,
+  cycle,
+  recipient,
+  payout,
+  expectedAmount,
+  splits = [],
+  isPresident,
+  currentUserId,
+  currentUserName,
+  onPayoutChange,
+}: CyclePayoutCardProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [sentDate, setSentDate] = useState('');
+  const [reference, setReference] = useState('');
+  const [sending, setSending] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  const isRecipient = recipient.user_id === currentUserId;
+  const status = payout?.status || 'not_sent';
+  const { className: statusClassName, label: statusLabel } = payoutStatusConfig[status];
+  const recipientName = recipient.profile?.name || 'Unknown';
+
+  const handleOpenDialog = () => {
+    setAmount(String(payout?.amount ?? expectedAmount));
+    setSentDate(format(payout?.sent_at ? new Date(payout.sent_at) : new Date(), 'yyyy-MM-dd'));
+    setReference(payout?.reference || '');
+    setDialogOpen(true);
+  };
+
+  const handleMarkSent = async () => {
+    const parsedAmount = parseAmount(amount, group.currency);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid payout amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!sentDate) {
+      toast({
+        title: "Error",
+        description: "Please select the date the payout was sent",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSending(true);
+    try {
+      const result = await markPayoutSent({
+        cycleId: cycle.id,
+        groupId: group.id,
+        groupName: group.name,
+        currency: group.currency,
+        recipientId: recipient.id,
+        recipientUserId: recipient.user_id,
+        recipientName,
+        amount: parsedAmount,
+        sentAt: new Date(`${sentDate}T12:00:00`).toISOString(),
+        reference,
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Payout Marked as Sent",
+        description: `${recipientName} has been asked to confirm receipt.`,
+      });
+      setDialogOpen(false);
+      onPayoutChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to mark payout as sent";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!payout) return;
+
+    setConfirming(true);
+    try {
+      const result = await confirmPayoutReceived({
+        payout,
+        groupName: group.name,
+        currency: group.currency,
+        presidentId: group.president_id,
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Payout Confirmed",
+        description: "Thanks for confirming you received your payout.",
+      });
+      onPayoutChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to confirm payout";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg text-slate-900 dark:text-white">Cycle Payout</CardTitle>
+              <CardDescription className="text-slate-500 dark:text-slate-400">
+                {format(new Date(cycle.start_date), 'MMM d')} - {format(new Date(cycle.due_date), 'MMM d, yyyy')}
+              </CardDescription>
+            </div>
+            <span className={cn("px-3 py-1 rounded-full text-xs font-medium", statusClassName)}>
+              {statusLabel}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={recipient.profile?.avatar_url || ''} />
+              <AvatarFallback className="bg-green-200 text-green-700">
+                {recipient.profile?.name?.charAt(0) || '?'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-slate-900 dark:text-white">
+                {isRecipient ? 'You' : recipientName}
+              </p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {formatMoney(payout?.amount ?? expectedAmount, group.currency)} {payout ? 'paid out' : 'expected'}
+              </p>
+            </div>
+            <Wallet className="w-5 h-5 text-slate-400" strokeWidth={1.5} />
+          </div>
+
+          {splits.length > 1 && (
+            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-sm space-y-1">
+              <p className="text-xs text-slate-500 dark:text-slate-400">Split hand, shared between</p>
+              {splits.map(split => (
+                <div key={split.name} className="flex items-center justify-between">
+                  <span className="text-slate-900 dark:text-white">{split.name}</span>
+                  <span className="font-medium text-slate-900 dark:text-white">{formatMoney(split.amount, group.currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {payout?.sent_at && (
+            <div className="grid grid-cols-2 gap-4 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl text-sm">
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Sent</p>
+                <p className="font-medium text-slate-900 dark:text-white flex items-center gap-1.5">
+                  <Calendar className="w-3.5 h-3.5" />
+                  {format(new Date(payout.sent_at), 'MMM d, yyyy')}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">Reference</p>
+                <p className="font-medium text-slate-900 dark:text-white truncate">{payout.reference || '—'}</p>
+              </div>
+              {payout.confirmed_at && (
+                <div className="col-span-2">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">Confirmed by recipient</p>
+                  <p className="font-medium text-green-700 dark:text-green-400">
+                    {format(new Date(payout.confirmed_at), 'PPp')}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            {isPresident && status !== 'confirmed' && (
+              <Button
+                variant="outline"
+                className="rounded-xl border-slate-200"
+                onClick={handleOpenDialog}
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {status === 'sent' ? 'Edit Payout' : 'Mark Payout Sent'}
+              </Button>
+            )}
+            {isRecipient && status === 'sent' && (
+              <Button
+                className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600"
+                onClick={handleConfirm}
+                disabled={confirming}
+              >
+                {confirming ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                )}
+                Confirm Receipt
+              </Button>
+            )}
+            {!isPresident && !isRecipient && status !== 'confirmed' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1.5">
+                <Clock className="w-3.5 h-3.5" />
+                {status === 'sent' ? 'Waiting for the recipient to confirm' : 'Waiting for the president to send the payout'}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+          <DialogHeader>
+            <DialogTitle className="dark:text-white">Mark Payout as Sent</DialogTitle>
+            <DialogDescription className="dark:text-slate-400">
+              Record the payout sent to {recipientName}. They will be asked to confirm receipt.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Amount ({getCurrency(group.currency).symbol})</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Date Sent</label>
+              <Input
+                type="date"
+                value={sentDate}
+                onChange={(e) => setSentDate(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Reference</label>
+              <Input
+                placeholder="e.g. e-Transfer confirmation number"
+                value={reference}
+                maxLength={100}
+                onChange={(e) => setReference(e.target.value)}
+                className="rounded-xl"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleMarkSent}
+              disabled={sending}
+              className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600 dark:shadow-[0_0_20px_rgba(245,158,11,0.25)] transition-all duration-300"
+            >
+              {sending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Mark as Sent
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -12,6 +12,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
+import { formatMoney } from '@/lib/currency';
 import type { Group } from '@/types/database';
 
 interface GroupSwitcherProps {
@@ -125,7 +126,7 @@ export function GroupSwitcher({
               <div className="flex-1 min-w-0">
                 <p className="text-sm truncate font-medium">{group.name}</p>
                 <p className="text-xs text-muted-foreground">
-                  {isPresident ? 'President' : 'Member'} • ${group.contribution_amount}
+                  {isPresident ? 'President' : 'Member'} • {formatMoney(group.contribution_amount, group.currency)}
                 </p>
               </div>
               {isSelected && (
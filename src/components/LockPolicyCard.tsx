@@ -0,0 +1,51 @@
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { describeLockPolicy, LockPolicy } from '@/lib/lockPolicy';
+import { GroupMember } from '@/types/database';
+
+interface LockPolicyCardProps {
+  policy: LockPolicy;
+  member?: GroupMember | null; // shows the member's own standing when given
+}
+
+/**
+ * The group's missed payment rules, shown to every member
+ */
+export function LockPolicyCard({ policy, member }: LockPolicyCardProps) {
+  const rules = describeLockPolicy(policy);
+  const missed = member?.missed_payment_count || 0;
+
+  return (
+    <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+      <CardHeader>
+        <CardTitle className="text-lg text-slate-900 dark:text-white flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-slate-400" strokeWidth={1.5} />
+          Missed Payment Rules
+        </CardTitle>
+        <CardDescription className="text-slate-500 dark:text-slate-400">
+          Set by the group president and applied when each cycle closes
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2 list-disc pl-5 text-sm text-slate-600 dark:text-slate-300">
+          {rules.map(rule => (
+            <li key={rule}>{rule}</li>
+          ))}
+        </ul>
+
+        {member && member.status !== 'pending' && (
+          <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500 dark:text-slate-400">Your missed payments</span>
+              <span className="font-medium text-slate-900 dark:text-white">
+                {missed} / {policy.threshold}
+              </span>
+            </div>
+            <Progress value={Math.min((missed / policy.threshold) * 100, 100)} className="h-2" />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatMoney } from '@/lib/currency';
+import { exportMemberLedger, type MemberBalance } from '@/lib/memberBalance';
+import { cn } from '@/lib/utils';
+
+interface MemberLedgerProps {
+  balance: MemberBalance;
+  memberName: string;
+  groupName: string;
+  currency?: string | null;
+}
+
+/**
+ * A member's running balance with the entries behind it, newest first
+ */
+export function MemberLedger({ balance, memberName, groupName, currency }: MemberLedgerProps) {
+  const formatAmount = (amount: number) => (amount ? formatMoney(amount, currency) : '');
+
+  const summary = [
+    { label: 'Owed now', value: balance.balance, className: balance.balance > 0 ? 'text-red-600' : 'text-green-600' },
+    { label: 'Contributions due', value: balance.totalDue },
+    { label: 'Paid', value: balance.totalPaid, className: 'text-green-600' },
+    { label: 'Late fees', value: balance.totalFees - balance.totalWaived },
+    { label: 'Payouts received', value: balance.totalReceived, className: 'text-blue-600' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {summary.map(item => (
+          <div key={item.label} className="p-3 rounded-lg border">
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+            <p className={cn("text-lg font-bold", item.className)}>{formatMoney(item.value, currency)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {balance.balance < 0 && `Paid ${formatMoney(Math.abs(balance.balance), currency)} ahead. `}
+          Payouts received are listed but do not change what is owed.
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => exportMemberLedger(balance, memberName, groupName, currency)}
+          disabled={balance.entries.length === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {balance.entries.length > 0 ? (
+        <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Charge</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...balance.entries].reverse().map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                  <TableCell>
+                    {entry.description}
+                    {entry.received > 0 && (
+                      <span className="text-blue-600 font-medium"> · {formatMoney(entry.received, currency)}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right text-red-600">{formatAmount(entry.charge)}</TableCell>
+                  <TableCell className="text-right text-green-600">{formatAmount(entry.credit)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatMoney(entry.balance, currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <div className="text-center text-muted-foreground py-8">No ledger entries yet</div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Bell, Check, CheckCheck, Trash2, DollarSign, Users, Calendar, Lock, X } from 'lucide-react';
+import { Bell, Check, CheckCheck, Trash2, DollarSign, Users, Calendar, Lock, Wallet, X, ArrowLeftRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -69,6 +69,12 @@ export default function NotificationCenter({ onNotificationClick }: Notification
         return 'member_joined';
       case 'member_locked':
         return 'member_locked';
+      case 'payout_sent':
+        return 'payout_sent';
+      case 'payout_confirmed':
+        return 'payout_confirmed';
+      case 'queue_swap':
+        return 'queue_swap';
       default:
         return 'payment_pending';
     }
@@ -239,6 +245,11 @@ export default function NotificationCenter({ onNotificationClick }: Notification
         return <Users className="h-4 w-4" />;
       case 'member_locked':
         return <Lock className="h-4 w-4" />;
+      case 'payout_sent':
+      case 'payout_confirmed':
+        return <Wallet className="h-4 w-4" />;
+      case 'queue_swap':
+        return <ArrowLeftRight className="h-4 w-4" />;
       default:
         return <Bell className="h-4 w-4" />;
     }
@@ -260,6 +271,12 @@ export default function NotificationCenter({ onNotificationClick }: Notification
         return 'bg-primary/10 text-primary';
       case 'member_locked':
         return 'bg-red-500/10 text-red-600';
+      case 'payout_sent':
+        return 'bg-purple-500/10 text-purple-600';
+      case 'payout_confirmed':
+        return 'bg-green-500/10 text-green-600';
+      case 'queue_swap':
+        return 'bg-blue-500/10 text-blue-600';
       default:
         return 'bg-muted text-muted-foreground';
     }
@@ -0,0 +1,412 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle, Loader2, Paperclip, Send, X, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { PaymentProof } from '@/components/PaymentProof';
+import { RejectPaymentDialog } from '@/components/RejectPaymentDialog';
+import { formatMoney } from '@/lib/currency';
+import { parseAmount } from '@/lib/money';
+import { getSubmissionEventType, type Rejection } from '@/lib/paymentEvents';
+import { validatePaymentProof } from '@/lib/storage';
+import {
+  getInstallmentBalance,
+  requiresReference,
+  submitInstallment,
+  verifyInstallment,
+  rejectInstallment,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_METHOD_OPTIONS,
+} from '@/lib/installments';
+import { InstallmentStatus, PaymentInstallment, PaymentLog, PaymentMethod } from '@/types/database';
+
+interface PaymentInstallmentsProps {
+  log: PaymentLog;
+  installments: PaymentInstallment[];
+  groupId: string;
+  groupName: string;
+  contributionAmount: number;
+  currency?: string | null;
+  memberUserId: string;
+  memberName: string;
+  currentUserId: string;
+  currentUserName: string;
+  canSubmit?: boolean;
+  canReview?: boolean;
+  duplicateReferences?: Map<string, PaymentInstallment[]>; // other installments in the group with the same reference
+  memberNames?: Map<string, string>; // group member id to name, for duplicate warnings
+  onChange: () => void;
+}
+
+const installmentBadges: Record<InstallmentStatus, { className: string; label: string }> = {
+  pending: { className: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20', label: 'Pending' },
+  verified: { className: 'bg-green-500/10 text-green-600 border-green-500/20', label: 'Verified' },
+  rejected: { className: 'bg-red-500/10 text-red-600 border-red-500/20', label: 'Rejected' },
+};
+
+/**
+ * Running balance and installment entries for one payment log
+ * Members record each transfer with its method, reference and optional proof, the president verifies each one separately
+ * and is warned when a reference was already used elsewhere in the group
+ */
+export function PaymentInstallments({
+  log,
+  installments,
+  groupId,
+  groupName,
+  contributionAmount,
+  currency,
+  memberUserId,
+  memberName,
+  currentUserId,
+  currentUserName,
+  canSubmit = false,
+  canReview = false,
+  duplicateReferences,
+  memberNames,
+  onChange,
+}: PaymentInstallmentsProps) {
+  const { toast } = useToast();
+  const balance = getInstallmentBalance(contributionAmount, installments, log.status);
+  const [amount, setAmount] = useState('');
+  const [paidOn, setPaidOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | ''>('');
+  const [reference, setReference] = useState('');
+  const [proof, setProof] = useState<File | null>(null);
+  const [note, setNote] = useState('');
+  const proofInputRef = useRef<HTMLInputElement>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<PaymentInstallment | null>(null);
+
+  // Sending again after a rejection, so the member can reply to the president
+  const isResubmission = getSubmissionEventType(log.status, installments) === 'resubmitted';
+
+  // The payer and the officers reviewing the payment can see its proof
+  const canViewProof = canReview || currentUserId === memberUserId;
+
+  const clearProof = () => {
+    setProof(null);
+    if (proofInputRef.current) proofInputRef.current.value = '';
+  };
+
+  const handleProofChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const proofError = validatePaymentProof(file);
+    if (proofError) {
+      toast({
+        title: "Error",
+        description: proofError,
+        variant: "destructive",
+      });
+      clearProof();
+      return;
+    }
+    setProof(file);
+  };
+
+  const handleSubmit = async () => {
+    const parsedAmount = amount === '' ? balance.remaining : parseAmount(amount, currency);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!paymentMethod) {
+      toast({
+        title: "Error",
+        description: "Please choose how you sent the payment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!reference.trim() && requiresReference(paymentMethod)) {
+      toast({
+        title: "Error",
+        description: "Please enter the transaction reference",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await submitInstallment({
+        log,
+        groupId,
+        contributionAmount,
+        currency,
+        amount: parsedAmount,
+        paidAt: new Date(`${paidOn}T12:00:00`).toISOString(),
+        paymentMethod,
+        reference,
+        proof,
+        note,
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Payment Recorded",
+        description: result.log?.status === 'pending'
+          ? "Your contribution is covered. The president will verify your payments shortly."
+          : `${formatMoney(balance.remaining - parsedAmount, currency)} left to send this cycle.`,
+      });
+      setAmount('');
+      setPaymentMethod('');
+      setReference('');
+      setNote('');
+      clearProof();
+      onChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to record payment";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = async (installment: PaymentInstallment, rejection?: Rejection) => {
+    const verify = !rejection;
+    setReviewingId(installment.id);
+    try {
+      const input = {
+        installment,
+        groupName,
+        contributionAmount,
+        currency,
+        memberUserId,
+        memberName,
+        actorId: currentUserId,
+        actorName: currentUserName,
+      };
+      const result = rejection ? await rejectInstallment(input, rejection) : await verifyInstallment(input);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: verify ? "Installment Verified" : "Installment Rejected",
+        description: result.log?.status === 'verified'
+          ? `${memberName}'s contribution is now fully paid.`
+          : `${formatMoney(installment.amount, currency)} from ${memberName} ${verify ? 'verified' : 'rejected'}.`,
+      });
+      setRejectTarget(null);
+      onChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to review payment";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {formatMoney(balance.submitted, currency)} of {formatMoney(balance.due, currency)} sent
+            {balance.verified > 0 && ` · ${formatMoney(balance.verified, currency)} verified`}
+          </span>
+          <span className="font-medium">
+            {balance.remaining > 0 ? `${formatMoney(balance.remaining, currency)} remaining` : 'Fully sent'}
+          </span>
+        </div>
+        <Progress value={balance.due > 0 ? (balance.submitted / balance.due) * 100 : 0} className="h-2" />
+      </div>
+
+      {installments.length > 0 && (
+        <div className="space-y-2">
+          {installments.map(installment => (
+            <div key={installment.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+              <div className="space-y-0.5 min-w-0">
+                <p className="text-sm font-medium">{formatMoney(installment.amount, currency)}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  Sent {format(new Date(installment.paid_at), 'MMM d, yyyy')}
+                  {installment.payment_method && ` · ${PAYMENT_METHOD_LABELS[installment.payment_method]}`}
+                  {installment.reference && ` · Ref ${installment.reference}`}
+                </p>
+                {canReview && installment.status !== 'rejected' && duplicateReferences?.get(installment.id)?.map(match => (
+                  <p key={match.id} className="flex items-center gap-1 text-xs font-medium text-orange-600">
+                    <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                    Reference already used by {memberNames?.get(match.member_id) || 'another member'} for {formatMoney(match.amount, currency)} sent {format(new Date(match.paid_at), 'MMM d, yyyy')}
+                  </p>
+                ))}
+                {installment.proof_path && canViewProof && (
+                  <div className="pt-1.5">
+                    <PaymentProof path={installment.proof_path} />
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant="outline" className={installmentBadges[installment.status].className}>
+                  {installmentBadges[installment.status].label}
+                </Badge>
+                {canReview && installment.status === 'pending' && (
+                  <>
+                    <Button
+                      size="sm"
+                      className="bg-green-500 hover:bg-green-600 text-white rounded-lg dark:bg-green-600 dark:hover:bg-green-700"
+                      onClick={() => handleReview(installment)}
+                      disabled={reviewingId === installment.id}
+                    >
+                      {reviewingId === installment.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <CheckCircle className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="rounded-lg border-red-200 text-red-600 hover:bg-red-50"
+                      onClick={() => setRejectTarget(installment)}
+                      disabled={reviewingId === installment.id}
+                    >
+                      <XCircle className="w-4 h-4" strokeWidth={1.5} />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canSubmit && balance.remaining > 0 && (
+        <div className="space-y-3 p-4 rounded-lg border bg-muted/30">
+          <p className="text-sm font-medium">Record a payment</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Amount</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={balance.remaining.toFixed(2)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Date Sent</label>
+              <Input
+                type="date"
+                value={paidOn}
+                onChange={(e) => setPaidOn(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Payment Method</label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+              <SelectTrigger aria-label="Payment method">
+                <SelectValue placeholder="How did you send it?" />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHOD_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">
+              Transaction Reference{paymentMethod && !requiresReference(paymentMethod) && ' (optional)'}
+            </label>
+            <Input
+              placeholder={PAYMENT_METHOD_OPTIONS.find(option => option.value === paymentMethod)?.referenceHint || 'e.g. transaction ID or confirmation code'}
+              value={reference}
+              maxLength={100}
+              onChange={(e) => setReference(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Proof of payment (optional)</label>
+            <input
+              ref={proofInputRef}
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={handleProofChange}
+              className="hidden"
+            />
+            {proof ? (
+              <div className="flex items-center justify-between gap-2 rounded-md border bg-background px-3 py-2 text-sm">
+                <span className="flex items-center gap-2 truncate">
+                  <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate">{proof.name}</span>
+                </span>
+                <Button type="button" size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={clearProof}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button type="button" variant="outline" className="w-full" onClick={() => proofInputRef.current?.click()}>
+                <Paperclip className="mr-2 h-4 w-4" />
+                Attach receipt or screenshot
+              </Button>
+            )}
+          </div>
+          {isResubmission && (
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Reply to the president (optional)</label>
+              <Input
+                placeholder="e.g. Sent the missing 10 from my other account"
+                value={note}
+                maxLength={300}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+          <Button onClick={handleSubmit} disabled={submitting} className="w-full">
+            {submitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            {amount === '' || parseAmount(amount, currency) >= balance.remaining ? 'Mark as Sent' : 'Record Partial Payment'}
+          </Button>
+        </div>
+      )}
+
+      {canReview && (
+        <RejectPaymentDialog
+          open={!!rejectTarget}
+          onOpenChange={(open) => !open && setRejectTarget(null)}
+          memberName={memberName}
+          amount={rejectTarget?.amount || 0}
+          currency={currency}
+          rejecting={!!rejectTarget && reviewingId === rejectTarget.id}
+          onReject={(rejection) => rejectTarget && handleReview(rejectTarget, rejection)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { ExternalLink, FileText } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { getPaymentProofUrl, isPdfProof } from '@/lib/storage';
+
+interface PaymentProofProps {
+  path: string;
+}
+
+/**
+ * Inline preview of a proof of payment: a thumbnail that opens full size, or a link for PDF receipts
+ * Renders nothing when the viewer is not allowed to see the file
+ */
+export function PaymentProof({ path }: PaymentProofProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getPaymentProofUrl(path).then(signedUrl => {
+      if (cancelled) return;
+      setUrl(signedUrl);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  if (loading) {
+    return <Skeleton className="h-14 w-14 rounded-md" />;
+  }
+
+  if (!url) return null;
+
+  if (isPdfProof(path)) {
+    return (
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+      >
+        <FileText className="h-3.5 w-3.5" />
+        View receipt (PDF)
+      </a>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="block overflow-hidden rounded-md border hover:opacity-90 transition-opacity"
+        aria-label="View proof of payment"
+      >
+        <img src={url} alt="Proof of payment" className="h-14 w-14 object-cover" />
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Proof of Payment</DialogTitle>
+          </DialogHeader>
+          <img src={url} alt="Proof of payment" className="w-full max-h-[70vh] object-contain rounded-md" />
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Open full size
+          </a>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
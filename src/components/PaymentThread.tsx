@@ -0,0 +1,55 @@
+import { format } from 'date-fns';
+import { RotateCcw, Send, XCircle } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import { describeRejection } from '@/lib/paymentEvents';
+import { PaymentEventType, PaymentLogEvent } from '@/types/database';
+
+interface PaymentThreadProps {
+  events: PaymentLogEvent[];
+  currency?: string | null;
+}
+
+const eventStyles: Record<PaymentEventType, { icon: typeof Send; className: string; label: string }> = {
+  submitted: { icon: Send, className: 'bg-blue-500/10 text-blue-600', label: 'sent' },
+  rejected: { icon: XCircle, className: 'bg-red-500/10 text-red-600', label: 'rejected' },
+  resubmitted: { icon: RotateCcw, className: 'bg-yellow-500/10 text-yellow-600', label: 'resent' },
+};
+
+/**
+ * A payment log's submissions, rejections and resubmissions in order, with the reasons given
+ */
+export function PaymentThread({ events, currency }: PaymentThreadProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Nothing has been sent yet</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {events.map(event => {
+        const style = eventStyles[event.event_type];
+        const Icon = style.icon;
+        return (
+          <li key={event.id} className="flex gap-3">
+            <div className={`p-2 rounded-full h-fit ${style.className}`}>
+              <Icon className="h-4 w-4" />
+            </div>
+            <div className="space-y-1 min-w-0">
+              <p className="text-sm">
+                <span className="font-medium">{event.actor_name || 'Someone'}</span>
+                {' '}{style.label}
+                {event.amount !== null && ` ${formatMoney(event.amount, currency)}`}
+              </p>
+              {event.event_type === 'rejected' && (
+                <p className="text-sm text-red-600">{describeRejection(event.reason, event.note)}</p>
+              )}
+              {event.event_type !== 'rejected' && event.note && (
+                <p className="text-sm text-muted-foreground italic">"{event.note}"</p>
+              )}
+              <p className="text-xs text-muted-foreground">{format(new Date(event.created_at), 'MMM d, yyyy · h:mm a')}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { BadgeMinus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { waivePenalty } from '@/lib/penalties';
+import { Penalty } from '@/types/database';
+
+interface PenaltyMember {
+  name: string;
+  userId: string;
+}
+
+interface PenaltyLedgerProps {
+  penalties: Penalty[];
+  members: Map<string, PenaltyMember>; // keyed by group member id
+  currency?: string | null;
+  showMemberNames?: boolean;
+  canWaive?: boolean;
+  currentUserId?: string;
+  currentUserName?: string;
+  onChange?: () => void;
+}
+
+/**
+ * List of late fee penalties with their waiver details
+ * Presidents can waive an outstanding penalty with a reason
+ */
+export function PenaltyLedger({
+  penalties,
+  members,
+  currency,
+  showMemberNames = false,
+  canWaive = false,
+  currentUserId,
+  currentUserName,
+  onChange,
+}: PenaltyLedgerProps) {
+  const { toast } = useToast();
+  const [waiving, setWaiving] = useState<Penalty | null>(null);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleWaive = async () => {
+    if (!waiving) return;
+
+    if (!reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for waiving this penalty",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const member = members.get(waiving.member_id);
+    setSaving(true);
+    try {
+      const result = await waivePenalty({
+        penalty: waiving,
+        reason,
+        memberUserId: member?.userId || null,
+        memberName: member?.name || 'Unknown',
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Penalty Waived",
+        description: "The reason has been recorded in the activity feed.",
+      });
+      setWaiving(null);
+      setReason('');
+      onChange?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to waive penalty";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (penalties.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-4">No late fees recorded</p>;
+  }
+
+  return (
+    <>
+      <div className="space-y-3">
+        {penalties.map(penalty => (
+          <div key={penalty.id} className="flex items-start justify-between gap-3 p-3 rounded-lg border">
+            <div className="space-y-0.5">
+              <p className="text-sm font-medium">
+                {showMemberNames && `${members.get(penalty.member_id)?.name || 'Unknown'} · `}
+                {formatMoney(penalty.amount, currency)} late fee
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {penalty.days_late} day{penalty.days_late === 1 ? '' : 's'} late · {format(new Date(penalty.created_at), 'MMM d, yyyy')}
+              </p>
+              {penalty.status === 'waived' && penalty.waive_reason && (
+                <p className="text-xs text-muted-foreground italic">Waived: {penalty.waive_reason}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {penalty.status === 'waived' ? (
+                <Badge variant="secondary">Waived</Badge>
+              ) : (
+                <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20">Outstanding</Badge>
+              )}
+              {canWaive && penalty.status === 'outstanding' && (
+                <Button size="sm" variant="ghost" onClick={() => setWaiving(penalty)}>
+                  <BadgeMinus className="w-4 h-4 mr-1" />
+                  Waive
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={!!waiving} onOpenChange={(open) => !open && setWaiving(null)}>
+        <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+          <DialogHeader>
+            <DialogTitle className="dark:text-white">Waive Late Fee</DialogTitle>
+            <DialogDescription className="dark:text-slate-400">
+              Waive the {formatMoney(waiving?.amount || 0, currency)} late fee for {members.get(waiving?.member_id)?.name || 'this member'}.
+              The reason is recorded in the group's activity feed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <label className="text-sm font-medium">Reason</label>
+            <Textarea
+              placeholder="e.g. Bank transfer delayed over the holiday"
+              value={reason}
+              maxLength={300}
+              onChange={(e) => setReason(e.target.value)}
+              className="rounded-xl"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaiving(null)} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button onClick={handleWaive} disabled={saving} className="rounded-xl">
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Waive Fee
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Gavel, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { parseAmount } from '@/lib/money';
+import { placeQueueBid, validateQueueBid, withdrawQueueBid } from '@/lib/queueOrder';
+import { QueueBid } from '@/types/database';
+
+interface QueueBidCardProps {
+  groupId: string;
+  roundNumber: number;
+  memberId: string;
+  bids: QueueBid[]; // every bid placed for the round
+  expectedPayout: number;
+  currency?: string | null;
+  onBidChange: () => void;
+}
+
+/**
+ * Member offers a discount off their payout for an earlier slot
+ * Bids count if the president sets the round's queue by bidding
+ */
+export function QueueBidCard({ groupId, roundNumber, memberId, bids, expectedPayout, currency, onBidChange }: QueueBidCardProps) {
+  const { toast } = useToast();
+  const myBid = bids.find(b => b.member_id === memberId) || null;
+  const [amount, setAmount] = useState(myBid ? String(myBid.discount) : '');
+  const [saving, setSaving] = useState(false);
+  const [withdrawing, setWithdrawing] = useState(false);
+
+  const highestBid = bids.reduce((highest, bid) => Math.max(highest, Number(bid.discount)), 0);
+
+  const handlePlaceBid = async () => {
+    const discount = parseAmount(amount, currency);
+    const bidError = validateQueueBid(discount, expectedPayout);
+    if (bidError) {
+      toast({
+        title: "Error",
+        description: bidError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await placeQueueBid(groupId, roundNumber, memberId, discount);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: myBid ? "Bid Updated" : "Bid Placed",
+        description: `You offered ${formatMoney(discount, currency)} off your payout for an earlier slot in round ${roundNumber}.`,
+      });
+      onBidChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to place bid";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!myBid) return;
+
+    setWithdrawing(true);
+    try {
+      const result = await withdrawQueueBid(myBid.id);
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      setAmount('');
+      toast({ title: "Bid Withdrawn" });
+      onBidChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to withdraw bid";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg text-slate-900 dark:text-white">Bid for an Earlier Payout</CardTitle>
+            <CardDescription className="text-slate-500 dark:text-slate-400">
+              Round {roundNumber} · the biggest discounts go first if the queue is set by bidding
+            </CardDescription>
+          </div>
+          <Gavel className="w-5 h-5 text-slate-400" strokeWidth={1.5} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-slate-500 dark:text-slate-400">
+            {bids.length} bid{bids.length === 1 ? '' : 's'} placed
+          </span>
+          {highestBid > 0 && (
+            <span className="font-medium text-slate-900 dark:text-white">Highest: {formatMoney(highestBid, currency)}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Discount off your payout"
+            className="rounded-xl"
+          />
+          <Button
+            className="bg-green-500 hover:bg-green-600 text-white rounded-xl shrink-0"
+            onClick={handlePlaceBid}
+            disabled={saving || !amount}
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {myBid ? 'Update Bid' : 'Place Bid'}
+          </Button>
+          {myBid && (
+            <Button
+              variant="outline"
+              className="rounded-xl shrink-0"
+              onClick={handleWithdraw}
+              disabled={withdrawing}
+            >
+              {withdrawing ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Withdraw'}
+            </Button>
+          )}
+        </div>
+        {expectedPayout > 0 && (
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Your payout is about {formatMoney(expectedPayout, currency)}; your bid comes off it when you are paid.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
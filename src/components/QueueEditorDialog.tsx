@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, GripVertical, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { moveQueueItem } from '@/lib/queueOrder';
+import { cn } from '@/lib/utils';
+import { GroupMember, Profile } from '@/types/database';
+
+type QueueEditorMember = GroupMember & { profile?: Profile | null };
+
+interface QueueEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: QueueEditorMember[];
+  saving: boolean;
+  onSave: (order: string[], expectedOrder: string[]) => void;
+}
+
+/**
+ * President drags members into a new payout order
+ * Nothing is written until Save, which sends the whole order at once
+ */
+export function QueueEditorDialog({ open, onOpenChange, members, saving, onSave }: QueueEditorDialogProps) {
+  const [startOrder, setStartOrder] = useState<string[]>([]);
+  const [order, setOrder] = useState<string[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Snapshot the queue when the editor opens; saving checks it is still current
+  useEffect(() => {
+    if (!open) return;
+    const ids = [...members].sort((a, b) => a.queue_position - b.queue_position).map(m => m.id);
+    setStartOrder(ids);
+    setOrder(ids);
+    setDragIndex(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const changed = order.some((id, index) => startOrder[index] !== id);
+
+  const handleDragOver = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    setOrder(current => moveQueueItem(current, dragIndex, index));
+    setDragIndex(index);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Edit Payout Queue</DialogTitle>
+          <DialogDescription className="dark:text-slate-400">
+            Drag members into the order they should be paid, then save. The whole queue is updated at once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-2 py-2">
+          {order.map((memberId, index) => {
+            const member = members.find(m => m.id === memberId);
+            if (!member) return null;
+            return (
+              <div
+                key={memberId}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(event) => handleDragOver(event, index)}
+                onDragEnd={() => setDragIndex(null)}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  setDragIndex(null);
+                }}
+                className={cn(
+                  "flex items-center gap-3 p-3 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-800/50 cursor-grab",
+                  dragIndex === index && "opacity-50 border-green-300"
+                )}
+              >
+                <GripVertical className="w-4 h-4 text-slate-400 shrink-0" />
+                <span className="inline-flex items-center justify-center w-7 h-7 rounded-full text-sm font-medium bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 shrink-0">
+                  {index + 1}
+                </span>
+                <span className="flex-1 text-sm font-medium text-slate-900 dark:text-white truncate">
+                  {member.profile?.name || 'Unknown'}
+                </span>
+                {member.status !== 'active' && (
+                  <Badge variant="secondary" className="capitalize">{member.status}</Badge>
+                )}
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    aria-label={`Move ${member.profile?.name || 'member'} up`}
+                    onClick={() => setOrder(current => moveQueueItem(current, index, index - 1))}
+                    disabled={index === 0}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    aria-label={`Move ${member.profile?.name || 'member'} down`}
+                    onClick={() => setOrder(current => moveQueueItem(current, index, index + 1))}
+                    disabled={index === order.length - 1}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="dark:bg-slate-800 dark:text-white dark:border-white/10"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSave(order, startOrder)}
+            disabled={saving || !changed}
+            className="bg-green-500 hover:bg-green-600 text-white"
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { QUEUE_MODE_OPTIONS } from '@/lib/queueOrder';
+import { RoundQueueMode } from '@/types/database';
+
+interface QueueStrategyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  bidCount: number; // bids placed for the round being ordered
+  submitting: boolean;
+  onConfirm: (mode: RoundQueueMode) => void;
+}
+
+/**
+ * President picks how a round's payout queue is set
+ * The whole queue is rewritten at once when confirmed
+ */
+export function QueueStrategyDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  bidCount,
+  submitting,
+  onConfirm,
+}: QueueStrategyDialogProps) {
+  const [queueMode, setQueueMode] = useState<RoundQueueMode>('carry_over');
+
+  useEffect(() => {
+    if (open) setQueueMode('carry_over');
+  }, [open]);
+
+  const getHint = (mode: RoundQueueMode) => {
+    if (mode === 'bidding') {
+      return bidCount > 0
+        ? `${bidCount} bid${bidCount === 1 ? '' : 's'} placed so far. Members who did not bid keep their order after the bidders.`
+        : 'No bids placed yet. Members can bid from the group dashboard.';
+    }
+    if (mode === 'lottery') {
+      return 'The seed is saved with the round and posted to the activity feed.';
+    }
+    return null;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">{title}</DialogTitle>
+          <DialogDescription className="dark:text-slate-400">{description}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={queueMode}
+          onValueChange={value => setQueueMode(value as RoundQueueMode)}
+          className="gap-3 py-2"
+        >
+          {QUEUE_MODE_OPTIONS.map(option => (
+            <Label
+              key={option.value}
+              htmlFor={`queue-mode-${option.value}`}
+              className="flex items-start gap-3 p-4 rounded-xl border border-slate-200 dark:border-white/10 cursor-pointer"
+            >
+              <RadioGroupItem id={`queue-mode-${option.value}`} value={option.value} className="mt-0.5" />
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">{option.label}</p>
+                <p className="text-xs font-normal text-slate-500 dark:text-slate-400">{option.description}</p>
+                {queueMode === option.value && getHint(option.value) && (
+                  <p className="text-xs font-normal text-blue-600 dark:text-blue-400">{getHint(option.value)}</p>
+                )}
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="dark:bg-slate-800 dark:text-white dark:border-white/10"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(queueMode)}
+            disabled={submitting}
+            className="bg-green-500 hover:bg-green-600 text-white"
+          >
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { ArrowLeftRight, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  approveQueueSwap,
+  cancelQueueSwap,
+  proposeQueueSwap,
+  rejectQueueSwap,
+  respondToQueueSwap,
+  type SwapActionInput,
+  type SwapParty,
+} from '@/lib/queueSwaps';
+import { Group, GroupMember, Profile, QueueSwapRequest } from '@/types/database';
+
+type SwapMember = GroupMember & { profile?: Profile | null };
+type SwapAction = 'accept' | 'decline' | 'cancel' | 'approve' | 'reject';
+
+interface QueueSwapCardProps {
+  group: Pick<Group, 'id' | 'name' | 'president_id'>;
+  members: SwapMember[];
+  swappableIds: string[]; // members who can still trade slots this round
+  requests: QueueSwapRequest[]; // the group's open requests
+  currentMember: SwapMember | null;
+  isPresident: boolean;
+  currentUserId: string;
+  currentUserName: string;
+  onSwapChange: () => void;
+}
+
+const actionToasts: Record<SwapAction, string> = {
+  accept: 'Swap accepted. It now needs the president\'s approval.',
+  decline: 'Swap declined.',
+  cancel: 'Swap request withdrawn.',
+  approve: 'Swap approved. The payout queue has been updated.',
+  reject: 'Swap turned down.',
+};
+
+/**
+ * Members trade payout slots: one member proposes, the other accepts, the president approves
+ */
+export function QueueSwapCard({
+  group,
+  members,
+  swappableIds,
+  requests,
+  currentMember,
+  isPresident,
+  currentUserId,
+  currentUserName,
+  onSwapChange,
+}: QueueSwapCardProps) {
+  const { toast } = useToast();
+  const [targetId, setTargetId] = useState('');
+  const [note, setNote] = useState('');
+  const [proposing, setProposing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const canPropose = !!currentMember && swappableIds.includes(currentMember.id);
+  const targets = members.filter(m => m.id !== currentMember?.id && swappableIds.includes(m.id));
+  const visibleRequests = requests.filter(r =>
+    isPresident || r.requester_id === currentMember?.id || r.target_id === currentMember?.id
+  );
+
+  if (!(canPropose && targets.length > 0) && visibleRequests.length === 0) {
+    return null;
+  }
+
+  const toParty = (memberId: string): SwapParty => {
+    const member = members.find(m => m.id === memberId);
+    return { memberId, userId: member?.user_id || '', name: member?.profile?.name || 'A member' };
+  };
+
+  const getPosition = (memberId: string) => members.find(m => m.id === memberId)?.queue_position;
+
+  const handlePropose = async () => {
+    if (!currentMember || !targetId) return;
+
+    setProposing(true);
+    try {
+      const result = await proposeQueueSwap({
+        groupId: group.id,
+        groupName: group.name,
+        requester: { memberId: currentMember.id, userId: currentUserId, name: currentUserName },
+        target: toParty(targetId),
+        note,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Swap Requested",
+        description: `${toParty(targetId).name} has been asked to swap payout slots with you.`,
+      });
+      setTargetId('');
+      setNote('');
+      onSwapChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to request swap";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setProposing(false);
+    }
+  };
+
+  const handleAction = async (request: QueueSwapRequest, action: SwapAction) => {
+    const input: SwapActionInput = {
+      request,
+      groupName: group.name,
+      requester: toParty(request.requester_id),
+      target: toParty(request.target_id),
+      presidentId: group.president_id,
+      actorId: currentUserId,
+      actorName: currentUserName,
+    };
+
+    setBusyId(request.id);
+    try {
+      let result;
+      if (action === 'accept' || action === 'decline') {
+        result = await respondToQueueSwap(input, action === 'accept');
+      } else if (action === 'cancel') {
+        result = await cancelQueueSwap(input);
+      } else if (action === 'approve') {
+        result = await approveQueueSwap(input);
+      } else {
+        result = await rejectQueueSwap(input);
+      }
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({ title: "Swap Updated", description: actionToasts[action] });
+      onSwapChange();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update swap";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg text-slate-900 dark:text-white">Swap Payout Slots</CardTitle>
+            <CardDescription className="text-slate-500 dark:text-slate-400">
+              Trade places with another member · the president approves every swap
+            </CardDescription>
+          </div>
+          <ArrowLeftRight className="w-5 h-5 text-slate-400" strokeWidth={1.5} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canPropose && targets.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger className="rounded-xl" aria-label="Member to swap with">
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map(m => (
+                    <SelectItem key={m.id} value={m.id}>
+                      #{m.queue_position} {m.profile?.name || 'Unknown'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="bg-green-500 hover:bg-green-600 text-white rounded-xl shrink-0"
+                onClick={handlePropose}
+                disabled={proposing || !targetId}
+              >
+                {proposing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Request Swap
+              </Button>
+            </div>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note (optional)"
+              maxLength={200}
+              className="rounded-xl"
+            />
+          </div>
+        )}
+
+        {visibleRequests.map(request => {
+          const requester = toParty(request.requester_id);
+          const target = toParty(request.target_id);
+          const isTarget = request.target_id === currentMember?.id;
+          const isRequester = request.requester_id === currentMember?.id;
+          const busy = busyId === request.id;
+
+          return (
+            <div key={request.id} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">
+                  {requester.name} (#{getPosition(request.requester_id)}) ⇄ {target.name} (#{getPosition(request.target_id)})
+                </p>
+                <Badge variant="secondary" className="shrink-0">
+                  {request.status === 'proposed' ? `Waiting for ${target.name.split(' ')[0]}` : 'Waiting for approval'}
+                </Badge>
+              </div>
+              {request.note && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">"{request.note}"</p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {isTarget && request.status === 'proposed' && (
+                  <>
+                    <Button size="sm" className="bg-green-500 hover:bg-green-600 text-white rounded-xl" disabled={busy} onClick={() => handleAction(request, 'accept')}>
+                      {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Accept
+                    </Button>
+                    <Button size="sm" variant="outline" className="rounded-xl" disabled={busy} onClick={() => handleAction(request, 'decline')}>
+                      Decline
+                    </Button>
+                  </>
+                )}
+                {isPresident && request.status === 'accepted' && (
+                  <>
+                    <Button size="sm" className="bg-green-500 hover:bg-green-600 text-white rounded-xl" disabled={busy} onClick={() => handleAction(request, 'approve')}>
+                      {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" className="rounded-xl" disabled={busy} onClick={() => handleAction(request, 'reject')}>
+                      Turn Down
+                    </Button>
+                  </>
+                )}
+                {isRequester && (
+                  <Button size="sm" variant="ghost" className="rounded-xl" disabled={busy} onClick={() => handleAction(request, 'cancel')}>
+                    Withdraw
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
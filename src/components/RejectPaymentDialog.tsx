@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Loader2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatMoney } from '@/lib/currency';
+import { REJECTION_REASON_OPTIONS, validateRejection, type Rejection } from '@/lib/paymentEvents';
+import { RejectionReason } from '@/types/database';
+
+interface RejectPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  memberName: string;
+  amount: number;
+  currency?: string | null;
+  description?: string; // replaces the single-payment description, e.g. when rejecting a batch
+  rejecting: boolean;
+  onReject: (rejection: Rejection) => void;
+}
+
+/**
+ * President picks or types the reason for rejecting a payment
+ * The member is notified with it and it stays in the payment's thread
+ */
+export function RejectPaymentDialog({
+  open,
+  onOpenChange,
+  memberName,
+  amount,
+  currency,
+  description,
+  rejecting,
+  onReject,
+}: RejectPaymentDialogProps) {
+  const [reason, setReason] = useState<RejectionReason>('wrong_amount');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setReason('wrong_amount');
+    setNote('');
+  }, [open]);
+
+  const invalid = validateRejection({ reason, note });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Reject Payment</DialogTitle>
+          <DialogDescription className="dark:text-slate-400">
+            {description || `${memberName} will be told why their ${formatMoney(amount, currency)} payment was rejected so they can send it again.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <RadioGroup
+            value={reason}
+            onValueChange={value => setReason(value as RejectionReason)}
+            className="gap-2"
+          >
+            {REJECTION_REASON_OPTIONS.map(option => (
+              <Label
+                key={option.value}
+                htmlFor={`rejection-reason-${option.value}`}
+                className="flex items-center gap-3 px-4 py-3 rounded-xl border border-slate-200 dark:border-white/10 cursor-pointer"
+              >
+                <RadioGroupItem id={`rejection-reason-${option.value}`} value={option.value} />
+                <span className="text-sm font-medium text-slate-900 dark:text-white">{option.label}</span>
+              </Label>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-1">
+            <Label htmlFor="rejection-note" className="text-xs text-muted-foreground">
+              {reason === 'other' ? 'Reason' : 'Details (optional)'}
+            </Label>
+            <Textarea
+              id="rejection-note"
+              placeholder={reason === 'other' ? 'Tell them what went wrong' : 'e.g. We received 40, not 50'}
+              value={note}
+              maxLength={300}
+              onChange={(e) => setNote(e.target.value)}
+              className="resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="dark:bg-slate-800 dark:text-white dark:border-white/10"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => onReject({ reason, note })}
+            disabled={rejecting || !!invalid}
+          >
+            {rejecting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <XCircle className="mr-2 h-4 w-4" />
+            )}
+            Reject Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { sumAmounts } from '@/lib/money';
+import { getArrearsBalance, getMemberArrears, restoreLockedMember, RESTORE_MODE_OPTIONS, type MemberArrears } from '@/lib/arrears';
+import { GroupMember, Profile, RestoreMode } from '@/types/database';
+
+interface RestoreMemberDialogProps {
+  groupId: string;
+  contributionAmount: number;
+  currency?: string | null;
+  member: (GroupMember & { profile?: Profile | null }) | null; // the locked member, null when closed
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+  currentUserName: string;
+  onRestored: () => void;
+}
+
+/**
+ * President restores a locked member
+ * Shows what they owe from missed cycles and lets the president choose how they come back
+ */
+export function RestoreMemberDialog({
+  groupId,
+  contributionAmount,
+  currency,
+  member,
+  onOpenChange,
+  currentUserId,
+  currentUserName,
+  onRestored,
+}: RestoreMemberDialogProps) {
+  const { toast } = useToast();
+  const [arrears, setArrears] = useState<MemberArrears | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [mode, setMode] = useState<RestoreMode>('move_to_end');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!member) return;
+    let cancelled = false;
+    const fetchArrears = async () => {
+      setLoading(true);
+      setArrears(null);
+      setMode('move_to_end');
+      try {
+        const result = await getMemberArrears(groupId, member, contributionAmount);
+        if (!cancelled) setArrears(result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to work out arrears";
+        toast({
+          title: "Error",
+          description: errorMessage,
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchArrears();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [member?.id, groupId, contributionAmount]);
+
+  const earlierArrears = sumAmounts(arrears?.outstanding.map(a => getArrearsBalance(a)) || []);
+  const totalOwed = sumAmounts([arrears?.breakdown.total, earlierArrears]);
+  const memberName = member?.profile?.name || 'this member';
+
+  const handleRestore = async () => {
+    if (!member || !arrears) return;
+
+    setRestoring(true);
+    try {
+      const result = await restoreLockedMember({
+        groupId,
+        memberId: member.id,
+        memberUserId: member.user_id,
+        memberName: member.profile?.name || 'Member',
+        mode,
+        breakdown: arrears.breakdown,
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: result.restored ? "Member Restored" : "Arrears Recorded",
+        description: result.restored
+          ? `${memberName} is back at position #${result.newPosition} in the queue.`
+          : `${memberName} will be restored once their ${formatMoney(totalOwed, currency)} in arrears is paid.`,
+      });
+      onOpenChange(false);
+      onRestored();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to restore member";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!member} onOpenChange={onOpenChange}>
+      <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+        <DialogHeader>
+          <DialogTitle className="dark:text-white">Restore {memberName}</DialogTitle>
+          <DialogDescription className="dark:text-slate-400">
+            Their missed payment count is reset. What they owe is recorded as arrears and tracked until it is paid.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !arrears ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-900 dark:text-white">What they owe</p>
+              {arrears.breakdown.items.length === 0 && earlierArrears === 0 ? (
+                <p className="text-sm text-green-700 dark:text-green-400">Nothing owed from missed cycles.</p>
+              ) : (
+                <div className="rounded-xl border border-slate-200 dark:border-white/10 divide-y divide-slate-100 dark:divide-white/5">
+                  {arrears.breakdown.items.map(item => (
+                    <div key={item.cycleId} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className="text-slate-600 dark:text-slate-300">
+                        Cycle due {format(new Date(item.dueDate), 'MMM d, yyyy')}
+                        {item.paid > 0 && ` · ${formatMoney(item.paid, currency)} of ${formatMoney(item.due, currency)} paid`}
+                      </span>
+                      <span className="font-medium text-slate-900 dark:text-white">{formatMoney(item.owed, currency)}</span>
+                    </div>
+                  ))}
+                  {earlierArrears > 0 && (
+                    <div className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className="text-slate-600 dark:text-slate-300">Earlier arrears still unpaid</span>
+                      <span className="font-medium text-slate-900 dark:text-white">{formatMoney(earlierArrears, currency)}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between px-3 py-2 text-sm font-semibold">
+                    <span className="text-slate-900 dark:text-white">Total arrears</span>
+                    <span className="text-red-600 dark:text-red-400">{formatMoney(totalOwed, currency)}</span>
+                  </div>
+                </div>
+              )}
+              {arrears.lateFees > 0 && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  They also have {formatMoney(arrears.lateFees, currency)} in outstanding late fees, tracked in the Late Fees ledger.
+                </p>
+              )}
+            </div>
+
+            <RadioGroup
+              value={mode}
+              onValueChange={value => setMode(value as RestoreMode)}
+              className="gap-3"
+            >
+              {RESTORE_MODE_OPTIONS.filter(option => option.value !== 'after_arrears' || totalOwed > 0).map(option => (
+                <Label
+                  key={option.value}
+                  htmlFor={`restore-mode-${option.value}`}
+                  className="flex items-start gap-3 p-4 rounded-xl border border-slate-200 dark:border-white/10 cursor-pointer"
+                >
+                  <RadioGroupItem id={`restore-mode-${option.value}`} value={option.value} className="mt-0.5" />
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-slate-900 dark:text-white">{option.label}</p>
+                    <p className="text-xs font-normal text-slate-500 dark:text-slate-400">{option.description}</p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="dark:bg-slate-800 dark:text-white dark:border-white/10"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={restoring || loading || !arrears}
+            className="bg-green-500 hover:bg-green-600 text-white"
+          >
+            {restoring && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {mode === 'after_arrears' ? 'Record Arrears' : 'Restore Member'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Repeat, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { QueueStrategyDialog } from '@/components/QueueStrategyDialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { getRoundSummary, startRound, type RoundSummary } from '@/lib/rounds';
+import { GroupMember, Profile, Round, RoundQueueMode } from '@/types/database';
+
+interface RoundSummaryCardProps {
+  groupId: string;
+  round: Round;
+  members: (GroupMember & { profile?: Profile | null })[];
+  contributionAmount: number;
+  currency?: string | null;
+  isPresident: boolean;
+  bidCount: number; // bids placed for the next round
+  currentUserId: string;
+  currentUserName: string;
+  onRoundStarted: () => void;
+}
+
+const queueModeToasts: Record<RoundQueueMode, string> = {
+  carry_over: 'The payout queue carries over.',
+  lottery: 'The payout queue was set by lottery draw.',
+  bidding: 'The payout queue was set by bidding.',
+  seniority: 'The payout queue was set by seniority.',
+};
+
+/**
+ * End-of-round summary, shown once every member has received a payout
+ * President starts the next round from here and chooses how its queue is set
+ */
+export function RoundSummaryCard({
+  groupId,
+  round,
+  members,
+  contributionAmount,
+  currency,
+  isPresident,
+  bidCount,
+  currentUserId,
+  currentUserName,
+  onRoundStarted,
+}: RoundSummaryCardProps) {
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<RoundSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchSummary = async () => {
+      setLoading(true);
+      const result = await getRoundSummary(round, contributionAmount);
+      if (cancelled) return;
+      setSummary(result);
+      setLoading(false);
+    };
+
+    fetchSummary();
+    return () => {
+      cancelled = true;
+    };
+  }, [round, contributionAmount]);
+
+  const getName = (memberId: string) => members.find(m => m.id === memberId)?.profile?.name || 'Unknown';
+
+  const handleStartRound = async (queueMode: RoundQueueMode) => {
+    setStarting(true);
+    try {
+      const result = await startRound({
+        groupId,
+        queueMode,
+        actorId: currentUserId,
+        actorName: currentUserName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: `Round ${result.round?.round_number} Started`,
+        description: `${queueModeToasts[queueMode]} Start a cycle to begin collecting.`,
+      });
+      setDialogOpen(false);
+      onRoundStarted();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to start round";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg text-slate-900 dark:text-white">Round {round.round_number} Complete</CardTitle>
+              <CardDescription className="text-slate-500 dark:text-slate-400">
+                Every member has received a payout
+                {round.completed_at && ` · ${format(new Date(round.completed_at), 'MMM d, yyyy')}`}
+              </CardDescription>
+            </div>
+            <Trophy className="w-5 h-5 text-green-500" strokeWidth={1.5} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <Skeleton className="h-20 w-full" />
+          ) : summary && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">Cycles</p>
+                  <p className="text-xl font-semibold text-slate-900 dark:text-white">{summary.cycleCount}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-green-50 dark:bg-green-500/10">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">Collected</p>
+                  <p className="text-xl font-semibold text-green-700 dark:text-green-400">{formatMoney(summary.totalCollected, currency)}</p>
+                </div>
+                <div className="p-3 rounded-xl bg-blue-50 dark:bg-blue-500/10">
+                  <p className="text-xs text-slate-500 dark:text-slate-400">Paid Out</p>
+                  <p className="text-xl font-semibold text-blue-700 dark:text-blue-400">{formatMoney(summary.totalPaidOut, currency)}</p>
+                </div>
+              </div>
+
+              {summary.misses.length > 0 ? (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">Missed payments this round</p>
+                  {summary.misses.map(miss => (
+                    <div key={miss.memberId} className="flex items-center justify-between text-sm px-3">
+                      <span className="text-slate-600 dark:text-slate-300">{getName(miss.memberId)}</span>
+                      <span className="font-medium text-red-600 dark:text-red-400">{miss.count}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-green-700 dark:text-green-400">No missed payments this round.</p>
+              )}
+            </>
+          )}
+
+          {isPresident && (
+            <Button
+              className="w-full bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600"
+              onClick={() => setDialogOpen(true)}
+            >
+              <Repeat className="w-4 h-4 mr-2" />
+              Start Round {round.round_number + 1}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <QueueStrategyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        title={`Start Round ${round.round_number + 1}`}
+        description="Choose how the payout queue is set for the new round. Missed payment counts carry over."
+        confirmLabel="Start Round"
+        bidCount={bidCount}
+        submitting={starting}
+        onConfirm={handleStartRound}
+      />
+    </>
+  );
+}
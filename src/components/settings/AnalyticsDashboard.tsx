@@ -2,9 +2,17 @@ import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, ReferenceLine } from 'recharts';
 import { TrendingUp, Users, DollarSign, CheckCircle } from 'lucide-react';
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { formatMoney } from '@/lib/currency';
+import { formatFrequency, getCyclesPerYear } from '@/lib/frequency';
+import { buildGroupJournal, getGroupLedgerData, sumJournal, type JournalEntry } from '@/lib/groupLedger';
+import { fromMinor, multiplyMoney, toMinor } from '@/lib/money';
+import { getExpectedContribution } from '@/lib/shares';
+import { getGroupRounds } from '@/lib/rounds';
+import { GroupFrequency, FrequencyUnit, Round } from '@/types/database';
+import RoundFilter, { ALL_ROUNDS } from './RoundFilter';
 
 interface AnalyticsDashboardProps {
   groupId: string;
@@ -13,6 +21,9 @@ interface AnalyticsDashboardProps {
 interface GroupAnalytics {
   totalCollectedAllTime: number;
   contributionAmount: number;
+  currency: string;
+  frequencyLabel: string;
+  expectedMonthlyCollection: number;
   totalMembers: number;
   activeMembers: number;
   totalCycles: number;
@@ -26,6 +37,14 @@ interface GroupAnalytics {
 const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
   const [analytics, setAnalytics] = useState<GroupAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
+  const [rounds, setRounds] = useState<Round[]>([]);
+  const [roundId, setRoundId] = useState(ALL_ROUNDS);
+
+  useEffect(() => {
+    getGroupRounds(groupId).then(setRounds);
+  }, [groupId]);
+
+  const selectedRound = rounds.find(r => r.id === roundId) || null;
 
   useEffect(() => {
     const fetchAnalytics = async () => {
@@ -34,27 +53,43 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
         // Fetch group info
         const { data: group } = await supabase
           .from('groups')
-          .select('contribution_amount')
+          .select('contribution_amount, currency, frequency, frequency_interval, frequency_unit')
           .eq('id', groupId)
           .single();
 
         const contributionAmount = group?.contribution_amount || 0;
+        const frequencySettings = {
+          frequency: (group?.frequency || 'monthly') as GroupFrequency,
+          frequency_interval: group?.frequency_interval as number | null,
+          frequency_unit: group?.frequency_unit as FrequencyUnit | null,
+        };
 
         // Fetch all members
         const { data: members } = await supabase
           .from('group_members')
-          .select('id, status')
+          .select('id, status, shares')
           .eq('group_id', groupId);
 
         const totalMembers = members?.length || 0;
         const activeMembers = members?.filter(m => m.status === 'active').length || 0;
 
-        // Fetch all cycles
-        const { data: cycles } = await supabase
+        // Months hold a different number of cycles depending on the frequency
+        const expectedMonthlyCollection = fromMinor(multiplyMoney(
+          toMinor(getExpectedContribution(contributionAmount, members || [])),
+          getCyclesPerYear(frequencySettings) / 12
+        ));
+
+        // Fetch all cycles, or just the selected round's
+        let cyclesQuery = supabase
           .from('payment_cycles')
           .select('id, status, created_at')
-          .eq('group_id', groupId)
-          .order('created_at', { ascending: true });
+          .eq('group_id', groupId);
+
+        if (roundId !== ALL_ROUNDS) {
+          cyclesQuery = cyclesQuery.eq('round_id', roundId);
+        }
+
+        const { data: cycles } = await cyclesQuery.order('created_at', { ascending: true });
 
         const totalCycles = cycles?.length || 0;
         const completedCycles = cycles?.filter(c => c.status === 'closed').length || 0;
@@ -66,15 +101,23 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
         if (cycleIds.length > 0) {
           const { data: logs } = await supabase
             .from('payment_logs')
-            .select('status, cycle_id, verified_at')
+            .select('status, cycle_id, verified_at, member_id')
             .in('cycle_id', cycleIds);
           
           allPaymentLogs = logs || [];
         }
 
-        // Calculate total collected all time (verified payments)
+        // Money collected comes from the group journal: verified contributions,
+        // plus arrears payments when looking across every round
+        const journal = buildGroupJournal(members || [], contributionAmount, await getGroupLedgerData(groupId));
+        const cycleIdSet = new Set(cycleIds);
+        const collectedEntries = journal.filter(e =>
+          e.cycleId ? cycleIdSet.has(e.cycleId) : roundId === ALL_ROUNDS
+        );
+        const sumCollected = (entries: JournalEntry[]) => sumJournal(entries, ['contribution', 'arrears_payment']);
+
         const verifiedPayments = allPaymentLogs.filter(l => l.status === 'verified').length;
-        const totalCollectedAllTime = verifiedPayments * contributionAmount;
+        const totalCollectedAllTime = sumCollected(collectedEntries);
 
         // Calculate current cycle progress
         const activeCycle = cycles?.find(c => c.status === 'active');
@@ -101,15 +144,14 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
           const start = startOfMonth(date);
           const end = endOfMonth(date);
           
-          const monthLogs = allPaymentLogs.filter(l => {
-            if (!l.verified_at) return false;
-            const verifiedDate = new Date(l.verified_at);
-            return verifiedDate >= start && verifiedDate <= end && l.status === 'verified';
+          const monthEntries = collectedEntries.filter(e => {
+            const entryDate = new Date(e.date);
+            return entryDate >= start && entryDate <= end;
           });
           
           monthlyData.push({
             month: format(date, 'MMM'),
-            amount: monthLogs.length * contributionAmount,
+            amount: sumCollected(monthEntries),
           });
         }
 
@@ -128,6 +170,9 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
         setAnalytics({
           totalCollectedAllTime,
           contributionAmount,
+          currency: group?.currency,
+          frequencyLabel: formatFrequency(frequencySettings),
+          expectedMonthlyCollection,
           totalMembers,
           activeMembers,
           totalCycles,
@@ -145,7 +190,7 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
     };
 
     fetchAnalytics();
-  }, [groupId]);
+  }, [groupId, roundId]);
 
   if (loading) {
     return (
@@ -161,6 +206,12 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
 
   return (
     <div className="space-y-6">
+      {rounds.length > 1 && (
+        <div className="flex justify-end">
+          <RoundFilter rounds={rounds} value={roundId} onChange={setRoundId} />
+        </div>
+      )}
+
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -170,9 +221,11 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              ${analytics.totalCollectedAllTime.toLocaleString()}
+              {formatMoney(analytics.totalCollectedAllTime, analytics.currency)}
             </div>
-            <p className="text-xs text-muted-foreground">All-time verified payments</p>
+            <p className="text-xs text-muted-foreground">
+              {selectedRound ? `Verified payments in round ${selectedRound.round_number}` : 'All-time verified payments'}
+            </p>
           </CardContent>
         </Card>
 
@@ -237,7 +290,10 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
         <Card>
           <CardHeader>
             <CardTitle>Monthly Collections</CardTitle>
-            <CardDescription>Verified payments over the last 6 months</CardDescription>
+            <CardDescription>
+              Verified payments over the last 6 months · {analytics.frequencyLabel} contributions,
+              about {formatMoney(analytics.expectedMonthlyCollection, analytics.currency)} expected per month
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
@@ -247,13 +303,21 @@ const AnalyticsDashboard = ({ groupId }: AnalyticsDashboardProps) => {
                   <XAxis dataKey="month" className="text-xs" />
                   <YAxis className="text-xs" />
                   <Tooltip 
-                    formatter={(value: number) => [`$${value.toLocaleString()}`, 'Amount']}
+                    formatter={(value: number) => [formatMoney(value, analytics.currency), 'Amount']}
                     contentStyle={{ 
                       backgroundColor: 'hsl(var(--card))', 
                       border: '1px solid hsl(var(--border))' 
                     }}
                   />
                   <Bar dataKey="amount" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                  {analytics.expectedMonthlyCollection > 0 && (
+                    <ReferenceLine
+                      y={analytics.expectedMonthlyCollection}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="4 4"
+                      label={{ value: 'Expected', position: 'insideTopRight', className: 'text-xs' }}
+                    />
+                  )}
                 </BarChart>
               </ResponsiveContainer>
             </div>
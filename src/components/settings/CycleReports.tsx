@@ -6,7 +6,15 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Download, FileText } from 'lucide-react';
 import { format } from 'date-fns';
+import { formatMoney, moneyHeader } from '@/lib/currency';
 import { exportToCsv } from '@/lib/exportCsv';
+import { formatFrequency } from '@/lib/frequency';
+import { buildGroupJournal, getGroupLedgerData, sumJournal } from '@/lib/groupLedger';
+import { sumAmounts } from '@/lib/money';
+import { getMemberContribution } from '@/lib/shares';
+import { getGroupRounds } from '@/lib/rounds';
+import { FrequencyUnit, GroupFrequency, Round } from '@/types/database';
+import RoundFilter, { ALL_ROUNDS } from './RoundFilter';
 
 interface CycleReportsProps {
   groupId: string;
@@ -15,12 +23,15 @@ interface CycleReportsProps {
 
 interface CycleReport {
   cycleId: string;
+  roundNumber: number | null;
+  startDate: string;
   dueDate: string;
   status: string;
   recipientName: string;
   recipientEmail: string;
   totalExpected: number;
   totalCollected: number;
+  totalPaidOut: number;
   verifiedCount: number;
   pendingCount: number;
   unpaidCount: number;
@@ -30,6 +41,10 @@ interface CycleReport {
 
 const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
   const [reports, setReports] = useState<CycleReport[]>([]);
+  const [rounds, setRounds] = useState<Round[]>([]);
+  const [roundId, setRoundId] = useState(ALL_ROUNDS);
+  const [frequencyLabel, setFrequencyLabel] = useState('');
+  const [currency, setCurrency] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -39,16 +54,29 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
         // Get group contribution amount
         const { data: group } = await supabase
           .from('groups')
-          .select('contribution_amount')
+          .select('contribution_amount, currency, frequency, frequency_interval, frequency_unit')
           .eq('id', groupId)
           .single();
 
         const contributionAmount = group?.contribution_amount || 0;
+        if (group) {
+          setCurrency(group.currency);
+          setFrequencyLabel(formatFrequency({
+            frequency: group.frequency as GroupFrequency,
+            frequency_interval: group.frequency_interval as number | null,
+            frequency_unit: group.frequency_unit as FrequencyUnit | null,
+          }));
+        }
+
+        // Get payout rounds
+        const groupRounds = await getGroupRounds(groupId);
+        setRounds(groupRounds);
+        const roundMap = new Map(groupRounds.map(r => [r.id, r.round_number]));
 
         // Get all cycles
         const { data: cycles } = await supabase
           .from('payment_cycles')
-          .select('id, due_date, status, created_at')
+          .select('id, start_date, due_date, status, created_at, recipient_id, round_id')
           .eq('group_id', groupId)
           .order('due_date', { ascending: false });
 
@@ -61,7 +89,7 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
         // Get all members with profiles
         const { data: members } = await supabase
           .from('group_members')
-          .select('id, user_id, queue_position')
+          .select('id, user_id, queue_position, shares')
           .eq('group_id', groupId);
 
         const memberMap = new Map(members?.map(m => [m.id, m]) || []);
@@ -75,6 +103,9 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
 
         const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
 
+        // Money collected and paid out comes from the group journal
+        const journal = buildGroupJournal(members || [], contributionAmount, await getGroupLedgerData(groupId));
+
         // Get all payment logs
         const cycleIds = cycles.map(c => c.id);
         const { data: allLogs } = await supabase
@@ -94,12 +125,18 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
         const cycleReports: CycleReport[] = cycles.map((cycle, index) => {
           const logs = logsByCycle.get(cycle.id) || [];
           
-          // Find recipient (queue position matches cycle number - closed cycles count)
+          // Use the recorded recipient; older cycles fall back to queue position by closed cycle count
           const closedBefore = cycles.slice(index).filter(c => c.status === 'closed').length;
-          const recipientPosition = closedBefore;
-          const recipientMember = members?.find(m => m.queue_position === recipientPosition);
+          const recipientMember = cycle.recipient_id
+            ? memberMap.get(cycle.recipient_id)
+            : members?.find(m => m.queue_position === closedBefore);
           const recipientProfile = recipientMember ? profileMap.get(recipientMember.user_id) : null;
 
+          // Members holding more than one hand owe more than one contribution
+          const sumLogs = (cycleLogs: { member_id: string }[]) =>
+            sumAmounts(cycleLogs.map(l => getMemberContribution(contributionAmount, memberMap.get(l.member_id))));
+
+          const cycleEntries = journal.filter(e => e.cycleId === cycle.id);
           const verifiedCount = logs.filter(l => l.status === 'verified').length;
           const pendingCount = logs.filter(l => l.status === 'pending').length;
           const unpaidCount = logs.filter(l => l.status === 'unpaid').length;
@@ -107,12 +144,15 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
 
           return {
             cycleId: cycle.id,
+            roundNumber: roundMap.get(cycle.round_id) ?? null,
+            startDate: cycle.start_date,
             dueDate: cycle.due_date,
             status: cycle.status,
             recipientName: recipientProfile?.name || 'Unknown',
             recipientEmail: recipientProfile?.email || '',
-            totalExpected: logs.length * contributionAmount,
-            totalCollected: verifiedCount * contributionAmount,
+            totalExpected: sumLogs(logs),
+            totalCollected: sumJournal(cycleEntries, ['contribution']),
+            totalPaidOut: sumJournal(cycleEntries, ['payout']),
             verifiedCount,
             pendingCount,
             unpaidCount,
@@ -132,18 +172,27 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
     fetchReports();
   }, [groupId]);
 
+  const selectedRound = rounds.find(r => r.id === roundId) || null;
+  const visibleReports = selectedRound
+    ? reports.filter(r => r.roundNumber === selectedRound.round_number)
+    : reports;
+
   const handleExportCsv = () => {
-    const filename = `${groupName.replace(/\s+/g, '_')}_cycle_reports_${format(new Date(), 'yyyy-MM-dd')}`;
+    const roundSuffix = selectedRound ? `_round_${selectedRound.round_number}` : '';
+    const filename = `${groupName.replace(/\s+/g, '_')}_cycle_reports${roundSuffix}_${format(new Date(), 'yyyy-MM-dd')}`;
     
     exportToCsv(
-      reports,
+      visibleReports,
       [
+        { header: 'Round', accessor: 'roundNumber' },
+        { header: 'Start Date', accessor: (r) => format(new Date(r.startDate), 'yyyy-MM-dd') },
         { header: 'Due Date', accessor: (r) => format(new Date(r.dueDate), 'yyyy-MM-dd') },
         { header: 'Status', accessor: 'status' },
         { header: 'Recipient Name', accessor: 'recipientName' },
         { header: 'Recipient Email', accessor: 'recipientEmail' },
-        { header: 'Expected Amount', accessor: 'totalExpected' },
-        { header: 'Collected Amount', accessor: 'totalCollected' },
+        { header: moneyHeader('Expected Amount', currency), accessor: 'totalExpected' },
+        { header: moneyHeader('Collected Amount', currency), accessor: 'totalCollected' },
+        { header: moneyHeader('Paid Out', currency), accessor: 'totalPaidOut' },
         { header: 'Verified Payments', accessor: 'verifiedCount' },
         { header: 'Pending Payments', accessor: 'pendingCount' },
         { header: 'Unpaid', accessor: 'unpaidCount' },
@@ -169,12 +218,18 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
   };
 
   // Summary stats
-  const totalCollected = reports.reduce((sum, r) => sum + r.totalCollected, 0);
-  const totalExpected = reports.reduce((sum, r) => sum + r.totalExpected, 0);
-  const completedCycles = reports.filter(r => r.status === 'closed').length;
+  const totalCollected = sumAmounts(visibleReports.map(r => r.totalCollected));
+  const totalExpected = sumAmounts(visibleReports.map(r => r.totalExpected));
+  const completedCycles = visibleReports.filter(r => r.status === 'closed').length;
 
   return (
     <div className="space-y-6">
+      {rounds.length > 1 && (
+        <div className="flex justify-end">
+          <RoundFilter rounds={rounds} value={roundId} onChange={setRoundId} />
+        </div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
@@ -182,7 +237,7 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
             <CardTitle className="text-sm font-medium">Total Cycles</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{reports.length}</div>
+            <div className="text-2xl font-bold">{visibleReports.length}</div>
             <p className="text-xs text-muted-foreground">{completedCycles} completed</p>
           </CardContent>
         </Card>
@@ -192,9 +247,9 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
             <CardTitle className="text-sm font-medium">Total Collected</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">${totalCollected.toLocaleString()}</div>
+            <div className="text-2xl font-bold text-green-600">{formatMoney(totalCollected, currency)}</div>
             <p className="text-xs text-muted-foreground">
-              of ${totalExpected.toLocaleString()} expected
+              of {formatMoney(totalExpected, currency)} expected
             </p>
           </CardContent>
         </Card>
@@ -217,15 +272,17 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
         <CardHeader className="flex flex-row items-center justify-between">
           <div>
             <CardTitle>Cycle Reports</CardTitle>
-            <CardDescription>Historical payment cycle data</CardDescription>
+            <CardDescription>
+              Historical payment cycle data{frequencyLabel && ` · ${frequencyLabel} cycles`}
+            </CardDescription>
           </div>
-          <Button onClick={handleExportCsv} disabled={reports.length === 0}>
+          <Button onClick={handleExportCsv} disabled={visibleReports.length === 0}>
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
         </CardHeader>
         <CardContent>
-          {reports.length > 0 ? (
+          {visibleReports.length > 0 ? (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
@@ -235,13 +292,14 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
                     <TableHead>Recipient</TableHead>
                     <TableHead className="text-right">Expected</TableHead>
                     <TableHead className="text-right">Collected</TableHead>
+                    <TableHead className="text-right">Paid Out</TableHead>
                     <TableHead className="text-center">Verified</TableHead>
                     <TableHead className="text-center">Pending</TableHead>
                     <TableHead className="text-center">Missed</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {reports.map((report) => (
+                  {visibleReports.map((report) => (
                     <TableRow key={report.cycleId}>
                       <TableCell className="font-medium">
                         {format(new Date(report.dueDate), 'MMM d, yyyy')}
@@ -254,10 +312,13 @@ const CycleReports = ({ groupId, groupName }: CycleReportsProps) => {
                         </div>
                       </TableCell>
                       <TableCell className="text-right">
-                        ${report.totalExpected.toLocaleString()}
+                        {formatMoney(report.totalExpected, currency)}
                       </TableCell>
                       <TableCell className="text-right text-green-600 font-medium">
-                        ${report.totalCollected.toLocaleString()}
+                        {formatMoney(report.totalCollected, currency)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(report.totalPaidOut, currency)}
                       </TableCell>
                       <TableCell className="text-center">
                         <span className="text-green-600">{report.verifiedCount}</span>
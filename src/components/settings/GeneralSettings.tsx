@@ -2,7 +2,7 @@ import { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Group, GroupFrequency } from '@/types/database';
+import { CurrencyCode, FrequencyUnit, Group, GroupFrequency, LateFeeType, LockCountMode, MonthEndRule, ScheduleMode } from '@/types/database';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,8 +12,17 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Save, Archive, AlertTriangle, Camera, Upload, Loader2, Users, Eye, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Save, Archive, AlertTriangle, Camera, Upload, Loader2, Users, Eye, Trash2, CalendarClock, Plus, X, ShieldAlert, BadgeMinus } from 'lucide-react';
+import { format } from 'date-fns';
 import { uploadGroupPhoto, deleteOldGroupPhotos } from '@/lib/storage';
+import { getGroupSchedule, getUpcomingCycles, parseScheduleDate } from '@/lib/cycleSchedule';
+import { FREQUENCY_OPTIONS, FREQUENCY_UNITS, validateCustomInterval } from '@/lib/frequency';
+import { describeLockPolicy, getLockPolicy, LockPolicy, validateLockPolicy } from '@/lib/lockPolicy';
+import { CURRENCY_OPTIONS, getCurrency } from '@/lib/currency';
+import { parseAmount } from '@/lib/money';
+import { formatLateFeePolicy, getLateFeePolicy, LateFeePolicy, validateLateFeePolicy } from '@/lib/lateFees';
 
 interface GeneralSettingsProps {
   group: Group;
@@ -26,8 +35,30 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
   
   const [name, setName] = useState(group.name);
   const [contributionAmount, setContributionAmount] = useState(group.contribution_amount.toString());
+  const [currency, setCurrency] = useState<CurrencyCode>(getCurrency(group.currency).code);
   const [frequency, setFrequency] = useState<GroupFrequency>(group.frequency);
+  const [frequencyInterval, setFrequencyInterval] = useState(String(group.frequency_interval || 10));
+  const [frequencyUnit, setFrequencyUnit] = useState<FrequencyUnit>(group.frequency_unit || 'days');
   const [photoUrl, setPhotoUrl] = useState<string | null>(group.photo_url);
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>(group.schedule_mode || 'manual');
+  const [anchorDate, setAnchorDate] = useState(group.schedule_anchor_date || '');
+  const [monthEndRule, setMonthEndRule] = useState<MonthEndRule>(group.schedule_month_end_rule || 'last_day');
+  const [skipDates, setSkipDates] = useState<string[]>(group.schedule_skip_dates || []);
+  const [newSkipDate, setNewSkipDate] = useState('');
+  const [savingSchedule, setSavingSchedule] = useState(false);
+  const initialPolicy = getLockPolicy(group);
+  const [lockThreshold, setLockThreshold] = useState(String(initialPolicy.threshold));
+  const [lockCountMode, setLockCountMode] = useState<LockCountMode>(initialPolicy.countMode);
+  const [graceEnabled, setGraceEnabled] = useState(initialPolicy.lateGraceDays !== null);
+  const [graceDays, setGraceDays] = useState(String(initialPolicy.lateGraceDays ?? 0));
+  const [decayEnabled, setDecayEnabled] = useState(initialPolicy.decayCycles !== null);
+  const [decayCycles, setDecayCycles] = useState(String(initialPolicy.decayCycles ?? 3));
+  const [savingPolicy, setSavingPolicy] = useState(false);
+  const initialLateFees = getLateFeePolicy(group);
+  const [lateFeeType, setLateFeeType] = useState<LateFeeType>(initialLateFees.type);
+  const [lateFeeAmount, setLateFeeAmount] = useState(initialLateFees.amount ? String(initialLateFees.amount) : '');
+  const [lateFeePerDay, setLateFeePerDay] = useState(initialLateFees.perDay);
+  const [savingLateFees, setSavingLateFees] = useState(false);
   const [saving, setSaving] = useState(false);
   const [archiving, setArchiving] = useState(false);
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
@@ -146,7 +177,7 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
       return;
     }
 
-    const amount = parseFloat(contributionAmount);
+    const amount = parseAmount(contributionAmount, currency);
     if (isNaN(amount) || amount <= 0) {
       toast({
         title: 'Error',
@@ -156,6 +187,20 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
       return;
     }
 
+    const isCustom = frequency === 'custom';
+    const interval = Number(frequencyInterval);
+    if (isCustom) {
+      const intervalError = validateCustomInterval(interval, frequencyUnit);
+      if (intervalError) {
+        toast({
+          title: 'Error',
+          description: intervalError,
+          variant: 'destructive',
+        });
+        return;
+      }
+    }
+
     setSaving(true);
     try {
       const { data, error } = await supabase
@@ -163,7 +208,10 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
         .update({
           name: name.trim(),
           contribution_amount: amount,
+          currency,
           frequency,
+          frequency_interval: isCustom ? interval : null,
+          frequency_unit: isCustom ? frequencyUnit : null,
           updated_at: new Date().toISOString(),
         })
         .eq('id', group.id)
@@ -189,6 +237,177 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
     }
   };
 
+  const handleAddSkipDate = () => {
+    if (!newSkipDate || skipDates.includes(newSkipDate)) return;
+    setSkipDates([...skipDates, newSkipDate].sort());
+    setNewSkipDate('');
+  };
+
+  const handleSaveSchedule = async () => {
+    if (scheduleMode !== 'manual' && !anchorDate) {
+      toast({
+        title: 'Error',
+        description: 'Pick an anchor date to schedule cycles automatically',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingSchedule(true);
+    try {
+      const { data, error } = await supabase
+        .from('groups')
+        .update({
+          schedule_mode: scheduleMode,
+          schedule_anchor_date: anchorDate || null,
+          schedule_month_end_rule: monthEndRule,
+          schedule_skip_dates: skipDates,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', group.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onUpdate(data);
+      toast({
+        title: 'Schedule Saved',
+        description: 'Cycle scheduling has been updated successfully.',
+      });
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update cycle schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  // Policy as currently entered in the form
+  const draftPolicy: LockPolicy = {
+    threshold: Number(lockThreshold),
+    countMode: lockCountMode,
+    lateGraceDays: graceEnabled ? Number(graceDays) : null,
+    decayCycles: lockCountMode === 'cumulative' && decayEnabled ? Number(decayCycles) : null,
+  };
+
+  const handleSavePolicy = async () => {
+    const policyError = validateLockPolicy(draftPolicy);
+    if (policyError) {
+      toast({
+        title: 'Error',
+        description: policyError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingPolicy(true);
+    try {
+      const { data, error } = await supabase
+        .from('groups')
+        .update({
+          lock_threshold: draftPolicy.threshold,
+          lock_count_mode: draftPolicy.countMode,
+          lock_grace_days: draftPolicy.lateGraceDays,
+          lock_decay_cycles: draftPolicy.decayCycles,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', group.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onUpdate(data);
+      toast({
+        title: 'Policy Saved',
+        description: 'The new rules apply from the next cycle close.',
+      });
+    } catch (error) {
+      console.error('Error updating lock policy:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update missed payment policy',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const draftLateFees: LateFeePolicy = {
+    type: lateFeeType,
+    amount: lateFeeType === 'none' ? 0 : lateFeeType === 'flat' ? parseAmount(lateFeeAmount, group.currency) : parseFloat(lateFeeAmount),
+    perDay: lateFeeType !== 'none' && lateFeePerDay,
+  };
+
+  const handleSaveLateFees = async () => {
+    const lateFeeError = validateLateFeePolicy(draftLateFees);
+    if (lateFeeError) {
+      toast({
+        title: 'Error',
+        description: lateFeeError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingLateFees(true);
+    try {
+      const { data, error } = await supabase
+        .from('groups')
+        .update({
+          late_fee_type: draftLateFees.type,
+          late_fee_amount: draftLateFees.amount,
+          late_fee_per_day: draftLateFees.perDay,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', group.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      onUpdate(data);
+      toast({
+        title: 'Late Fees Saved',
+        description: 'Fees are charged to late payments when each cycle closes.',
+      });
+    } catch (error) {
+      console.error('Error updating late fees:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update late fees',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingLateFees(false);
+    }
+  };
+
+  // Preview of the next cycles with the unsaved schedule settings
+  const schedulePreview = (() => {
+    if (!anchorDate) return [];
+    try {
+      const schedule = getGroupSchedule({
+        frequency,
+        frequency_interval: Number(frequencyInterval) || 1,
+        frequency_unit: frequencyUnit,
+        schedule_anchor_date: anchorDate,
+        schedule_month_end_rule: monthEndRule,
+        schedule_skip_dates: skipDates,
+      });
+      return getUpcomingCycles(schedule, 3);
+    } catch {
+      return [];
+    }
+  })();
+
   const handleArchive = async () => {
     setArchiving(true);
     try {
@@ -352,7 +571,7 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="amount">Contribution Amount ($)</Label>
+            <Label htmlFor="amount">Contribution Amount ({getCurrency(currency).symbol})</Label>
             <Input
               id="amount"
               type="number"
@@ -364,6 +583,23 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="currency">Currency</Label>
+            <Select value={currency} onValueChange={(v) => setCurrency(v as CurrencyCode)}>
+              <SelectTrigger id="currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Amounts are not converted when the currency changes
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="frequency">Payment Frequency</Label>
             <Select value={frequency} onValueChange={(v) => setFrequency(v as GroupFrequency)}>
@@ -371,12 +607,40 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="weekly">Weekly</SelectItem>
-                <SelectItem value="monthly">Monthly</SelectItem>
+                {FREQUENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
+          {frequency === 'custom' && (
+            <div className="space-y-2">
+              <Label htmlFor="frequency-interval">Repeat Every</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="frequency-interval"
+                  type="number"
+                  min="1"
+                  step="1"
+                  className="w-24"
+                  value={frequencyInterval}
+                  onChange={(e) => setFrequencyInterval(e.target.value)}
+                />
+                <Select value={frequencyUnit} onValueChange={(v) => setFrequencyUnit(v as FrequencyUnit)}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FREQUENCY_UNITS.map(unit => (
+                      <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
           <Button onClick={handleSave} disabled={saving} className="w-full sm:w-auto">
             <Save className="h-4 w-4 mr-2" />
             {saving ? 'Saving...' : 'Save Changes'}
@@ -384,6 +648,279 @@ const GeneralSettings = ({ group, onUpdate }: GeneralSettingsProps) => {
         </CardContent>
       </Card>
 
+      {/* Cycle Scheduling */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Cycle Scheduling
+          </CardTitle>
+          <CardDescription>Work out cycle dates from the payment frequency</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-mode">When a cycle closes</Label>
+            <Select value={scheduleMode} onValueChange={(v) => setScheduleMode(v as ScheduleMode)}>
+              <SelectTrigger id="schedule-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="manual">Pick dates manually</SelectItem>
+                <SelectItem value="confirm">Suggest the next cycle for me to confirm</SelectItem>
+                <SelectItem value="auto">Open the next cycle automatically</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="anchor-date">Anchor Date</Label>
+              <Input
+                id="anchor-date"
+                type="date"
+                value={anchorDate}
+                onChange={(e) => setAnchorDate(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Cycles repeat from this date</p>
+            </div>
+
+            {(frequency === 'monthly' || frequency === 'quarterly') && (
+              <div className="space-y-2">
+                <Label htmlFor="month-end-rule">Short Months</Label>
+                <Select value={monthEndRule} onValueChange={(v) => setMonthEndRule(v as MonthEndRule)}>
+                  <SelectTrigger id="month-end-rule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="last_day">Use the last day of the month</SelectItem>
+                    <SelectItem value="next_month">Move to the 1st of the next month</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">For anchor days like the 31st</p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="skip-date">Skipped Dates</Label>
+            <div className="flex gap-2">
+              <Input
+                id="skip-date"
+                type="date"
+                value={newSkipDate}
+                onChange={(e) => setNewSkipDate(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={handleAddSkipDate} disabled={!newSkipDate}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Cycle dates falling on these days move to the next day</p>
+            {skipDates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {skipDates.map(date => (
+                  <Badge key={date} variant="secondary" className="gap-1">
+                    {format(parseScheduleDate(date), 'MMM d, yyyy')}
+                    <button
+                      type="button"
+                      onClick={() => setSkipDates(skipDates.filter(d => d !== date))}
+                      className="hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {schedulePreview.length > 0 && (
+            <div className="p-4 border rounded-lg space-y-1">
+              <p className="text-sm font-medium">Upcoming Cycles</p>
+              {schedulePreview.map(cycle => (
+                <p key={cycle.index} className="text-sm text-muted-foreground">
+                  {format(cycle.startDate, 'EEE, MMM d')} → {format(cycle.dueDate, 'EEE, MMM d, yyyy')}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={handleSaveSchedule} disabled={savingSchedule} className="w-full sm:w-auto">
+            <Save className="h-4 w-4 mr-2" />
+            {savingSchedule ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Missed Payment Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Missed Payment Policy
+          </CardTitle>
+          <CardDescription>When members get locked. Applied each time a cycle closes and shown to all members.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lock-threshold">Lock After</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="lock-threshold"
+                  type="number"
+                  min="1"
+                  step="1"
+                  className="w-24"
+                  value={lockThreshold}
+                  onChange={(e) => setLockThreshold(e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground">missed payments</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lock-count-mode">Counting</Label>
+              <Select value={lockCountMode} onValueChange={(v) => setLockCountMode(v as LockCountMode)}>
+                <SelectTrigger id="lock-count-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="consecutive">Consecutive (an on-time payment resets the count)</SelectItem>
+                  <SelectItem value="cumulative">Cumulative (misses add up)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+            <div className="space-y-1">
+              <Label htmlFor="grace-enabled">Count late payments as missed</Label>
+              <p className="text-xs text-muted-foreground">
+                Payments marked as sent after the due date plus a grace period count as missed
+              </p>
+              {graceEnabled && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Input
+                    id="grace-days"
+                    type="number"
+                    min="0"
+                    step="1"
+                    className="w-24"
+                    value={graceDays}
+                    onChange={(e) => setGraceDays(e.target.value)}
+                  />
+                  <span className="text-sm text-muted-foreground">grace days</span>
+                </div>
+              )}
+            </div>
+            <Switch id="grace-enabled" checked={graceEnabled} onCheckedChange={setGraceEnabled} />
+          </div>
+
+          {lockCountMode === 'cumulative' && (
+            <div className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+              <div className="space-y-1">
+                <Label htmlFor="decay-enabled">Forgive misses over time</Label>
+                <p className="text-xs text-muted-foreground">
+                  Remove one missed payment after a run of on-time cycles
+                </p>
+                {decayEnabled && (
+                  <div className="flex items-center gap-2 pt-2">
+                    <Input
+                      id="decay-cycles"
+                      type="number"
+                      min="1"
+                      step="1"
+                      className="w-24"
+                      value={decayCycles}
+                      onChange={(e) => setDecayCycles(e.target.value)}
+                    />
+                    <span className="text-sm text-muted-foreground">on-time cycles in a row</span>
+                  </div>
+                )}
+              </div>
+              <Switch id="decay-enabled" checked={decayEnabled} onCheckedChange={setDecayEnabled} />
+            </div>
+          )}
+
+          {!validateLockPolicy(draftPolicy) && (
+            <div className="p-4 border rounded-lg space-y-1">
+              <p className="text-sm font-medium">What members will see</p>
+              {describeLockPolicy(draftPolicy).map(rule => (
+                <p key={rule} className="text-sm text-muted-foreground">{rule}</p>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={handleSavePolicy} disabled={savingPolicy} className="w-full sm:w-auto">
+            <Save className="h-4 w-4 mr-2" />
+            {savingPolicy ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Late Fees */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BadgeMinus className="h-5 w-5" />
+            Late Fees
+          </CardTitle>
+          <CardDescription>Charged to payments marked as sent after the due date. Recorded when a cycle closes.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="late-fee-type">Fee Type</Label>
+              <Select value={lateFeeType} onValueChange={(v) => setLateFeeType(v as LateFeeType)}>
+                <SelectTrigger id="late-fee-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No late fees</SelectItem>
+                  <SelectItem value="flat">Flat amount</SelectItem>
+                  <SelectItem value="percent">Percent of contribution</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {lateFeeType !== 'none' && (
+              <div className="space-y-2">
+                <Label htmlFor="late-fee-amount">{lateFeeType === 'flat' ? `Amount (${getCurrency(group.currency).symbol})` : 'Percent (%)'}</Label>
+                <Input
+                  id="late-fee-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lateFeeAmount}
+                  onChange={(e) => setLateFeeAmount(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {lateFeeType !== 'none' && (
+            <div className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+              <div className="space-y-1">
+                <Label htmlFor="late-fee-per-day">Charge per day late</Label>
+                <p className="text-xs text-muted-foreground">
+                  Multiply the fee by the number of days the payment was late
+                </p>
+              </div>
+              <Switch id="late-fee-per-day" checked={lateFeePerDay} onCheckedChange={setLateFeePerDay} />
+            </div>
+          )}
+
+          {!validateLateFeePolicy(draftLateFees) && (
+            <p className="text-sm text-muted-foreground">{formatLateFeePolicy(draftLateFees, group.currency)}</p>
+          )}
+
+          <Button onClick={handleSaveLateFees} disabled={savingLateFees} className="w-full sm:w-auto">
+            <Save className="h-4 w-4 mr-2" />
+            {savingLateFees ? 'Saving...' : 'Save Late Fees'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Group Info (Read-only) */}
       <Card>
         <CardHeader>
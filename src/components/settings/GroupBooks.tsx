@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CheckCircle, Download, Landmark, Scale } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatMoney } from '@/lib/currency';
+import { sumAmounts } from '@/lib/money';
+import {
+  buildGroupJournal,
+  exportGroupJournal,
+  getAccountBalances,
+  getGroupLedgerData,
+  reconcileCycles,
+  sumJournal,
+  JOURNAL_KIND_LABELS,
+  type AccountBalance,
+  type CycleReconciliation,
+  type JournalEntry,
+  type LedgerAccount,
+} from '@/lib/groupLedger';
+
+interface GroupBooksProps {
+  groupId: string;
+  groupName: string;
+}
+
+interface GroupBooksData {
+  journal: JournalEntry[];
+  accounts: AccountBalance[];
+  reconciliation: CycleReconciliation[];
+  memberNames: Map<string, string>;
+  currency: string;
+}
+
+const GroupBooks = ({ groupId, groupName }: GroupBooksProps) => {
+  const [books, setBooks] = useState<GroupBooksData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchBooks = async () => {
+      setLoading(true);
+      try {
+        const [{ data: group }, { data: members }, ledgerData] = await Promise.all([
+          supabase.from('groups').select('contribution_amount, currency').eq('id', groupId).single(),
+          supabase.from('group_members').select('id, user_id, shares').eq('group_id', groupId),
+          getGroupLedgerData(groupId),
+        ]);
+
+        const userIds = members?.map(m => m.user_id) || [];
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, name')
+          .in('id', userIds);
+
+        const profileMap = new Map(profiles?.map(p => [p.id, p.name]) || []);
+        const memberNames = new Map((members || []).map(m => [m.id, profileMap.get(m.user_id) || 'Unknown']));
+
+        const journal = buildGroupJournal(members || [], group?.contribution_amount || 0, ledgerData);
+
+        setBooks({
+          journal,
+          accounts: getAccountBalances(journal),
+          reconciliation: reconcileCycles(members || [], group?.contribution_amount || 0, ledgerData, journal),
+          memberNames,
+          currency: group?.currency,
+        });
+      } catch (error) {
+        console.error('Error fetching group books:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBooks();
+  }, [groupId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!books) {
+    return <div className="text-center text-muted-foreground">Failed to load the group's books</div>;
+  }
+
+  const money = (amount: number) => formatMoney(amount, books.currency);
+
+  const accountName = (account: LedgerAccount) => {
+    if (account === 'pot') return 'Group pot';
+    if (account === 'fees') return 'Late fees';
+    return books.memberNames.get(account.replace('member:', '')) || 'Unknown member';
+  };
+
+  const potBalance = books.accounts.find(a => a.account === 'pot')?.balance || 0;
+  const totalIn = sumJournal(books.journal, ['contribution', 'arrears_payment']);
+  const totalOut = sumJournal(books.journal, ['payout']);
+  const booksBalance = sumAmounts(books.accounts.map(a => a.balance));
+  const flagged = books.reconciliation.filter(r => r.status === 'mismatch' || r.status === 'short');
+
+  // Pot and fees first, then members by name
+  const sortedAccounts = [...books.accounts].sort((a, b) => {
+    const rank = (account: LedgerAccount) => (account === 'pot' ? 0 : account === 'fees' ? 1 : 2);
+    return rank(a.account) - rank(b.account) || accountName(a.account).localeCompare(accountName(b.account));
+  });
+
+  const getReconciliationBadge = ({ status, shortfall }: CycleReconciliation) => {
+    if (status === 'matched') {
+      return <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">Matched</Badge>;
+    }
+    if (status === 'mismatch') {
+      return <Badge variant="destructive">Mismatch</Badge>;
+    }
+    if (status === 'short') {
+      return <Badge variant="destructive">Short by {money(shortfall)}</Badge>;
+    }
+    return <Badge variant="secondary">Awaiting payout</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Held in the Pot</CardTitle>
+            <Landmark className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{money(potBalance)}</div>
+            <p className="text-xs text-muted-foreground">Collected less paid out</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Money In</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{money(totalIn)}</div>
+            <p className="text-xs text-muted-foreground">Verified contributions and arrears payments</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Money Out</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{money(totalOut)}</div>
+            <p className="text-xs text-muted-foreground">Payouts sent or confirmed</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Reconciliation</CardTitle>
+            {flagged.length > 0
+              ? <AlertTriangle className="h-4 w-4 text-orange-500" />
+              : <CheckCircle className="h-4 w-4 text-green-500" />}
+          </CardHeader>
+          <CardContent>
+            <div className={flagged.length > 0 ? 'text-2xl font-bold text-orange-600' : 'text-2xl font-bold text-green-600'}>
+              {flagged.length}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {flagged.length === 1 ? 'Cycle' : 'Cycles'} where payout and contributions differ
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Reconciliation */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cycle Reconciliation</CardTitle>
+          <CardDescription>The payout made for each cycle compared with what its recipient was owed and what the other members paid in</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {books.reconciliation.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Due Date</TableHead>
+                    <TableHead className="text-right">Collected</TableHead>
+                    <TableHead className="text-right">Expected Payout</TableHead>
+                    <TableHead className="text-right">Paid Out</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {books.reconciliation.map(row => (
+                    <TableRow key={row.cycleId} className={flagged.includes(row) ? 'bg-red-500/5' : undefined}>
+                      <TableCell className="font-medium">
+                        {format(new Date(row.dueDate), 'MMM d, yyyy')}
+                        {row.cycleStatus === 'active' && <span className="text-xs text-muted-foreground"> · open</span>}
+                      </TableCell>
+                      <TableCell className="text-right text-green-600">{money(row.collected)}</TableCell>
+                      <TableCell className="text-right">{money(row.expectedPayout)}</TableCell>
+                      <TableCell className="text-right">{money(row.paidOut)}</TableCell>
+                      <TableCell className={row.difference !== 0 && row.status !== 'awaiting_payout' ? 'text-right font-medium text-red-600' : 'text-right'}>
+                        {row.difference > 0 && '+'}{money(row.difference)}
+                      </TableCell>
+                      <TableCell>{getReconciliationBadge(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">No money has moved yet</div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Accounts */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Accounts</CardTitle>
+            <CardDescription>Debits and credits posted to the pot, late fees and each member</CardDescription>
+          </div>
+          {booksBalance === 0 ? (
+            <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">
+              <Scale className="h-3 w-3 mr-1" />
+              Books balance
+            </Badge>
+          ) : (
+            <Badge variant="destructive">
+              <Scale className="h-3 w-3 mr-1" />
+              Out of balance by {money(booksBalance)}
+            </Badge>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Debits</TableHead>
+                  <TableHead className="text-right">Credits</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedAccounts.map(account => (
+                  <TableRow key={account.account}>
+                    <TableCell className="font-medium">{accountName(account.account)}</TableCell>
+                    <TableCell className="text-right">{money(account.debits)}</TableCell>
+                    <TableCell className="text-right">{money(account.credits)}</TableCell>
+                    <TableCell className="text-right font-medium">{money(account.balance)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Journal */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Journal</CardTitle>
+            <CardDescription>Every contribution, payout, fee and waiver, newest first</CardDescription>
+          </div>
+          <Button
+            onClick={() => exportGroupJournal(books.journal, accountName, groupName, books.currency)}
+            disabled={books.journal.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {books.journal.length > 0 ? (
+            <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Debit</TableHead>
+                    <TableHead>Credit</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...books.journal].reverse().map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(entry.date), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{JOURNAL_KIND_LABELS[entry.kind]}</p>
+                        <p className="text-xs text-muted-foreground">{entry.description}</p>
+                      </TableCell>
+                      <TableCell>{accountName(entry.debit)}</TableCell>
+                      <TableCell>{accountName(entry.credit)}</TableCell>
+                      <TableCell className="text-right font-medium">{money(entry.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">No journal entries yet</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GroupBooks;
@@ -1,14 +1,23 @@
 import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Users, AlertTriangle } from 'lucide-react';
+import { Users, AlertTriangle, Download, BookOpen } from 'lucide-react';
+import { MemberLedger } from '@/components/MemberLedger';
+import { formatMoney, moneyHeader } from '@/lib/currency';
+import { exportToCsv } from '@/lib/exportCsv';
+import { getGroupLedgerData } from '@/lib/groupLedger';
+import { buildMemberBalance, type MemberBalance } from '@/lib/memberBalance';
 
 interface MemberPerformanceProps {
   groupId: string;
+  groupName: string;
 }
 
 interface MemberStats {
@@ -24,22 +33,32 @@ interface MemberStats {
   pendingPayments: number;
   missedPayments: number;
   paymentRate: number;
+  balance: MemberBalance;
 }
 
-const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
+const MemberPerformance = ({ groupId, groupName }: MemberPerformanceProps) => {
   const [memberStats, setMemberStats] = useState<MemberStats[]>([]);
   const [loading, setLoading] = useState(true);
+  const [ledgerMember, setLedgerMember] = useState<MemberStats | null>(null);
+  const [currency, setCurrency] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchMemberStats = async () => {
       setLoading(true);
       try {
         // Fetch all members with profiles
-        const { data: members } = await supabase
-          .from('group_members')
-          .select('id, user_id, role, status, queue_position, missed_payment_count')
-          .eq('group_id', groupId)
-          .order('queue_position');
+        const [{ data: members }, { data: group }] = await Promise.all([
+          supabase
+            .from('group_members')
+            .select('id, user_id, role, status, queue_position, missed_payment_count, shares')
+            .eq('group_id', groupId)
+            .order('queue_position'),
+          supabase
+            .from('groups')
+            .select('contribution_amount, currency')
+            .eq('id', groupId)
+            .single(),
+        ]);
 
         if (!members) return;
 
@@ -70,6 +89,10 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
           allLogs = logs || [];
         }
 
+        const ledgerData = await getGroupLedgerData(groupId);
+        const contributionAmount = group?.contribution_amount || 0;
+        setCurrency(group?.currency || null);
+
         // Group logs by member
         const logsByMember = new Map<string, any[]>();
         allLogs.forEach(log => {
@@ -101,6 +124,7 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
             pendingPayments: pendingCount,
             missedPayments: missedCount,
             paymentRate: totalCount > 0 ? Math.round((verifiedCount / totalCount) * 100) : 0,
+            balance: buildMemberBalance(member, contributionAmount, ledgerData),
           };
         });
 
@@ -156,6 +180,24 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
   // Members with issues (missed payments)
   const membersWithIssues = memberStats.filter(m => m.missedPayments > 0);
 
+  const handleExportBalances = () => {
+    exportToCsv(
+      memberStats,
+      [
+        { header: 'Position', accessor: 'queuePosition' },
+        { header: 'Member', accessor: 'name' },
+        { header: 'Email', accessor: 'email' },
+        { header: moneyHeader('Contributions Due', currency), accessor: (m) => m.balance.totalDue },
+        { header: moneyHeader('Paid', currency), accessor: (m) => m.balance.totalPaid },
+        { header: moneyHeader('Late Fees', currency), accessor: (m) => m.balance.totalFees },
+        { header: moneyHeader('Fees Waived', currency), accessor: (m) => m.balance.totalWaived },
+        { header: moneyHeader('Payouts Received', currency), accessor: (m) => m.balance.totalReceived },
+        { header: moneyHeader('Balance Owed', currency), accessor: (m) => m.balance.balance },
+      ],
+      `${groupName.replace(/\s+/g, '_')}_member_balances_${format(new Date(), 'yyyy-MM-dd')}`
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* Summary Cards */}
@@ -228,9 +270,15 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
 
       {/* Member Details Table */}
       <Card>
-        <CardHeader>
-          <CardTitle>All Members</CardTitle>
-          <CardDescription>Detailed payment performance for each member</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>All Members</CardTitle>
+            <CardDescription>Detailed payment performance and running balance for each member</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleExportBalances} disabled={memberStats.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Balances
+          </Button>
         </CardHeader>
         <CardContent>
           <div className="overflow-x-auto">
@@ -245,6 +293,8 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
                   <TableHead className="text-center">Pending</TableHead>
                   <TableHead className="text-center">Missed</TableHead>
                   <TableHead>Payment Rate</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -276,6 +326,17 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
                         <span className="text-sm font-medium">{member.paymentRate}%</span>
                       </div>
                     </TableCell>
+                    <TableCell className="text-right">
+                      <span className={member.balance.balance > 0 ? 'text-red-600 font-medium' : 'text-green-600 font-medium'}>
+                        {formatMoney(member.balance.balance, currency)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => setLedgerMember(member)}>
+                        <BookOpen className="h-4 w-4 mr-1" />
+                        Ledger
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -283,6 +344,18 @@ const MemberPerformance = ({ groupId }: MemberPerformanceProps) => {
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={!!ledgerMember} onOpenChange={(open) => !open && setLedgerMember(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{ledgerMember?.name} · Ledger</DialogTitle>
+            <DialogDescription>Contributions due, payments, late fees, waivers and payouts received</DialogDescription>
+          </DialogHeader>
+          {ledgerMember && (
+            <MemberLedger balance={ledgerMember.balance} memberName={ledgerMember.name} groupName={groupName} currency={currency} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -5,9 +5,18 @@ import { Badge } from '@/components/ui/badge';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { CheckCircle, Clock, XCircle, AlertCircle, DollarSign, Calendar } from 'lucide-react';
 import { format } from 'date-fns';
+import { getGroupLedgerData } from '@/lib/groupLedger';
+import { formatMoney } from '@/lib/currency';
+import { buildMemberBalance, type MemberBalance } from '@/lib/memberBalance';
+import { getMemberPenalties, getPenaltyTotals } from '@/lib/penalties';
+import { formatShares, getMemberContribution, getMemberShares } from '@/lib/shares';
+import { MemberLedger } from '@/components/MemberLedger';
+import { PenaltyLedger } from '@/components/PenaltyLedger';
+import { Penalty } from '@/types/database';
 
 interface PersonalStatsProps {
   groupId: string;
+  groupName: string;
   userId: string;
 }
 
@@ -22,13 +31,18 @@ interface PersonalStatsData {
   totalVerifiedPayments: number;
   totalContributed: number;
   contributionAmount: number;
+  shares: number;
   paymentHistory: PaymentHistoryItem[];
   statusBreakdown: { name: string; value: number; color: string }[];
   memberSince: string;
   queuePosition: number;
+  penalties: Penalty[];
+  balance: MemberBalance;
+  memberName: string;
+  currency: string;
 }
 
-const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
+const PersonalStats = ({ groupId, groupName, userId }: PersonalStatsProps) => {
   const [stats, setStats] = useState<PersonalStatsData | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -39,7 +53,7 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
         // Get group info
         const { data: group } = await supabase
           .from('groups')
-          .select('contribution_amount')
+          .select('contribution_amount, currency')
           .eq('id', groupId)
           .single();
 
@@ -48,7 +62,7 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
         // Get member info
         const { data: member } = await supabase
           .from('group_members')
-          .select('id, queue_position, created_at')
+          .select('id, queue_position, created_at, shares')
           .eq('group_id', groupId)
           .eq('user_id', userId)
           .single();
@@ -68,6 +82,12 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
           .select('cycle_id, status, verified_at')
           .eq('member_id', member.id);
 
+        const [penalties, ledgerData, { data: profile }] = await Promise.all([
+          getMemberPenalties(member.id),
+          getGroupLedgerData(groupId),
+          supabase.from('profiles').select('name').eq('id', userId).maybeSingle(),
+        ]);
+
         // Build payment history
         const paymentHistory: PaymentHistoryItem[] = [];
         const cycleMap = new Map(cycles?.map(c => [c.id, c]) || []);
@@ -100,14 +120,21 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
           { name: 'Rejected', value: rejectedCount, color: '#ef4444' },
         ].filter(item => item.value > 0);
 
+        const balance = buildMemberBalance(member, contributionAmount, ledgerData);
+
         setStats({
           totalVerifiedPayments: verifiedCount,
-          totalContributed: verifiedCount * contributionAmount,
-          contributionAmount,
+          totalContributed: balance.totalPaid,
+          contributionAmount: getMemberContribution(contributionAmount, member),
+          shares: getMemberShares(member),
           paymentHistory,
           statusBreakdown,
           memberSince: member.created_at,
           queuePosition: member.queue_position,
+          penalties,
+          balance,
+          memberName: profile?.name || 'Member',
+          currency: group?.currency,
         });
       } catch (error) {
         console.error('Error fetching personal stats:', error);
@@ -144,6 +171,8 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
     }
   };
 
+  const penaltyTotals = getPenaltyTotals(stats.penalties);
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
       verified: 'default',
@@ -165,7 +194,7 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
-              ${stats.totalContributed.toLocaleString()}
+              {formatMoney(stats.totalContributed, stats.currency)}
             </div>
             <p className="text-xs text-muted-foreground">
               {stats.totalVerifiedPayments} verified payments
@@ -179,8 +208,10 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
             <DollarSign className="h-4 w-4 text-blue-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${stats.contributionAmount}</div>
-            <p className="text-xs text-muted-foreground">Per cycle</p>
+            <div className="text-2xl font-bold">{formatMoney(stats.contributionAmount, stats.currency)}</div>
+            <p className="text-xs text-muted-foreground">
+              Per cycle{stats.shares !== 1 && ` · ${formatShares(stats.shares)}`}
+            </p>
           </CardContent>
         </Card>
 
@@ -297,6 +328,35 @@ const PersonalStats = ({ groupId, userId }: PersonalStatsProps) => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Running Balance */}
+      <Card>
+        <CardHeader>
+          <CardTitle>My Balance</CardTitle>
+          <CardDescription>
+            Everything charged to and paid by you in this group, with what you owe after each entry
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MemberLedger balance={stats.balance} memberName={stats.memberName} groupName={groupName} currency={stats.currency} />
+        </CardContent>
+      </Card>
+
+      {/* Late Fees */}
+      {stats.penalties.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Late Fees</CardTitle>
+            <CardDescription>
+              {formatMoney(penaltyTotals.outstanding, stats.currency)} outstanding
+              {penaltyTotals.waived > 0 && ` · ${formatMoney(penaltyTotals.waived, stats.currency)} waived`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PenaltyLedger penalties={stats.penalties} members={new Map()} currency={stats.currency} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
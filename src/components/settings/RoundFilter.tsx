@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Round } from '@/types/database';
+
+export const ALL_ROUNDS = 'all';
+
+interface RoundFilterProps {
+  rounds: Round[];
+  value: string; // a round id, or ALL_ROUNDS
+  onChange: (value: string) => void;
+}
+
+/**
+ * Narrows a report to one payout round
+ */
+const RoundFilter = ({ rounds, value, onChange }: RoundFilterProps) => {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40" aria-label="Filter by round">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ROUNDS}>All rounds</SelectItem>
+        {[...rounds].reverse().map(round => (
+          <SelectItem key={round.id} value={round.id}>
+            Round {round.round_number}{round.status === 'active' ? ' (current)' : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default RoundFilter;
@@ -1,4 +1,7 @@
+import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import { formatMoney } from '@/lib/currency';
+import { getMemberContribution } from '@/lib/shares';
 
 // =====================================================
 // ACTIVITY TYPES
@@ -14,7 +17,24 @@ export type ActivityType =
   | 'cycle_started'
   | 'cycle_closed'
   | 'reminder_sent'
-  | 'member_reminded';
+  | 'member_reminded'
+  | 'payout_sent'
+  | 'payout_confirmed'
+  | 'penalty_waived'
+  | 'payment_extended'
+  | 'cycle_reopened'
+  | 'round_completed'
+  | 'round_started'
+  | 'queue_ordered'
+  | 'queue_reordered'
+  | 'arrears_recorded'
+  | 'arrears_paid'
+  | 'swap_proposed'
+  | 'swap_accepted'
+  | 'swap_declined'
+  | 'swap_cancelled'
+  | 'swap_approved'
+  | 'swap_rejected';
 
 export interface ActivityLog {
   id: string;
@@ -65,6 +85,33 @@ export async function logActivity(input: ActivityLogInput): Promise<{ success: b
   }
 }
 
+/**
+ * Log several activities in one insert, e.g. after reviewing a batch of payments
+ */
+export async function logActivities(inputs: ActivityLogInput[]): Promise<{ success: boolean; error?: string }> {
+  if (inputs.length === 0) return { success: true };
+
+  try {
+    const { error } = await supabase.from('activity_logs').insert(
+      inputs.map(input => ({
+        group_id: input.group_id,
+        user_id: input.user_id || null,
+        actor_name: input.actor_name || null,
+        action_type: input.action_type,
+        target_user_id: input.target_user_id || null,
+        target_name: input.target_name || null,
+        metadata: input.metadata || {},
+      }))
+    );
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error logging activities:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to log activities' };
+  }
+}
+
 /**
  * Get recent activities for a group
  */
@@ -88,27 +135,56 @@ export async function getGroupActivities(
   }
 }
 
+// How a round's payout queue was set, as used in feed messages
+const queueMethods: Record<string, string> = {
+  lottery: 'by lottery draw',
+  bidding: 'by bidding',
+  seniority: 'by seniority',
+};
+
 /**
- * Format activity for human-readable display
+ * Format activity for human-readable display, with amounts in the group's currency
  */
-export function formatActivityMessage(activity: ActivityLog): string {
+export function formatActivityMessage(activity: ActivityLog, currency?: string | null): string {
   const actor = activity.actor_name || 'Someone';
   const target = activity.target_name || 'a member';
   const amount = activity.metadata?.amount;
+  const money = (value: number) => formatMoney(value, currency);
 
   switch (activity.action_type) {
     case 'payment_marked_sent':
-      return `${actor} marked payment as sent`;
+      return amount !== undefined
+        ? `${actor} marked a ${money(amount)} payment as sent`
+        : `${actor} marked payment as sent`;
     case 'payment_verified':
-      return `${actor} verified payment from ${target}`;
+      return amount !== undefined
+        ? `${actor} verified a ${money(amount)} payment from ${target}`
+        : `${actor} verified payment from ${target}`;
     case 'payment_rejected':
-      return `${actor} rejected payment from ${target}`;
+      return amount !== undefined
+        ? `${actor} rejected a ${money(amount)} payment from ${target}`
+        : `${actor} rejected payment from ${target}`;
     case 'member_joined':
       return `${actor} joined the group`;
     case 'member_locked':
       return `${target} was locked due to missed payments`;
-    case 'member_restored':
-      return `${actor} restored ${target} to the group`;
+    case 'member_restored': {
+      const place = activity.metadata?.mode === 'move_to_end'
+        ? ' at the end of the queue'
+        : activity.metadata?.mode === 'keep_position' ? ' in their original position' : '';
+      const arrears = activity.metadata?.arrears;
+      return arrears
+        ? `${actor} restored ${target} to the group${place} with ${money(arrears)} in arrears`
+        : `${actor} restored ${target} to the group${place}`;
+    }
+    case 'arrears_recorded':
+      return `${actor} will restore ${target} once ${money(amount)} in arrears is paid`;
+    case 'arrears_paid': {
+      const remaining = activity.metadata?.remaining;
+      return remaining
+        ? `${actor} recorded a ${money(amount)} arrears payment from ${target} (${money(remaining)} still owed)`
+        : `${actor} recorded a ${money(amount)} arrears payment from ${target}, settling their arrears`;
+    }
     case 'cycle_started':
       return `${actor} started a new payment cycle`;
     case 'cycle_closed':
@@ -117,6 +193,60 @@ export function formatActivityMessage(activity: ActivityLog): string {
       return `${actor} sent reminders to unpaid members`;
     case 'member_reminded':
       return `${actor} sent a reminder to ${target}`;
+    case 'payout_sent':
+      return amount !== undefined
+        ? `${actor} sent the ${money(amount)} payout to ${target}`
+        : `${actor} sent the payout to ${target}`;
+    case 'payout_confirmed':
+      return `${actor} confirmed receiving their payout`;
+    case 'round_completed':
+      return `Round ${activity.metadata?.round_number} is complete: every member has received a payout`;
+    case 'round_started': {
+      const method = queueMethods[activity.metadata?.queue_mode];
+      return method
+        ? `${actor} started round ${activity.metadata?.round_number} with the queue set ${method}`
+        : `${actor} started round ${activity.metadata?.round_number}`;
+    }
+    case 'queue_ordered': {
+      const method = queueMethods[activity.metadata?.queue_mode] || 'in its current order';
+      const seed = activity.metadata?.seed;
+      return seed
+        ? `${actor} set the payout queue ${method} (seed ${String(seed).slice(0, 8)})`
+        : `${actor} set the payout queue ${method}`;
+    }
+    case 'queue_reordered': {
+      const moved = activity.metadata?.moved;
+      return moved
+        ? `${actor} reordered the payout queue, moving ${moved} member${moved === 1 ? '' : 's'}`
+        : `${actor} reordered the payout queue`;
+    }
+    case 'swap_proposed':
+      return `${actor} asked ${target} to swap payout slots`;
+    case 'swap_accepted':
+      return `${actor} agreed to swap payout slots with ${target}`;
+    case 'swap_declined':
+      return `${actor} declined to swap payout slots with ${target}`;
+    case 'swap_cancelled':
+      return `${actor} withdrew their request to swap payout slots with ${target}`;
+    case 'swap_approved':
+      return `${actor} approved ${target} and ${activity.metadata?.other_name || 'a member'} swapping payout slots`;
+    case 'swap_rejected':
+      return `${actor} turned down ${target} and ${activity.metadata?.other_name || 'a member'} swapping payout slots`;
+    case 'cycle_reopened':
+      return `${actor} reopened the payment cycle`;
+    case 'payment_extended': {
+      const until = activity.metadata?.until;
+      return until
+        ? `${actor} gave ${target} until ${format(new Date(until), 'MMM d')} to pay`
+        : `${actor} gave ${target} more time to pay`;
+    }
+    case 'penalty_waived': {
+      const reason = activity.metadata?.reason;
+      const fee = amount !== undefined ? `${money(amount)} late fee` : 'a late fee';
+      return reason
+        ? `${actor} waived ${target}'s ${fee}: "${reason}"`
+        : `${actor} waived ${target}'s ${fee}`;
+    }
     default:
       return `${actor} performed an action`;
   }
@@ -147,7 +277,8 @@ export async function sendMemberReminder(
   actorId: string,
   actorName: string,
   groupName: string,
-  amount: number
+  amount: number,
+  currency?: string | null
 ): Promise<RemindResult> {
   try {
     // Check if already reminded recently (within 1 hour)
@@ -182,7 +313,7 @@ export async function sendMemberReminder(
       group_id: groupId,
       type: 'payment_reminder',
       title: 'Payment Reminder',
-      message: `The president of ${groupName} is reminding you that your $${amount} contribution is due.`,
+      message: `The president of ${groupName} is reminding you that your ${formatMoney(amount, currency)} contribution is due.`,
     });
 
     if (notifError) throw notifError;
@@ -207,6 +338,7 @@ export async function sendMemberReminder(
 
 /**
  * Send reminders to all unpaid members in a cycle
+ * The amount is the per-hand contribution, scaled by each member's hands
  */
 export async function sendBulkReminders(
   groupId: string,
@@ -214,7 +346,8 @@ export async function sendBulkReminders(
   actorId: string,
   actorName: string,
   groupName: string,
-  amount: number
+  amount: number,
+  currency?: string | null
 ): Promise<{ success: boolean; remindedCount: number; skippedCount: number; error?: string }> {
   try {
     // Get all unpaid/rejected payment logs for this cycle
@@ -225,7 +358,7 @@ export async function sendBulkReminders(
         member_id,
         last_reminded_at,
         reminder_count,
-        group_members!inner(user_id, profiles:user_id(name, email))
+        group_members!inner(user_id, shares, profiles:user_id(name, email))
       `)
       .eq('cycle_id', cycleId)
       .in('status', ['unpaid', 'rejected']);
@@ -265,7 +398,7 @@ export async function sendBulkReminders(
         group_id: groupId,
         type: 'payment_reminder',
         title: 'Payment Reminder',
-        message: `The president of ${groupName} is reminding you that your $${amount} contribution is due.`,
+        message: `The president of ${groupName} is reminding you that your ${formatMoney(getMemberContribution(amount, member), currency)} contribution is due.`,
       });
 
       remindedCount++;
@@ -408,3 +541,26 @@ export async function createDbNotification(
     console.error('Error creating notification:', error);
   }
 }
+
+/**
+ * Create several notifications in one insert
+ */
+export async function createDbNotifications(
+  notifications: { userId: string; type: string; title: string; message: string; groupId?: string }[]
+): Promise<void> {
+  if (notifications.length === 0) return;
+
+  try {
+    await supabase.from('notifications').insert(
+      notifications.map(notification => ({
+        user_id: notification.userId,
+        group_id: notification.groupId || null,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+      }))
+    );
+  } catch (error) {
+    console.error('Error creating notifications:', error);
+  }
+}
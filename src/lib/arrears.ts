@@ -0,0 +1,353 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity } from '@/lib/activity';
+import { formatMoney } from '@/lib/currency';
+import { restoreMember } from '@/lib/cycleManagement';
+import { getInstallmentBalance, getLogInstallments } from '@/lib/installments';
+import { addMoney, fromMinor, subtractMoney, sumAmounts, toMinor } from '@/lib/money';
+import { getMemberPenalties, getPenaltyTotals } from '@/lib/penalties';
+import { getMemberContribution } from '@/lib/shares';
+import { Arrears, GroupMember, PaymentCycle, PaymentInstallment, PaymentLog, RestoreMode } from '@/types/database';
+
+export interface ArrearsItem {
+  cycleId: string;
+  dueDate: string;
+  due: number;
+  paid: number; // verified installments towards the cycle
+  owed: number;
+}
+
+export interface ArrearsBreakdown {
+  items: ArrearsItem[];
+  total: number;
+}
+
+export interface MemberArrears {
+  breakdown: ArrearsBreakdown; // missed cycles not yet in an arrears record
+  outstanding: Arrears[]; // arrears recorded earlier and not yet paid off
+  lateFees: number; // outstanding late fees, tracked in the penalty ledger
+}
+
+export interface RestoreLockedMemberInput {
+  groupId: string;
+  memberId: string;
+  memberUserId: string;
+  memberName: string;
+  mode: RestoreMode;
+  breakdown: ArrearsBreakdown;
+  actorId: string;
+  actorName: string;
+}
+
+export interface RecordArrearsPaymentInput {
+  arrears: Arrears;
+  amount: number;
+  currency?: string | null;
+  memberUserId: string;
+  memberName: string;
+  actorId: string;
+  actorName: string;
+}
+
+interface ArrearsResult {
+  success: boolean;
+  arrears?: Arrears;
+  restored?: boolean; // the member is active again
+  newPosition?: number;
+  error?: string;
+}
+
+export const RESTORE_MODE_OPTIONS: { value: RestoreMode; label: string; description: string }[] = [
+  {
+    value: 'keep_position',
+    label: 'Keep their position',
+    description: 'Restore now in the same place in the payout queue',
+  },
+  {
+    value: 'move_to_end',
+    label: 'Move to the end of the queue',
+    description: 'Restore now behind every other member',
+  },
+  {
+    value: 'after_arrears',
+    label: 'Restore once arrears are paid',
+    description: 'Stay locked until the arrears are settled, then restore in the same place',
+  },
+];
+
+/**
+ * What is still owed on an arrears record
+ */
+export function getArrearsBalance(arrears: Pick<Arrears, 'amount' | 'amount_paid'>): number {
+  return fromMinor(Math.max(subtractMoney(toMinor(arrears.amount), toMinor(arrears.amount_paid)), 0));
+}
+
+/**
+ * Missed contributions a member owes, one item per closed cycle they did not pay in full
+ * Cycles already covered by an arrears record, and payments still awaiting verification, are left out
+ */
+export function calculateArrears(
+  contribution: number,
+  cycles: Pick<PaymentCycle, 'id' | 'status' | 'due_date'>[],
+  logs: Pick<PaymentLog, 'id' | 'cycle_id' | 'status'>[],
+  installments: Pick<PaymentInstallment, 'payment_log_id' | 'amount' | 'status'>[],
+  coveredCycleIds: string[] = []
+): ArrearsBreakdown {
+  const covered = new Set(coveredCycleIds);
+
+  const items = cycles
+    .filter(cycle => cycle.status === 'closed' && !covered.has(cycle.id))
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))
+    .flatMap(cycle => {
+      const log = logs.find(l => l.cycle_id === cycle.id);
+      if (!log || log.status === 'verified' || log.status === 'pending') return [];
+
+      const logInstallments = installments.filter(i => i.payment_log_id === log.id) as PaymentInstallment[];
+      const balance = getInstallmentBalance(contribution, logInstallments);
+      const owed = fromMinor(Math.max(subtractMoney(toMinor(balance.due), toMinor(balance.verified)), 0));
+      return owed > 0
+        ? [{ cycleId: cycle.id, dueDate: cycle.due_date, due: balance.due, paid: balance.verified, owed }]
+        : [];
+    });
+
+  return {
+    items,
+    total: sumAmounts(items.map(item => item.owed)),
+  };
+}
+
+/**
+ * Get every arrears record in a group, newest first
+ */
+export async function getGroupArrears(groupId: string): Promise<Arrears[]> {
+  try {
+    const { data, error } = await supabase
+      .from('arrears')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as Arrears[]) || [];
+  } catch (error) {
+    console.error('Error fetching arrears:', error);
+    return [];
+  }
+}
+
+/**
+ * Work out what a locked member owes before they are restored
+ */
+export async function getMemberArrears(
+  groupId: string,
+  member: Pick<GroupMember, 'id' | 'shares'>,
+  contributionAmount: number
+): Promise<MemberArrears> {
+  const [{ data: cycles, error: cyclesError }, { data: logs, error: logsError }, { data: records, error: recordsError }] =
+    await Promise.all([
+      supabase.from('payment_cycles').select('id, status, due_date').eq('group_id', groupId).eq('status', 'closed'),
+      supabase.from('payment_logs').select('id, cycle_id, status').eq('member_id', member.id),
+      supabase.from('arrears').select('*').eq('member_id', member.id),
+    ]);
+
+  if (cyclesError) throw cyclesError;
+  if (logsError) throw logsError;
+  if (recordsError) throw recordsError;
+
+  const arrears = (records as Arrears[]) || [];
+  const installments = await getLogInstallments((logs || []).map(l => l.id));
+  const penalties = await getMemberPenalties(member.id);
+
+  return {
+    breakdown: calculateArrears(
+      getMemberContribution(contributionAmount, member),
+      (cycles as Pick<PaymentCycle, 'id' | 'status' | 'due_date'>[]) || [],
+      (logs as Pick<PaymentLog, 'id' | 'cycle_id' | 'status'>[]) || [],
+      installments,
+      arrears.flatMap(a => a.cycle_ids)
+    ),
+    outstanding: arrears.filter(a => a.status === 'outstanding'),
+    lateFees: getPenaltyTotals(penalties).outstanding,
+  };
+}
+
+/**
+ * Count a member's arrears records that are still being paid off
+ */
+async function countOutstandingArrears(memberId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('arrears')
+    .select('id', { count: 'exact', head: true })
+    .eq('member_id', memberId)
+    .eq('status', 'outstanding');
+
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * President restores a locked member
+ * 1. Records what they owe from missed cycles as arrears, tracked until paid
+ * 2. 'keep_position' / 'move_to_end' restore straight away
+ * 3. 'after_arrears' keeps them locked until every outstanding arrears record is paid
+ * 4. Logs the activity
+ */
+export async function restoreLockedMember(input: RestoreLockedMemberInput): Promise<ArrearsResult> {
+  try {
+    const waitForArrears = input.mode === 'after_arrears';
+    let arrears: Arrears | undefined;
+
+    if (input.breakdown.total > 0) {
+      const { data, error } = await supabase
+        .from('arrears')
+        .insert({
+          group_id: input.groupId,
+          member_id: input.memberId,
+          amount: input.breakdown.total,
+          cycle_ids: input.breakdown.items.map(item => item.cycleId),
+          restore_on_settle: waitForArrears,
+          created_by: input.actorId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      arrears = data as Arrears;
+    }
+
+    if (waitForArrears) {
+      // Earlier arrears must be paid off too
+      const { error } = await supabase
+        .from('arrears')
+        .update({ restore_on_settle: true, updated_at: new Date().toISOString() })
+        .eq('member_id', input.memberId)
+        .eq('status', 'outstanding');
+
+      if (error) throw error;
+
+      if (await countOutstandingArrears(input.memberId) > 0) {
+        await logActivity({
+          group_id: input.groupId,
+          user_id: input.actorId,
+          actor_name: input.actorName,
+          action_type: 'arrears_recorded',
+          target_user_id: input.memberUserId,
+          target_name: input.memberName,
+          metadata: { amount: input.breakdown.total, arrears_id: arrears?.id || null },
+        });
+        return { success: true, arrears, restored: false };
+      }
+    }
+
+    const result = await restoreMember(input.memberId, input.groupId, input.mode === 'move_to_end' ? 'move_to_end' : 'keep_position');
+    if (!result.success) throw new Error(result.error);
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'member_restored',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: { mode: input.mode, position: result.newPosition, arrears: input.breakdown.total || null },
+    });
+
+    return { success: true, arrears, restored: true, newPosition: result.newPosition };
+  } catch (error) {
+    console.error('Error restoring member:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore member',
+    };
+  }
+}
+
+/**
+ * President records a payment towards a member's arrears
+ * - Amount must be positive and no more than what is still owed
+ * - Settles the record once it is paid in full
+ * - Restores a member waiting on their arrears once nothing is outstanding
+ * - Logs the activity
+ */
+export async function recordArrearsPayment(input: RecordArrearsPaymentInput): Promise<ArrearsResult> {
+  try {
+    const balance = getArrearsBalance(input.arrears);
+    if (!(input.amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+    if (toMinor(input.amount) > toMinor(balance)) {
+      throw new Error(`Payment is more than the ${formatMoney(balance, input.currency)} still owed`);
+    }
+
+    // Amounts are added in minor units so partial payments add up exactly
+    const amountPaid = addMoney(toMinor(input.arrears.amount_paid), toMinor(input.amount));
+    const settled = amountPaid >= toMinor(input.arrears.amount);
+    const now = new Date().toISOString();
+
+    // Matching on amount_paid stops two payments recorded at once from overwriting each other
+    const { data, error } = await supabase
+      .from('arrears')
+      .update({
+        amount_paid: fromMinor(amountPaid),
+        status: settled ? 'settled' : 'outstanding',
+        settled_at: settled ? now : null,
+        updated_at: now,
+      })
+      .eq('id', input.arrears.id)
+      .eq('amount_paid', input.arrears.amount_paid)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error('These arrears were just updated. Refresh and try again');
+
+    await logActivity({
+      group_id: input.arrears.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'arrears_paid',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: {
+        amount: input.amount,
+        remaining: getArrearsBalance(data as Arrears),
+        arrears_id: input.arrears.id,
+      },
+    });
+
+    if (!settled || !input.arrears.restore_on_settle || await countOutstandingArrears(input.arrears.member_id) > 0) {
+      return { success: true, arrears: data as Arrears, restored: false };
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from('group_members')
+      .select('status')
+      .eq('id', input.arrears.member_id)
+      .single();
+
+    if (memberError) throw memberError;
+    if (member.status !== 'locked') {
+      return { success: true, arrears: data as Arrears, restored: false };
+    }
+
+    const result = await restoreMember(input.arrears.member_id, input.arrears.group_id, 'keep_position');
+    if (!result.success) throw new Error(result.error);
+
+    await logActivity({
+      group_id: input.arrears.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'member_restored',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: { mode: 'after_arrears', position: result.newPosition },
+    });
+
+    return { success: true, arrears: data as Arrears, restored: true, newPosition: result.newPosition };
+  } catch (error) {
+    console.error('Error recording arrears payment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record arrears payment',
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { CurrencyCode } from '@/types/database';
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  symbol: string;
+  locale: string; // formatting locale used for the currency's members
+  minorUnits: number; // digits after the decimal point, e.g. 2 for cents
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  USD: { code: 'USD', name: 'US Dollar', symbol: '$', locale: 'en-US', minorUnits: 2 },
+  KES: { code: 'KES', name: 'Kenyan Shilling', symbol: 'Ksh', locale: 'en-KE', minorUnits: 2 },
+  NGN: { code: 'NGN', name: 'Nigerian Naira', symbol: '₦', locale: 'en-NG', minorUnits: 2 },
+  GHS: { code: 'GHS', name: 'Ghanaian Cedi', symbol: 'GH₵', locale: 'en-GH', minorUnits: 2 },
+  GBP: { code: 'GBP', name: 'British Pound', symbol: '£', locale: 'en-GB', minorUnits: 2 },
+  EUR: { code: 'EUR', name: 'Euro', symbol: '€', locale: 'en-IE', minorUnits: 2 },
+};
+
+// Groups from before currencies were added kept their amounts in dollars
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const CURRENCY_OPTIONS: { value: CurrencyCode; label: string }[] = Object.values(CURRENCIES).map(c => ({
+  value: c.code,
+  label: `${c.name} (${c.symbol})`,
+}));
+
+const formatters = new Map<CurrencyCode, Intl.NumberFormat>();
+
+/**
+ * Currency details for a group, falling back to the default for unknown codes
+ */
+export function getCurrency(code: string | null | undefined): CurrencyInfo {
+  return CURRENCIES[code as CurrencyCode] || CURRENCIES[DEFAULT_CURRENCY];
+}
+
+/**
+ * An amount in the group's currency with its symbol, grouping and minor units, e.g. "Ksh 1,250.00"
+ */
+export function formatMoney(amount: number, currency?: string | null): string {
+  const info = getCurrency(currency);
+  let formatter = formatters.get(info.code);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(info.locale, {
+      style: 'currency',
+      currency: info.code,
+      currencyDisplay: 'narrowSymbol',
+      minimumFractionDigits: info.minorUnits,
+      maximumFractionDigits: info.minorUnits,
+    });
+    formatters.set(info.code, formatter);
+  }
+  // Avoid showing "-$0.00" for amounts that round to zero
+  const rounded = Math.round(Number(amount) * 10 ** info.minorUnits) / 10 ** info.minorUnits;
+  return formatter.format(rounded === 0 ? 0 : rounded);
+}
+
+/**
+ * CSV header for an amount column, naming the currency so exported figures stay numeric, e.g. "Amount (KES)"
+ */
+export function moneyHeader(label: string, currency?: string | null): string {
+  return `${label} (${getCurrency(currency).code})`;
+}
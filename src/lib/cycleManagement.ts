@@ -1,74 +1,293 @@
 import { supabase } from '@/integrations/supabase/client';
+import { logActivity } from '@/lib/activity';
+import { getNextRecipient } from '@/lib/payoutRotation';
+import { getActiveRound, getRoundCycles } from '@/lib/rounds';
+import { GroupMember, LockCountMode, MemberStatus, PaymentCycle, PaymentLog, PaymentStatus, RestoreMode } from '@/types/database';
+import { LockPolicy } from '@/lib/lockPolicy';
+
+interface StartCycleResult {
+  success: boolean;
+  cycle?: PaymentCycle;
+  recipientId?: string | null;
+  memberCount: number;
+  error?: string;
+}
+
+export interface ClosedMemberResult {
+  memberId: string;
+  userId: string;
+  logStatus: PaymentStatus;
+  late: boolean; // paid, but marked as sent after the grace period
+  missedPaymentCount: number;
+  status: MemberStatus;
+  locked: boolean; // locked by this close
+}
+
+export interface LapsedExtensionResult {
+  logId: string;
+  cycleId: string; // the earlier cycle the extension was given in
+  memberId: string;
+  userId: string;
+  logStatus: PaymentStatus;
+  extendedUntil: string;
+  missed: boolean; // unpaid, or paid after the extension and its grace period
+  late: boolean;
+  missedPaymentCount: number;
+  status: MemberStatus;
+  locked: boolean; // locked by this close
+}
+
+export interface CloseCycleReport {
+  cycleId: string;
+  groupId: string;
+  closedAt: string;
+  alreadyClosed: boolean;
+  dryRun: boolean; // worked out by a preview, nothing was written
+  policy: LockPolicy | null; // null for cycles closed before lock policies
+  verifiedCount: number;
+  pendingCount: number;
+  missedPayments: number;
+  lockedMembers: string[];
+  decayedMembers: string[]; // had one missed payment removed for on-time cycles
+  penalties: { memberId: string; paymentLogId: string; amount: number; daysLate: number }[]; // late fees charged
+  pendingMembers: { memberId: string; userId: string; markedAt: string | null }[]; // still awaiting verification
+  extendedMembers: { memberId: string; userId: string; extendedUntil: string }[]; // given more time, settled at a later close
+  lapsedExtensions: LapsedExtensionResult[]; // extensions from earlier cycles that ended before this close
+  members: ClosedMemberResult[];
+}
+
+export interface ReopenCycleInput {
+  cycleId: string;
+  groupId: string;
+  actorId: string;
+  actorName: string;
+}
+
+export interface ReopenCycleResult {
+  success: boolean;
+  restoredMembers?: number;
+  unlockedMembers?: string[];
+  removedPenalties?: number;
+  removedCycles?: string[]; // cycles opened after the close, removed with it
+  removedRounds?: number; // rounds started after the close, removed with it
+  error?: string;
+}
+
+// Matches the window enforced by the reopen_payment_cycle database function
+export const REOPEN_WINDOW_HOURS = 48;
+
+export interface ExtendPaymentInput {
+  log: PaymentLog;
+  groupId: string;
+  until: Date;
+  memberUserId: string;
+  memberName: string;
+  actorId: string;
+  actorName: string;
+}
 
 interface CloseCycleResult {
   success: boolean;
   lockedMembers: string[];
   missedPayments: number;
+  alreadyClosed?: boolean;
+  report?: CloseCycleReport;
   error?: string;
 }
 
+// Shape returned by the close_payment_cycle database function
+interface CloseCycleRow {
+  cycle_id: string;
+  group_id: string;
+  closed_at: string;
+  already_closed: boolean;
+  dry_run?: boolean;
+  policy?: {
+    threshold: number;
+    count_mode: LockCountMode;
+    grace_days: number | null;
+    decay_cycles: number | null;
+  };
+  verified_count: number;
+  pending_count: number;
+  missed_payments: number;
+  locked_members: string[];
+  decayed_members?: string[];
+  penalties?: { member_id: string; payment_log_id: string; amount: number; days_late: number }[];
+  pending_members?: { member_id: string; user_id: string; marked_at: string | null }[];
+  extended_members?: { member_id: string; user_id: string; extended_until: string }[];
+  lapsed_extensions?: {
+    log_id: string;
+    cycle_id: string;
+    member_id: string;
+    user_id: string;
+    log_status: PaymentStatus;
+    extended_until: string;
+    missed: boolean;
+    late: boolean;
+    missed_payment_count: number;
+    status: MemberStatus;
+    locked: boolean;
+  }[];
+  members: {
+    member_id: string;
+    user_id: string;
+    log_status: PaymentStatus;
+    late?: boolean;
+    missed_payment_count: number;
+    status: MemberStatus;
+    locked: boolean;
+  }[];
+}
+
+const toCloseCycleReport = (row: CloseCycleRow): CloseCycleReport => ({
+  cycleId: row.cycle_id,
+  groupId: row.group_id,
+  closedAt: row.closed_at,
+  alreadyClosed: row.already_closed,
+  dryRun: row.dry_run || false,
+  policy: row.policy
+    ? {
+        threshold: row.policy.threshold,
+        countMode: row.policy.count_mode,
+        lateGraceDays: row.policy.grace_days,
+        decayCycles: row.policy.decay_cycles,
+      }
+    : null,
+  verifiedCount: row.verified_count,
+  pendingCount: row.pending_count,
+  missedPayments: row.missed_payments,
+  lockedMembers: row.locked_members,
+  decayedMembers: row.decayed_members || [],
+  penalties: (row.penalties || []).map(penalty => ({
+    memberId: penalty.member_id,
+    paymentLogId: penalty.payment_log_id,
+    amount: Number(penalty.amount),
+    daysLate: penalty.days_late,
+  })),
+  pendingMembers: (row.pending_members || []).map(member => ({
+    memberId: member.member_id,
+    userId: member.user_id,
+    markedAt: member.marked_at,
+  })),
+  extendedMembers: (row.extended_members || []).map(member => ({
+    memberId: member.member_id,
+    userId: member.user_id,
+    extendedUntil: member.extended_until,
+  })),
+  lapsedExtensions: (row.lapsed_extensions || []).map(extension => ({
+    logId: extension.log_id,
+    cycleId: extension.cycle_id,
+    memberId: extension.member_id,
+    userId: extension.user_id,
+    logStatus: extension.log_status,
+    extendedUntil: extension.extended_until,
+    missed: extension.missed,
+    late: extension.late,
+    missedPaymentCount: extension.missed_payment_count,
+    status: extension.status,
+    locked: extension.locked,
+  })),
+  members: row.members.map(member => ({
+    memberId: member.member_id,
+    userId: member.user_id,
+    logStatus: member.log_status,
+    late: member.late || false,
+    missedPaymentCount: member.missed_payment_count,
+    status: member.status,
+    locked: member.locked,
+  })),
+});
+
 /**
- * Closes a payment cycle and handles missed payments
- * 1. Gets all payment logs for this cycle with status 'unpaid' or 'rejected'
- * 2. For each unpaid/rejected log, increments member's missed_payment_count
- * 3. Checks if missed_payment_count >= 3, sets status to 'locked'
- * 4. Updates cycle status to 'closed'
+ * Starts a new payment cycle
+ * 1. Finds the group's active round (a completed round must be followed by a new one first)
+ * 2. Picks the next payout recipient from the round's rotation
+ * 3. Creates the cycle and an 'unpaid' payment log for every active member, with the contribution
+ *    they owe, in one database transaction (start_payment_cycle); cycle numbers follow the highest used
  */
-export const closeCycle = async (cycleId: string, groupId: string): Promise<CloseCycleResult> => {
+export const startCycle = async (groupId: string, startDate: Date, dueDate: Date): Promise<StartCycleResult> => {
   try {
-    // 1. Get all payment logs for this cycle that weren't verified
-    const { data: unpaidLogs, error: logsError } = await supabase
-      .from('payment_logs')
-      .select('*, member:group_members!inner(*)')
-      .eq('cycle_id', cycleId)
-      .in('status', ['unpaid', 'rejected']);
-
-    if (logsError) throw logsError;
-
-    const lockedMembers: string[] = [];
-    let missedPayments = 0;
-
-    // 2. For each unpaid log, increment the member's missed_payment_count
-    if (unpaidLogs && unpaidLogs.length > 0) {
-      for (const log of unpaidLogs) {
-        const member = log.member as { id: string; missed_payment_count: number; user_id: string };
-        const newMissedCount = (member.missed_payment_count || 0) + 1;
-        missedPayments++;
-
-        // Determine if member should be locked (3 or more missed payments)
-        const newStatus = newMissedCount >= 3 ? 'locked' : 'active';
-
-        const { error: updateError } = await supabase
-          .from('group_members')
-          .update({ 
-            missed_payment_count: newMissedCount,
-            status: newStatus
-          })
-          .eq('id', member.id);
-
-        if (updateError) {
-          console.error('Error updating member:', updateError);
-          continue;
-        }
-
-        if (newStatus === 'locked') {
-          lockedMembers.push(member.id);
-        }
-      }
+    if (startDate >= dueDate) {
+      throw new Error('Start date must be before end date');
     }
 
-    // 3. Update cycle status to 'closed'
-    const { error: cycleError } = await supabase
+    const { data: members, error: membersError } = await supabase
+      .from('group_members')
+      .select('*')
+      .eq('group_id', groupId);
+
+    if (membersError) throw membersError;
+
+    const activeMembers = (members as GroupMember[] || []).filter(m => m.status === 'active');
+    if (activeMembers.length === 0) {
+      throw new Error('No active members to create payment logs for');
+    }
+
+    const round = await getActiveRound(groupId);
+    if (!round) {
+      throw new Error('This round is complete. Start a new round before the next cycle');
+    }
+
+    const { data: cycles, error: cyclesError } = await supabase
       .from('payment_cycles')
-      .update({ status: 'closed' })
-      .eq('id', cycleId);
+      .select('*')
+      .eq('group_id', groupId);
+
+    if (cyclesError) throw cyclesError;
+
+    const recipient = getNextRecipient(activeMembers, getRoundCycles((cycles as PaymentCycle[]) || [], round));
+
+    const { data: cycle, error: cycleError } = await supabase.rpc('start_payment_cycle', {
+      p_group_id: groupId,
+      p_recipient_id: recipient?.id || null,
+      p_start_date: startDate.toISOString(),
+      p_due_date: dueDate.toISOString(),
+    });
 
     if (cycleError) throw cycleError;
 
     return {
       success: true,
-      lockedMembers,
-      missedPayments,
+      cycle: cycle as PaymentCycle,
+      recipientId: recipient?.id || null,
+      memberCount: activeMembers.length,
+    };
+  } catch (error) {
+    console.error('Error starting cycle:', error);
+    return {
+      success: false,
+      memberCount: 0,
+      error: error instanceof Error ? error.message : 'Failed to start cycle',
+    };
+  }
+};
+
+/**
+ * Closes a payment cycle and handles missed payments
+ * Runs as one database transaction (close_payment_cycle) so a dropped connection
+ * can never leave members half-updated:
+ * 1. Applies the group's lock policy to every member's payment log
+ *    (missed counts, on-time streaks, decay)
+ * 2. Locks members who reach the group's missed payment threshold
+ * 3. Charges late fees on payments marked as sent after the due date
+ * 4. Updates cycle status to 'closed' and stores the result report
+ * Retrying an already closed cycle returns the original report without changing anything
+ */
+export const closeCycle = async (cycleId: string): Promise<CloseCycleResult> => {
+  try {
+    const { data, error } = await supabase.rpc('close_payment_cycle', { p_cycle_id: cycleId });
+
+    if (error) throw error;
+
+    const report = toCloseCycleReport(data as CloseCycleRow);
+
+    return {
+      success: true,
+      lockedMembers: report.lockedMembers,
+      missedPayments: report.missedPayments,
+      alreadyClosed: report.alreadyClosed,
+      report,
     };
   } catch (error) {
     console.error('Error closing cycle:', error);
@@ -81,26 +300,176 @@ export const closeCycle = async (cycleId: string, groupId: string): Promise<Clos
   }
 };
 
+/**
+ * Previews closing a payment cycle without changing anything
+ * Runs the same close_payment_cycle logic as a dry run, so the report lists exactly
+ * who would miss a payment, their new missed counts, who would be locked, and who
+ * is still awaiting verification
+ */
+export const previewCycleClose = async (
+  cycleId: string
+): Promise<{ success: boolean; report?: CloseCycleReport; error?: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('close_payment_cycle', { p_cycle_id: cycleId, p_dry_run: true });
+
+    if (error) throw error;
+
+    return { success: true, report: toCloseCycleReport(data as CloseCycleRow) };
+  } catch (error) {
+    console.error('Error previewing cycle close:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to preview cycle close',
+    };
+  }
+};
+
+/**
+ * Whether a cycle can still be reopened: the group's latest close, within the reopen window
+ */
+export const canReopenCycle = (
+  cycle: Pick<PaymentCycle, 'id' | 'status' | 'closed_at'>,
+  cycles: Pick<PaymentCycle, 'id' | 'status' | 'closed_at'>[]
+): boolean => {
+  if (cycle.status !== 'closed' || !cycle.closed_at) return false;
+
+  const closedAt = new Date(cycle.closed_at).getTime();
+  if (Date.now() - closedAt > REOPEN_WINDOW_HOURS * 60 * 60 * 1000) return false;
+
+  return !cycles.some(c => c.id !== cycle.id && c.status === 'closed' && c.closed_at && new Date(c.closed_at).getTime() > closedAt);
+};
+
+/**
+ * Reopens a cycle closed by mistake
+ * Runs as one database transaction (reopen_payment_cycle) that reverses the close:
+ * 1. Removes a cycle opened after the close, if nothing has been paid into it yet
+ * 2. Restores every member's missed count, streak and status from before the close
+ * 3. Removes the outstanding late fees the close charged (waived ones are kept) and makes the cycle active again
+ * 4. Reactivates the cycle's round if the close completed it
+ * Only the president can reopen, and only the latest close within REOPEN_WINDOW_HOURS
+ */
+export const reopenCycle = async (input: ReopenCycleInput): Promise<ReopenCycleResult> => {
+  try {
+    const { data, error } = await supabase.rpc('reopen_payment_cycle', { p_cycle_id: input.cycleId });
+
+    if (error) throw error;
+
+    const row = data as {
+      restored_members: number;
+      unlocked_members: string[];
+      removed_penalties: number;
+      removed_cycles: string[];
+      removed_rounds?: number;
+    };
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'cycle_reopened',
+      metadata: {
+        cycle_id: input.cycleId,
+        unlocked_count: row.unlocked_members.length,
+        removed_penalties: row.removed_penalties,
+      },
+    });
+
+    return {
+      success: true,
+      restoredMembers: row.restored_members,
+      unlockedMembers: row.unlocked_members,
+      removedPenalties: row.removed_penalties,
+      removedCycles: row.removed_cycles,
+      removedRounds: row.removed_rounds || 0,
+    };
+  } catch (error) {
+    console.error('Error reopening cycle:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reopen cycle',
+    };
+  }
+};
+
+/**
+ * Deadline for a member's payment: the cycle's due date, or a later extension
+ */
+export const getPaymentDeadline = (
+  cycle: Pick<PaymentCycle, 'due_date'>,
+  log: Pick<PaymentLog, 'extended_until'> | null | undefined
+): Date => {
+  const dueDate = new Date(cycle.due_date);
+  const extendedUntil = log?.extended_until ? new Date(log.extended_until) : null;
+  return extendedUntil && extendedUntil > dueDate ? extendedUntil : dueDate;
+};
+
+/**
+ * President gives a member more time to pay
+ * An extension running past the close holds back the member's miss until the first
+ * close after it ends, and payments on the log are only late (or charged a late fee) after it ends
+ */
+export const extendPaymentDeadline = async (input: ExtendPaymentInput): Promise<{ success: boolean; error?: string }> => {
+  try {
+    if (input.until <= new Date()) {
+      throw new Error('An extension must end in the future');
+    }
+
+    const { error } = await supabase
+      .from('payment_logs')
+      .update({ extended_until: input.until.toISOString() })
+      .eq('id', input.log.id);
+
+    if (error) throw error;
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'payment_extended',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: {
+        until: input.until.toISOString(),
+        cycle_id: input.log.cycle_id,
+        payment_log_id: input.log.id,
+      },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error extending payment deadline:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to extend payment deadline',
+    };
+  }
+};
+
 /**
  * Restores a locked member
- * 1. Gets max queue_position in group
- * 2. Updates member: status='active', queue_position=max+1, missed_payment_count=0
+ * 1. Works out their queue position: unchanged for 'keep_position', or after everyone else for 'move_to_end'
+ * 2. Updates member: status='active', queue_position, missed_payment_count=0, on_time_streak=0
  */
-export const restoreMember = async (memberId: string, groupId: string): Promise<{ success: boolean; newPosition?: number; error?: string }> => {
+export const restoreMember = async (
+  memberId: string,
+  groupId: string,
+  mode: Exclude<RestoreMode, 'after_arrears'> = 'move_to_end'
+): Promise<{ success: boolean; newPosition?: number; error?: string }> => {
   try {
-    // 1. Get max queue_position in the group
+    // 1. Find the member's place; locked members keep their position, so the end is past every member
     const { data: members, error: membersError } = await supabase
       .from('group_members')
-      .select('queue_position')
+      .select('id, queue_position')
       .eq('group_id', groupId)
-      .eq('status', 'active')
-      .order('queue_position', { ascending: false })
-      .limit(1);
+      .order('queue_position', { ascending: false });
 
     if (membersError) throw membersError;
 
-    const maxPosition = members && members.length > 0 ? members[0].queue_position : 0;
-    const newPosition = maxPosition + 1;
+    const member = members?.find(m => m.id === memberId);
+    if (!member) throw new Error('Member not found');
+
+    const maxPosition = members.filter(m => m.id !== memberId)[0]?.queue_position || 0;
+    const newPosition = mode === 'keep_position' ? member.queue_position : Math.max(maxPosition + 1, member.queue_position);
 
     // 2. Update the member
     const { error: updateError } = await supabase
@@ -109,6 +478,7 @@ export const restoreMember = async (memberId: string, groupId: string): Promise<
         status: 'active',
         queue_position: newPosition,
         missed_payment_count: 0,
+        on_time_streak: 0,
       })
       .eq('id', memberId);
 
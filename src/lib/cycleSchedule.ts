@@ -0,0 +1,206 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  format,
+  getDaysInMonth,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import { Group, GroupFrequency, FrequencyUnit, MonthEndRule } from '@/types/database';
+
+// Safety limits so a bad anchor or skip list can never loop forever
+const MAX_SCHEDULE_ITERATIONS = 5000;
+const MAX_SKIPPED_DAYS = 366;
+
+export interface CycleSchedule {
+  frequency: GroupFrequency;
+  interval?: number; // custom frequencies only
+  unit?: FrequencyUnit; // custom frequencies only
+  anchorDate: Date;
+  monthEndRule?: MonthEndRule;
+  skipDates?: string[]; // yyyy-MM-dd
+}
+
+export interface ScheduledCycle {
+  index: number;
+  startDate: Date;
+  dueDate: Date;
+}
+
+/**
+ * Date `months` calendar months after the anchor, applying the month-end rule
+ * when the anchor day does not exist in the target month (e.g. the 31st in February)
+ */
+function addCalendarMonths(anchor: Date, months: number, monthEndRule?: MonthEndRule): Date {
+  const target = addMonths(startOfMonth(anchor), months);
+  const anchorDay = anchor.getDate();
+
+  if (anchorDay <= getDaysInMonth(target)) {
+    return addDays(target, anchorDay - 1);
+  }
+
+  return monthEndRule === 'next_month'
+    ? addMonths(target, 1)
+    : addDays(target, getDaysInMonth(target) - 1);
+}
+
+/**
+ * Raw occurrence of the schedule before skipped dates are applied
+ * Month-based occurrences are always computed from the anchor so a 31st anchor
+ * returns to the 31st after a short month instead of drifting to the 28th
+ */
+export function getOccurrence(schedule: CycleSchedule, index: number): Date {
+  const anchor = startOfDay(schedule.anchorDate);
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      return addWeeks(anchor, index);
+    case 'bi-weekly':
+      return addWeeks(anchor, index * 2);
+    case 'quarterly':
+      return addCalendarMonths(anchor, index * 3, schedule.monthEndRule);
+    case 'custom': {
+      const interval = Math.max(schedule.interval || 1, 1);
+      return schedule.unit === 'weeks'
+        ? addWeeks(anchor, index * interval)
+        : addDays(anchor, index * interval);
+    }
+    case 'monthly':
+    default:
+      return addCalendarMonths(anchor, index, schedule.monthEndRule);
+  }
+}
+
+/**
+ * Moves a date forward one day at a time until it is not a skipped date
+ */
+export function skipExcludedDates(date: Date, skipDates: string[] = []): Date {
+  if (skipDates.length === 0) return date;
+
+  const skipped = new Set(skipDates);
+  let result = date;
+  for (let i = 0; i < MAX_SKIPPED_DAYS && skipped.has(format(result, 'yyyy-MM-dd')); i++) {
+    result = addDays(result, 1);
+  }
+  return result;
+}
+
+/**
+ * Start and due dates of the cycle at a given position in the schedule
+ * A cycle runs from one occurrence to the next
+ */
+export function getScheduledCycle(schedule: CycleSchedule, index: number): ScheduledCycle {
+  const startDate = skipExcludedDates(getOccurrence(schedule, index), schedule.skipDates);
+  let dueDate = skipExcludedDates(getOccurrence(schedule, index + 1), schedule.skipDates);
+
+  if (dueDate <= startDate) {
+    dueDate = skipExcludedDates(addDays(startDate, 1), schedule.skipDates);
+  }
+
+  return { index, startDate, dueDate };
+}
+
+/**
+ * Position in the schedule to start looking for the next cycle from
+ * Estimated from the time elapsed since the anchor, stepping back far enough that
+ * skipped dates (which only push dates forward) cannot hide an earlier candidate
+ */
+function getSearchStartIndex(schedule: CycleSchedule, from: Date): number {
+  const anchor = startOfDay(schedule.anchorDate);
+  const maxShift = Math.min(schedule.skipDates?.length || 0, MAX_SKIPPED_DAYS);
+  const limit = addDays(from, -(2 * maxShift + 1));
+  if (limit <= anchor) return 0;
+
+  let elapsed: number;
+  switch (schedule.frequency) {
+    case 'weekly':
+      elapsed = differenceInCalendarDays(limit, anchor) / 7;
+      break;
+    case 'bi-weekly':
+      elapsed = differenceInCalendarDays(limit, anchor) / 14;
+      break;
+    case 'quarterly':
+      elapsed = differenceInCalendarMonths(limit, anchor) / 3;
+      break;
+    case 'custom': {
+      const interval = Math.max(schedule.interval || 1, 1);
+      elapsed = differenceInCalendarDays(limit, anchor) / (schedule.unit === 'weeks' ? interval * 7 : interval);
+      break;
+    }
+    case 'monthly':
+    default:
+      elapsed = differenceInCalendarMonths(limit, anchor);
+  }
+
+  return Math.max(Math.floor(elapsed) - 1, 0);
+}
+
+/**
+ * Works out the next cycle to open
+ * - Starts on or after the previous cycle's due date (no overlapping cycles)
+ * - Is still running or in the future relative to `today`
+ */
+export function getNextCycleDates(
+  schedule: CycleSchedule,
+  options: { previousDueDate?: Date | null; today?: Date } = {}
+): ScheduledCycle {
+  const today = startOfDay(options.today || new Date());
+  const notBefore = options.previousDueDate ? startOfDay(options.previousDueDate) : null;
+  const first = getSearchStartIndex(schedule, notBefore && notBefore > today ? notBefore : today);
+
+  for (let index = first; index < first + MAX_SCHEDULE_ITERATIONS; index++) {
+    const cycle = getScheduledCycle(schedule, index);
+    if (notBefore && cycle.startDate < notBefore) continue;
+    if (cycle.dueDate <= today) continue;
+    return cycle;
+  }
+
+  throw new Error('Could not find the next cycle in the schedule. Check the schedule anchor date.');
+}
+
+/**
+ * List the next few cycles of a schedule (for previews)
+ */
+export function getUpcomingCycles(
+  schedule: CycleSchedule,
+  count: number,
+  options: { previousDueDate?: Date | null; today?: Date } = {}
+): ScheduledCycle[] {
+  const first = getNextCycleDates(schedule, options);
+  return Array.from({ length: count }, (_, i) => getScheduledCycle(schedule, first.index + i));
+}
+
+/**
+ * Build a group's schedule from its settings
+ * Falls back to the first cycle's start date (or today) when no anchor is set
+ */
+export function getGroupSchedule(
+  group: Pick<Group, 'frequency' | 'schedule_anchor_date' | 'schedule_month_end_rule' | 'schedule_skip_dates'>
+    & Partial<Pick<Group, 'frequency_interval' | 'frequency_unit'>>,
+  fallbackAnchor?: Date | string | null
+): CycleSchedule {
+  const anchor = group.schedule_anchor_date || fallbackAnchor || new Date();
+
+  return {
+    frequency: group.frequency,
+    interval: group.frequency_interval || undefined,
+    unit: group.frequency_unit || undefined,
+    anchorDate: typeof anchor === 'string' ? parseScheduleDate(anchor) : anchor,
+    monthEndRule: group.schedule_month_end_rule || 'last_day',
+    skipDates: group.schedule_skip_dates || [],
+  };
+}
+
+/**
+ * Parse a yyyy-MM-dd (or ISO) string as a local calendar date
+ */
+export function parseScheduleDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  return startOfDay(new Date(value));
+}
@@ -0,0 +1,98 @@
+import { Group, GroupFrequency, FrequencyUnit } from '@/types/database';
+
+type FrequencySettings = Pick<Group, 'frequency'> & Partial<Pick<Group, 'frequency_interval' | 'frequency_unit'>>;
+
+export const FREQUENCY_OPTIONS: { value: GroupFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bi-weekly', label: 'Bi-weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'custom', label: 'Custom interval' },
+];
+
+export const FREQUENCY_UNITS: { value: FrequencyUnit; label: string }[] = [
+  { value: 'days', label: 'Days' },
+  { value: 'weeks', label: 'Weeks' },
+];
+
+// Custom intervals are capped at one year
+export const MAX_CUSTOM_INTERVAL_DAYS = 365;
+
+/**
+ * Length of a custom interval in days (null if the group is not custom or is misconfigured)
+ */
+export function getCustomIntervalDays(settings: FrequencySettings): number | null {
+  if (settings.frequency !== 'custom') return null;
+  const interval = settings.frequency_interval;
+  if (!interval || interval < 1) return null;
+  return settings.frequency_unit === 'weeks' ? interval * 7 : interval;
+}
+
+/**
+ * Check a custom interval, returning an error message or null when valid
+ */
+export function validateCustomInterval(interval: number, unit: FrequencyUnit): string | null {
+  if (!Number.isInteger(interval) || interval < 1) {
+    return 'Interval must be a whole number of at least 1';
+  }
+  const days = unit === 'weeks' ? interval * 7 : interval;
+  if (days > MAX_CUSTOM_INTERVAL_DAYS) {
+    return 'Interval cannot be longer than one year';
+  }
+  return null;
+}
+
+/**
+ * Human-readable frequency, e.g. "Bi-weekly" or "Every 10 days"
+ */
+export function formatFrequency(settings: FrequencySettings): string {
+  if (settings.frequency === 'custom') {
+    const interval = settings.frequency_interval || 1;
+    const unit = settings.frequency_unit === 'weeks' ? 'week' : 'day';
+    return interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  }
+  return FREQUENCY_OPTIONS.find(o => o.value === settings.frequency)?.label || settings.frequency;
+}
+
+/**
+ * The period one contribution covers, for "per ___" copy
+ */
+export function formatFrequencyPeriod(settings: FrequencySettings): string {
+  switch (settings.frequency) {
+    case 'weekly':
+      return 'week';
+    case 'bi-weekly':
+      return '2 weeks';
+    case 'quarterly':
+      return 'quarter';
+    case 'custom': {
+      const interval = settings.frequency_interval || 1;
+      const unit = settings.frequency_unit === 'weeks' ? 'week' : 'day';
+      return interval === 1 ? unit : `${interval} ${unit}s`;
+    }
+    case 'monthly':
+    default:
+      return 'month';
+  }
+}
+
+/**
+ * Approximate number of cycles in a year, used for projections in analytics
+ */
+export function getCyclesPerYear(settings: FrequencySettings): number {
+  switch (settings.frequency) {
+    case 'weekly':
+      return 52;
+    case 'bi-weekly':
+      return 26;
+    case 'quarterly':
+      return 4;
+    case 'custom': {
+      const days = getCustomIntervalDays(settings);
+      return days ? 365 / days : 12;
+    }
+    case 'monthly':
+    default:
+      return 12;
+  }
+}
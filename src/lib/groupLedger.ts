@@ -0,0 +1,371 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getGroupArrears } from '@/lib/arrears';
+import { moneyHeader } from '@/lib/currency';
+import { exportToCsv } from '@/lib/exportCsv';
+import { getLogInstallments } from '@/lib/installments';
+import { addMoney, fromMinor, subtractMoney, sumAmounts, toMinor, type Money } from '@/lib/money';
+import { getGroupPayouts } from '@/lib/payouts';
+import { getGroupPenalties } from '@/lib/penalties';
+import { getBidDiscount, getQueueBids } from '@/lib/queueOrder';
+import { getGroupRounds } from '@/lib/rounds';
+import { getMemberContribution } from '@/lib/shares';
+import { Arrears, GroupMember, PaymentCycle, PaymentInstallment, PaymentLog, Payout, Penalty, QueueBid, Round } from '@/types/database';
+
+// The pot holds the group's money, fees collects late fee income,
+// and each member has an account for what they have paid in and taken out
+export type LedgerAccount = 'pot' | 'fees' | `member:${string}`;
+
+export type JournalKind = 'contribution' | 'arrears_payment' | 'payout' | 'late_fee' | 'fee_waived';
+
+export interface JournalEntry {
+  id: string;
+  date: string;
+  kind: JournalKind;
+  memberId: string;
+  cycleId: string | null; // null for arrears payments, which cover several cycles
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  amount: number;
+  description: string;
+}
+
+export interface AccountBalance {
+  account: LedgerAccount;
+  debits: number;
+  credits: number;
+  balance: number; // debits less credits
+}
+
+export type ReconciliationStatus = 'matched' | 'mismatch' | 'short' | 'awaiting_payout';
+
+export interface CycleReconciliation {
+  cycleId: string;
+  dueDate: string;
+  cycleStatus: PaymentCycle['status'];
+  collected: number; // verified contributions posted to the pot
+  expectedPayout: number; // every hand paying in except the recipient's own, less their winning bid
+  paidOut: number; // payouts sent or confirmed from the pot
+  difference: number; // paid out less the expected payout
+  shortfall: number; // paid out beyond what was collected, leaving out the recipient's own hand
+  status: ReconciliationStatus;
+}
+
+type LedgerCycle = Pick<PaymentCycle, 'id' | 'due_date' | 'status'> &
+  Partial<Pick<PaymentCycle, 'contribution_amount' | 'round_id' | 'recipient_id'>>;
+type LedgerLog = Pick<PaymentLog, 'id' | 'cycle_id' | 'member_id' | 'status' | 'verified_at'> & Partial<Pick<PaymentLog, 'amount_due'>>;
+
+export interface GroupLedgerData {
+  cycles: LedgerCycle[];
+  logs: LedgerLog[];
+  installments: Pick<PaymentInstallment, 'id' | 'payment_log_id' | 'amount' | 'status' | 'paid_at' | 'verified_at'>[];
+  penalties: Pick<Penalty, 'id' | 'cycle_id' | 'member_id' | 'amount' | 'status' | 'created_at' | 'waived_at'>[];
+  payouts: Pick<Payout, 'id' | 'cycle_id' | 'recipient_id' | 'amount' | 'status' | 'sent_at' | 'created_at'>[];
+  arrears: Pick<Arrears, 'id' | 'member_id' | 'amount_paid' | 'updated_at'>[];
+  rounds: Pick<Round, 'id' | 'round_number' | 'queue_mode'>[];
+  bids: Pick<QueueBid, 'member_id' | 'round_number' | 'discount'>[]; // bids of bidding rounds
+}
+
+type LedgerMember = Pick<GroupMember, 'id'> & Partial<Pick<GroupMember, 'shares'>>;
+
+export const JOURNAL_KIND_LABELS: Record<JournalKind, string> = {
+  contribution: 'Contribution',
+  arrears_payment: 'Arrears payment',
+  payout: 'Payout',
+  late_fee: 'Late fee',
+  fee_waived: 'Fee waived',
+};
+
+const formatDay = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+export const memberAccount = (memberId: string): LedgerAccount => `member:${memberId}`;
+
+/**
+ * Contribution owed on a payment log, as recorded when the log was created
+ * Older logs fall back to the member's hands at the cycle's (or else the group's) contribution
+ */
+export function getLogContribution(
+  log: Partial<Pick<PaymentLog, 'amount_due'>>,
+  cycle: Partial<Pick<PaymentCycle, 'contribution_amount'>>,
+  member: LedgerMember | undefined,
+  contributionAmount: number
+): number {
+  if (log.amount_due !== null && log.amount_due !== undefined) return Number(log.amount_due);
+  return getMemberContribution(Number(cycle.contribution_amount ?? contributionAmount), member);
+}
+
+/**
+ * Posts every money movement in a group as a balanced entry, oldest first
+ * - Verified installments (or a verified payment from before installments, for the amount owed at the time)
+ *   and arrears payments: pot debited, member credited
+ * - Payouts sent or confirmed: member debited, pot credited
+ * - Late fees: member debited, fees credited; a waiver reverses the fee
+ */
+export function buildGroupJournal(
+  members: LedgerMember[],
+  contributionAmount: number,
+  data: GroupLedgerData
+): JournalEntry[] {
+  const memberMap = new Map(members.map(m => [m.id, m]));
+  const cycleMap = new Map(data.cycles.map(c => [c.id, c]));
+  const entries: JournalEntry[] = [];
+
+  data.logs.forEach(log => {
+    const cycle = cycleMap.get(log.cycle_id);
+    if (!cycle) return;
+
+    const description = `Payment for the cycle due ${formatDay(cycle.due_date)}`;
+    const installments = data.installments.filter(i => i.payment_log_id === log.id);
+    if (installments.length === 0 && log.status === 'verified') {
+      entries.push({
+        id: `paid-${log.id}`,
+        date: log.verified_at || cycle.due_date,
+        kind: 'contribution',
+        memberId: log.member_id,
+        cycleId: cycle.id,
+        debit: 'pot',
+        credit: memberAccount(log.member_id),
+        amount: getLogContribution(log, cycle, memberMap.get(log.member_id), contributionAmount),
+        description,
+      });
+    }
+
+    installments
+      .filter(i => i.status === 'verified')
+      .forEach(i => entries.push({
+        id: `installment-${i.id}`,
+        date: i.verified_at || i.paid_at,
+        kind: 'contribution',
+        memberId: log.member_id,
+        cycleId: cycle.id,
+        debit: 'pot',
+        credit: memberAccount(log.member_id),
+        amount: Number(i.amount),
+        description,
+      }));
+  });
+
+  data.arrears
+    .filter(a => Number(a.amount_paid) > 0)
+    .forEach(a => entries.push({
+      id: `arrears-${a.id}`,
+      date: a.updated_at,
+      kind: 'arrears_payment',
+      memberId: a.member_id,
+      cycleId: null,
+      debit: 'pot',
+      credit: memberAccount(a.member_id),
+      amount: Number(a.amount_paid),
+      description: 'Paid towards arrears',
+    }));
+
+  data.payouts
+    .filter(p => p.status !== 'pending')
+    .forEach(p => entries.push({
+      id: `payout-${p.id}`,
+      date: p.sent_at || p.created_at,
+      kind: 'payout',
+      memberId: p.recipient_id,
+      cycleId: p.cycle_id,
+      debit: memberAccount(p.recipient_id),
+      credit: 'pot',
+      amount: Number(p.amount),
+      description: p.status === 'confirmed' ? 'Payout received' : 'Payout sent, awaiting confirmation',
+    }));
+
+  data.penalties.forEach(p => {
+    entries.push({
+      id: `fee-${p.id}`,
+      date: p.created_at,
+      kind: 'late_fee',
+      memberId: p.member_id,
+      cycleId: p.cycle_id,
+      debit: memberAccount(p.member_id),
+      credit: 'fees',
+      amount: Number(p.amount),
+      description: 'Late fee',
+    });
+    if (p.status === 'waived') {
+      entries.push({
+        id: `waived-${p.id}`,
+        date: p.waived_at || p.created_at,
+        kind: 'fee_waived',
+        memberId: p.member_id,
+        cycleId: p.cycle_id,
+        debit: 'fees',
+        credit: memberAccount(p.member_id),
+        amount: Number(p.amount),
+        description: 'Late fee waived',
+      });
+    }
+  });
+
+  return entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Debits, credits and balance of every account the journal touches
+ * Balances across all accounts always sum to zero
+ */
+export function getAccountBalances(entries: JournalEntry[]): AccountBalance[] {
+  const totals = new Map<LedgerAccount, { debits: Money; credits: Money }>();
+  const post = (account: LedgerAccount, side: 'debits' | 'credits', amount: Money) => {
+    const total = totals.get(account) || { debits: 0, credits: 0 };
+    total[side] = addMoney(total[side], amount);
+    totals.set(account, total);
+  };
+
+  entries.forEach(e => {
+    post(e.debit, 'debits', toMinor(e.amount));
+    post(e.credit, 'credits', toMinor(e.amount));
+  });
+
+  return Array.from(totals, ([account, t]) => ({
+    account,
+    debits: fromMinor(t.debits),
+    credits: fromMinor(t.credits),
+    balance: fromMinor(subtractMoney(t.debits, t.credits)),
+  }));
+}
+
+/**
+ * Total of the journal entries of the given kinds
+ */
+export function sumJournal(entries: JournalEntry[], kinds: JournalKind[]): number {
+  return sumAmounts(entries.filter(e => kinds.includes(e.kind)).map(e => e.amount));
+}
+
+// One hand's contribution in a cycle, as recorded when it started
+const getCycleHand = (cycle: LedgerCycle, contributionAmount: number): Money =>
+  toMinor(Number(cycle.contribution_amount ?? contributionAmount));
+
+/**
+ * Payout a cycle's recipient is owed under the payout rule (see getExpectedPayout)
+ * Every hand paying into the cycle except the recipient's own, less the recipient's bid in a bidding round,
+ * worked out from the amounts recorded at the time
+ */
+function getCyclePayout(
+  cycle: LedgerCycle,
+  memberMap: Map<string, LedgerMember>,
+  contributionAmount: number,
+  data: GroupLedgerData
+): number {
+  const hand = getCycleHand(cycle, contributionAmount);
+  const pot = data.logs
+    .filter(log => log.cycle_id === cycle.id)
+    .reduce((total, log) => addMoney(total, toMinor(getLogContribution(log, cycle, memberMap.get(log.member_id), contributionAmount))), 0);
+  const payout = Math.max(subtractMoney(pot, hand), 0);
+
+  const round = data.rounds.find(r => r.id === cycle.round_id);
+  if (round?.queue_mode !== 'bidding' || !cycle.recipient_id) return fromMinor(payout);
+  const discount = getBidDiscount(data.bids, cycle.recipient_id, round.round_number);
+  return fromMinor(Math.max(subtractMoney(payout, toMinor(discount)), 0));
+}
+
+/**
+ * Compares what each cycle paid out with the payout its recipient was owed and with what it collected, newest first
+ * - Cycles with nothing collected or paid out yet are left out
+ * - A cycle with money collected but no payout is awaiting its payout
+ * - A payout that verified contributions, less the recipient's own hand, don't cover is short,
+ *   even when it is the amount owed
+ */
+export function reconcileCycles(
+  members: LedgerMember[],
+  contributionAmount: number,
+  data: GroupLedgerData,
+  entries: JournalEntry[]
+): CycleReconciliation[] {
+  const memberMap = new Map(members.map(m => [m.id, m]));
+
+  return data.cycles
+    .map(cycle => {
+      const cycleEntries = entries.filter(e => e.cycleId === cycle.id);
+      const collected = sumJournal(cycleEntries, ['contribution']);
+      const expectedPayout = getCyclePayout(cycle, memberMap, contributionAmount, data);
+      const paidOut = sumJournal(cycleEntries, ['payout']);
+      const difference = fromMinor(subtractMoney(toMinor(paidOut), toMinor(expectedPayout)));
+      const recipientPaid = toMinor(sumJournal(cycleEntries.filter(e => e.memberId === cycle.recipient_id), ['contribution']));
+      const available = subtractMoney(toMinor(collected), Math.min(recipientPaid, getCycleHand(cycle, contributionAmount)));
+      const shortfall = fromMinor(Math.max(subtractMoney(toMinor(paidOut), available), 0));
+      const hasPayout = cycleEntries.some(e => e.kind === 'payout');
+      const status: ReconciliationStatus = !hasPayout
+        ? 'awaiting_payout'
+        : shortfall > 0 ? 'short' : difference !== 0 ? 'mismatch' : 'matched';
+
+      return {
+        cycleId: cycle.id,
+        dueDate: cycle.due_date,
+        cycleStatus: cycle.status,
+        collected,
+        expectedPayout,
+        paidOut,
+        difference,
+        shortfall,
+        status,
+      };
+    })
+    .filter(r => r.collected > 0 || r.paidOut > 0)
+    .sort((a, b) => new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime());
+}
+
+/**
+ * Fetch everything the group's journal is built from
+ */
+export async function getGroupLedgerData(groupId: string): Promise<GroupLedgerData> {
+  const { data: cycles, error: cyclesError } = await supabase
+    .from('payment_cycles')
+    .select('id, due_date, status, contribution_amount, round_id, recipient_id')
+    .eq('group_id', groupId);
+
+  if (cyclesError) throw cyclesError;
+
+  const cycleIds = (cycles || []).map(c => c.id);
+  let logs: GroupLedgerData['logs'] = [];
+  if (cycleIds.length > 0) {
+    const { data, error } = await supabase
+      .from('payment_logs')
+      .select('id, cycle_id, member_id, status, verified_at, amount_due')
+      .in('cycle_id', cycleIds);
+
+    if (error) throw error;
+    logs = data || [];
+  }
+
+  const [installments, penalties, payouts, arrears, rounds] = await Promise.all([
+    getLogInstallments(logs.map(l => l.id)),
+    getGroupPenalties(groupId),
+    getGroupPayouts(groupId),
+    getGroupArrears(groupId),
+    getGroupRounds(groupId),
+  ]);
+
+  const biddingRounds = rounds.filter(r => r.queue_mode === 'bidding').map(r => r.round_number);
+  const bids = biddingRounds.length > 0 ? await getQueueBids(groupId, biddingRounds) : [];
+
+  return { cycles: cycles || [], logs, installments, penalties, payouts, arrears, rounds, bids };
+}
+
+/**
+ * Download the group's journal as CSV
+ */
+export function exportGroupJournal(
+  entries: JournalEntry[],
+  accountName: (account: LedgerAccount) => string,
+  groupName: string,
+  currency?: string | null
+): void {
+  const filename = `${groupName.replace(/\s+/g, '_')}_journal_${format(new Date(), 'yyyy-MM-dd')}`;
+
+  exportToCsv(
+    entries,
+    [
+      { header: 'Date', accessor: (e) => format(new Date(e.date), 'yyyy-MM-dd') },
+      { header: 'Type', accessor: (e) => JOURNAL_KIND_LABELS[e.kind] },
+      { header: 'Description', accessor: 'description' },
+      { header: 'Debit Account', accessor: (e) => accountName(e.debit) },
+      { header: 'Credit Account', accessor: (e) => accountName(e.credit) },
+      { header: moneyHeader('Amount', currency), accessor: 'amount' },
+    ],
+    filename
+  );
+}
@@ -0,0 +1,421 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity } from '@/lib/activity';
+import { formatMoney } from '@/lib/currency';
+import { addMoney, fromMinor, subtractMoney, toMinor, type Money } from '@/lib/money';
+import {
+  getSubmissionEventType,
+  notifyPaymentRejected,
+  recordPaymentEvent,
+  validateRejection,
+  type Rejection,
+} from '@/lib/paymentEvents';
+import { deletePaymentProof, uploadPaymentProof } from '@/lib/storage';
+import { PaymentInstallment, PaymentLog, PaymentMethod, PaymentStatus } from '@/types/database';
+
+export const PAYMENT_METHOD_OPTIONS: { value: PaymentMethod; label: string; referenceHint: string }[] = [
+  { value: 'bank_transfer', label: 'Bank transfer', referenceHint: 'e.g. transaction ID on your bank receipt' },
+  { value: 'mobile_money', label: 'Mobile money', referenceHint: 'e.g. confirmation code from the SMS' },
+  { value: 'e_transfer', label: 'e-Transfer', referenceHint: 'e.g. e-Transfer confirmation number' },
+  { value: 'cash', label: 'Cash', referenceHint: 'e.g. receipt number, if you were given one' },
+  { value: 'other', label: 'Other', referenceHint: 'Any reference the president can match' },
+];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = Object.fromEntries(
+  PAYMENT_METHOD_OPTIONS.map(option => [option.value, option.label])
+) as Record<PaymentMethod, string>;
+
+export interface InstallmentBalance {
+  due: number;
+  verified: number;
+  pending: number;
+  submitted: number; // verified + pending
+  remaining: number; // still to be sent
+  isFullyPaid: boolean; // verified installments cover the contribution
+}
+
+export interface LogStatusUpdate {
+  status: PaymentStatus;
+  marked_at: string | null;
+  verified_at: string | null;
+}
+
+export interface SubmitInstallmentInput {
+  log: PaymentLog;
+  groupId: string;
+  contributionAmount: number;
+  currency?: string | null;
+  amount: number;
+  paidAt: string;
+  paymentMethod: PaymentMethod;
+  reference?: string;
+  proof?: File | null;
+  note?: string; // the member's reply when resending after a rejection
+  actorId: string;
+  actorName: string;
+}
+
+export interface ReviewInstallmentInput {
+  installment: PaymentInstallment;
+  groupName: string;
+  contributionAmount: number;
+  currency?: string | null;
+  memberUserId: string;
+  memberName: string;
+  actorId: string;
+  actorName: string;
+}
+
+interface InstallmentResult {
+  success: boolean;
+  installment?: PaymentInstallment;
+  log?: LogStatusUpdate;
+  error?: string;
+}
+
+// Amounts are compared in minor units so 33.33 + 33.33 + 33.34 covers 100
+function sumInstallments(installments: PaymentInstallment[], status: PaymentInstallment['status']): Money {
+  return addMoney(...installments.filter(i => i.status === status).map(i => toMinor(i.amount)));
+}
+
+/**
+ * Whether a payment method leaves a transaction reference to match against statements
+ * Cash handed over in person usually has none
+ */
+export function requiresReference(method: PaymentMethod): boolean {
+  return method !== 'cash';
+}
+
+/**
+ * Reduce a transaction reference to the form used for duplicate checks
+ * Case, spaces and dashes are ignored so "ab-12 34" and "AB1234" are the same reference
+ */
+export function normalizeReference(reference: string | null | undefined): string {
+  return (reference || '').replace(/[\s-]+/g, '').toUpperCase();
+}
+
+/**
+ * Find installments whose transaction reference was already used elsewhere in the group
+ * - Returns the other installments sharing each installment's reference, oldest first
+ * - Rejected installments are ignored, so a resubmission after a rejection is not flagged
+ */
+export function findDuplicateReferences(installments: PaymentInstallment[]): Map<string, PaymentInstallment[]> {
+  const byReference = new Map<string, PaymentInstallment[]>();
+  installments
+    .filter(i => i.status !== 'rejected' && normalizeReference(i.reference))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(i => {
+      const key = normalizeReference(i.reference);
+      byReference.set(key, [...(byReference.get(key) || []), i]);
+    });
+
+  const duplicates = new Map<string, PaymentInstallment[]>();
+  byReference.forEach(matches => {
+    if (matches.length < 2) return;
+    matches.forEach(i => duplicates.set(i.id, matches.filter(other => other.id !== i.id)));
+  });
+  return duplicates;
+}
+
+/**
+ * Running balance of a payment log against the contribution amount
+ * Logs marked as sent before installments existed have no entries, so their status stands in for the full amount
+ */
+export function getInstallmentBalance(
+  contributionAmount: number,
+  installments: PaymentInstallment[],
+  legacyStatus?: PaymentStatus
+): InstallmentBalance {
+  const due = toMinor(contributionAmount);
+  let verified = sumInstallments(installments, 'verified');
+  let pending = sumInstallments(installments, 'pending');
+
+  if (installments.length === 0 && legacyStatus === 'verified') verified = due;
+  if (installments.length === 0 && legacyStatus === 'pending') pending = due;
+
+  const submitted = addMoney(verified, pending);
+  return {
+    due: fromMinor(due),
+    verified: fromMinor(verified),
+    pending: fromMinor(pending),
+    submitted: fromMinor(submitted),
+    remaining: fromMinor(Math.max(subtractMoney(due, submitted), 0)),
+    isFullyPaid: verified >= due,
+  };
+}
+
+/**
+ * Work out a payment log's status from its installments
+ * - verified once verified installments cover the contribution
+ * - pending once submitted installments cover it (marked_at is when the last one was submitted)
+ * - rejected if the latest installment was rejected, otherwise unpaid
+ */
+export function getLogStatusFromInstallments(
+  contributionAmount: number,
+  installments: PaymentInstallment[]
+): LogStatusUpdate {
+  const balance = getInstallmentBalance(contributionAmount, installments);
+  const counted = installments.filter(i => i.status !== 'rejected');
+  const latest = (values: (string | null)[]) =>
+    values.filter(Boolean).sort().pop() || null;
+
+  if (balance.isFullyPaid) {
+    return {
+      status: 'verified',
+      marked_at: latest(counted.map(i => i.created_at)),
+      verified_at: latest(counted.map(i => i.verified_at)),
+    };
+  }
+
+  if (balance.remaining === 0 && balance.submitted > 0) {
+    return { status: 'pending', marked_at: latest(counted.map(i => i.created_at)), verified_at: null };
+  }
+
+  const newest = [...installments].sort((a, b) => a.created_at.localeCompare(b.created_at)).pop();
+  return { status: newest?.status === 'rejected' ? 'rejected' : 'unpaid', marked_at: null, verified_at: null };
+}
+
+/**
+ * Get the installments for a set of payment logs, oldest first
+ */
+export async function getLogInstallments(logIds: string[]): Promise<PaymentInstallment[]> {
+  if (logIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('payment_installments')
+      .select('*')
+      .in('payment_log_id', logIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as PaymentInstallment[]) || [];
+  } catch (error) {
+    console.error('Error fetching installments:', error);
+    return [];
+  }
+}
+
+/**
+ * Get every installment in a group that has a transaction reference, across all cycles
+ */
+export async function getGroupReferenceHistory(groupId: string): Promise<PaymentInstallment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_installments')
+      .select('*')
+      .eq('group_id', groupId)
+      .not('reference', 'is', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as PaymentInstallment[]) || [];
+  } catch (error) {
+    console.error('Error fetching payment references:', error);
+    return [];
+  }
+}
+
+/**
+ * Recalculate a payment log's status after one of its installments changed
+ */
+async function syncPaymentLog(logId: string, contributionAmount: number): Promise<LogStatusUpdate> {
+  const { data, error } = await supabase
+    .from('payment_installments')
+    .select('*')
+    .eq('payment_log_id', logId);
+
+  if (error) throw error;
+
+  const update = getLogStatusFromInstallments(contributionAmount, (data as PaymentInstallment[]) || []);
+  const { error: logError } = await supabase
+    .from('payment_logs')
+    .update(update)
+    .eq('id', logId);
+
+  if (logError) throw logError;
+  return update;
+}
+
+/**
+ * Member records a payment towards their contribution
+ * - Amount must be positive and no more than the remaining balance
+ * - A transaction reference is required unless the payment was made in cash
+ * - Uploads the proof of payment, if attached, and removes it again if the payment cannot be recorded
+ * - The log only moves to pending once the submitted installments cover the contribution
+ * - Adds the submission to the payment's thread, as a resubmission when it follows a rejection
+ * - Logs the activity
+ */
+export async function submitInstallment(input: SubmitInstallmentInput): Promise<InstallmentResult> {
+  try {
+    if (!(input.amount > 0)) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+
+    const reference = input.reference?.trim() || null;
+    if (!reference && requiresReference(input.paymentMethod)) {
+      throw new Error('Enter the transaction reference so the president can match this payment');
+    }
+
+    const existing = await getLogInstallments([input.log.id]);
+    const balance = getInstallmentBalance(input.contributionAmount, existing);
+    if (toMinor(input.amount) > toMinor(balance.remaining)) {
+      throw new Error(`Payment is more than the remaining balance of ${formatMoney(balance.remaining, input.currency)}`);
+    }
+
+    let proofPath: string | null = null;
+    if (input.proof) {
+      const upload = await uploadPaymentProof(input.groupId, input.log.member_id, input.proof);
+      if (upload.error) throw new Error(upload.error);
+      proofPath = upload.path;
+    }
+
+    const { data, error } = await supabase
+      .from('payment_installments')
+      .insert({
+        payment_log_id: input.log.id,
+        group_id: input.groupId,
+        member_id: input.log.member_id,
+        amount: input.amount,
+        paid_at: input.paidAt,
+        payment_method: input.paymentMethod,
+        reference,
+        proof_path: proofPath,
+        status: 'pending',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (proofPath) await deletePaymentProof(proofPath);
+      throw error;
+    }
+
+    const log = await syncPaymentLog(input.log.id, input.contributionAmount);
+
+    await recordPaymentEvent({
+      paymentLogId: input.log.id,
+      groupId: input.groupId,
+      installmentId: data.id,
+      eventType: getSubmissionEventType(input.log.status, existing),
+      actorId: input.actorId,
+      actorName: input.actorName,
+      amount: input.amount,
+      note: input.note,
+    });
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'payment_marked_sent',
+      metadata: { amount: input.amount, installment_id: data.id, cycle_id: input.log.cycle_id },
+    });
+
+    return { success: true, installment: data as PaymentInstallment, log };
+  } catch (error) {
+    console.error('Error submitting installment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record payment',
+    };
+  }
+}
+
+/**
+ * President verifies or rejects a single pending installment
+ * - Only pending installments can be reviewed, and a rejection needs a reason
+ * - Recalculates the log status so it is verified once the contribution is covered
+ * - Rejections are added to the payment's thread and the member is notified with the reason
+ * - Logs the activity
+ */
+async function reviewInstallment(
+  input: ReviewInstallmentInput,
+  status: 'verified' | 'rejected',
+  rejection?: Rejection
+): Promise<InstallmentResult> {
+  try {
+    if (input.installment.status !== 'pending') {
+      throw new Error('Only a pending payment can be reviewed');
+    }
+
+    if (status === 'rejected') {
+      const invalid = rejection ? validateRejection(rejection) : 'Please choose a reason for rejecting the payment';
+      if (invalid) throw new Error(invalid);
+    }
+
+    const { data, error } = await supabase
+      .from('payment_installments')
+      .update({
+        status,
+        verified_at: status === 'verified' ? new Date().toISOString() : null,
+        verified_by: input.actorId,
+      })
+      .eq('id', input.installment.id)
+      .eq('status', 'pending')
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const log = await syncPaymentLog(input.installment.payment_log_id, input.contributionAmount);
+
+    if (status === 'rejected' && rejection) {
+      await recordPaymentEvent({
+        paymentLogId: input.installment.payment_log_id,
+        groupId: input.installment.group_id,
+        installmentId: input.installment.id,
+        eventType: 'rejected',
+        actorId: input.actorId,
+        actorName: input.actorName,
+        amount: input.installment.amount,
+        reason: rejection.reason,
+        note: rejection.note,
+      });
+
+      await notifyPaymentRejected(
+        input.memberUserId,
+        input.installment.group_id,
+        input.groupName,
+        input.installment.amount,
+        input.currency,
+        rejection
+      );
+    }
+
+    await logActivity({
+      group_id: input.installment.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: status === 'verified' ? 'payment_verified' : 'payment_rejected',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: {
+        amount: input.installment.amount,
+        installment_id: input.installment.id,
+        ...(rejection && { reason: rejection.reason }),
+      },
+    });
+
+    return { success: true, installment: data as PaymentInstallment, log };
+  } catch (error) {
+    console.error('Error reviewing installment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to review payment',
+    };
+  }
+}
+
+/**
+ * Verify a pending installment
+ */
+export function verifyInstallment(input: ReviewInstallmentInput): Promise<InstallmentResult> {
+  return reviewInstallment(input, 'verified');
+}
+
+/**
+ * Reject a pending installment with a reason so the member can send it again
+ */
+export function rejectInstallment(input: ReviewInstallmentInput, rejection: Rejection): Promise<InstallmentResult> {
+  return reviewInstallment(input, 'rejected', rejection);
+}
@@ -0,0 +1,88 @@
+import { formatMoney } from '@/lib/currency';
+import { fromMinor, multiplyMoney, toMinor } from '@/lib/money';
+import { Group, LateFeeType } from '@/types/database';
+
+export interface LateFeePolicy {
+  type: LateFeeType;
+  amount: number; // flat amount, or percent of the contribution
+  perDay: boolean;
+}
+
+export interface LateFee {
+  daysLate: number;
+  amount: number;
+}
+
+type LateFeeSettings = Partial<Pick<Group, 'late_fee_type' | 'late_fee_amount' | 'late_fee_per_day'>>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const MAX_LATE_FEE_PERCENT = 100;
+
+/**
+ * Read a group's late fee settings (no fees when unset)
+ */
+export function getLateFeePolicy(group: LateFeeSettings | null | undefined): LateFeePolicy {
+  return {
+    type: group?.late_fee_type || 'none',
+    amount: Number(group?.late_fee_amount) || 0,
+    perDay: group?.late_fee_per_day || false,
+  };
+}
+
+/**
+ * Whole days between the due date and when the payment was marked as sent
+ * Any part of a day counts as a full day; on-time payments are 0 days late
+ */
+export function getDaysLate(markedAt: string | Date, dueDate: string | Date): number {
+  const late = new Date(markedAt).getTime() - new Date(dueDate).getTime();
+  return late > 0 ? Math.ceil(late / MS_PER_DAY) : 0;
+}
+
+/**
+ * Late fee for a payment, mirroring close_payment_cycle in the database
+ * Returns null when the payment is on time or the group charges no fees
+ */
+export function calculateLateFee(
+  policy: LateFeePolicy,
+  contributionAmount: number,
+  markedAt: string | Date | null,
+  dueDate: string | Date
+): LateFee | null {
+  if (policy.type === 'none' || !(policy.amount > 0) || !markedAt) return null;
+
+  const daysLate = getDaysLate(markedAt, dueDate);
+  if (daysLate === 0) return null;
+
+  const baseFee = policy.type === 'flat'
+    ? toMinor(policy.amount)
+    : multiplyMoney(toMinor(contributionAmount), policy.amount / 100);
+  const amount = multiplyMoney(baseFee, policy.perDay ? daysLate : 1);
+
+  return { daysLate, amount: fromMinor(amount) };
+}
+
+/**
+ * Check a late fee policy, returning an error message or null when valid
+ */
+export function validateLateFeePolicy(policy: LateFeePolicy): string | null {
+  if (policy.type === 'none') return null;
+  if (isNaN(policy.amount) || policy.amount <= 0) {
+    return 'Late fee must be a positive number';
+  }
+  if (policy.type === 'percent' && policy.amount > MAX_LATE_FEE_PERCENT) {
+    return `Late fee cannot be more than ${MAX_LATE_FEE_PERCENT}% of the contribution`;
+  }
+  return null;
+}
+
+/**
+ * The policy in plain language, e.g. "$5.00 per day late"
+ */
+export function formatLateFeePolicy(policy: LateFeePolicy, currency?: string | null): string {
+  if (policy.type === 'none' || !(policy.amount > 0)) return 'No late fees';
+  const fee = policy.type === 'flat'
+    ? formatMoney(policy.amount, currency)
+    : `${policy.amount}% of the contribution`;
+  return policy.perDay ? `${fee} per day late` : `${fee} for paying late`;
+}
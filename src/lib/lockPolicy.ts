@@ -0,0 +1,94 @@
+import { Group, LockCountMode } from '@/types/database';
+
+export interface LockPolicy {
+  threshold: number;
+  countMode: LockCountMode;
+  lateGraceDays: number | null; // null: late payments are never counted as missed
+  decayCycles: number | null; // null: missed counts never decay
+}
+
+type LockPolicySettings = Partial<Pick<Group, 'lock_threshold' | 'lock_count_mode' | 'lock_grace_days' | 'lock_decay_cycles'>>;
+
+// Matches the behaviour before groups could set their own policy
+export const DEFAULT_LOCK_POLICY: LockPolicy = {
+  threshold: 3,
+  countMode: 'consecutive',
+  lateGraceDays: null,
+  decayCycles: null,
+};
+
+export const MAX_LOCK_THRESHOLD = 24;
+export const MAX_LOCK_GRACE_DAYS = 90;
+export const MAX_LOCK_DECAY_CYCLES = 24;
+
+/**
+ * Read a group's lock policy, filling in defaults for unset columns
+ */
+export function getLockPolicy(group: LockPolicySettings | null | undefined): LockPolicy {
+  return {
+    threshold: group?.lock_threshold || DEFAULT_LOCK_POLICY.threshold,
+    countMode: group?.lock_count_mode || DEFAULT_LOCK_POLICY.countMode,
+    lateGraceDays: group?.lock_grace_days ?? DEFAULT_LOCK_POLICY.lateGraceDays,
+    decayCycles: group?.lock_decay_cycles ?? DEFAULT_LOCK_POLICY.decayCycles,
+  };
+}
+
+/**
+ * Check a policy, returning an error message or null when valid
+ */
+export function validateLockPolicy(policy: LockPolicy): string | null {
+  if (!Number.isInteger(policy.threshold) || policy.threshold < 1 || policy.threshold > MAX_LOCK_THRESHOLD) {
+    return `Lock threshold must be a whole number between 1 and ${MAX_LOCK_THRESHOLD}`;
+  }
+  if (
+    policy.lateGraceDays !== null &&
+    (!Number.isInteger(policy.lateGraceDays) || policy.lateGraceDays < 0 || policy.lateGraceDays > MAX_LOCK_GRACE_DAYS)
+  ) {
+    return `Grace period must be a whole number of days between 0 and ${MAX_LOCK_GRACE_DAYS}`;
+  }
+  if (
+    policy.decayCycles !== null &&
+    (!Number.isInteger(policy.decayCycles) || policy.decayCycles < 1 || policy.decayCycles > MAX_LOCK_DECAY_CYCLES)
+  ) {
+    return `Decay must be a whole number of cycles between 1 and ${MAX_LOCK_DECAY_CYCLES}`;
+  }
+  return null;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Short summary of when members get locked, e.g. "3 consecutive missed payments"
+ */
+export function formatLockThreshold(policy: LockPolicy): string {
+  const kind = policy.countMode === 'consecutive' ? 'consecutive missed' : 'missed';
+  return `${policy.threshold} ${kind} payment${policy.threshold === 1 ? '' : 's'}`;
+}
+
+/**
+ * The policy as plain-language rules for members
+ */
+export function describeLockPolicy(policy: LockPolicy): string[] {
+  const rules = [
+    `Members are locked after ${formatLockThreshold(policy)}.`,
+    'A payment is missed when it is still unpaid or was rejected when the cycle closes.',
+  ];
+
+  if (policy.lateGraceDays !== null) {
+    rules.push(
+      policy.lateGraceDays === 0
+        ? 'Payments marked as sent after the due date also count as missed.'
+        : `Payments marked as sent more than ${plural(policy.lateGraceDays, 'day')} after the due date also count as missed.`
+    );
+  }
+
+  if (policy.countMode === 'consecutive') {
+    rules.push('An on-time payment resets your missed count to zero.');
+  } else if (policy.decayCycles !== null) {
+    rules.push(`Every ${plural(policy.decayCycles, 'on-time cycle')} in a row removes one missed payment from your count.`);
+  } else {
+    rules.push('Missed payments add up over the life of the group until the president restores you.');
+  }
+
+  return rules;
+}
@@ -0,0 +1,151 @@
+import { format } from 'date-fns';
+import { moneyHeader } from '@/lib/currency';
+import { exportToCsv } from '@/lib/exportCsv';
+import { buildGroupJournal, getLogContribution, type GroupLedgerData, type JournalKind } from '@/lib/groupLedger';
+import { addMoney, fromMinor, subtractMoney, toMinor } from '@/lib/money';
+import { GroupMember } from '@/types/database';
+
+export type LedgerEntryType =
+  | 'contribution_due'
+  | 'payment'
+  | 'late_fee'
+  | 'fee_waived'
+  | 'arrears_payment'
+  | 'payout_received';
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  type: LedgerEntryType;
+  description: string;
+  charge: number; // adds to what the member owes
+  credit: number; // takes off what the member owes
+  received: number; // paid out to the member; does not change what they owe
+  balance: number; // owed after this entry
+}
+
+export interface MemberBalance {
+  entries: LedgerEntry[]; // oldest first
+  totalDue: number;
+  totalPaid: number; // contributions and arrears payments
+  totalFees: number;
+  totalWaived: number;
+  totalReceived: number;
+  balance: number; // owed to the group right now, negative when paid ahead
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  contribution_due: 'Contribution due',
+  payment: 'Payment',
+  late_fee: 'Late fee',
+  fee_waived: 'Fee waived',
+  arrears_payment: 'Arrears payment',
+  payout_received: 'Payout received',
+};
+
+const JOURNAL_ENTRY_TYPES: Record<JournalKind, LedgerEntryType> = {
+  contribution: 'payment',
+  arrears_payment: 'arrears_payment',
+  payout: 'payout_received',
+  late_fee: 'late_fee',
+  fee_waived: 'fee_waived',
+};
+
+// Charges sort ahead of credits on the same day
+const ENTRY_ORDER: LedgerEntryType[] = ['contribution_due', 'late_fee', 'payment', 'arrears_payment', 'fee_waived', 'payout_received'];
+
+const formatDay = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+/**
+ * Builds a member's running balance from the group journal
+ * - Each cycle they were in charges the contribution they owed in it on its due date
+ * - Their verified payments and arrears payments are credited
+ * - Late fees are charged when recorded and credited back if waived
+ * - Payouts they received are listed but do not change what they owe
+ */
+export function buildMemberBalance(
+  member: Pick<GroupMember, 'id'> & Partial<Pick<GroupMember, 'shares'>>,
+  contributionAmount: number,
+  data: GroupLedgerData
+): MemberBalance {
+  const cycleMap = new Map(data.cycles.map(c => [c.id, c]));
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+  const add = (entry: Omit<LedgerEntry, 'balance' | 'charge' | 'credit' | 'received'> & Partial<Pick<LedgerEntry, 'charge' | 'credit' | 'received'>>) =>
+    entries.push({ charge: 0, credit: 0, received: 0, ...entry });
+
+  data.logs
+    .filter(log => log.member_id === member.id)
+    .forEach(log => {
+      const cycle = cycleMap.get(log.cycle_id);
+      if (!cycle) return;
+
+      add({
+        id: `due-${log.id}`,
+        date: cycle.due_date,
+        type: 'contribution_due',
+        description: `Contribution for the cycle due ${formatDay(cycle.due_date)}`,
+        charge: getLogContribution(log, cycle, member, contributionAmount),
+      });
+    });
+
+  buildGroupJournal([member], contributionAmount, data)
+    .filter(e => e.memberId === member.id)
+    .forEach(e => {
+      const type = JOURNAL_ENTRY_TYPES[e.kind];
+      const amount = type === 'late_fee' ? { charge: e.amount } : type === 'payout_received' ? { received: e.amount } : { credit: e.amount };
+      add({ id: e.id, date: e.date, type, description: e.description, ...amount });
+    });
+
+  entries.sort((a, b) => {
+    const diff = new Date(a.date).getTime() - new Date(b.date).getTime();
+    return diff !== 0 ? diff : ENTRY_ORDER.indexOf(a.type) - ENTRY_ORDER.indexOf(b.type);
+  });
+
+  let running = 0;
+  const totals = { due: 0, paid: 0, fees: 0, waived: 0, received: 0 };
+  const withBalance = entries.map(entry => {
+    running = addMoney(running, subtractMoney(toMinor(entry.charge), toMinor(entry.credit)));
+    if (entry.type === 'contribution_due') totals.due = addMoney(totals.due, toMinor(entry.charge));
+    if (entry.type === 'payment' || entry.type === 'arrears_payment') totals.paid = addMoney(totals.paid, toMinor(entry.credit));
+    if (entry.type === 'late_fee') totals.fees = addMoney(totals.fees, toMinor(entry.charge));
+    if (entry.type === 'fee_waived') totals.waived = addMoney(totals.waived, toMinor(entry.credit));
+    totals.received = addMoney(totals.received, toMinor(entry.received));
+    return { ...entry, balance: fromMinor(running) };
+  });
+
+  return {
+    entries: withBalance,
+    totalDue: fromMinor(totals.due),
+    totalPaid: fromMinor(totals.paid),
+    totalFees: fromMinor(totals.fees),
+    totalWaived: fromMinor(totals.waived),
+    totalReceived: fromMinor(totals.received),
+    balance: fromMinor(running),
+  };
+}
+
+/**
+ * Download a member's ledger as CSV
+ */
+export function exportMemberLedger(
+  balance: MemberBalance,
+  memberName: string,
+  groupName: string,
+  currency?: string | null
+): void {
+  const filename = `${groupName.replace(/\s+/g, '_')}_${memberName.replace(/\s+/g, '_')}_ledger_${format(new Date(), 'yyyy-MM-dd')}`;
+
+  exportToCsv(
+    balance.entries,
+    [
+      { header: 'Date', accessor: (e) => format(new Date(e.date), 'yyyy-MM-dd') },
+      { header: 'Type', accessor: (e) => LEDGER_ENTRY_LABELS[e.type] },
+      { header: 'Description', accessor: 'description' },
+      { header: moneyHeader('Charge', currency), accessor: (e) => e.charge || null },
+      { header: moneyHeader('Credit', currency), accessor: (e) => e.credit || null },
+      { header: moneyHeader('Payout Received', currency), accessor: (e) => e.received || null },
+      { header: moneyHeader('Balance', currency), accessor: 'balance' },
+    ],
+    filename
+  );
+}
@@ -0,0 +1,133 @@
+import { getCurrency } from '@/lib/currency';
+
+// An amount as a whole number of the currency's minor units (cents, kobo, pesewas),
+// so sums and comparisons are exact. Amounts stay in major units (e.g. 12.50)
+// in the database and the UI and are converted at the edges with toMinor and fromMinor
+export type Money = number;
+
+// half_up rounds halves away from zero, down rounds towards zero and up away from it
+export type RoundingMode = 'half_up' | 'down' | 'up';
+
+const minorFactor = (currency?: string | null) => 10 ** getCurrency(currency).minorUnits;
+
+// toPrecision(15) drops binary noise such as 1.005 * 100 = 100.49999999999999 before rounding
+function roundScaled(value: number, rounding: RoundingMode): Money {
+  const magnitude = Number(Math.abs(value).toPrecision(15));
+  const rounded = rounding === 'down'
+    ? Math.floor(magnitude)
+    : rounding === 'up'
+      ? Math.ceil(magnitude)
+      : Math.round(magnitude);
+  return rounded === 0 ? 0 : Math.sign(value) * rounded;
+}
+
+function assertMoney(value: Money): Money {
+  if (!Number.isSafeInteger(value)) {
+    throw new RangeError(`Money must be a whole number of minor units, got ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Convert an amount in major units to minor units, e.g. 12.5 → 1250
+ * Database DECIMAL columns may arrive as strings; missing amounts count as zero
+ */
+export function toMinor(
+  amount: number | string | null | undefined,
+  currency?: string | null,
+  rounding: RoundingMode = 'half_up'
+): Money {
+  const value = Number(amount ?? 0);
+  if (!Number.isFinite(value)) return 0;
+  return roundScaled(value * minorFactor(currency), rounding);
+}
+
+/**
+ * Convert minor units back to an amount in major units, e.g. 1250 → 12.5
+ */
+export function fromMinor(value: Money, currency?: string | null): number {
+  return assertMoney(value) / minorFactor(currency);
+}
+
+/**
+ * Add amounts in minor units
+ */
+export function addMoney(...values: Money[]): Money {
+  return values.reduce((total, value) => total + assertMoney(value), 0);
+}
+
+/**
+ * Take one amount in minor units from another
+ */
+export function subtractMoney(value: Money, amount: Money): Money {
+  return assertMoney(value) - assertMoney(amount);
+}
+
+/**
+ * Scale an amount in minor units, e.g. by a member's hands or a fee percentage,
+ * rounding the result back to a whole minor unit
+ */
+export function multiplyMoney(value: Money, factor: number, rounding: RoundingMode = 'half_up'): Money {
+  return roundScaled(assertMoney(value) * factor, rounding);
+}
+
+/**
+ * Split an amount in minor units by weight so the parts always add up to the total
+ * - Each part first gets its share rounded down
+ * - Leftover minor units go one at a time to the parts with the largest remainders
+ * - Equal remainders favour the earlier part, so list members in queue order
+ */
+export function allocateMoney(total: Money, weights: number[]): Money[] {
+  assertMoney(total);
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, w) => sum + Math.max(w, 0), 0);
+  // Nothing to weigh by: split evenly
+  const shares = totalWeight > 0 ? weights.map(w => Math.max(w, 0) / totalWeight) : weights.map(() => 1 / weights.length);
+
+  const magnitude = Math.abs(total);
+  const exact = shares.map(share => magnitude * share);
+  const parts = exact.map(value => roundScaled(value, 'down'));
+  let leftover = magnitude - parts.reduce((sum, p) => sum + p, 0);
+
+  const byRemainder = exact
+    .map((value, i) => ({ i, remainder: value - parts[i] }))
+    .sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+  for (let k = 0; leftover > 0; k = (k + 1) % byRemainder.length, leftover--) {
+    parts[byRemainder[k].i] += 1;
+  }
+
+  return parts.map(part => (total < 0 && part !== 0 ? -part : part));
+}
+
+/**
+ * Add amounts in major units exactly, e.g. 0.1 + 0.2 = 0.3
+ */
+export function sumAmounts(amounts: (number | string | null | undefined)[], currency?: string | null): number {
+  return fromMinor(addMoney(...amounts.map(a => toMinor(a, currency))), currency);
+}
+
+/**
+ * Parse an amount typed by a user into minor units without going through floating point
+ * Digits past the currency's minor units are rounded half up; returns null for anything that is not a plain number
+ */
+export function parseMoney(input: string, currency?: string | null): Money | null {
+  const match = input.trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const minorUnits = getCurrency(currency).minorUnits;
+  const fraction = (match[3] || '').padEnd(minorUnits + 1, '0');
+  const whole = Number(match[2] || '0') * 10 ** minorUnits + Number(fraction.slice(0, minorUnits) || '0');
+  const value = whole + (Number(fraction[minorUnits]) >= 5 ? 1 : 0);
+
+  if (!Number.isSafeInteger(value)) return null;
+  return match[1] && value !== 0 ? -value : value;
+}
+
+/**
+ * Parse an amount typed into a form, returning it in major units rounded to the currency's minor units, or NaN
+ */
+export function parseAmount(input: string, currency?: string | null): number {
+  const value = parseMoney(input, currency);
+  return value === null ? NaN : fromMinor(value, currency);
+}
@@ -3,6 +3,8 @@
  * Handles permission requests and showing native browser notifications
  */
 
+import { formatMoney } from '@/lib/currency';
+
 const NOTIFICATION_PERMISSION_KEY = 'conlify_notification_permission';
 
 /**
@@ -89,7 +91,7 @@ export const showNotification = (
  */
 export interface AppNotification {
   id: string;
-  type: 'payment_pending' | 'payment_verified' | 'payment_rejected' | 'cycle_started' | 'cycle_closed' | 'member_joined' | 'member_locked';
+  type: 'payment_pending' | 'payment_verified' | 'payment_rejected' | 'cycle_started' | 'cycle_closed' | 'member_joined' | 'member_locked' | 'payout_sent' | 'payout_confirmed' | 'queue_swap';
   title: string;
   message: string;
   groupId?: string;
@@ -176,23 +178,25 @@ export const createPaymentNotification = (
   memberName: string,
   groupName: string,
   groupId: string,
-  amount: number
+  amount: number,
+  currency?: string | null
 ): AppNotification => {
+  const money = formatMoney(amount, currency);
   const configs = {
     pending: {
       type: 'payment_pending' as const,
       title: 'Payment Marked as Sent',
-      message: `${memberName} marked their $${amount} payment as sent in ${groupName}`,
+      message: `${memberName} marked their ${money} payment as sent in ${groupName}`,
     },
     verified: {
       type: 'payment_verified' as const,
       title: 'Payment Verified',
-      message: `Your $${amount} payment was verified in ${groupName}`,
+      message: `Your ${money} payment was verified in ${groupName}`,
     },
     rejected: {
       type: 'payment_rejected' as const,
       title: 'Payment Rejected',
-      message: `Your $${amount} payment was rejected in ${groupName}. Please re-submit.`,
+      message: `Your ${money} payment was rejected in ${groupName}. Please re-submit.`,
     },
   };
 
@@ -0,0 +1,225 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createDbNotification, logActivity } from '@/lib/activity';
+import { formatMoney } from '@/lib/currency';
+import {
+  PaymentEventType,
+  PaymentInstallment,
+  PaymentLogEvent,
+  PaymentStatus,
+  RejectionReason,
+} from '@/types/database';
+
+export const REJECTION_REASON_OPTIONS: { value: RejectionReason; label: string }[] = [
+  { value: 'wrong_amount', label: 'Wrong amount' },
+  { value: 'transfer_not_found', label: "Can't find the transfer" },
+  { value: 'wrong_account', label: 'Sent to the wrong account' },
+  { value: 'unclear_proof', label: 'Proof of payment is unclear' },
+  { value: 'other', label: 'Other' },
+];
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = Object.fromEntries(
+  REJECTION_REASON_OPTIONS.map(option => [option.value, option.label])
+) as Record<RejectionReason, string>;
+
+export interface Rejection {
+  reason: RejectionReason;
+  note?: string;
+}
+
+export interface NewPaymentEvent {
+  paymentLogId: string;
+  groupId: string;
+  installmentId?: string | null;
+  eventType: PaymentEventType;
+  actorId: string;
+  actorName: string;
+  amount?: number | null;
+  reason?: RejectionReason | null;
+  note?: string | null;
+}
+
+export interface RejectPaymentLogInput {
+  logId: string;
+  groupId: string;
+  groupName: string;
+  amount: number;
+  currency?: string | null;
+  memberUserId: string;
+  memberName: string;
+  rejection: Rejection;
+  actorId: string;
+  actorName: string;
+}
+
+interface RejectPaymentLogResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Describe a rejection in one line, e.g. "Wrong amount: sent 40 instead of 50"
+ */
+export function describeRejection(reason: RejectionReason | null, note?: string | null): string {
+  const detail = note?.trim();
+  if (!reason || reason === 'other') return detail || 'No reason given';
+  return detail ? `${REJECTION_REASON_LABELS[reason]}: ${detail}` : REJECTION_REASON_LABELS[reason];
+}
+
+/**
+ * Check a rejection before it is saved; "Other" has to be described
+ */
+export function validateRejection(rejection: Rejection): string | null {
+  if (rejection.reason === 'other' && !rejection.note?.trim()) {
+    return 'Please describe why the payment was rejected';
+  }
+  return null;
+}
+
+/**
+ * Whether a new submission answers a rejection
+ * - It does when the most recent installment was rejected
+ * - For logs without installments, when the log itself was rejected
+ */
+export function getSubmissionEventType(
+  logStatus: PaymentStatus,
+  installments: PaymentInstallment[]
+): 'submitted' | 'resubmitted' {
+  if (installments.length === 0) {
+    return logStatus === 'rejected' ? 'resubmitted' : 'submitted';
+  }
+  const newest = [...installments].sort((a, b) => a.created_at.localeCompare(b.created_at)).pop();
+  return newest?.status === 'rejected' ? 'resubmitted' : 'submitted';
+}
+
+/**
+ * Add an entry to a payment log's thread
+ * The thread is a record of what happened, so a failure is logged rather than undoing the payment change
+ */
+export async function recordPaymentEvent(event: NewPaymentEvent): Promise<void> {
+  try {
+    const { error } = await supabase.from('payment_log_events').insert({
+      payment_log_id: event.paymentLogId,
+      group_id: event.groupId,
+      installment_id: event.installmentId || null,
+      event_type: event.eventType,
+      actor_id: event.actorId,
+      actor_name: event.actorName,
+      amount: event.amount ?? null,
+      reason: event.reason || null,
+      note: event.note?.trim() || null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording payment event:', error);
+  }
+}
+
+/**
+ * Get a payment log's thread, oldest first
+ */
+export async function getPaymentLogEvents(logId: string): Promise<PaymentLogEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payment_log_events')
+      .select('*')
+      .eq('payment_log_id', logId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as PaymentLogEvent[]) || [];
+  } catch (error) {
+    console.error('Error fetching payment thread:', error);
+    return [];
+  }
+}
+
+/**
+ * The message a member gets when their payment is rejected
+ */
+export function getRejectionNotice(
+  groupName: string,
+  amount: number,
+  currency: string | null | undefined,
+  rejection: Rejection
+): string {
+  return `Your ${formatMoney(amount, currency)} payment to ${groupName} was rejected: ${describeRejection(rejection.reason, rejection.note)}. Please check it and send it again.`;
+}
+
+/**
+ * Tell a member their payment was rejected and why
+ */
+export async function notifyPaymentRejected(
+  memberUserId: string,
+  groupId: string,
+  groupName: string,
+  amount: number,
+  currency: string | null | undefined,
+  rejection: Rejection
+): Promise<void> {
+  await createDbNotification(
+    memberUserId,
+    'payment_rejected',
+    'Payment Rejected',
+    getRejectionNotice(groupName, amount, currency, rejection),
+    groupId
+  );
+}
+
+/**
+ * President rejects a payment marked as sent before installments existed
+ * - A reason is required, and "Other" has to be described
+ * - Records the rejection in the payment's thread and notifies the member with the reason
+ * - Logs the activity
+ */
+export async function rejectPaymentLog(input: RejectPaymentLogInput): Promise<RejectPaymentLogResult> {
+  try {
+    const invalid = validateRejection(input.rejection);
+    if (invalid) throw new Error(invalid);
+
+    const { error } = await supabase
+      .from('payment_logs')
+      .update({ status: 'rejected' })
+      .eq('id', input.logId);
+
+    if (error) throw error;
+
+    await recordPaymentEvent({
+      paymentLogId: input.logId,
+      groupId: input.groupId,
+      eventType: 'rejected',
+      actorId: input.actorId,
+      actorName: input.actorName,
+      amount: input.amount,
+      reason: input.rejection.reason,
+      note: input.rejection.note,
+    });
+
+    await notifyPaymentRejected(
+      input.memberUserId,
+      input.groupId,
+      input.groupName,
+      input.amount,
+      input.currency,
+      input.rejection
+    );
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'payment_rejected',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: { amount: input.amount, reason: input.rejection.reason },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error rejecting payment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reject payment',
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import { GroupMember, PaymentCycle } from '@/types/database';
+import { allocateMoney, fromMinor, toMinor } from '@/lib/money';
+import { getMemberShares, SHARE_STEP } from '@/lib/shares';
+
+type RotationMember = Pick<GroupMember, 'id' | 'status' | 'queue_position'> & Partial<Pick<GroupMember, 'shares'>>;
+type RotationCycle = Pick<PaymentCycle, 'id' | 'status' | 'recipient_id' | 'start_date' | 'created_at'>;
+
+export type PayoutQueueStatus = 'paid' | 'current' | 'next' | 'upcoming';
+
+export interface PayoutSlotHolder<T extends RotationMember> {
+  member: T;
+  portion: number; // share of the slot's payout, 1 for a whole hand
+}
+
+export interface PayoutSlot<T extends RotationMember> {
+  index: number;
+  holders: PayoutSlotHolder<T>[];
+  size: number; // 1 unless the group's hands do not add up to a whole number
+}
+
+export interface PayoutRotation {
+  roundNumber: number;
+  paidSlots: number[];
+  currentSlot: number | null;
+  nextSlot: number | null;
+  currentRecipientId: string | null;
+  nextRecipientId: string | null;
+}
+
+export interface PayoutQueueEntry<T extends RotationMember> {
+  slot: number;
+  member: T; // the slot's recipient of record
+  holders: PayoutSlotHolder<T>[];
+  status: PayoutQueueStatus;
+}
+
+// Slots are filled in quarter-hand units so fractions add up exactly
+const UNITS_PER_SLOT = Math.round(1 / SHARE_STEP);
+
+const byQueuePosition = (a: RotationMember, b: RotationMember) => a.queue_position - b.queue_position;
+
+const byStartDate = (a: RotationCycle, b: RotationCycle) => {
+  const diff = new Date(a.start_date).getTime() - new Date(b.start_date).getTime();
+  return diff !== 0 ? diff : new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+};
+
+/**
+ * Splits active members' hands into payout slots in queue order
+ * - A member with two hands fills two slots
+ * - Members with fractional hands share a slot with whoever is next in the queue
+ * The first holder of a slot is its recipient of record on the cycle
+ */
+export function getPayoutSlots<T extends RotationMember>(members: T[]): PayoutSlot<T>[] {
+  const slots: PayoutSlot<T>[] = [];
+  let current: PayoutSlotHolder<T>[] = [];
+  let filled = 0;
+
+  const closeSlot = () => {
+    slots.push({ index: slots.length, holders: current, size: filled / UNITS_PER_SLOT });
+    current = [];
+    filled = 0;
+  };
+
+  for (const member of members.filter(m => m.status === 'active').sort(byQueuePosition)) {
+    let units = Math.max(Math.round(getMemberShares(member) / SHARE_STEP), 1);
+    while (units > 0) {
+      const taken = Math.min(units, UNITS_PER_SLOT - filled);
+      current.push({ member, portion: taken / UNITS_PER_SLOT });
+      filled += taken;
+      units -= taken;
+      if (filled === UNITS_PER_SLOT) closeSlot();
+    }
+  }
+
+  if (current.length > 0) closeSlot();
+  return slots;
+}
+
+/**
+ * Works out where the group is in its payout rotation
+ * 1. Replays every cycle with a recorded recipient in chronological order, matching it to
+ *    that member's first unpaid slot this round
+ * 2. A round ends once every slot has received a payout
+ * 3. The next slot is the first one in queue order not yet paid this round
+ */
+export function getPayoutRotation(members: RotationMember[], cycles: RotationCycle[]): PayoutRotation {
+  const slots = getPayoutSlots(members);
+  const recipientOf = (slot: number) => slots[slot].holders[0].member.id;
+  const findSlot = (memberId: string, paid: Set<number>) =>
+    slots.find(s => !paid.has(s.index) && recipientOf(s.index) === memberId)?.index ?? null;
+
+  let roundNumber = 1;
+  let paid = new Set<number>();
+  let currentSlot: number | null = null;
+  let currentRecipientId: string | null = null;
+
+  const history = cycles.filter(c => c.recipient_id).sort(byStartDate);
+
+  for (const cycle of history) {
+    let slot = findSlot(cycle.recipient_id!, paid);
+
+    // A repeat recipient (or a fully paid queue) means a new round has begun
+    const isRepeat = slot === null && paid.size > 0 && slots.some(s => recipientOf(s.index) === cycle.recipient_id);
+    if (isRepeat || (slots.length > 0 && paid.size === slots.length)) {
+      roundNumber++;
+      paid = new Set<number>();
+      slot = findSlot(cycle.recipient_id!, paid);
+    }
+
+    if (cycle.status === 'active') {
+      currentRecipientId = cycle.recipient_id;
+      currentSlot = slot;
+    }
+
+    if (slot !== null) {
+      paid.add(slot);
+    }
+  }
+
+  const paidSlots = Array.from(paid).filter(slot => slot !== currentSlot).sort((a, b) => a - b);
+
+  let nextSlot = slots.find(s => !paid.has(s.index))?.index ?? null;
+  if (nextSlot === null && slots.length > 0) {
+    // Every slot has been paid this round, so the next cycle starts a new one
+    nextSlot = slots.find(s => s.index !== currentSlot)?.index ?? 0;
+  }
+
+  return {
+    roundNumber,
+    paidSlots,
+    currentSlot,
+    nextSlot,
+    currentRecipientId,
+    nextRecipientId: nextSlot !== null ? recipientOf(nextSlot) : null,
+  };
+}
+
+/**
+ * Returns the member who should receive the payout of the next cycle started
+ */
+export function getNextRecipient<T extends RotationMember>(members: T[], cycles: RotationCycle[]): T | null {
+  const { nextRecipientId } = getPayoutRotation(members, cycles);
+  return members.find(m => m.id === nextRecipientId) || null;
+}
+
+/**
+ * Holders sharing the payout of the slot a cycle was paid to
+ * Cycles whose recipient no longer holds a slot fall back to the recipient alone
+ */
+export function getCycleSlotHolders<T extends RotationMember>(
+  members: T[],
+  cycles: RotationCycle[],
+  cycleId: string
+): PayoutSlotHolder<T>[] {
+  const slots = getPayoutSlots(members);
+  const cycle = cycles.find(c => c.id === cycleId);
+  if (!cycle?.recipient_id) return [];
+
+  // Replay the rotation up to this cycle, treating it as the current one
+  const earlier = cycles.filter(c => c.id !== cycle.id && byStartDate(c, cycle) < 0);
+  const rotation = getPayoutRotation(members, [...earlier, { ...cycle, status: 'active' }]);
+  const slot = rotation.currentSlot !== null ? slots[rotation.currentSlot] : null;
+  if (slot) return slot.holders;
+
+  const recipient = members.find(m => m.id === cycle.recipient_id);
+  return recipient ? [{ member: recipient, portion: 1 }] : [];
+}
+
+/**
+ * Divides a slot's payout between its holders by portion
+ * Leftover cents go to the holders with the largest remainders, earlier holders first
+ */
+export function splitSlotPayout<T extends RotationMember>(
+  holders: PayoutSlotHolder<T>[],
+  amount: number
+): { member: T; amount: number }[] {
+  const parts = allocateMoney(toMinor(amount), holders.map(h => h.portion));
+
+  return holders.map((holder, i) => ({
+    member: holder.member,
+    amount: fromMinor(parts[i]),
+  }));
+}
+
+/**
+ * Builds the payout queue for display, one entry per slot tagged with its rotation status
+ */
+export function getPayoutQueue<T extends RotationMember>(members: T[], cycles: RotationCycle[]): PayoutQueueEntry<T>[] {
+  const rotation = getPayoutRotation(members, cycles);
+  const paid = new Set(rotation.paidSlots);
+
+  return getPayoutSlots(members).map(slot => {
+    let status: PayoutQueueStatus = 'upcoming';
+    if (slot.index === rotation.currentSlot) status = 'current';
+    else if (paid.has(slot.index)) status = 'paid';
+    else if (slot.index === rotation.nextSlot) status = 'next';
+    return { slot: slot.index, member: slot.holders[0].member, holders: slot.holders, status };
+  });
+}
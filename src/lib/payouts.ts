@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity, createDbNotification } from '@/lib/activity';
+import { formatMoney } from '@/lib/currency';
+import { Payout } from '@/types/database';
+
+export interface MarkPayoutSentInput {
+  cycleId: string;
+  groupId: string;
+  groupName: string;
+  currency?: string | null;
+  recipientId: string;
+  recipientUserId: string;
+  recipientName: string;
+  amount: number;
+  sentAt: string;
+  reference?: string;
+  actorId: string;
+  actorName: string;
+}
+
+export interface ConfirmPayoutInput {
+  payout: Payout;
+  groupName: string;
+  currency?: string | null;
+  presidentId: string;
+  actorId: string;
+  actorName: string;
+}
+
+interface PayoutResult {
+  success: boolean;
+  payout?: Payout;
+  error?: string;
+}
+
+/**
+ * Get all payout records for a group, newest first
+ */
+export async function getGroupPayouts(groupId: string): Promise<Payout[]> {
+  try {
+    const { data, error } = await supabase
+      .from('payouts')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as Payout[]) || [];
+  } catch (error) {
+    console.error('Error fetching payouts:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the payout record for a single cycle (null if not sent yet)
+ */
+export async function getCyclePayout(cycleId: string): Promise<Payout | null> {
+  try {
+    const { data, error } = await supabase
+      .from('payouts')
+      .select('*')
+      .eq('cycle_id', cycleId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Payout | null;
+  } catch (error) {
+    console.error('Error fetching cycle payout:', error);
+    return null;
+  }
+}
+
+/**
+ * Record that the president has sent a cycle's pot to its recipient
+ * - Creates (or updates) the cycle's payout record with status 'sent'
+ * - A payout the recipient already confirmed is left as it is
+ * - Notifies the recipient so they can confirm receipt
+ * - Logs the activity
+ */
+export async function markPayoutSent(input: MarkPayoutSentInput): Promise<PayoutResult> {
+  try {
+    if (!(input.amount > 0)) {
+      throw new Error('Payout amount must be greater than zero');
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('payouts')
+      .select('id, status')
+      .eq('cycle_id', input.cycleId)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing?.status === 'confirmed') {
+      throw new Error('The recipient has already confirmed this payout');
+    }
+
+    const payout = {
+      cycle_id: input.cycleId,
+      group_id: input.groupId,
+      recipient_id: input.recipientId,
+      amount: input.amount,
+      status: 'sent',
+      reference: input.reference?.trim() || null,
+      sent_at: input.sentAt,
+      sent_by: input.actorId,
+      confirmed_at: null,
+    };
+
+    // The status filter stops a confirmation that lands in between from being undone
+    const { data, error } = existing
+      ? await supabase
+          .from('payouts')
+          .update(payout)
+          .eq('id', existing.id)
+          .neq('status', 'confirmed')
+          .select()
+          .single()
+      : await supabase.from('payouts').insert(payout).select().single();
+
+    if (error) throw error;
+
+    await createDbNotification(
+      input.recipientUserId,
+      'payout_sent',
+      'Payout Sent',
+      `The president of ${input.groupName} has sent your ${formatMoney(input.amount, input.currency)} payout. Please confirm once you receive it.`,
+      input.groupId
+    );
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'payout_sent',
+      target_user_id: input.recipientUserId,
+      target_name: input.recipientName,
+      metadata: { amount: input.amount, cycle_id: input.cycleId, reference: input.reference || null },
+    });
+
+    return { success: true, payout: data as Payout };
+  } catch (error) {
+    console.error('Error marking payout as sent:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to mark payout as sent',
+    };
+  }
+}
+
+/**
+ * Recipient confirms they received the payout
+ * - Sets status to 'confirmed' and stamps confirmed_at
+ * - Notifies the president
+ * - Logs the activity
+ */
+export async function confirmPayoutReceived(input: ConfirmPayoutInput): Promise<PayoutResult> {
+  try {
+    if (input.payout.status !== 'sent') {
+      throw new Error('Only a sent payout can be confirmed');
+    }
+
+    const { data, error } = await supabase
+      .from('payouts')
+      .update({ status: 'confirmed', confirmed_at: new Date().toISOString() })
+      .eq('id', input.payout.id)
+      .eq('status', 'sent')
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await createDbNotification(
+      input.presidentId,
+      'payout_confirmed',
+      'Payout Confirmed',
+      `${input.actorName} confirmed receiving their ${formatMoney(input.payout.amount, input.currency)} payout in ${input.groupName}.`,
+      input.payout.group_id
+    );
+
+    await logActivity({
+      group_id: input.payout.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'payout_confirmed',
+      metadata: { amount: input.payout.amount, cycle_id: input.payout.cycle_id },
+    });
+
+    return { success: true, payout: data as Payout };
+  } catch (error) {
+    console.error('Error confirming payout:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to confirm payout',
+    };
+  }
+}
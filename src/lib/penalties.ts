@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity } from '@/lib/activity';
+import { sumAmounts } from '@/lib/money';
+import { Penalty } from '@/types/database';
+
+export interface WaivePenaltyInput {
+  penalty: Penalty;
+  reason: string;
+  memberUserId: string;
+  memberName: string;
+  actorId: string;
+  actorName: string;
+}
+
+interface PenaltyResult {
+  success: boolean;
+  penalty?: Penalty;
+  error?: string;
+}
+
+/**
+ * Get every penalty recorded in a group, newest first
+ */
+export async function getGroupPenalties(groupId: string): Promise<Penalty[]> {
+  try {
+    const { data, error } = await supabase
+      .from('penalties')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as Penalty[]) || [];
+  } catch (error) {
+    console.error('Error fetching penalties:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a member's penalty ledger, newest first
+ */
+export async function getMemberPenalties(memberId: string): Promise<Penalty[]> {
+  try {
+    const { data, error } = await supabase
+      .from('penalties')
+      .select('*')
+      .eq('member_id', memberId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as Penalty[]) || [];
+  } catch (error) {
+    console.error('Error fetching member penalties:', error);
+    return [];
+  }
+}
+
+/**
+ * Sum a ledger by status
+ */
+export function getPenaltyTotals(penalties: Penalty[]): { outstanding: number; waived: number } {
+  const total = (status: Penalty['status']) => sumAmounts(penalties.filter(p => p.status === status).map(p => p.amount));
+  return { outstanding: total('outstanding'), waived: total('waived') };
+}
+
+/**
+ * President waives a penalty
+ * - Marks it waived with who, when and why
+ * - Logs the reason to the activity feed as the audit trail
+ */
+export async function waivePenalty(input: WaivePenaltyInput): Promise<PenaltyResult> {
+  try {
+    const reason = input.reason.trim();
+    if (!reason) {
+      throw new Error('A reason is required to waive a penalty');
+    }
+
+    const { data, error } = await supabase
+      .from('penalties')
+      .update({
+        status: 'waived',
+        waived_at: new Date().toISOString(),
+        waived_by: input.actorId,
+        waive_reason: reason,
+      })
+      .eq('id', input.penalty.id)
+      .eq('status', 'outstanding')
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await logActivity({
+      group_id: input.penalty.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'penalty_waived',
+      target_user_id: input.memberUserId,
+      target_name: input.memberName,
+      metadata: {
+        amount: input.penalty.amount,
+        reason,
+        penalty_id: input.penalty.id,
+        cycle_id: input.penalty.cycle_id,
+      },
+    });
+
+    return { success: true, penalty: data as Penalty };
+  } catch (error) {
+    console.error('Error waiving penalty:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to waive penalty',
+    };
+  }
+}
@@ -0,0 +1,304 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity } from '@/lib/activity';
+import { GroupMember, QueueBid, Round, RoundQueueMode } from '@/types/database';
+
+type QueueMember = Pick<GroupMember, 'id' | 'status' | 'queue_position' | 'created_at'>;
+
+export const QUEUE_MODE_OPTIONS: { value: RoundQueueMode; label: string; description: string }[] = [
+  {
+    value: 'carry_over',
+    label: 'Keep the current order',
+    description: 'Members are paid out in the queue order they have now',
+  },
+  {
+    value: 'lottery',
+    label: 'Lottery draw',
+    description: 'A random draw from a recorded seed that any member can re-run to check',
+  },
+  {
+    value: 'bidding',
+    label: 'Bidding',
+    description: 'Members offering the biggest discount off their payout go first',
+  },
+  {
+    value: 'seniority',
+    label: 'Seniority',
+    description: 'Longest-standing members go first',
+  },
+];
+
+interface QueueOrderOptions {
+  seed?: string | null;
+  bids?: Pick<QueueBid, 'member_id' | 'discount'>[];
+}
+
+export interface SaveQueueOrderInput {
+  groupId: string;
+  order: string[]; // member ids in their new order
+  expectedOrder: string[]; // the order the editor started from
+  names: Record<string, string>; // member id -> name, for the activity log
+  actorId: string;
+  actorName: string;
+}
+
+interface ApplyQueueOrderResult {
+  success: boolean;
+  previousOrder?: string[];
+  order?: string[];
+  error?: string;
+}
+
+const byQueuePosition = (a: QueueMember, b: QueueMember) => a.queue_position - b.queue_position;
+
+const activeInQueueOrder = (members: QueueMember[]) => members.filter(m => m.status === 'active').sort(byQueuePosition);
+
+/**
+ * Returns a shuffled copy of a list (Fisher-Yates)
+ */
+export function shuffleQueue<T>(items: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Repeatable random numbers in [0, 1) from a seed
+ * The seed is hashed with 32-bit FNV-1a and fed to mulberry32, so the same seed
+ * always gives the same sequence on any device
+ */
+export function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lottery order for a set of members
+ * Ids are sorted first so the draw only depends on who takes part and the seed
+ * Must match draw_lottery_order, which makes the actual draw in the database
+ */
+export function drawLotteryOrder(memberIds: string[], seed: string): string[] {
+  return shuffleQueue([...memberIds].sort(), seededRandom(seed));
+}
+
+/**
+ * Re-runs a round's lottery draw from its recorded seed and checks it gives the recorded order
+ */
+export function verifyLotteryDraw(round: Pick<Round, 'queue_mode' | 'queue_seed' | 'queue_order'>): boolean {
+  if (round.queue_mode !== 'lottery' || !round.queue_seed || !round.queue_order) return false;
+  const redrawn = drawLotteryOrder(round.queue_order, round.queue_seed);
+  return redrawn.every((id, index) => id === round.queue_order[index]);
+}
+
+/**
+ * Active members by when they joined the group, earliest first
+ */
+export function getSeniorityOrder(members: QueueMember[]): string[] {
+  return activeInQueueOrder(members)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || byQueuePosition(a, b))
+    .map(m => m.id);
+}
+
+/**
+ * Active members by bid, biggest discount first
+ * Ties and members who did not bid keep their current queue order
+ */
+export function getBiddingOrder(members: QueueMember[], bids: Pick<QueueBid, 'member_id' | 'discount'>[]): string[] {
+  const discounts = new Map(bids.map(bid => [bid.member_id, Number(bid.discount)]));
+  return activeInQueueOrder(members)
+    .sort((a, b) => (discounts.get(b.id) ?? -1) - (discounts.get(a.id) ?? -1))
+    .map(m => m.id);
+}
+
+/**
+ * Queue order of the active members under a strategy
+ */
+export function getQueueOrder(mode: RoundQueueMode, members: QueueMember[], options: QueueOrderOptions = {}): string[] {
+  switch (mode) {
+    case 'lottery':
+      if (!options.seed) throw new Error('A lottery draw needs a seed');
+      return drawLotteryOrder(activeInQueueOrder(members).map(m => m.id), options.seed);
+    case 'bidding':
+      return getBiddingOrder(members, options.bids || []);
+    case 'seniority':
+      return getSeniorityOrder(members);
+    default:
+      return activeInQueueOrder(members).map(m => m.id);
+  }
+}
+
+/**
+ * Returns a copy of a list with one item moved from one index to another
+ */
+export function moveQueueItem<T>(items: T[], from: number, to: number): T[] {
+  const moved = [...items];
+  if (from < 0 || from >= moved.length || to < 0 || to >= moved.length) return moved;
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+}
+
+/**
+ * Writes a new queue order in one transaction (set_queue_order)
+ * Listed members take positions 1, 2, 3...; everyone else follows in their current order
+ * With expectedOrder, nothing is written if the queue changed since it was read
+ */
+export async function applyQueueOrder(groupId: string, memberIds: string[], expectedOrder?: string[]): Promise<ApplyQueueOrderResult> {
+  try {
+    const { data, error } = await supabase.rpc('set_queue_order', {
+      p_group_id: groupId,
+      p_member_ids: memberIds,
+      p_expected_order: expectedOrder || null,
+    });
+
+    if (error) throw error;
+
+    const row = data as { previous_order: string[]; order: string[] };
+    return { success: true, previousOrder: row.previous_order, order: row.order };
+  } catch (error) {
+    console.error('Error setting queue order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set queue order',
+    };
+  }
+}
+
+/**
+ * President saves an edited payout queue
+ * - Writes the whole order at once, rejecting it if someone else changed the queue meanwhile
+ * - Logs the activity with the old and new order
+ */
+export async function saveQueueOrder(input: SaveQueueOrderInput): Promise<ApplyQueueOrderResult> {
+  const result = await applyQueueOrder(input.groupId, input.order, input.expectedOrder);
+  if (!result.success) return result;
+
+  const previousOrder = result.previousOrder || [];
+  const order = result.order || [];
+  const toNames = (ids: string[]) => ids.map(id => input.names[id] || 'Unknown');
+
+  await logActivity({
+    group_id: input.groupId,
+    user_id: input.actorId,
+    actor_name: input.actorName,
+    action_type: 'queue_reordered',
+    metadata: {
+      moved: order.filter((id, index) => previousOrder[index] !== id).length,
+      previous_order: toNames(previousOrder),
+      order: toNames(order),
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Check a bid, returning an error message or null when valid
+ */
+export function validateQueueBid(discount: number, expectedPayout: number): string | null {
+  if (isNaN(discount) || discount <= 0) {
+    return 'Bid must be more than 0';
+  }
+  if (expectedPayout > 0 && discount >= expectedPayout) {
+    return 'Bid must be less than your payout';
+  }
+  return null;
+}
+
+/**
+ * Discount a member bid for a round, 0 when they did not bid
+ */
+export function getBidDiscount(bids: Pick<QueueBid, 'member_id' | 'round_number' | 'discount'>[], memberId: string, roundNumber: number): number {
+  const bid = bids.find(b => b.member_id === memberId && b.round_number === roundNumber);
+  return bid ? Number(bid.discount) : 0;
+}
+
+/**
+ * Get the bids placed for some of a group's rounds
+ */
+export async function getQueueBids(groupId: string, roundNumbers: number[]): Promise<QueueBid[]> {
+  try {
+    const { data, error } = await supabase
+      .from('queue_bids')
+      .select('*')
+      .eq('group_id', groupId)
+      .in('round_number', roundNumbers)
+      .order('discount', { ascending: false });
+
+    if (error) throw error;
+    return (data as QueueBid[]) || [];
+  } catch (error) {
+    console.error('Error fetching queue bids:', error);
+    return [];
+  }
+}
+
+/**
+ * Member places (or changes) their bid for an earlier slot in a round
+ */
+export async function placeQueueBid(
+  groupId: string,
+  roundNumber: number,
+  memberId: string,
+  discount: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const bidError = validateQueueBid(discount, 0);
+    if (bidError) throw new Error(bidError);
+
+    const { error } = await supabase
+      .from('queue_bids')
+      .upsert(
+        {
+          group_id: groupId,
+          round_number: roundNumber,
+          member_id: memberId,
+          discount,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'group_id,round_number,member_id' }
+      );
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error placing queue bid:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to place bid',
+    };
+  }
+}
+
+/**
+ * Member withdraws their bid
+ */
+export async function withdrawQueueBid(bidId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('queue_bids')
+      .delete()
+      .eq('id', bidId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error withdrawing queue bid:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to withdraw bid',
+    };
+  }
+}
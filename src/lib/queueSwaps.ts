@@ -0,0 +1,341 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity, createDbNotification } from '@/lib/activity';
+import { getPayoutQueue } from '@/lib/payoutRotation';
+import { GroupMember, PaymentCycle, QueueSwapRequest, SwapStatus } from '@/types/database';
+
+export interface SwapParty {
+  memberId: string;
+  userId: string;
+  name: string;
+}
+
+export interface ProposeSwapInput {
+  groupId: string;
+  groupName: string;
+  requester: SwapParty;
+  target: SwapParty;
+  note?: string;
+}
+
+export interface SwapActionInput {
+  request: QueueSwapRequest;
+  groupName: string;
+  requester: SwapParty;
+  target: SwapParty;
+  presidentId: string;
+  actorId: string;
+  actorName: string;
+}
+
+interface SwapResult {
+  success: boolean;
+  request?: QueueSwapRequest;
+  error?: string;
+}
+
+// Requests still waiting on the other member or the president
+export const OPEN_SWAP_STATUSES: SwapStatus[] = ['proposed', 'accepted'];
+
+/**
+ * Members who can still trade payout slots this round: active, with no slot paid or being paid
+ */
+export function getSwappableMemberIds(
+  members: (Pick<GroupMember, 'id' | 'status' | 'queue_position'> & Partial<Pick<GroupMember, 'shares'>>)[],
+  roundCycles: Pick<PaymentCycle, 'id' | 'status' | 'recipient_id' | 'start_date' | 'created_at'>[]
+): string[] {
+  const settled = new Set<string>();
+  getPayoutQueue(members, roundCycles)
+    .filter(entry => entry.status === 'paid' || entry.status === 'current')
+    .forEach(entry => entry.holders.forEach(holder => settled.add(holder.member.id)));
+
+  return members
+    .filter(m => m.status === 'active' && !settled.has(m.id))
+    .sort((a, b) => a.queue_position - b.queue_position)
+    .map(m => m.id);
+}
+
+/**
+ * Get a group's open swap requests, oldest first
+ */
+export async function getOpenSwapRequests(groupId: string): Promise<QueueSwapRequest[]> {
+  try {
+    const { data, error } = await supabase
+      .from('queue_swap_requests')
+      .select('*')
+      .eq('group_id', groupId)
+      .in('status', OPEN_SWAP_STATUSES)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data as QueueSwapRequest[]) || [];
+  } catch (error) {
+    console.error('Error fetching swap requests:', error);
+    return [];
+  }
+}
+
+/**
+ * Moves a request from one status to the next, failing if someone else got there first
+ */
+async function updateSwapStatus(
+  requestId: string,
+  from: SwapStatus[],
+  changes: Partial<QueueSwapRequest>
+): Promise<QueueSwapRequest> {
+  const { data, error } = await supabase
+    .from('queue_swap_requests')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .in('status', from)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new Error('This swap request has already been answered');
+  return data as QueueSwapRequest;
+}
+
+/**
+ * Member asks another member to trade payout slots
+ * - Only one open request per pair of members
+ * - Notifies the other member
+ * - Logs the activity
+ */
+export async function proposeQueueSwap(input: ProposeSwapInput): Promise<SwapResult> {
+  try {
+    if (input.requester.memberId === input.target.memberId) {
+      throw new Error('Choose another member to swap with');
+    }
+
+    const pair = [input.requester.memberId, input.target.memberId];
+    const { data: existing, error: existingError } = await supabase
+      .from('queue_swap_requests')
+      .select('id')
+      .eq('group_id', input.groupId)
+      .in('status', OPEN_SWAP_STATUSES)
+      .in('requester_id', pair)
+      .in('target_id', pair)
+      .limit(1);
+
+    if (existingError) throw existingError;
+    if (existing && existing.length > 0) {
+      throw new Error('There is already an open swap request between you and this member');
+    }
+
+    const { data, error } = await supabase
+      .from('queue_swap_requests')
+      .insert({
+        group_id: input.groupId,
+        requester_id: input.requester.memberId,
+        target_id: input.target.memberId,
+        status: 'proposed',
+        note: input.note?.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await createDbNotification(
+      input.target.userId,
+      'queue_swap',
+      'Swap Request',
+      `${input.requester.name} would like to swap payout slots with you in ${input.groupName}.`,
+      input.groupId
+    );
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.requester.userId,
+      actor_name: input.requester.name,
+      action_type: 'swap_proposed',
+      target_user_id: input.target.userId,
+      target_name: input.target.name,
+      metadata: { request_id: (data as QueueSwapRequest).id },
+    });
+
+    return { success: true, request: data as QueueSwapRequest };
+  } catch (error) {
+    console.error('Error proposing queue swap:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to request swap',
+    };
+  }
+}
+
+/**
+ * Member answers a swap request sent to them
+ * - Accepting passes it to the president for approval; declining closes it
+ * - Notifies the requester, and the president when accepted
+ * - Logs the activity
+ */
+export async function respondToQueueSwap(input: SwapActionInput, accept: boolean): Promise<SwapResult> {
+  try {
+    const request = await updateSwapStatus(input.request.id, ['proposed'], {
+      status: accept ? 'accepted' : 'declined',
+      responded_at: new Date().toISOString(),
+    });
+
+    await createDbNotification(
+      input.requester.userId,
+      'queue_swap',
+      accept ? 'Swap Accepted' : 'Swap Declined',
+      accept
+        ? `${input.target.name} agreed to swap payout slots with you in ${input.groupName}. It now needs the president's approval.`
+        : `${input.target.name} declined to swap payout slots with you in ${input.groupName}.`,
+      request.group_id
+    );
+
+    if (accept && input.presidentId !== input.requester.userId && input.presidentId !== input.target.userId) {
+      await createDbNotification(
+        input.presidentId,
+        'queue_swap',
+        'Swap Awaiting Approval',
+        `${input.requester.name} and ${input.target.name} want to swap payout slots in ${input.groupName}.`,
+        request.group_id
+      );
+    }
+
+    await logActivity({
+      group_id: request.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: accept ? 'swap_accepted' : 'swap_declined',
+      target_user_id: input.requester.userId,
+      target_name: input.requester.name,
+      metadata: { request_id: request.id },
+    });
+
+    return { success: true, request };
+  } catch (error) {
+    console.error('Error responding to queue swap:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to answer swap request',
+    };
+  }
+}
+
+/**
+ * Requester withdraws a swap request before it is approved
+ * - Notifies the other member
+ * - Logs the activity
+ */
+export async function cancelQueueSwap(input: SwapActionInput): Promise<SwapResult> {
+  try {
+    const request = await updateSwapStatus(input.request.id, OPEN_SWAP_STATUSES, { status: 'cancelled' });
+
+    await createDbNotification(
+      input.target.userId,
+      'queue_swap',
+      'Swap Withdrawn',
+      `${input.requester.name} withdrew their request to swap payout slots with you in ${input.groupName}.`,
+      request.group_id
+    );
+
+    await logActivity({
+      group_id: request.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'swap_cancelled',
+      target_user_id: input.target.userId,
+      target_name: input.target.name,
+      metadata: { request_id: request.id },
+    });
+
+    return { success: true, request };
+  } catch (error) {
+    console.error('Error cancelling queue swap:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to withdraw swap request',
+    };
+  }
+}
+
+/**
+ * President approves an accepted swap
+ * - approve_queue_swap exchanges the two queue positions and closes the request in one transaction
+ * - Notifies both members
+ * - Logs the activity
+ */
+export async function approveQueueSwap(input: SwapActionInput): Promise<SwapResult> {
+  try {
+    const { error } = await supabase.rpc('approve_queue_swap', { p_request_id: input.request.id });
+
+    if (error) throw error;
+
+    for (const party of [input.requester, input.target]) {
+      const other = party === input.requester ? input.target : input.requester;
+      await createDbNotification(
+        party.userId,
+        'queue_swap',
+        'Swap Approved',
+        `You and ${other.name} have swapped payout slots in ${input.groupName}.`,
+        input.request.group_id
+      );
+    }
+
+    await logActivity({
+      group_id: input.request.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'swap_approved',
+      target_user_id: input.requester.userId,
+      target_name: input.requester.name,
+      metadata: { request_id: input.request.id, other_name: input.target.name },
+    });
+
+    return { success: true, request: { ...input.request, status: 'approved' } };
+  } catch (error) {
+    console.error('Error approving queue swap:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve swap',
+    };
+  }
+}
+
+/**
+ * President turns down an accepted swap
+ * - Notifies both members
+ * - Logs the activity
+ */
+export async function rejectQueueSwap(input: SwapActionInput): Promise<SwapResult> {
+  try {
+    const request = await updateSwapStatus(input.request.id, ['accepted'], {
+      status: 'rejected',
+      decided_at: new Date().toISOString(),
+      decided_by: input.actorId,
+    });
+
+    for (const party of [input.requester, input.target]) {
+      await createDbNotification(
+        party.userId,
+        'queue_swap',
+        'Swap Not Approved',
+        `The president of ${input.groupName} did not approve swapping payout slots between ${input.requester.name} and ${input.target.name}.`,
+        request.group_id
+      );
+    }
+
+    await logActivity({
+      group_id: request.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'swap_rejected',
+      target_user_id: input.requester.userId,
+      target_name: input.requester.name,
+      metadata: { request_id: request.id, other_name: input.target.name },
+    });
+
+    return { success: true, request };
+  } catch (error) {
+    console.error('Error rejecting queue swap:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to turn down swap',
+    };
+  }
+}
@@ -0,0 +1,311 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivity } from '@/lib/activity';
+import { sumAmounts } from '@/lib/money';
+import { getPayoutRotation, getPayoutSlots } from '@/lib/payoutRotation';
+import { getQueueBids, getQueueOrder } from '@/lib/queueOrder';
+import { getMemberContribution } from '@/lib/shares';
+import { GroupMember, PaymentCycle, PaymentLog, Payout, Round, RoundQueueMode } from '@/types/database';
+
+type RoundMember = Pick<GroupMember, 'id' | 'status' | 'queue_position'> & Partial<Pick<GroupMember, 'shares'>>;
+type RoundCycle = Pick<PaymentCycle, 'id' | 'status' | 'recipient_id' | 'start_date' | 'created_at' | 'round_id'>;
+
+export interface RoundSummary {
+  cycleCount: number;
+  totalCollected: number; // verified contributions
+  totalPaidOut: number; // payouts sent or confirmed
+  misses: { memberId: string; count: number }[]; // unpaid or rejected payments at close
+}
+
+export interface RoundQueueInput {
+  groupId: string;
+  queueMode: RoundQueueMode;
+  actorId: string;
+  actorName: string;
+}
+
+interface RoundResult {
+  success: boolean;
+  round?: Round;
+  error?: string;
+}
+
+/**
+ * Cycles belonging to a round (every cycle for groups from before rounds existed)
+ */
+export function getRoundCycles<T extends Pick<PaymentCycle, 'round_id'>>(cycles: T[], round: Pick<Round, 'id'> | null): T[] {
+  return round ? cycles.filter(c => c.round_id === round.id) : cycles;
+}
+
+/**
+ * Whether a round's queue was set by a lottery draw, which can only happen once per round
+ */
+export function hasLotteryDraw(round: Pick<Round, 'queue_mode' | 'queue_seed'>): boolean {
+  return round.queue_mode === 'lottery' && !!round.queue_seed;
+}
+
+/**
+ * A round is complete once every payout slot has been paid and no cycle is still open
+ */
+export function isRoundComplete(members: RoundMember[], roundCycles: RoundCycle[]): boolean {
+  const slots = getPayoutSlots(members);
+  if (slots.length === 0 || roundCycles.some(c => c.status === 'active')) return false;
+
+  const rotation = getPayoutRotation(members, roundCycles);
+  return rotation.paidSlots.length === slots.length;
+}
+
+/**
+ * End-of-round totals worked out from the round's closed cycles
+ */
+export function summarizeRound(
+  cycles: Pick<PaymentCycle, 'id' | 'status'>[],
+  logs: Pick<PaymentLog, 'cycle_id' | 'member_id' | 'status'>[],
+  payouts: Pick<Payout, 'cycle_id' | 'amount' | 'status'>[],
+  members: (Pick<GroupMember, 'id'> & Partial<Pick<GroupMember, 'shares'>>)[],
+  contributionAmount: number
+): RoundSummary {
+  const closedIds = new Set(cycles.filter(c => c.status === 'closed').map(c => c.id));
+  const roundLogs = logs.filter(l => closedIds.has(l.cycle_id));
+  const memberMap = new Map(members.map(m => [m.id, m]));
+
+  const totalCollected = sumAmounts(
+    roundLogs
+      .filter(l => l.status === 'verified')
+      .map(l => getMemberContribution(contributionAmount, memberMap.get(l.member_id)))
+  );
+
+  const totalPaidOut = sumAmounts(
+    payouts
+      .filter(p => closedIds.has(p.cycle_id) && p.status !== 'pending')
+      .map(p => p.amount)
+  );
+
+  const missCounts = new Map<string, number>();
+  roundLogs
+    .filter(l => l.status === 'unpaid' || l.status === 'rejected')
+    .forEach(l => missCounts.set(l.member_id, (missCounts.get(l.member_id) || 0) + 1));
+
+  return {
+    cycleCount: closedIds.size,
+    totalCollected,
+    totalPaidOut,
+    misses: Array.from(missCounts, ([memberId, count]) => ({ memberId, count })).sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Get a group's rounds, oldest first
+ */
+export async function getGroupRounds(groupId: string): Promise<Round[]> {
+  try {
+    const { data, error } = await supabase
+      .from('rounds')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('round_number', { ascending: true });
+
+    if (error) throw error;
+    return (data as Round[]) || [];
+  } catch (error) {
+    console.error('Error fetching rounds:', error);
+    return [];
+  }
+}
+
+/**
+ * Round that new cycles belong to
+ * Groups from before rounds existed get round 1, holding every cycle they already have,
+ * in one database transaction (get_active_round)
+ * Returns null when the latest round is complete and the next one has not been started
+ */
+export async function getActiveRound(groupId: string): Promise<Round | null> {
+  const { data, error } = await supabase.rpc('get_active_round', { p_group_id: groupId });
+
+  if (error) throw error;
+  return (data as Round | null) || null;
+}
+
+/**
+ * Checks the group's active round after a cycle closes
+ * Marks it completed (and logs it) once every member has received their payout
+ */
+export async function completeRoundIfFinished(groupId: string): Promise<RoundResult> {
+  try {
+    const rounds = await getGroupRounds(groupId);
+    const round = rounds.find(r => r.status === 'active');
+    if (!round) return { success: true };
+
+    const [{ data: members, error: membersError }, { data: cycles, error: cyclesError }] = await Promise.all([
+      supabase.from('group_members').select('id, status, queue_position, shares').eq('group_id', groupId),
+      supabase.from('payment_cycles').select('id, status, recipient_id, start_date, created_at, round_id').eq('round_id', round.id),
+    ]);
+
+    if (membersError) throw membersError;
+    if (cyclesError) throw cyclesError;
+
+    if (!isRoundComplete((members as RoundMember[]) || [], (cycles as RoundCycle[]) || [])) {
+      return { success: true };
+    }
+
+    const { data: completed, error } = await supabase
+      .from('rounds')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', round.id)
+      .eq('status', 'active')
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await logActivity({
+      group_id: groupId,
+      action_type: 'round_completed',
+      metadata: { round_id: round.id, round_number: round.round_number },
+    });
+
+    return { success: true, round: completed as Round };
+  } catch (error) {
+    console.error('Error completing round:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete round',
+    };
+  }
+}
+
+/**
+ * Works out a round's payout queue under the chosen strategy, as rpc arguments
+ * A lottery is drawn by the database function from a seed it generates, so no order is sent;
+ * bidding reads the round's bids
+ */
+async function orderRoundQueue(groupId: string, roundNumber: number, queueMode: RoundQueueMode) {
+  if (queueMode === 'lottery') return { p_queue_mode: queueMode, p_queue_order: null };
+
+  const { data: members, error } = await supabase
+    .from('group_members')
+    .select('id, status, queue_position, created_at')
+    .eq('group_id', groupId);
+
+  if (error) throw error;
+
+  const bids = queueMode === 'bidding' ? await getQueueBids(groupId, [roundNumber]) : [];
+  const order = getQueueOrder(queueMode, members || [], { bids });
+
+  return { p_queue_mode: queueMode, p_queue_order: order };
+}
+
+/**
+ * President starts the next round once the previous one is complete
+ * 1. Works out the payout queue: kept as it is, or by bidding or seniority
+ * 2. Draws any lottery, writes the queue and creates the round with how it was set in one transaction (start_round);
+ *    the next cycle started belongs to it
+ */
+export async function startRound(input: RoundQueueInput): Promise<RoundResult> {
+  try {
+    const rounds = await getGroupRounds(input.groupId);
+    if (rounds.some(r => r.status === 'active')) {
+      throw new Error('The current round is still in progress');
+    }
+
+    const roundNumber = (rounds[rounds.length - 1]?.round_number || 0) + 1;
+    const queue = await orderRoundQueue(input.groupId, roundNumber, input.queueMode);
+
+    const { data, error } = await supabase.rpc('start_round', { p_group_id: input.groupId, ...queue });
+
+    if (error) throw error;
+
+    const round = data as Round;
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'round_started',
+      metadata: { round_id: round.id, round_number: round.round_number, queue_mode: input.queueMode, seed: round.queue_seed },
+    });
+
+    return { success: true, round };
+  } catch (error) {
+    console.error('Error starting round:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start round',
+    };
+  }
+}
+
+/**
+ * President sets the queue of the current round before its first cycle starts
+ * Used for a group's first round, or to redo the order of a round that has not begun
+ * A round's lottery is drawn only once; set_round_queue refuses to redraw it
+ */
+export async function setRoundQueue(input: RoundQueueInput): Promise<RoundResult> {
+  try {
+    const round = await getActiveRound(input.groupId);
+    if (!round) {
+      throw new Error('This round is complete. Start a new round to set its queue');
+    }
+    if (hasLotteryDraw(round)) {
+      throw new Error('This round\'s lottery has already been drawn');
+    }
+
+    const queue = await orderRoundQueue(input.groupId, round.round_number, input.queueMode);
+
+    const { data, error } = await supabase.rpc('set_round_queue', { p_round_id: round.id, ...queue });
+
+    if (error) throw error;
+
+    const updated = data as Round;
+
+    await logActivity({
+      group_id: input.groupId,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'queue_ordered',
+      metadata: { round_id: round.id, round_number: round.round_number, queue_mode: input.queueMode, seed: updated.queue_seed },
+    });
+
+    return { success: true, round: updated };
+  } catch (error) {
+    console.error('Error setting round queue:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set queue order',
+    };
+  }
+}
+
+/**
+ * Fetches a round's cycles, payment logs and payouts and summarizes them
+ */
+export async function getRoundSummary(round: Round, contributionAmount: number): Promise<RoundSummary | null> {
+  try {
+    const { data: cycles, error: cyclesError } = await supabase
+      .from('payment_cycles')
+      .select('id, status')
+      .eq('round_id', round.id);
+
+    if (cyclesError) throw cyclesError;
+
+    const cycleIds = (cycles || []).map(c => c.id);
+    if (cycleIds.length === 0) {
+      return summarizeRound([], [], [], [], contributionAmount);
+    }
+
+    const [{ data: logs, error: logsError }, { data: payouts, error: payoutsError }, { data: members, error: membersError }] =
+      await Promise.all([
+        supabase.from('payment_logs').select('cycle_id, member_id, status').in('cycle_id', cycleIds),
+        supabase.from('payouts').select('cycle_id, amount, status').in('cycle_id', cycleIds),
+        supabase.from('group_members').select('id, shares').eq('group_id', round.group_id),
+      ]);
+
+    if (logsError) throw logsError;
+    if (payoutsError) throw payoutsError;
+    if (membersError) throw membersError;
+
+    return summarizeRound(cycles, logs || [], payouts || [], members || [], contributionAmount);
+  } catch (error) {
+    console.error('Error summarizing round:', error);
+    return null;
+  }
+}
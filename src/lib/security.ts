@@ -230,7 +230,18 @@ export const SCHEMAS = {
     frequency: { 
       type: 'string' as const, 
       required: true,
-      pattern: /^(weekly|bi-weekly|monthly)$/
+      pattern: /^(weekly|bi-weekly|monthly|quarterly|custom)$/
+    },
+    frequencyInterval: {
+      type: 'number' as const,
+      required: false,
+      min: 1,
+      max: 365
+    },
+    frequencyUnit: {
+      type: 'string' as const,
+      required: false,
+      pattern: /^(days|weeks)$/
     },
   },
   
@@ -0,0 +1,101 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fromMinor, multiplyMoney, toMinor } from '@/lib/money';
+import { GroupMember } from '@/types/database';
+
+type ShareMember = Pick<GroupMember, 'status'> & Partial<Pick<GroupMember, 'shares'>>;
+
+// Hands can be split into quarters, and one member can hold up to ten
+export const SHARE_STEP = 0.25;
+export const MAX_SHARES = 10;
+
+export const SHARE_PRESETS = [0.5, 1, 2, 3];
+
+/**
+ * Number of hands a member holds (members from before shares existed hold one)
+ */
+export function getMemberShares(member: Partial<Pick<GroupMember, 'shares'>> | null | undefined): number {
+  const shares = Number(member?.shares);
+  return shares > 0 ? shares : 1;
+}
+
+/**
+ * Contribution expected from a member each cycle, rounded to the cent
+ */
+export function getMemberContribution(
+  contributionAmount: number,
+  member: Partial<Pick<GroupMember, 'shares'>> | null | undefined
+): number {
+  return fromMinor(multiplyMoney(toMinor(contributionAmount), getMemberShares(member)));
+}
+
+/**
+ * Total hands held by the group's active members
+ */
+export function getTotalShares(members: ShareMember[]): number {
+  return members
+    .filter(m => m.status === 'active')
+    .reduce((total, m) => total + getMemberShares(m), 0);
+}
+
+/**
+ * Total contribution expected each cycle from a set of members
+ */
+export function getExpectedContribution(contributionAmount: number, members: ShareMember[]): number {
+  return fromMinor(multiplyMoney(toMinor(contributionAmount), getTotalShares(members)));
+}
+
+/**
+ * Pot paid to one full slot: every hand's contribution except the slot's own
+ */
+export function getExpectedPayout(contributionAmount: number, totalShares: number): number {
+  return fromMinor(multiplyMoney(toMinor(contributionAmount), Math.max(totalShares - 1, 0)));
+}
+
+/**
+ * Check a share count, returning an error message or null when valid
+ */
+export function validateShares(shares: number): string | null {
+  if (isNaN(shares) || shares < SHARE_STEP) {
+    return `Shares must be at least ${SHARE_STEP}`;
+  }
+  if (shares > MAX_SHARES) {
+    return `A member cannot hold more than ${MAX_SHARES} hands`;
+  }
+  if (Math.abs(shares / SHARE_STEP - Math.round(shares / SHARE_STEP)) > 1e-9) {
+    return 'Shares must be in quarters of a hand (e.g. 0.5, 1.25, 2)';
+  }
+  return null;
+}
+
+/**
+ * Human-readable share count, e.g. "2 hands" or "½ hand"
+ */
+export function formatShares(shares: number): string {
+  const label = shares === 0.5 ? '½' : shares === 0.25 ? '¼' : String(shares);
+  return `${label} hand${shares > 1 ? 's' : ''}`;
+}
+
+/**
+ * President changes how many hands a member holds
+ * Applies from the next cycle's payment logs and payout rotation
+ */
+export async function updateMemberShares(memberId: string, shares: number): Promise<{ success: boolean; error?: string }> {
+  try {
+    const sharesError = validateShares(shares);
+    if (sharesError) throw new Error(sharesError);
+
+    const { error } = await supabase
+      .from('group_members')
+      .update({ shares, updated_at: new Date().toISOString() })
+      .eq('id', memberId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating member shares:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update shares',
+    };
+  }
+}
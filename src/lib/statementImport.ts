@@ -0,0 +1,509 @@
+import { supabase } from '@/integrations/supabase/client';
+import { logActivities } from '@/lib/activity';
+import { getLogContribution } from '@/lib/groupLedger';
+import { getInstallmentBalance, getLogInstallments, normalizeReference } from '@/lib/installments';
+import { fromMinor, parseMoney, subtractMoney, toMinor } from '@/lib/money';
+import { Group, PaymentLog } from '@/types/database';
+
+// How numeric dates are written in the statement, e.g. dmy for 31/03/2024
+export type StatementDateFormat = 'dmy' | 'mdy' | 'ymd';
+
+export const DATE_FORMAT_OPTIONS: { value: StatementDateFormat; label: string }[] = [
+  { value: 'dmy', label: 'Day/Month/Year' },
+  { value: 'mdy', label: 'Month/Day/Year' },
+  { value: 'ymd', label: 'Year-Month-Day' },
+];
+
+export const MATCH_WINDOW_OPTIONS = [3, 7, 14, 30];
+export const DEFAULT_MATCH_WINDOW_DAYS = 7;
+
+// Which column holds each field, by position so unnamed or repeated headers still work
+export interface StatementColumnMapping {
+  date: number | null;
+  amount: number | null; // money received; rows with nothing received are skipped
+  reference: number | null;
+  payer: number | null;
+  dateFormat: StatementDateFormat;
+}
+
+export interface StatementFile {
+  headers: string[];
+  rows: string[][];
+}
+
+// A line of the statement recording money received
+export interface StatementRow {
+  line: number; // row number in the file, counting the header as 1
+  date: Date | null;
+  amount: number;
+  reference: string;
+  payer: string;
+}
+
+// An unpaid or pending payment a statement line could settle
+export interface StatementCandidate {
+  log: PaymentLog;
+  cycleNumber: number | null;
+  dueDate: string;
+  memberId: string;
+  memberUserId: string;
+  memberName: string;
+  amount: number; // what the statement line has to show
+  expectedDate: string; // when the money should have arrived
+  references: string[]; // normalized references of the pending installments
+}
+
+export type MatchReason = 'reference' | 'name' | 'date';
+
+export interface StatementMatch {
+  row: StatementRow;
+  candidate: StatementCandidate;
+  reasons: MatchReason[];
+  confident: boolean; // matched on the reference, or on the payer's name within the date window
+}
+
+export interface ConfirmStatementMatchesInput {
+  matches: StatementMatch[];
+  actorId: string;
+  actorName: string;
+}
+
+interface ConfirmedPayment {
+  log_id: string;
+  group_id: string;
+  member_user_id: string;
+  amount: number;
+}
+
+interface ConfirmStatementMatchesResult {
+  success: boolean;
+  verifiedCount: number;
+  skippedCount: number; // no longer unpaid or pending
+  error?: string;
+}
+
+type CandidateGroup = Pick<Group, 'id' | 'contribution_amount'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const COLUMN_PATTERNS: Record<'date' | 'amount' | 'reference' | 'payer', RegExp> = {
+  date: /date|posted|time/i,
+  amount: /paid in|money in|credit|deposit|received|amount/i,
+  reference: /ref|receipt|transaction id|txn|code/i,
+  payer: /name|payer|sender|from|details|description|narrative|particulars/i,
+};
+
+/**
+ * Split CSV text into rows of cells
+ * - Quoted cells may contain the delimiter, line breaks and doubled quotes
+ * - The delimiter (comma, semicolon or tab) is whichever splits the opening lines into the most cells
+ * - Blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const openingLines = content.split(/\r?\n/, 20);
+  const widest = (delimiter: string) => Math.max(...openingLines.map(line => line.split(delimiter).length));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) => (widest(candidate) > widest(best) ? candidate : best));
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map(r => r.map(c => c.trim()))
+    .filter(r => r.some(c => c !== ''));
+}
+
+/**
+ * Read a statement export into its header and data rows
+ * Banks often put account details above the table, so the header is the first row as wide as the widest row
+ */
+export function readStatement(text: string): StatementFile {
+  const rows = parseCsv(text);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const headerIndex = rows.findIndex(r => r.length === width);
+  if (headerIndex === -1) return { headers: [], rows: [] };
+
+  return {
+    headers: rows[headerIndex],
+    rows: rows.slice(headerIndex + 1),
+  };
+}
+
+/**
+ * Guess how numeric dates are written from a sample of the date column
+ * A first part over 12 means day first, a second part over 12 means month first; day first otherwise
+ */
+export function guessDateFormat(values: string[]): StatementDateFormat {
+  let format: StatementDateFormat = 'dmy';
+  for (const value of values) {
+    const parts = value.match(/^(\d{1,4})[/.-](\d{1,2})[/.-]\d{1,4}/);
+    if (!parts) continue;
+    if (parts[1].length === 4) return 'ymd';
+    if (Number(parts[1]) > 12) return 'dmy';
+    if (Number(parts[2]) > 12) format = 'mdy';
+  }
+  return format;
+}
+
+/**
+ * Pick the likely column for each field from the header names
+ * Each column is used for at most one field; the date format is guessed from the rows
+ */
+export function guessColumnMapping(file: StatementFile): StatementColumnMapping {
+  const used = new Set<number>();
+  const find = (field: keyof typeof COLUMN_PATTERNS) => {
+    const index = file.headers.findIndex((header, i) => !used.has(i) && COLUMN_PATTERNS[field].test(header));
+    if (index === -1) return null;
+    used.add(index);
+    return index;
+  };
+
+  const date = find('date');
+  const amount = find('amount');
+  const reference = find('reference');
+  const payer = find('payer');
+
+  return {
+    date,
+    amount,
+    reference,
+    payer,
+    dateFormat: date === null ? 'dmy' : guessDateFormat(file.rows.map(r => r[date] || '')),
+  };
+}
+
+/**
+ * Parse a statement date such as 2024-03-31, 31/03/2024, 31 Mar 2024 or Mar 31, 2024
+ * Numeric dates are read in the given format unless the year comes first; returns null for anything else
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): Date | null {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const numeric = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})/);
+  const dayFirst = text.match(/^(\d{1,2})[\s-]+([a-z]{3,})[\s,-]+(\d{2,4})/i);
+  const monthFirst = text.match(/^([a-z]{3,})[\s-]+(\d{1,2}),?[\s-]+(\d{2,4})/i);
+
+  if (numeric) {
+    const [a, b, c] = [numeric[1], numeric[2], numeric[3]].map(Number);
+    if (numeric[1].length === 4 || format === 'ymd') {
+      [year, month, day] = [a, b, c];
+    } else if (format === 'mdy') {
+      [month, day, year] = [a, b, c];
+    } else {
+      [day, month, year] = [a, b, c];
+    }
+  } else if (dayFirst || monthFirst) {
+    const [dayText, monthText, yearText] = dayFirst
+      ? [dayFirst[1], dayFirst[2], dayFirst[3]]
+      : [monthFirst?.[2] || '', monthFirst?.[1] || '', monthFirst?.[3] || ''];
+    day = Number(dayText);
+    month = MONTHS.indexOf(monthText.slice(0, 3).toLowerCase()) + 1;
+    year = Number(yearText);
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (month < 1 || date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a statement amount in major units, e.g. "KES 1,250.00", "1.250,00" or "(50.00)"
+ * - The last comma or point is the decimal separator when one or two digits follow it; other separators group thousands
+ * - A leading minus, brackets or a trailing DR make it negative
+ * - Returns null for anything that is not an amount
+ */
+export function parseStatementAmount(value: string, currency?: string | null): number | null {
+  const text = value.trim();
+  const negative = /^-|^\(.*\)$|\bdr\.?$/i.test(text);
+  const digits = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) return null;
+
+  const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  const decimals = lastSeparator === -1 ? '' : digits.slice(lastSeparator + 1);
+  const hasDecimals = lastSeparator !== -1 && decimals.length > 0 && decimals.length <= 2;
+  const whole = (hasDecimals ? digits.slice(0, lastSeparator) : digits).replace(/[.,]/g, '');
+
+  const minor = parseMoney(hasDecimals ? `${whole}.${decimals}` : whole, currency);
+  if (minor === null) return null;
+  return fromMinor(negative ? -minor : minor, currency);
+}
+
+/**
+ * Turn the statement's rows into money received, using the column mapping
+ * Rows without a positive amount (payments out, balances, totals) are left out
+ */
+export function getStatementRows(
+  file: StatementFile,
+  mapping: StatementColumnMapping,
+  currency?: string | null
+): StatementRow[] {
+  if (mapping.amount === null) return [];
+  const amountColumn = mapping.amount;
+  const cell = (row: string[], column: number | null) => (column === null ? '' : row[column] || '');
+
+  return file.rows.flatMap((row, i) => {
+    const amount = parseStatementAmount(cell(row, amountColumn), currency);
+    if (amount === null || amount <= 0) return [];
+    return [{
+      line: i + 2,
+      date: mapping.date === null ? null : parseStatementDate(cell(row, mapping.date), mapping.dateFormat),
+      amount,
+      reference: cell(row, mapping.reference),
+      payer: cell(row, mapping.payer),
+    }];
+  });
+}
+
+const nameTokens = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+
+/**
+ * Share of the member's names found in the statement's payer text, from 0 to 1
+ */
+export function payerNameScore(payer: string, memberName: string): number {
+  const member = nameTokens(memberName);
+  if (member.length === 0) return 0;
+  const payerTokens = new Set(nameTokens(payer));
+  return member.filter(token => payerTokens.has(token)).length / member.length;
+}
+
+// A member's reference matches when the statement's reference is the same or contains it
+const referenceMatches = (rowReference: string, references: string[]) => {
+  const normalized = normalizeReference(rowReference);
+  return normalized !== '' && references.some(ref => ref === normalized || (ref.length >= 6 && normalized.includes(ref)));
+};
+
+/**
+ * Match statement lines to unpaid or pending payments
+ * - The amount must be exactly what the payment needs
+ * - It must also share the member's transaction reference or fall within the date window
+ * - Stronger matches are taken first (reference, then payer name, then closeness in time),
+ *   and each line and each payment is used at most once
+ * - Returned in statement order
+ */
+export function matchStatement(
+  rows: StatementRow[],
+  candidates: StatementCandidate[],
+  windowDays: number = DEFAULT_MATCH_WINDOW_DAYS,
+  currency?: string | null
+): StatementMatch[] {
+  const pairs = rows.flatMap(row =>
+    candidates.flatMap(candidate => {
+      if (toMinor(row.amount, currency) !== toMinor(candidate.amount, currency)) return [];
+
+      const daysApart = row.date
+        ? Math.abs(row.date.getTime() - new Date(candidate.expectedDate).getTime()) / DAY_MS
+        : Infinity;
+      const byReference = referenceMatches(row.reference, candidate.references);
+      const withinWindow = daysApart <= windowDays;
+      if (!byReference && !withinWindow) return [];
+
+      const nameScore = payerNameScore(row.payer, candidate.memberName);
+      const reasons: MatchReason[] = [
+        ...(byReference ? ['reference' as const] : []),
+        ...(nameScore >= 0.5 ? ['name' as const] : []),
+        ...(withinWindow ? ['date' as const] : []),
+      ];
+
+      return [{
+        row,
+        candidate,
+        reasons,
+        confident: byReference || (nameScore >= 0.5 && withinWindow),
+        score: (byReference ? 4 : 0) + nameScore * 2 + (withinWindow ? 1 : 0),
+        daysApart,
+      }];
+    })
+  );
+
+  pairs.sort((a, b) => b.score - a.score || a.daysApart - b.daysApart);
+
+  const usedRows = new Set<number>();
+  const usedLogs = new Set<string>();
+  const matches: StatementMatch[] = [];
+  for (const { row, candidate, reasons, confident } of pairs) {
+    if (usedRows.has(row.line) || usedLogs.has(candidate.log.id)) continue;
+    usedRows.add(row.line);
+    usedLogs.add(candidate.log.id);
+    matches.push({ row, candidate, reasons, confident });
+  }
+
+  return matches.sort((a, b) => a.row.line - b.row.line);
+}
+
+/**
+ * Get the group's payments a statement could settle: unpaid or awaiting verification, in any cycle
+ * - A pending payment needs its pending installments, expected around when they were sent
+ * - An unpaid one needs whatever has not been verified yet, expected by the cycle's due date
+ */
+export async function getStatementCandidates(group: CandidateGroup): Promise<StatementCandidate[]> {
+  const { data: cycles, error: cyclesError } = await supabase
+    .from('payment_cycles')
+    .select('id, cycle_number, due_date, contribution_amount')
+    .eq('group_id', group.id);
+
+  if (cyclesError) throw cyclesError;
+  if (!cycles || cycles.length === 0) return [];
+
+  const { data: logs, error: logsError } = await supabase
+    .from('payment_logs')
+    .select('*')
+    .in('cycle_id', cycles.map(c => c.id))
+    .in('status', ['unpaid', 'pending']);
+
+  if (logsError) throw logsError;
+  if (!logs || logs.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from('group_members')
+    .select('id, user_id, shares')
+    .in('id', logs.map(log => log.member_id));
+
+  if (membersError) throw membersError;
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, name, email')
+    .in('id', (members || []).map(m => m.user_id));
+
+  const installments = await getLogInstallments(logs.map(log => log.id));
+
+  const cycleMap = new Map(cycles.map(c => [c.id, c]));
+  const memberMap = new Map((members || []).map(m => [m.id, m]));
+  const profileMap = new Map((profiles || []).map(p => [p.id, p]));
+
+  return (logs as PaymentLog[]).flatMap(log => {
+    const cycle = cycleMap.get(log.cycle_id);
+    const member = memberMap.get(log.member_id);
+    if (!cycle || !member) return [];
+
+    const logInstallments = installments.filter(i => i.payment_log_id === log.id);
+    const pendingInstallments = logInstallments.filter(i => i.status === 'pending');
+    const balance = getInstallmentBalance(
+      getLogContribution(log, cycle, member, group.contribution_amount),
+      logInstallments,
+      log.status
+    );
+    const amount = log.status === 'pending'
+      ? balance.pending
+      : fromMinor(subtractMoney(toMinor(balance.due), toMinor(balance.verified)));
+    if (amount <= 0) return [];
+
+    const lastSent = pendingInstallments.map(i => i.paid_at).sort().pop();
+    const profile = profileMap.get(member.user_id);
+    return [{
+      log,
+      cycleNumber: cycle.cycle_number,
+      dueDate: cycle.due_date,
+      memberId: member.id,
+      memberUserId: member.user_id,
+      memberName: profile?.name || profile?.email || 'Member',
+      amount,
+      expectedDate: log.status === 'pending' ? lastSent || log.marked_at || cycle.due_date : cycle.due_date,
+      references: pendingInstallments.map(i => normalizeReference(i.reference)).filter(ref => ref !== ''),
+    }];
+  });
+}
+
+/**
+ * Officer confirms statement matches, marking each payment verified
+ * - Every match is confirmed in one database call (confirm_statement_matches) so the batch succeeds or fails together
+ * - Payments no longer unpaid or pending are skipped
+ * - Logs the activity for the whole batch in one insert
+ */
+export async function confirmStatementMatches(input: ConfirmStatementMatchesInput): Promise<ConfirmStatementMatchesResult> {
+  try {
+    if (input.matches.length === 0) {
+      throw new Error('Select at least one match');
+    }
+
+    const { data, error } = await supabase.rpc('confirm_statement_matches', {
+      p_matches: input.matches.map(({ row, candidate }) => ({
+        log_id: candidate.log.id,
+        amount: row.amount,
+        paid_at: row.date ? row.date.toISOString() : null,
+        reference: row.reference || null,
+      })),
+    });
+
+    if (error) throw error;
+
+    const verified = ((data as { verified: ConfirmedPayment[] } | null)?.verified || [])
+      .map(payment => ({ payment, match: input.matches.find(m => m.candidate.log.id === payment.log_id) }))
+      .filter((entry): entry is { payment: ConfirmedPayment; match: StatementMatch } => !!entry.match);
+
+    await logActivities(verified.map(({ payment, match }) => ({
+      group_id: payment.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: 'payment_verified',
+      target_user_id: payment.member_user_id,
+      target_name: match.candidate.memberName,
+      metadata: {
+        amount: Number(payment.amount),
+        source: 'statement',
+        ...(match.row.reference && { reference: match.row.reference }),
+      },
+    })));
+
+    return {
+      success: true,
+      verifiedCount: verified.length,
+      skippedCount: input.matches.length - verified.length,
+    };
+  } catch (error) {
+    console.error('Error confirming statement matches:', error);
+    return {
+      success: false,
+      verifiedCount: 0,
+      skippedCount: 0,
+      error: error instanceof Error ? error.message : 'Failed to confirm statement matches',
+    };
+  }
+}
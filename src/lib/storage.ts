@@ -4,12 +4,17 @@ import { supabase } from '@/integrations/supabase/client';
 export const STORAGE_BUCKETS = {
   AVATARS: 'avatars',
   GROUP_PHOTOS: 'group-photos',
+  PAYMENT_PROOFS: 'payment-proofs', // private: only the payer and group officers can read
 } as const;
 
 // Allowed file types for images
 const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
+// Payment proofs can also be PDF receipts
+const ALLOWED_PROOF_TYPES = [...ALLOWED_IMAGE_TYPES, 'application/pdf'];
+const PROOF_URL_EXPIRY_SECONDS = 60 * 60;
+
 export interface UploadResult {
   url: string | null;
   error: string | null;
@@ -212,3 +217,92 @@ export async function deleteGroupPhoto(groupId: string, photoUrl: string): Promi
     return { error: 'Failed to delete group photo' };
   }
 }
+
+/**
+ * Validate a proof of payment before upload
+ */
+export function validatePaymentProof(file: File): string | null {
+  if (!ALLOWED_PROOF_TYPES.includes(file.type)) {
+    return 'Invalid file type. Please upload a photo, screenshot, or PDF receipt.';
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return 'File is too large. Maximum size is 5MB.';
+  }
+
+  return null;
+}
+
+/**
+ * Upload a member's proof of payment
+ * Stored privately as groupId/memberId/timestamp.ext so storage policies can check the payer and the group
+ */
+export async function uploadPaymentProof(
+  groupId: string,
+  memberId: string,
+  file: File
+): Promise<{ path: string | null; error: string | null }> {
+  const validationError = validatePaymentProof(file);
+  if (validationError) {
+    return { path: null, error: validationError };
+  }
+
+  try {
+    const extension = file.name.split('.').pop()?.toLowerCase() || (file.type === 'application/pdf' ? 'pdf' : 'jpg');
+    const path = `${groupId}/${memberId}/${Date.now()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(STORAGE_BUCKETS.PAYMENT_PROOFS)
+      .upload(path, file, {
+        cacheControl: '3600',
+        contentType: file.type,
+      });
+
+    if (uploadError) {
+      console.error('Upload error:', uploadError);
+      return { path: null, error: uploadError.message };
+    }
+
+    return { path, error: null };
+  } catch (error) {
+    console.error('Payment proof upload error:', error);
+    return { path: null, error: 'Failed to upload proof of payment' };
+  }
+}
+
+/**
+ * Short-lived link to a proof of payment; null when the viewer is not the payer or an officer
+ */
+export async function getPaymentProofUrl(path: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKETS.PAYMENT_PROOFS)
+      .createSignedUrl(path, PROOF_URL_EXPIRY_SECONDS);
+
+    if (error) throw error;
+    return data?.signedUrl || null;
+  } catch (error) {
+    console.error('Error getting payment proof URL:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a proof of payment, e.g. when the payment it belongs to could not be recorded
+ */
+export async function deletePaymentProof(path: string): Promise<void> {
+  try {
+    await supabase.storage
+      .from(STORAGE_BUCKETS.PAYMENT_PROOFS)
+      .remove([path]);
+  } catch (error) {
+    console.error('Error deleting payment proof:', error);
+  }
+}
+
+/**
+ * Whether a stored proof is a PDF rather than an image
+ */
+export function isPdfProof(path: string): boolean {
+  return path.toLowerCase().endsWith('.pdf');
+}
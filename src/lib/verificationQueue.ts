@@ -0,0 +1,223 @@
+import { supabase } from '@/integrations/supabase/client';
+import { createDbNotifications, logActivities } from '@/lib/activity';
+import { getLogContribution } from '@/lib/groupLedger';
+import { getLogInstallments } from '@/lib/installments';
+import { getRejectionNotice, validateRejection, type Rejection } from '@/lib/paymentEvents';
+import { Group, PaymentInstallment, PaymentLog } from '@/types/database';
+
+// A submitted payment waiting for an officer to verify it
+export interface VerificationItem {
+  log: PaymentLog;
+  groupId: string;
+  groupName: string;
+  currency: string | null;
+  dueDate: string;
+  memberId: string;
+  memberUserId: string;
+  memberName: string;
+  avatarUrl: string | null;
+  amountDue: number;
+  installments: PaymentInstallment[]; // the pending installments making up the payment
+}
+
+export interface ReviewPaymentsInput {
+  items: VerificationItem[];
+  verify: boolean;
+  rejection?: Rejection;
+  actorId: string;
+  actorName: string;
+}
+
+interface ReviewedPayment {
+  log_id: string;
+  group_id: string;
+  member_id: string;
+  member_user_id: string;
+  amount: number;
+}
+
+interface ReviewPaymentsResult {
+  success: boolean;
+  reviewedCount: number;
+  skippedCount: number; // already reviewed by someone else
+  error?: string;
+}
+
+type OfficerGroup = Pick<Group, 'id' | 'name' | 'currency' | 'contribution_amount' | 'archived_at'>;
+
+/**
+ * Oldest submissions first; payments without a submission time go last
+ */
+export function sortVerificationQueue(items: VerificationItem[]): VerificationItem[] {
+  return [...items].sort((a, b) => {
+    if (!a.log.marked_at || !b.log.marked_at) {
+      return (a.log.marked_at ? 0 : 1) - (b.log.marked_at ? 0 : 1);
+    }
+    return a.log.marked_at.localeCompare(b.log.marked_at);
+  });
+}
+
+/**
+ * Get the active groups where the user is the president or a vice president
+ */
+async function getOfficerGroups(userId: string): Promise<OfficerGroup[]> {
+  const columns = 'id, name, currency, contribution_amount, archived_at';
+  const [{ data: presided, error: presidedError }, { data: deputised, error: deputisedError }] = await Promise.all([
+    supabase.from('groups').select(columns).eq('president_id', userId),
+    supabase
+      .from('group_members')
+      .select(`groups!inner(${columns})`)
+      .eq('user_id', userId)
+      .eq('role', 'vice_president'),
+  ]);
+
+  if (presidedError) throw presidedError;
+  if (deputisedError) throw deputisedError;
+
+  const groups = [
+    ...((presided as OfficerGroup[]) || []),
+    ...(deputised || []).map(m => m.groups as unknown as OfficerGroup),
+  ];
+  return Array.from(new Map(groups.map(g => [g.id, g])).values()).filter(g => !g.archived_at);
+}
+
+/**
+ * Every payment awaiting verification across the groups the user helps run, oldest submission first
+ */
+export async function getVerificationQueue(userId: string): Promise<VerificationItem[]> {
+  const groups = await getOfficerGroups(userId);
+  if (groups.length === 0) return [];
+
+  const { data: cycles, error: cyclesError } = await supabase
+    .from('payment_cycles')
+    .select('id, group_id, due_date, contribution_amount')
+    .in('group_id', groups.map(g => g.id));
+
+  if (cyclesError) throw cyclesError;
+  if (!cycles || cycles.length === 0) return [];
+
+  const { data: logs, error: logsError } = await supabase
+    .from('payment_logs')
+    .select('*')
+    .in('cycle_id', cycles.map(c => c.id))
+    .eq('status', 'pending');
+
+  if (logsError) throw logsError;
+  if (!logs || logs.length === 0) return [];
+
+  const { data: members, error: membersError } = await supabase
+    .from('group_members')
+    .select('id, user_id, shares')
+    .in('id', logs.map(log => log.member_id));
+
+  if (membersError) throw membersError;
+
+  const { data: profiles } = await supabase
+    .from('profiles')
+    .select('id, name, email, avatar_url')
+    .in('id', (members || []).map(m => m.user_id));
+
+  const installments = await getLogInstallments(logs.map(log => log.id));
+
+  const groupMap = new Map(groups.map(g => [g.id, g]));
+  const cycleMap = new Map(cycles.map(c => [c.id, c]));
+  const memberMap = new Map((members || []).map(m => [m.id, m]));
+  const profileMap = new Map((profiles || []).map(p => [p.id, p]));
+
+  const items = (logs as PaymentLog[]).flatMap(log => {
+    const cycle = cycleMap.get(log.cycle_id);
+    const group = cycle ? groupMap.get(cycle.group_id) : undefined;
+    const member = memberMap.get(log.member_id);
+    if (!cycle || !group || !member) return [];
+
+    const profile = profileMap.get(member.user_id);
+    return [{
+      log,
+      groupId: group.id,
+      groupName: group.name,
+      currency: group.currency,
+      dueDate: cycle.due_date,
+      memberId: member.id,
+      memberUserId: member.user_id,
+      memberName: profile?.name || profile?.email || 'Member',
+      avatarUrl: profile?.avatar_url || null,
+      amountDue: getLogContribution(log, cycle, member, group.contribution_amount),
+      installments: installments.filter(i => i.payment_log_id === log.id && i.status === 'pending'),
+    }];
+  });
+
+  return sortVerificationQueue(items);
+}
+
+/**
+ * Officer verifies or rejects several payments at once
+ * - Every payment is reviewed in one database call (review_payments) so the batch succeeds or fails together
+ * - Payments someone else already reviewed are skipped
+ * - Rejected members are notified with the reason, then the activity for the whole batch is logged in one insert
+ */
+export async function reviewPayments(input: ReviewPaymentsInput): Promise<ReviewPaymentsResult> {
+  try {
+    if (input.items.length === 0) {
+      throw new Error('Select at least one payment');
+    }
+
+    if (!input.verify) {
+      const invalid = input.rejection
+        ? validateRejection(input.rejection)
+        : 'Please choose a reason for rejecting the payments';
+      if (invalid) throw new Error(invalid);
+    }
+
+    const { data, error } = await supabase.rpc('review_payments', {
+      p_log_ids: input.items.map(item => item.log.id),
+      p_verify: input.verify,
+      p_reason: input.verify ? null : input.rejection?.reason,
+      p_note: input.verify ? null : input.rejection?.note || null,
+      p_actor_name: input.actorName,
+    });
+
+    if (error) throw error;
+
+    const reviewed = ((data as { reviewed: ReviewedPayment[] } | null)?.reviewed || [])
+      .map(payment => ({ payment, item: input.items.find(item => item.log.id === payment.log_id) }))
+      .filter((entry): entry is { payment: ReviewedPayment; item: VerificationItem } => !!entry.item);
+
+    if (!input.verify && input.rejection) {
+      const rejection = input.rejection;
+      await createDbNotifications(reviewed.map(({ payment, item }) => ({
+        userId: payment.member_user_id,
+        groupId: payment.group_id,
+        type: 'payment_rejected',
+        title: 'Payment Rejected',
+        message: getRejectionNotice(item.groupName, Number(payment.amount), item.currency, rejection),
+      })));
+    }
+
+    await logActivities(reviewed.map(({ payment, item }) => ({
+      group_id: payment.group_id,
+      user_id: input.actorId,
+      actor_name: input.actorName,
+      action_type: input.verify ? 'payment_verified' : 'payment_rejected',
+      target_user_id: payment.member_user_id,
+      target_name: item.memberName,
+      metadata: {
+        amount: Number(payment.amount),
+        ...(input.rejection && !input.verify && { reason: input.rejection.reason }),
+      },
+    })));
+
+    return {
+      success: true,
+      reviewedCount: reviewed.length,
+      skippedCount: input.items.length - reviewed.length,
+    };
+  } catch (error) {
+    console.error('Error reviewing payments:', error);
+    return {
+      success: false,
+      reviewedCount: 0,
+      skippedCount: 0,
+      error: error instanceof Error ? error.message : 'Failed to review payments',
+    };
+  }
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, Users, DollarSign, Calendar, Loader2, Crown, Shield, User, PiggyBank, Plus } from 'lucide-react';
+import { ArrowLeft, Users, Calendar, Loader2, Crown, Shield, User, PiggyBank, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,7 +9,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { GroupFrequency, MemberRole } from '@/types/database';
+import { CurrencyCode, FrequencyUnit, GroupFrequency, MemberRole } from '@/types/database';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY, getCurrency } from '@/lib/currency';
+import { parseAmount } from '@/lib/money';
+import { FREQUENCY_OPTIONS, FREQUENCY_UNITS, formatFrequencyPeriod, validateCustomInterval } from '@/lib/frequency';
 import { 
   validateSchema, 
   SCHEMAS, 
@@ -31,7 +34,10 @@ export default function CreateGroup() {
   const [formData, setFormData] = useState({
     name: '',
     frequency: 'monthly' as GroupFrequency,
+    frequencyInterval: '10',
+    frequencyUnit: 'days' as FrequencyUnit,
     contributionAmount: '',
+    currency: DEFAULT_CURRENCY as CurrencyCode,
     role: 'president' as MemberRole,
   });
 
@@ -60,10 +66,13 @@ export default function CreateGroup() {
       }
 
       // Validate and sanitize input
+      const isCustom = formData.frequency === 'custom';
       const validation = validateSchema({
         name: formData.name,
-        contributionAmount: parseFloat(formData.contributionAmount) || 0,
+        contributionAmount: parseAmount(formData.contributionAmount, formData.currency) || 0,
         frequency: formData.frequency,
+        frequencyInterval: isCustom ? Number(formData.frequencyInterval) : undefined,
+        frequencyUnit: isCustom ? formData.frequencyUnit : undefined,
       }, SCHEMAS.createGroup);
       
       if (!validation.valid) {
@@ -73,9 +82,21 @@ export default function CreateGroup() {
       const sanitizedData = validation.sanitized as { 
         name: string; 
         contributionAmount: number; 
-        frequency: string 
+        frequency: string;
+        frequencyInterval?: number;
+        frequencyUnit?: string;
       };
 
+      if (isCustom) {
+        const intervalError = validateCustomInterval(
+          sanitizedData.frequencyInterval,
+          sanitizedData.frequencyUnit as FrequencyUnit
+        );
+        if (intervalError) {
+          throw new ValidationError([intervalError]);
+        }
+      }
+
       // Debug: Log user info
       console.log('Creating group with user:', {
         userId: user.id,
@@ -102,7 +123,10 @@ export default function CreateGroup() {
           name: sanitizedData.name,
           president_id: user.id,
           frequency: sanitizedData.frequency as GroupFrequency,
+          frequency_interval: isCustom ? sanitizedData.frequencyInterval : null,
+          frequency_unit: isCustom ? (sanitizedData.frequencyUnit as FrequencyUnit) : null,
           contribution_amount: sanitizedData.contributionAmount,
+          currency: formData.currency,
           president_email: user.email!,
         })
         .select()
@@ -151,7 +175,8 @@ export default function CreateGroup() {
           const errLower = err.toLowerCase();
           if (errLower.includes('name')) errors.name = err;
           if (errLower.includes('amount') || errLower.includes('contribution')) errors.contributionAmount = err;
-          if (errLower.includes('frequency')) errors.frequency = err;
+          if (errLower.includes('interval') || errLower.includes('unit')) errors.frequencyInterval = err;
+          else if (errLower.includes('frequency')) errors.frequency = err;
         });
         setFieldErrors(errors);
         toast({
@@ -245,18 +270,66 @@ export default function CreateGroup() {
                     <SelectValue placeholder="Select frequency" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="weekly">
-                      <div className="flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        Weekly
-                      </div>
-                    </SelectItem>
-                    <SelectItem value="monthly">
-                      <div className="flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        Monthly
-                      </div>
-                    </SelectItem>
+                    {FREQUENCY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        <div className="flex items-center gap-2">
+                          <Calendar className="h-4 w-4" />
+                          {option.label}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {formData.frequency === 'custom' && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Every</span>
+                    <Input
+                      id="frequencyInterval"
+                      type="number"
+                      min="1"
+                      step="1"
+                      className={`w-24 ${fieldErrors.frequencyInterval ? 'border-destructive' : ''}`}
+                      value={formData.frequencyInterval}
+                      onChange={(e) => setFormData({ ...formData, frequencyInterval: e.target.value })}
+                      disabled={loading}
+                      aria-invalid={!!fieldErrors.frequencyInterval}
+                    />
+                    <Select
+                      value={formData.frequencyUnit}
+                      onValueChange={(value: FrequencyUnit) => setFormData({ ...formData, frequencyUnit: value })}
+                      disabled={loading}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FREQUENCY_UNITS.map((unit) => (
+                          <SelectItem key={unit.value} value={unit.value}>{unit.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {fieldErrors.frequencyInterval && (
+                  <p className="text-sm text-destructive">{fieldErrors.frequencyInterval}</p>
+                )}
+              </div>
+
+              {/* Currency */}
+              <div className="space-y-2">
+                <Label htmlFor="currency">Currency *</Label>
+                <Select
+                  value={formData.currency}
+                  onValueChange={(value: CurrencyCode) => setFormData({ ...formData, currency: value })}
+                  disabled={loading}
+                >
+                  <SelectTrigger id="currency">
+                    <SelectValue placeholder="Select currency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -265,21 +338,27 @@ export default function CreateGroup() {
               <div className="space-y-2">
                 <Label htmlFor="amount">Contribution Amount *</Label>
                 <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                    {getCurrency(formData.currency).symbol}
+                  </span>
                   <Input
                     id="amount"
                     type="number"
                     step="0.01"
                     min="0"
                     placeholder="100.00"
-                    className="pl-9"
+                    className="pl-12"
                     value={formData.contributionAmount}
                     onChange={(e) => setFormData({ ...formData, contributionAmount: e.target.value })}
                     disabled={loading}
                   />
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Each member will contribute this amount per {formData.frequency === 'weekly' ? 'week' : 'month'}
+                  Each member will contribute this amount per {formatFrequencyPeriod({
+                    frequency: formData.frequency,
+                    frequency_interval: Number(formData.frequencyInterval) || 1,
+                    frequency_unit: formData.frequencyUnit,
+                  })}
                 </p>
               </div>
 
@@ -45,13 +45,16 @@ import {
   Bell,
   AlertCircle,
   Ticket,
-  ArrowRight
+  ArrowRight,
+  ClipboardCheck
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { format, formatDistanceToNow, differenceInDays } from 'date-fns';
 import type { Group, MemberRole, PaymentStatus } from '@/types/database';
 import { cn } from '@/lib/utils';
 import { sendBulkReminders } from '@/lib/activity';
+import { formatMoney } from '@/lib/currency';
+import { formatFrequency } from '@/lib/frequency';
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -309,7 +312,8 @@ export default function DashboardPage() {
         user.id,
         userName,
         group.name,
-        group.contribution_amount
+        group.contribution_amount,
+        group.currency
       );
 
       if (result.success) {
@@ -470,6 +474,14 @@ export default function DashboardPage() {
                     Join a Group
                   </Link>
                 </DropdownMenuItem>
+                {groups.some(g => g.memberRole === 'president' || g.memberRole === 'vice_president') && (
+                  <DropdownMenuItem asChild>
+                    <Link to="/verify" className="cursor-pointer">
+                      <ClipboardCheck className="mr-2 h-4 w-4" />
+                      Verification Queue
+                    </Link>
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleSignOut} className="cursor-pointer text-destructive focus:text-destructive">
                   <LogOut className="mr-2 h-4 w-4" />
@@ -643,6 +655,7 @@ export default function DashboardPage() {
                 {primaryGroup && (
                   <ActivityFeed 
                     groupId={primaryGroup.id} 
+                    currency={primaryGroup.currency}
                     limit={8}
                     maxHeight="400px"
                   />
@@ -673,8 +686,8 @@ export default function DashboardPage() {
                           <div className="flex justify-between items-start">
                             <div>
                               <CardTitle className="text-base text-muted-foreground">{group.name}</CardTitle>
-                              <CardDescription className="capitalize text-xs">
-                                {group.frequency} • ${group.contribution_amount}
+                              <CardDescription className="text-xs">
+                                {formatFrequency(group)} • {formatMoney(group.contribution_amount, group.currency)}
                               </CardDescription>
                             </div>
                             <Archive className="h-4 w-4 text-muted-foreground" />
@@ -781,7 +794,7 @@ function GroupStatusCard({
                 <RoleBadge role={group.memberRole} size="sm" />
               </CardTitle>
               <CardDescription className="flex items-center gap-2 mt-0.5">
-                <span>${group.contribution_amount} {group.frequency}</span>
+                <span>{formatMoney(group.contribution_amount, group.currency)} {formatFrequency(group).toLowerCase()}</span>
                 {cycle?.dueDate && (
                   <>
                     <span className="text-muted-foreground/50">•</span>
@@ -27,7 +27,9 @@ import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { formatMoney } from '@/lib/currency';
 import { closeCycle, restoreMember } from '@/lib/cycleManagement';
+import { getMemberContribution } from '@/lib/shares';
 import { addNotification, showNotification, requestNotificationPermission } from '@/lib/notifications';
 import { logActivity, sendMemberReminder, sendBulkReminders } from '@/lib/activity';
 import { Group, GroupMember, Profile, PaymentCycle, PaymentLog, MemberStatus, PaymentStatus, MemberRole } from '@/types/database';
@@ -432,7 +434,8 @@ export default function GroupDetail() {
           group_id: group.id,
           start_date: selectedStartDate.toISOString(),
           due_date: selectedDueDate.toISOString(),
-          status: 'active'
+          status: 'active',
+          contribution_amount: group.contribution_amount
         })
         .select()
         .single();
@@ -455,7 +458,8 @@ export default function GroupDetail() {
       const paymentLogsToCreate = activeMembers.map(member => ({
         cycle_id: cycleData.id,
         member_id: member.id,
-        status: 'unpaid' as PaymentStatus
+        status: 'unpaid' as PaymentStatus,
+        amount_due: getMemberContribution(group.contribution_amount, member)
       }));
 
       const { error: logsError } = await supabase
@@ -498,7 +502,7 @@ export default function GroupDetail() {
 
     setClosingCycle(true);
     try {
-      const result = await closeCycle(activeCycle.id, group.id);
+      const result = await closeCycle(activeCycle.id);
 
       if (!result.success) {
         throw new Error(result.error);
@@ -645,7 +649,8 @@ export default function GroupDetail() {
         user.id,
         senderName,
         group.name,
-        group.contribution_amount
+        group.contribution_amount,
+        group.currency
       );
 
       if (!result.success) {
@@ -701,7 +706,8 @@ export default function GroupDetail() {
         user.id,
         senderName,
         group.name,
-        group.contribution_amount
+        group.contribution_amount,
+        group.currency
       );
 
       toast({
@@ -801,7 +807,7 @@ export default function GroupDetail() {
                 <span className="text-muted-foreground/50">•</span>
                 <span className="inline-flex items-center gap-1">
                   <DollarSign className="h-3 w-3" />
-                  {group.contribution_amount} contribution
+                  {formatMoney(group.contribution_amount, group.currency)} contribution
                 </span>
               </p>
             </div>
@@ -876,7 +882,7 @@ export default function GroupDetail() {
                     <Wallet className="h-6 w-6 text-green-600" />
                   </div>
                   <div>
-                    <p className="text-3xl font-bold text-foreground">${(members.filter(m => m.status === 'active').length * group.contribution_amount).toFixed(0)}</p>
+                    <p className="text-3xl font-bold text-foreground">{formatMoney(members.filter(m => m.status === 'active').length * group.contribution_amount, group.currency)}</p>
                     <p className="text-sm text-muted-foreground">Per Cycle</p>
                   </div>
                 </div>
@@ -957,7 +963,7 @@ export default function GroupDetail() {
                       </p>
                       <p className="text-sm text-muted-foreground flex items-center gap-2 mt-1">
                         <Badge variant="secondary" className="font-normal">Queue Position #1</Badge>
-                        <span>Receives ${(members.filter(m => m.status === 'active').length * group.contribution_amount).toFixed(0)}</span>
+                        <span>Receives {formatMoney(members.filter(m => m.status === 'active').length * group.contribution_amount, group.currency)}</span>
                       </p>
                     </div>
                   </div>
@@ -1024,7 +1030,7 @@ export default function GroupDetail() {
                     <div>
                       <p className="font-semibold text-foreground">Your Payment Due</p>
                       <p className="text-sm text-muted-foreground">
-                        ${group.contribution_amount} by {format(new Date(activeCycle.due_date), 'MMM d, yyyy')}
+                        {formatMoney(group.contribution_amount, group.currency)} by {format(new Date(activeCycle.due_date), 'MMM d, yyyy')}
                       </p>
                       {/* Show current payment status for president */}
                       {isPresident && (() => {
@@ -1328,7 +1334,7 @@ export default function GroupDetail() {
                               <div className="space-y-4">
                                 <div>
                                   <p className="text-sm font-medium mb-2">Contribution Amount</p>
-                                  <p className="text-2xl font-bold text-primary">${group.contribution_amount}</p>
+                                  <p className="text-2xl font-bold text-primary">{formatMoney(group.contribution_amount, group.currency)}</p>
                                 </div>
                                 <div>
                                   <p className="text-sm font-medium mb-2">Active Members</p>
@@ -1510,7 +1516,7 @@ export default function GroupDetail() {
                                       {log.member?.profile?.name || log.member?.profile?.email}
                                     </p>
                                     <p className="text-sm text-muted-foreground">
-                                      ${group.contribution_amount}
+                                      {formatMoney(group.contribution_amount, group.currency)}
                                       {log.marked_at && log.status === 'pending' && (
                                         <span className="ml-2">• Sent {format(new Date(log.marked_at), 'MMM d, h:mm a')}</span>
                                       )}
@@ -1564,7 +1570,7 @@ export default function GroupDetail() {
                                           <AlertDialogHeader>
                                             <AlertDialogTitle>Verify Payment</AlertDialogTitle>
                                             <AlertDialogDescription>
-                                              Confirm that you received ${group.contribution_amount} from{' '}
+                                              Confirm that you received {formatMoney(group.contribution_amount, group.currency)} from{' '}
                                               <strong>{log.member?.profile?.name || log.member?.profile?.email}</strong>?
                                               This will mark their payment as verified and reset their missed payment count.
                                             </AlertDialogDescription>
@@ -11,6 +11,7 @@ import AnalyticsDashboard from '@/components/settings/AnalyticsDashboard';
 import PersonalStats from '@/components/settings/PersonalStats';
 import MemberPerformance from '@/components/settings/MemberPerformance';
 import CycleReports from '@/components/settings/CycleReports';
+import GroupBooks from '@/components/settings/GroupBooks';
 import GeneralSettings from '@/components/settings/GeneralSettings';
 
 const GroupSettings = () => {
@@ -106,13 +107,14 @@ const GroupSettings = () => {
       <div className="container max-w-6xl mx-auto py-6 px-4 relative">
         {/* Tabs */}
         <Tabs defaultValue="analytics" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-5 bg-muted/50 p-1">
+          <TabsList className="grid w-full grid-cols-2 lg:grid-cols-6 bg-muted/50 p-1">
             <TabsTrigger value="analytics" className="data-[state=active]:shadow-soft">Who has paid?</TabsTrigger>
             <TabsTrigger value="personal" className="data-[state=active]:shadow-soft">My payments</TabsTrigger>
             {isPresident && (
               <>
                 <TabsTrigger value="members" className="data-[state=active]:shadow-soft">Member activity</TabsTrigger>
                 <TabsTrigger value="reports" className="data-[state=active]:shadow-soft">Download records</TabsTrigger>
+                <TabsTrigger value="books" className="data-[state=active]:shadow-soft">Group books</TabsTrigger>
                 <TabsTrigger value="general" className="data-[state=active]:shadow-soft">Group settings</TabsTrigger>
               </>
             )}
@@ -123,19 +125,23 @@ const GroupSettings = () => {
           </TabsContent>
 
           <TabsContent value="personal">
-            <PersonalStats groupId={group.id} userId={user!.id} />
+            <PersonalStats groupId={group.id} groupName={group.name} userId={user!.id} />
           </TabsContent>
 
           {isPresident && (
             <>
               <TabsContent value="members">
-                <MemberPerformance groupId={group.id} />
+                <MemberPerformance groupId={group.id} groupName={group.name} />
               </TabsContent>
 
               <TabsContent value="reports">
                 <CycleReports groupId={group.id} groupName={group.name} />
               </TabsContent>
 
+              <TabsContent value="books">
+                <GroupBooks groupId={group.id} groupName={group.name} />
+              </TabsContent>
+
               <TabsContent value="general">
                 <GeneralSettings group={group} onUpdate={setGroup} />
               </TabsContent>
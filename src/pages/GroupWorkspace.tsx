@@ -8,7 +8,7 @@ import {
   UserPlus, Shield, User, Play, Timer, StopCircle, RotateCcw, Lock,
   ChevronUp, ChevronDown, PiggyBank, TrendingUp, Wallet, Bell,
   Eye, Download, MoreHorizontal, Send, Image as ImageIcon,
-  BarChart3, Trash2, LogOut, Upload, Camera, X
+  BarChart3, Trash2, LogOut, Upload, Camera, X, ListOrdered, ShieldCheck, GripVertical
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,18 +23,47 @@ import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { ActivityFeed } from '@/components/ActivityFeed';
+import { CyclePayoutCard } from '@/components/CyclePayoutCard';
+import { CloseCyclePreviewDialog } from '@/components/CloseCyclePreviewDialog';
+import { LockPolicyCard } from '@/components/LockPolicyCard';
+import { PenaltyLedger } from '@/components/PenaltyLedger';
+import { ArrearsLedger } from '@/components/ArrearsLedger';
+import { RestoreMemberDialog } from '@/components/RestoreMemberDialog';
+import { RejectPaymentDialog } from '@/components/RejectPaymentDialog';
+import { PaymentInstallments } from '@/components/PaymentInstallments';
+import { RoundSummaryCard } from '@/components/RoundSummaryCard';
+import { QueueStrategyDialog } from '@/components/QueueStrategyDialog';
+import { QueueBidCard } from '@/components/QueueBidCard';
+import { QueueSwapCard } from '@/components/QueueSwapCard';
+import { QueueEditorDialog } from '@/components/QueueEditorDialog';
 import { ThemeToggle } from '@/components/ThemeToggle';
-import { format, differenceInDays, differenceInHours, addWeeks, addMonths } from 'date-fns';
+import { format, differenceInDays, differenceInHours } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { closeCycle, restoreMember } from '@/lib/cycleManagement';
+import { startCycle, closeCycle, extendPaymentDeadline, reopenCycle, canReopenCycle, REOPEN_WINDOW_HOURS, type ClosedMemberResult } from '@/lib/cycleManagement';
+import { getGroupSchedule, getNextCycleDates } from '@/lib/cycleSchedule';
+import { formatFrequency } from '@/lib/frequency';
+import { getLockPolicy, formatLockThreshold } from '@/lib/lockPolicy';
+import { getCycleSlotHolders, getNextRecipient, getPayoutQueue, splitSlotPayout } from '@/lib/payoutRotation';
+import { formatShares, getExpectedContribution, getExpectedPayout, getMemberContribution, getMemberShares, getTotalShares, SHARE_PRESETS, updateMemberShares } from '@/lib/shares';
+import { getGroupPayouts } from '@/lib/payouts';
+import { buildGroupJournal, getGroupLedgerData, getLogContribution, sumJournal, type JournalEntry } from '@/lib/groupLedger';
+import { completeRoundIfFinished, getGroupRounds, getRoundCycles, hasLotteryDraw, setRoundQueue } from '@/lib/rounds';
+import { getBidDiscount, getQueueBids, QUEUE_MODE_OPTIONS, saveQueueOrder, verifyLotteryDraw } from '@/lib/queueOrder';
+import { getOpenSwapRequests, getSwappableMemberIds } from '@/lib/queueSwaps';
+import { findDuplicateReferences, getGroupReferenceHistory, getInstallmentBalance, getLogInstallments, verifyInstallment } from '@/lib/installments';
+import { getGroupPenalties, getPenaltyTotals } from '@/lib/penalties';
+import { getArrearsBalance, getGroupArrears } from '@/lib/arrears';
+import { rejectPaymentLog, type Rejection } from '@/lib/paymentEvents';
 import { requestNotificationPermission, addNotification, showNotification } from '@/lib/notifications';
 import { logActivity, sendMemberReminder, sendBulkReminders } from '@/lib/activity';
+import { formatMoney, moneyHeader } from '@/lib/currency';
+import { fromMinor, subtractMoney, sumAmounts, toMinor } from '@/lib/money';
 import { exportToCsv, type CsvColumn } from '@/lib/exportCsv';
 import { uploadGroupPhoto, deleteGroupPhoto } from '@/lib/storage';
-import { Group, GroupMember, Profile, PaymentCycle, PaymentLog, MemberStatus, PaymentStatus, MemberRole } from '@/types/database';
+import { Arrears, Group, GroupMember, Profile, PaymentCycle, PaymentInstallment, PaymentLog, Payout, Penalty, MemberStatus, PaymentStatus, MemberRole, QueueBid, QueueSwapRequest, Round, RoundQueueMode } from '@/types/database';
 
 // Import settings components
 import AnalyticsDashboard from '@/components/settings/AnalyticsDashboard';
@@ -213,6 +242,15 @@ export default function GroupWorkspace() {
   const [activeCycle, setActiveCycle] = useState<PaymentCycle | null>(null);
   const [paymentLogs, setPaymentLogs] = useState<PaymentLogWithMember[]>([]);
   const [allCycles, setAllCycles] = useState<PaymentCycle[]>([]);
+  const [rounds, setRounds] = useState<Round[]>([]);
+  const [queueBids, setQueueBids] = useState<QueueBid[]>([]);
+  const [swapRequests, setSwapRequests] = useState<QueueSwapRequest[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [penalties, setPenalties] = useState<Penalty[]>([]);
+  const [arrears, setArrears] = useState<Arrears[]>([]);
+  const [installments, setInstallments] = useState<PaymentInstallment[]>([]);
+  const [referenceHistory, setReferenceHistory] = useState<PaymentInstallment[]>([]);
+  const [journal, setJournal] = useState<JournalEntry[]>([]);
   const [userProfile, setUserProfile] = useState<{ name?: string; avatar_url?: string } | null>(null);  
   // UI state
   const [copied, setCopied] = useState(false);
@@ -222,26 +260,42 @@ export default function GroupWorkspace() {
   const [startingCycle, setStartingCycle] = useState(false);
   const [verifyingId, setVerifyingId] = useState<string | null>(null);
   const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectingLog, setRejectingLog] = useState<PaymentLogWithMember | null>(null);
   const [closingCycle, setClosingCycle] = useState(false);
-  const [restoringMemberId, setRestoringMemberId] = useState<string | null>(null);
+  const [closeDialogOpen, setCloseDialogOpen] = useState(false);
+  const [reopeningCycle, setReopeningCycle] = useState(false);
+  const [restoringMember, setRestoringMember] = useState<MemberWithProfile | null>(null);
   const [movingMemberId, setMovingMemberId] = useState<string | null>(null);
+  const [updatingSharesId, setUpdatingSharesId] = useState<string | null>(null);
+  const [queueDialogOpen, setQueueDialogOpen] = useState(false);
+  const [settingQueue, setSettingQueue] = useState(false);
+  const [queueEditorOpen, setQueueEditorOpen] = useState(false);
+  const [savingQueueOrder, setSavingQueueOrder] = useState(false);
   const [remindingMemberId, setRemindingMemberId] = useState<string | null>(null);
   const [remindingAll, setRemindingAll] = useState(false);
-  const [markingAsSent, setMarkingAsSent] = useState(false);
 
   const isPresident = group?.president_id === user?.id;
   const currentMember = members.find(m => m.user_id === user?.id);
 
-  // Calculate default due date based on group frequency
-  const getDefaultDueDate = () => {
-    const today = new Date();
-    if (group?.frequency === 'weekly') {
-      return addWeeks(today, 1);
-    } else {
-      return addMonths(today, 1);
-    }
+  // Next cycle dates worked out from the group's frequency and schedule anchor
+  const getScheduledCycleDates = (group: Group, cycles: PaymentCycle[]) => {
+    const firstCycle = cycles[cycles.length - 1];
+    const previousCycle = cycles[0];
+    const schedule = getGroupSchedule(group, firstCycle?.start_date);
+    return getNextCycleDates(schedule, {
+      previousDueDate: previousCycle ? new Date(previousCycle.due_date) : null,
+    });
   };
 
+  const nextScheduledCycle = useMemo(() => {
+    if (!group || activeCycle) return null;
+    try {
+      return getScheduledCycleDates(group, allCycles);
+    } catch {
+      return null;
+    }
+  }, [group, activeCycle, allCycles]);
+
   // Cycle countdown calculation
   const cycleCountdown = useMemo(() => {
     if (!activeCycle) return null;
@@ -286,10 +340,38 @@ export default function GroupWorkspace() {
     return { verified, pending, unpaid, total, percentage };
   }, [paymentLogs]);
 
-  // Calculate historical stats
+  const lockPolicy = useMemo(() => getLockPolicy(group), [group]);
+
+  // Installments grouped by payment log
+  const installmentsByLog = useMemo(() => {
+    const byLog = new Map<string, PaymentInstallment[]>();
+    installments.forEach(installment => {
+      byLog.set(installment.payment_log_id, [...(byLog.get(installment.payment_log_id) || []), installment]);
+    });
+    return byLog;
+  }, [installments]);
+
+  // Installments whose transaction reference was already used anywhere in the group's history
+  const duplicateReferences = useMemo(() => findDuplicateReferences(referenceHistory), [referenceHistory]);
+
+  const memberNames = useMemo(() => {
+    return new Map(members.map(m => [m.id, m.profile?.name || 'Unknown']));
+  }, [members]);
+
+  // Logs with something for the president to verify: a pending installment, or a pending log marked before installments existed
+  const logsAwaitingReview = useMemo(() => {
+    return paymentLogs.filter(log => {
+      const logInstallments = installmentsByLog.get(log.id) || [];
+      return logInstallments.length > 0
+        ? logInstallments.some(i => i.status === 'pending')
+        : log.status === 'pending';
+    });
+  }, [paymentLogs, installmentsByLog]);
+
+  // Calculate historical stats; money collected comes from the group journal
   const historicalStats = useMemo(() => {
     const completedCycles = allCycles.filter(c => c.status === 'closed').length;
-    const totalContributed = completedCycles * (group?.contribution_amount || 0) * members.filter(m => m.status === 'active').length;
+    const totalContributed = sumJournal(journal, ['contribution', 'arrears_payment']);
     const activeMembers = members.filter(m => m.status === 'active').length;
     const lockedMembers = members.filter(m => m.status === 'locked').length;
     
@@ -300,21 +382,92 @@ export default function GroupWorkspace() {
       lockedMembers,
       totalMembers: members.length
     };
-  }, [allCycles, group, members]);
+  }, [allCycles, journal, members]);
+
+  // Latest round (completed until the president starts the next one) and its cycles
+  const currentRound = useMemo(() => rounds[rounds.length - 1] || null, [rounds]);
+  const roundCycles = useMemo(() => getRoundCycles(allCycles, currentRound), [allCycles, currentRound]);
+  const isRoundComplete = currentRound?.status === 'completed';
+
+  // Round whose queue can still be set: the next one, or the current one before its first cycle
+  const queueRoundNumber = useMemo(() => {
+    if (isRoundComplete) return currentRound.round_number + 1;
+    if (roundCycles.length === 0) return currentRound?.round_number || 1;
+    return null;
+  }, [isRoundComplete, currentRound, roundCycles]);
+
+  const openQueueBids = useMemo(() => {
+    return queueBids.filter(bid => bid.round_number === queueRoundNumber);
+  }, [queueBids, queueRoundNumber]);
 
   // Get current recipient
   const currentRecipient = useMemo(() => {
     if (!activeCycle) return null;
-    const activeMembers = members.filter(m => m.status === 'active').sort((a, b) => a.queue_position - b.queue_position);
-    return activeMembers[0] || null;
-  }, [activeCycle, members]);
+    if (activeCycle.recipient_id) {
+      return members.find(m => m.id === activeCycle.recipient_id) || null;
+    }
+    // Cycles started before recipients were recorded fall back to the rotation
+    return getNextRecipient(members, roundCycles.filter(c => c.id !== activeCycle.id));
+  }, [activeCycle, roundCycles, members]);
+
+  // Payout queue with rotation status (paid / current / next) for this round
+  const payoutQueue = useMemo(() => getPayoutQueue(members, roundCycles), [members, roundCycles]);
+  const swappableIds = useMemo(() => getSwappableMemberIds(members, roundCycles), [members, roundCycles]);
+
+  // Cycle whose payout is shown: the active cycle, otherwise the most recently closed one
+  const payoutCycle = useMemo(() => {
+    return activeCycle || allCycles.find(c => c.status === 'closed') || null;
+  }, [activeCycle, allCycles]);
+
+  const payoutRecipient = useMemo(() => {
+    if (!payoutCycle?.recipient_id) return null;
+    return members.find(m => m.id === payoutCycle.recipient_id) || null;
+  }, [payoutCycle, members]);
+
+  const cyclePayout = useMemo(() => {
+    if (!payoutCycle) return null;
+    return payouts.find(p => p.cycle_id === payoutCycle.id) || null;
+  }, [payoutCycle, payouts]);
+
+  // The latest closed cycle, while it can still be reopened
+  const reopenableCycle = useMemo(() => {
+    return allCycles.find(cycle => canReopenCycle(cycle, allCycles)) || null;
+  }, [allCycles]);
+
+  // Hands paying into the active cycle, and the expected pot for its slot
+  const cycleShares = useMemo(() => {
+    return paymentLogs.reduce((total, log) => total + getMemberShares(log.member), 0);
+  }, [paymentLogs]);
 
-  // My payment status for current cycle
-  const myPaymentStatus = useMemo(() => {
+  const payoutCycleAmount = useMemo(() => {
+    if (!payoutCycle || !group) return 0;
+    const shares = payoutCycle.id === activeCycle?.id ? cycleShares : getTotalShares(members);
+    const payout = getExpectedPayout(group.contribution_amount, shares);
+
+    // A recipient who won an earlier slot by bidding gives up their bid from the payout
+    const round = rounds.find(r => r.id === payoutCycle.round_id);
+    if (round?.queue_mode !== 'bidding' || !payoutCycle.recipient_id) return payout;
+    const discount = getBidDiscount(queueBids, payoutCycle.recipient_id, round.round_number);
+    return fromMinor(Math.max(subtractMoney(toMinor(payout), toMinor(discount)), 0));
+  }, [payoutCycle, activeCycle, cycleShares, members, group, rounds, queueBids]);
+
+  // Members sharing the payout cycle's slot (more than one when hands are split)
+  const payoutSplits = useMemo(() => {
+    if (!payoutCycle) return [];
+    const holders = getCycleSlotHolders(members, allCycles.filter(c => c.round_id === payoutCycle.round_id), payoutCycle.id);
+    return splitSlotPayout(holders, cyclePayout?.amount ?? payoutCycleAmount);
+  }, [payoutCycle, members, allCycles, cyclePayout, payoutCycleAmount]);
+
+  // Contribution owed on a payment log, as recorded when the cycle started
+  const getLogDue = (log: PaymentLogWithMember) => getLogContribution(log, activeCycle || {}, log.member, group?.contribution_amount || 0);
+  const sumLogDue = (logs: PaymentLogWithMember[]) => sumAmounts(logs.map(getLogDue));
+
+  // My payment log and status for current cycle
+  const myPaymentLog = useMemo(() => {
     if (!currentMember) return null;
-    const myLog = paymentLogs.find(l => l.member_id === currentMember.id);
-    return myLog?.status || null;
+    return paymentLogs.find(l => l.member_id === currentMember.id) || null;
   }, [currentMember, paymentLogs]);
+  const myPaymentStatus = myPaymentLog?.status || null;
 
   useEffect(() => {
     if (id) {
@@ -431,6 +584,32 @@ export default function GroupWorkspace() {
 
       setAllCycles(allCyclesData || []);
 
+      // Fetch payout rounds, and bids for the latest and next round
+      const roundsData = await getGroupRounds(id!);
+      setRounds(roundsData);
+      const latestRoundNumber = roundsData[roundsData.length - 1]?.round_number || 1;
+      setQueueBids(await getQueueBids(id!, [latestRoundNumber, latestRoundNumber + 1]));
+
+      // Fetch open payout slot swap requests
+      setSwapRequests(await getOpenSwapRequests(id!));
+
+      // Fetch payout records
+      const payoutsData = await getGroupPayouts(id!);
+      setPayouts(payoutsData);
+
+      // Fetch the late fee ledger
+      const penaltiesData = await getGroupPenalties(id!);
+      setPenalties(penaltiesData);
+
+      // Fetch arrears recorded when locked members were restored
+      setArrears(await getGroupArrears(id!));
+
+      // Fetch every transaction reference used in the group to flag duplicates
+      setReferenceHistory(await getGroupReferenceHistory(id!));
+
+      // Build the group journal that money totals are read from
+      setJournal(buildGroupJournal(membersData || [], groupData.contribution_amount, await getGroupLedgerData(id!)));
+
       // Fetch active cycle
       const { data: cycleData } = await supabase
         .from('payment_cycles')
@@ -471,11 +650,14 @@ export default function GroupWorkspace() {
           });
 
           setPaymentLogs(logsWithMembers as PaymentLogWithMember[]);
+          setInstallments(await getLogInstallments(logsData.map(log => log.id)));
         } else {
           setPaymentLogs([]);
+          setInstallments([]);
         }
       } else {
         setPaymentLogs([]);
+        setInstallments([]);
       }
     } catch (error) {
       toast({
@@ -499,13 +681,23 @@ export default function GroupWorkspace() {
   };
 
   const handleOpenCycleDialog = () => {
-    setSelectedStartDate(new Date());
-    setSelectedDueDate(getDefaultDueDate());
+    setSelectedStartDate(nextScheduledCycle?.startDate || new Date());
+    setSelectedDueDate(nextScheduledCycle?.dueDate);
     setCycleDialogOpen(true);
   };
 
-  const startNewCycle = async () => {
-    if (!group || !selectedStartDate || !selectedDueDate) {
+  const announceStartedCycle = (result: Awaited<ReturnType<typeof startCycle>>, title: string) => {
+    const recipient = members.find(m => m.id === result.recipientId);
+    toast({ 
+      title,
+      description: recipient
+        ? `Payment cycle created with ${result.memberCount} members. ${recipient.profile?.name || 'A member'} receives this cycle's payout.`
+        : `Payment cycle created with ${result.memberCount} members.`
+    });
+  };
+
+  const startNewCycle = async (startDate: Date | undefined = selectedStartDate, dueDate: Date | undefined = selectedDueDate) => {
+    if (!group || !startDate || !dueDate) {
       toast({
         title: "Error",
         description: "Please select both start and end dates",
@@ -514,7 +706,7 @@ export default function GroupWorkspace() {
       return;
     }
 
-    if (selectedStartDate >= selectedDueDate) {
+    if (startDate >= dueDate) {
       toast({
         title: "Error",
         description: "Start date must be before end date",
@@ -525,46 +717,13 @@ export default function GroupWorkspace() {
 
     setStartingCycle(true);
     try {
-      const { data: cycleData, error: cycleError } = await supabase
-        .from('payment_cycles')
-        .insert({
-          group_id: group.id,
-          start_date: selectedStartDate.toISOString(),
-          due_date: selectedDueDate.toISOString(),
-          status: 'active'
-        })
-        .select()
-        .single();
-
-      if (cycleError) throw cycleError;
+      const result = await startCycle(group.id, startDate, dueDate);
 
-      const activeMembers = members.filter(m => m.status === 'active');
-      
-      if (activeMembers.length === 0) {
-        toast({
-          title: "Warning",
-          description: "No active members to create payment logs for",
-          variant: "destructive",
-        });
-        return;
+      if (!result.success) {
+        throw new Error(result.error);
       }
 
-      const paymentLogsToCreate = activeMembers.map(member => ({
-        cycle_id: cycleData.id,
-        member_id: member.id,
-        status: 'unpaid' as PaymentStatus
-      }));
-
-      const { error: logsError } = await supabase
-        .from('payment_logs')
-        .insert(paymentLogsToCreate);
-
-      if (logsError) throw logsError;
-
-      toast({ 
-        title: "Cycle Started!",
-        description: `Payment cycle created with ${activeMembers.length} members.`
-      });
+      announceStartedCycle(result, "Cycle Started!");
       
       setCycleDialogOpen(false);
       setSelectedStartDate(undefined);
@@ -582,29 +741,85 @@ export default function GroupWorkspace() {
     }
   };
 
+  // After a close: ends the round once every member has been paid out (the president starts the next one),
+  // otherwise opens the next cycle when the group schedules automatically. Also runs when the cycle was
+  // already closed, as the attempt that closed it may have stopped before these steps
+  const followUpClose = async (group: Group) => {
+    const roundResult = await completeRoundIfFinished(group.id);
+    if (roundResult.round) {
+      toast({
+        title: `Round ${roundResult.round.round_number} Complete`,
+        description: "Every member has received a payout. Start a new round to keep going.",
+      });
+      return;
+    }
+
+    if (group.schedule_mode !== 'auto') return;
+
+    const [{ data: cycles }, groupRounds] = await Promise.all([
+      supabase.from('payment_cycles').select('*').eq('group_id', group.id).order('created_at', { ascending: false }),
+      getGroupRounds(group.id),
+    ]);
+
+    // Already opened by the earlier attempt, or waiting for the president to start a new round
+    const roundComplete = groupRounds.length > 0 && !groupRounds.some(r => r.status === 'active');
+    if (roundComplete || (cycles || []).some(c => c.status === 'active')) return;
+
+    const next = getScheduledCycleDates(group, cycles || []);
+    const startResult = await startCycle(group.id, next.startDate, next.dueDate);
+
+    if (startResult.success) {
+      announceStartedCycle(startResult, "Next Cycle Opened");
+    } else {
+      toast({
+        title: "Next cycle not opened",
+        description: startResult.error,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleCloseCycle = async () => {
     if (!activeCycle || !group) return;
 
     setClosingCycle(true);
     try {
-      const result = await closeCycle(activeCycle.id, group.id);
+      const result = await closeCycle(activeCycle.id);
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
-      const messages = [];
-      if (result.missedPayments > 0) {
-        messages.push(`${result.missedPayments} missed payment(s) recorded`);
-      }
-      if (result.lockedMembers.length > 0) {
-        messages.push(`${result.lockedMembers.length} member(s) locked due to 3+ missed payments`);
+      setCloseDialogOpen(false);
+
+      // Closed by an earlier attempt (or another officer) - nothing was changed this time
+      if (result.alreadyClosed) {
+        toast({
+          title: "Cycle Already Closed",
+          description: "This cycle was already closed. No member records were changed.",
+        });
+      } else {
+        const messages = [];
+        if (result.missedPayments > 0) {
+          messages.push(`${result.missedPayments} missed payment(s) recorded`);
+        }
+        if (result.lockedMembers.length > 0) {
+          messages.push(`${result.lockedMembers.length} member(s) locked after ${formatLockThreshold(lockPolicy)}`);
+        }
+        if (result.report?.penalties.length > 0) {
+          messages.push(`${result.report.penalties.length} late fee(s) charged`);
+        }
+        if (result.report?.pendingCount > 0) {
+          messages.push(`${result.report.pendingCount} payment(s) still awaiting verification`);
+        }
+
+        toast({
+          title: "Cycle Closed",
+          description: messages.length > 0 ? messages.join('. ') : "All payments were verified!",
+        });
       }
 
-      toast({
-        title: "Cycle Closed",
-        description: messages.length > 0 ? messages.join('. ') : "All payments were verified!",
-      });
+      await followUpClose(group);
 
       fetchGroupData();
     } catch (error) {
@@ -619,142 +834,226 @@ export default function GroupWorkspace() {
     }
   };
 
-  const verifyPayment = async (logId: string, memberId: string) => {
-    setVerifyingId(logId);
+  const handleReopenCycle = async () => {
+    if (!group || !user || !reopenableCycle) return;
+
+    setReopeningCycle(true);
     try {
-      const { error: logError } = await supabase
-        .from('payment_logs')
-        .update({ status: 'verified', verified_at: new Date().toISOString() })
-        .eq('id', logId);
+      const result = await reopenCycle({
+        cycleId: reopenableCycle.id,
+        groupId: group.id,
+        actorId: user.id,
+        actorName: currentMember?.profile?.name || user.email || 'President',
+      });
 
-      if (logError) throw logError;
+      if (!result.success) {
+        throw new Error(result.error);
+      }
 
-      const { error: memberError } = await supabase
-        .from('group_members')
-        .update({ missed_payment_count: 0 })
-        .eq('id', memberId);
+      const messages = [`Missed payment counts restored for ${result.restoredMembers} member(s)`];
+      if (result.unlockedMembers.length > 0) {
+        messages.push(`${result.unlockedMembers.length} member(s) unlocked`);
+      }
+      if (result.removedPenalties > 0) {
+        messages.push(`${result.removedPenalties} late fee(s) removed`);
+      }
+      if (result.removedCycles.length > 0) {
+        messages.push('The cycle opened after it was removed');
+      }
+      if (result.removedRounds > 0) {
+        messages.push('The round started after it was removed');
+      }
 
-      if (memberError) throw memberError;
-      
-      toast({ 
-        title: "Payment verified!",
-        description: "Member's missed payment count has been reset."
+      toast({
+        title: "Cycle Reopened",
+        description: messages.join('. '),
       });
       fetchGroupData();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to verify payment";
+      const errorMessage = error instanceof Error ? error.message : "Failed to reopen cycle";
       toast({
         title: "Error",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setVerifyingId(null);
+      setReopeningCycle(false);
     }
   };
 
-  const rejectPayment = async (logId: string) => {
-    setRejectingId(logId);
+  const verifyPayment = async (
+    logId: string,
+    memberId: string,
+    description = "Missed payment counts update when the cycle closes."
+  ) => {
+    setVerifyingId(logId);
     try {
-      const { error } = await supabase
+      const { error: logError } = await supabase
         .from('payment_logs')
-        .update({ status: 'rejected' })
+        .update({ status: 'verified', verified_at: new Date().toISOString() })
         .eq('id', logId);
 
-      if (error) throw error;
-      
+      if (logError) throw logError;
+
+      // Missed payment counts are updated by the group's lock policy when the cycle closes
       toast({ 
-        title: "Payment rejected",
-        description: "The member will need to re-submit their payment."
+        title: "Payment verified!",
+        description,
       });
       fetchGroupData();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to reject payment";
+      const errorMessage = error instanceof Error ? error.message : "Failed to verify payment";
       toast({
         title: "Error",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setRejectingId(null);
+      setVerifyingId(null);
     }
   };
 
-  // Mark current user's payment as sent (changes status from unpaid/rejected to pending)
-  const handleMarkAsSent = async () => {
-    if (!currentMember || !activeCycle) return;
-    
-    setMarkingAsSent(true);
+  // Verify a whole payment from the close preview, including any installments still pending
+  const handleVerifyFromPreview = async (log: PaymentLogWithMember, missed: ClosedMemberResult | null) => {
+    if (!group || !user) return;
+
+    // A payment sent after the grace period still counts as missed once verified
+    const memberName = log.member?.profile?.name || 'Member';
+    const description = missed
+      ? `${memberName}'s payment is verified, but it was sent after the grace period and will still be counted as missed.`
+      : `${memberName}'s payment is verified and will not be counted as missed.`;
+
+    const pendingInstallments = (installmentsByLog.get(log.id) || []).filter(i => i.status === 'pending');
+    if (pendingInstallments.length === 0) {
+      return verifyPayment(log.id, log.member_id, description);
+    }
+
+    setVerifyingId(log.id);
     try {
-      const myLog = paymentLogs.find(l => l.member_id === currentMember.id);
-      if (!myLog) throw new Error('No payment log found');
-      
-      const { error } = await supabase
-        .from('payment_logs')
-        .update({ 
-          status: 'pending', 
-          marked_at: new Date().toISOString() 
-        })
-        .eq('id', myLog.id);
+      for (const installment of pendingInstallments) {
+        const result = await verifyInstallment({
+          installment,
+          contributionAmount: getLogDue(log),
+          groupName: group.name,
+          currency: group.currency,
+          memberUserId: log.member?.user_id,
+          memberName,
+          actorId: user.id,
+          actorName: currentMember?.profile?.name || user.email || 'President',
+        });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+      }
 
-      if (error) throw error;
-      
-      // Log activity
-      await logActivity({
-        groupId: id!,
-        actorId: user!.id,
-        type: 'payment_submitted',
-        message: `${currentMember.profile?.name || 'You'} submitted payment for verification`,
-      });
-      
-      toast({ 
-        title: "Payment marked as sent!",
-        description: "Waiting for the president to verify your payment."
+      toast({
+        title: "Payment verified!",
+        description,
       });
       fetchGroupData();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to mark payment";
+      const errorMessage = error instanceof Error ? error.message : "Failed to verify payment";
       toast({
         title: "Error",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setMarkingAsSent(false);
+      setVerifyingId(null);
     }
   };
 
-  const handleRestoreMember = async (memberId: string) => {
-    if (!group) return;
+  const handleExtendPayment = async (log: PaymentLogWithMember, until: Date) => {
+    if (!group || !user) return;
+
+    const memberName = log.member?.profile?.name || 'Member';
+    const result = await extendPaymentDeadline({
+      log,
+      groupId: group.id,
+      until,
+      memberUserId: log.member?.user_id,
+      memberName,
+      actorId: user.id,
+      actorName: currentMember?.profile?.name || user.email || 'President',
+    });
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Deadline Extended",
+      description: `${memberName} has until ${format(until, 'MMM d, yyyy')} to pay and will not get a missed payment this cycle.`,
+    });
+    fetchGroupData();
+  };
 
-    setRestoringMemberId(memberId);
+  const rejectPayment = async (log: PaymentLogWithMember, rejection: Rejection) => {
+    if (!group || !user) return;
+
+    setRejectingId(log.id);
     try {
-      const result = await restoreMember(memberId, group.id);
+      const result = await rejectPaymentLog({
+        logId: log.id,
+        groupId: group.id,
+        groupName: group.name,
+        amount: getLogDue(log),
+        currency: group.currency,
+        memberUserId: log.member?.user_id,
+        memberName: log.member?.profile?.name || 'Member',
+        rejection,
+        actorId: user.id,
+        actorName: currentMember?.profile?.name || user.email || 'President',
+      });
 
       if (!result.success) {
         throw new Error(result.error);
       }
 
-      toast({
-        title: "Member Restored",
-        description: `Member has been restored and moved to position #${result.newPosition} in the queue.`,
+      toast({ 
+        title: "Payment rejected",
+        description: "The member has been told why and will need to re-submit their payment."
       });
-
+      setRejectingLog(null);
       fetchGroupData();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to restore member";
+      const errorMessage = error instanceof Error ? error.message : "Failed to reject payment";
       toast({
         title: "Error",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setRestoringMemberId(null);
+      setRejectingId(null);
+    }
+  };
+
+  // Writes a new queue order in one go; fails if the queue changed since `expectedOrder` was read
+  const writeQueueOrder = async (order: string[], expectedOrder: string[]) => {
+    if (!group || !user) throw new Error('Not signed in');
+
+    const result = await saveQueueOrder({
+      groupId: group.id,
+      order,
+      expectedOrder,
+      names: Object.fromEntries(members.map(m => [m.id, m.profile?.name || 'Member'])),
+      actorId: user.id,
+      actorName: currentMember?.profile?.name || user.email || 'President',
+    });
+
+    if (!result.success) {
+      throw new Error(result.error);
     }
   };
 
   const handleMoveQueuePosition = async (memberId: string, direction: 'up' | 'down') => {
-    const activeMembers = members.filter(m => m.status === 'active').sort((a, b) => a.queue_position - b.queue_position);
+    const queue = [...members].sort((a, b) => a.queue_position - b.queue_position);
+    const activeMembers = queue.filter(m => m.status === 'active');
     const memberIndex = activeMembers.findIndex(m => m.id === memberId);
     
     if (memberIndex === -1) return;
@@ -765,45 +1064,133 @@ export default function GroupWorkspace() {
     const currentMember = activeMembers[memberIndex];
     const swapMember = activeMembers[targetIndex];
 
+    // Trade places with the neighbouring active member, leaving locked members where they are
+    const expectedOrder = queue.map(m => m.id);
+    const order = expectedOrder.map(id =>
+      id === currentMember.id ? swapMember.id : id === swapMember.id ? currentMember.id : id
+    );
+
     setMovingMemberId(memberId);
     try {
-      const tempPosition = -1;
-      const currentPos = currentMember.queue_position;
-      const swapPos = swapMember.queue_position;
+      await writeQueueOrder(order, expectedOrder);
 
-      const { error: error1 } = await supabase
-        .from('group_members')
-        .update({ queue_position: tempPosition })
-        .eq('id', currentMember.id);
-      if (error1) throw error1;
+      toast({
+        title: "Queue Updated",
+        description: `${currentMember.profile?.name || 'Member'} moved ${direction} to position #${swapMember.queue_position}`,
+      });
 
-      const { error: error2 } = await supabase
-        .from('group_members')
-        .update({ queue_position: currentPos })
-        .eq('id', swapMember.id);
-      if (error2) throw error2;
+      fetchGroupData();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update queue position";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      fetchGroupData();
+    } finally {
+      setMovingMemberId(null);
+    }
+  };
 
-      const { error: error3 } = await supabase
-        .from('group_members')
-        .update({ queue_position: swapPos })
-        .eq('id', currentMember.id);
-      if (error3) throw error3;
+  const handleSaveQueueOrder = async (order: string[], expectedOrder: string[]) => {
+    setSavingQueueOrder(true);
+    try {
+      await writeQueueOrder(order, expectedOrder);
 
       toast({
         title: "Queue Updated",
-        description: `${currentMember.profile?.name || 'Member'} moved ${direction} to position #${swapPos}`,
+        description: "The new payout order has been saved.",
+      });
+      setQueueEditorOpen(false);
+      fetchGroupData();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to save queue order";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      fetchGroupData();
+    } finally {
+      setSavingQueueOrder(false);
+    }
+  };
+
+  const handleSetQueue = async (queueMode: RoundQueueMode) => {
+    if (!group || !user) return;
+
+    setSettingQueue(true);
+    try {
+      const result = await setRoundQueue({
+        groupId: group.id,
+        queueMode,
+        actorId: user.id,
+        actorName: currentMember?.profile?.name || user.email || 'President',
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const option = QUEUE_MODE_OPTIONS.find(o => o.value === queueMode);
+      toast({
+        title: "Queue Updated",
+        description: result.round?.queue_seed
+          ? `${option?.label} done with seed ${result.round.queue_seed}.`
+          : `The payout queue for round ${result.round?.round_number} is set (${option?.label.toLowerCase()}).`,
+      });
+      setQueueDialogOpen(false);
+      fetchGroupData();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to set queue order";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setSettingQueue(false);
+    }
+  };
+
+  const handleVerifyDraw = () => {
+    if (!currentRound) return;
+    const verified = verifyLotteryDraw(currentRound);
+    toast({
+      title: verified ? "Draw Verified" : "Draw Does Not Match",
+      description: verified
+        ? `Re-running the draw with seed ${currentRound.queue_seed} gives the recorded order.`
+        : "Re-running the draw with the recorded seed gives a different order.",
+      variant: verified ? undefined : "destructive",
+    });
+  };
+
+  const handleUpdateShares = async (member: MemberWithProfile, shares: number) => {
+    if (!isPresident) return;
+
+    setUpdatingSharesId(member.id);
+    try {
+      const result = await updateMemberShares(member.id, shares);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Hands Updated",
+        description: `${member.profile?.name || 'Member'} now holds ${formatShares(shares)}. This applies from the next cycle.`,
       });
 
       fetchGroupData();
     } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to update queue position";
+      const errorMessage = error instanceof Error ? error.message : "Failed to update hands";
       toast({
         title: "Error",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setMovingMemberId(null);
+      setUpdatingSharesId(null);
     }
   };
 
@@ -815,7 +1202,8 @@ export default function GroupWorkspace() {
       const senderName = currentMember?.profile?.name || user.email || 'Group President';
       
       const targetMember = members.find(m => m.id === memberId);
-      if (!targetMember?.user_id) {
+      const targetLog = paymentLogs.find(l => l.id === paymentLogId);
+      if (!targetMember?.user_id || !targetLog) {
         throw new Error('Could not find target member');
       }
       
@@ -827,7 +1215,8 @@ export default function GroupWorkspace() {
         user.id,
         senderName,
         group.name,
-        group.contribution_amount
+        getLogDue(targetLog),
+        group.currency
       );
 
       if (!result.success) {
@@ -881,7 +1270,8 @@ export default function GroupWorkspace() {
         user.id,
         senderName,
         group.name,
-        group.contribution_amount
+        group.contribution_amount,
+        group.currency
       );
 
       toast({
@@ -1087,10 +1477,10 @@ export default function GroupWorkspace() {
         <div className="p-6 pb-0 space-y-3">
           <AnimatePresence>
             {/* Your payment is due alert */}
-            {activeCycle && myPaymentStatus && ['unpaid', 'rejected'].includes(myPaymentStatus) && (
+            {activeCycle && myPaymentLog && ['unpaid', 'rejected'].includes(myPaymentStatus) && (
               <AlertBanner 
                 type="warning"
-                message={`Your payment of $${group.contribution_amount} is due. Don't keep your group waiting!`}
+                message={`Your payment of ${formatMoney(getLogDue(myPaymentLog), group.currency)} is due. Don't keep your group waiting!`}
                 action={{
                   label: "Mark as Paid",
                   onClick: () => setActiveTab('payments')
@@ -1099,10 +1489,10 @@ export default function GroupWorkspace() {
             )}
             
             {/* Pending verifications for president */}
-            {isPresident && paymentProgress.pending > 0 && (
+            {isPresident && logsAwaitingReview.length > 0 && (
               <AlertBanner 
                 type="info"
-                message={`${paymentProgress.pending} payment(s) awaiting your verification.`}
+                message={`${logsAwaitingReview.length} payment(s) awaiting your verification.`}
                 action={{
                   label: "Review",
                   onClick: () => setActiveTab('payments')
@@ -1129,7 +1519,7 @@ export default function GroupWorkspace() {
                 <div className="grid grid-cols-4 gap-6">
                   <StatsCard 
                     title="Total Collected"
-                    value={`$${historicalStats.totalContributed.toLocaleString()}`}
+                    value={formatMoney(historicalStats.totalContributed, group.currency)}
                     subtitle={`${historicalStats.completedCycles} cycles completed`}
                     icon={Wallet}
                   />
@@ -1149,8 +1539,8 @@ export default function GroupWorkspace() {
                   />
                   <StatsCard 
                     title="Contribution"
-                    value={`$${group.contribution_amount}`}
-                    subtitle={group.frequency === 'weekly' ? 'Weekly' : 'Monthly'}
+                    value={formatMoney(group.contribution_amount, group.currency)}
+                    subtitle={formatFrequency(group)}
                     icon={DollarSign}
                   />
                 </div>
@@ -1230,7 +1620,8 @@ export default function GroupWorkspace() {
                                 {currentRecipient.profile?.name || 'Unknown'} receives this cycle's payout
                               </p>
                               <p className="text-xs text-green-700">
-                                ${(group.contribution_amount * (paymentProgress.total - 1)).toLocaleString()} expected
+                                {formatMoney(payoutCycleAmount, group.currency)} expected
+                                {payoutSplits.length > 1 && ` · split with ${payoutSplits.slice(1).map(s => s.member.profile?.name || 'Unknown').join(', ')}`}
                               </p>
                             </div>
                             <Crown className="w-5 h-5 text-green-600" />
@@ -1240,37 +1631,19 @@ export default function GroupWorkspace() {
                         {/* President Actions */}
                         {isPresident && (
                           <div className="flex items-center gap-3 pt-2">
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button 
-                                  variant="outline" 
-                                  className="rounded-xl border-slate-200"
-                                  disabled={closingCycle}
-                                >
-                                  {closingCycle ? (
-                                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                                  ) : (
-                                    <StopCircle className="w-4 h-4 mr-2" />
-                                  )}
-                                  Close Cycle
-                                </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Close Current Cycle?</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    This will finalize the current payment cycle. Members who haven't paid will receive a missed payment mark.
-                                    After 3 missed payments, members will be locked from participating.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction onClick={handleCloseCycle}>
-                                    Close Cycle
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
+                            <Button 
+                              variant="outline" 
+                              className="rounded-xl border-slate-200"
+                              onClick={() => setCloseDialogOpen(true)}
+                              disabled={closingCycle}
+                            >
+                              {closingCycle ? (
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              ) : (
+                                <StopCircle className="w-4 h-4 mr-2" />
+                              )}
+                              Close Cycle
+                            </Button>
                             
                             <Button 
                               variant="outline" 
@@ -1294,7 +1667,38 @@ export default function GroupWorkspace() {
                           <Calendar className="w-8 h-8 text-slate-400" />
                         </div>
                         <p className="text-slate-600 mb-4">No active cycle</p>
-                        {isPresident && (
+                        {nextScheduledCycle && (
+                          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+                            Next cycle scheduled: {format(nextScheduledCycle.startDate, 'MMM d')} - {format(nextScheduledCycle.dueDate, 'MMM d, yyyy')}
+                          </p>
+                        )}
+                        {isRoundComplete ? (
+                          <p className="text-sm text-slate-500 dark:text-slate-400">
+                            Round {currentRound.round_number} is complete.{isPresident && ' Start the next round to continue.'}
+                          </p>
+                        ) : isPresident && group.schedule_mode === 'confirm' && nextScheduledCycle ? (
+                          <div className="flex items-center justify-center gap-3">
+                            <Button 
+                              className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600 dark:shadow-[0_0_20px_rgba(245,158,11,0.25)] transition-all duration-300"
+                              onClick={() => startNewCycle(nextScheduledCycle.startDate, nextScheduledCycle.dueDate)}
+                              disabled={startingCycle}
+                            >
+                              {startingCycle ? (
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              ) : (
+                                <Check className="w-4 h-4 mr-2" />
+                              )}
+                              Confirm Scheduled Cycle
+                            </Button>
+                            <Button 
+                              variant="outline" 
+                              className="rounded-xl border-slate-200"
+                              onClick={handleOpenCycleDialog}
+                            >
+                              Adjust Dates
+                            </Button>
+                          </div>
+                        ) : isPresident && (
                           <Button 
                             className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600 dark:shadow-[0_0_20px_rgba(245,158,11,0.25)] transition-all duration-300"
                             onClick={handleOpenCycleDialog}
@@ -1308,58 +1712,174 @@ export default function GroupWorkspace() {
                   </CardContent>
                 </Card>
 
+                {/* End of round */}
+                {isRoundComplete && user && (
+                  <RoundSummaryCard
+                    groupId={group.id}
+                    currency={group.currency}
+                    round={currentRound}
+                    members={members}
+                    contributionAmount={group.contribution_amount}
+                    isPresident={isPresident}
+                    currentUserId={user.id}
+                    currentUserName={currentMember?.profile?.name || user.email || 'President'}
+                    bidCount={openQueueBids.length}
+                    onRoundStarted={fetchGroupData}
+                  />
+                )}
+
+                {/* Bids for an earlier slot, while the round's queue can still be set */}
+                {queueRoundNumber !== null && currentMember?.status === 'active' && (
+                  <QueueBidCard
+                    groupId={group.id}
+                    currency={group.currency}
+                    roundNumber={queueRoundNumber}
+                    memberId={currentMember.id}
+                    bids={openQueueBids}
+                    expectedPayout={getExpectedPayout(group.contribution_amount, getTotalShares(members))}
+                    onBidChange={fetchGroupData}
+                  />
+                )}
+
+                {/* Members trading payout slots */}
+                {user && !isRoundComplete && (
+                  <QueueSwapCard
+                    group={group}
+                    members={members}
+                    swappableIds={swappableIds}
+                    requests={swapRequests}
+                    currentMember={currentMember || null}
+                    isPresident={isPresident}
+                    currentUserId={user.id}
+                    currentUserName={currentMember?.profile?.name || user.email || 'Member'}
+                    onSwapChange={fetchGroupData}
+                  />
+                )}
+
+                {/* Cycle Payout */}
+                {payoutCycle && payoutRecipient && user && (
+                  <CyclePayoutCard
+                    group={group}
+                    cycle={payoutCycle}
+                    recipient={payoutRecipient}
+                    payout={cyclePayout}
+                    expectedAmount={payoutCycleAmount}
+                    splits={payoutSplits.map(s => ({ name: s.member.profile?.name || 'Unknown', amount: s.amount }))}
+                    isPresident={isPresident}
+                    currentUserId={user.id}
+                    currentUserName={currentMember?.profile?.name || user.email || 'Member'}
+                    onPayoutChange={fetchGroupData}
+                  />
+                )}
+
                 {/* Payout Queue Preview */}
                 <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
                   <CardHeader>
-                    <CardTitle className="text-lg text-slate-900 dark:text-white">Payout Queue</CardTitle>
-                    <CardDescription className="text-slate-500 dark:text-slate-400">
-                      Order in which members receive their payouts
-                    </CardDescription>
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <CardTitle className="text-lg text-slate-900 dark:text-white">
+                          Payout Queue{currentRound && ` · Round ${currentRound.round_number}`}
+                        </CardTitle>
+                        <CardDescription className="text-slate-500 dark:text-slate-400">
+                          Order in which members receive their payouts this round
+                          {currentRound && currentRound.queue_mode !== 'carry_over' &&
+                            ` · set by ${QUEUE_MODE_OPTIONS.find(o => o.value === currentRound.queue_mode)?.label.toLowerCase()}`}
+                        </CardDescription>
+                      </div>
+                      {isPresident && !isRoundComplete && (
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="rounded-xl"
+                            onClick={() => setQueueEditorOpen(true)}
+                          >
+                            <GripVertical className="w-4 h-4 mr-2" />
+                            Edit Order
+                          </Button>
+                          {queueRoundNumber !== null && !(currentRound && hasLotteryDraw(currentRound)) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="rounded-xl"
+                              onClick={() => setQueueDialogOpen(true)}
+                            >
+                              <ListOrdered className="w-4 h-4 mr-2" />
+                              Set Order
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {currentRound?.queue_mode === 'lottery' && currentRound.queue_seed && (
+                      <div className="flex items-center justify-between gap-3 mt-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                        <p className="text-xs text-slate-500 dark:text-slate-400 break-all">
+                          Lottery seed <span className="font-mono text-slate-900 dark:text-white">{currentRound.queue_seed}</span>
+                        </p>
+                        <Button variant="ghost" size="sm" className="shrink-0" onClick={handleVerifyDraw}>
+                          <ShieldCheck className="w-4 h-4 mr-1" />
+                          Verify Draw
+                        </Button>
+                      </div>
+                    )}
                   </CardHeader>
                   <CardContent>
                     <div className="flex items-center gap-3 overflow-x-auto pb-2">
-                      {members
-                        .filter(m => m.status === 'active')
-                        .sort((a, b) => a.queue_position - b.queue_position)
+                      {payoutQueue
                         .slice(0, 6)
-                        .map((member, index) => (
-                          <div 
-                            key={member.id}
-                            className={cn(
-                              "flex flex-col items-center p-4 rounded-xl min-w-[100px]",
-                              index === 0 ? "bg-green-50 border border-green-100" : "bg-slate-50"
-                            )}
-                          >
-                            <div className="relative">
-                              <Avatar className="h-12 w-12">
-                                <AvatarImage src={member.profile?.avatar_url || ''} />
-                                <AvatarFallback className={index === 0 ? "bg-green-200 text-green-700" : "bg-slate-200 text-slate-600"}>
-                                  {member.profile?.name?.charAt(0) || '?'}
-                                </AvatarFallback>
-                              </Avatar>
-                              <span className={cn(
-                                "absolute -bottom-1 -right-1 w-5 h-5 rounded-full text-xs font-medium flex items-center justify-center",
-                                index === 0 ? "bg-green-500 text-white" : "bg-slate-200 text-slate-600"
-                              )}>
-                                {index + 1}
-                              </span>
+                        .map(({ slot, member, holders, status }, index) => {
+                          const isHighlighted = status === 'current' || status === 'next';
+                          return (
+                            <div 
+                              key={slot}
+                              className={cn(
+                                "flex flex-col items-center p-4 rounded-xl min-w-[100px]",
+                                isHighlighted ? "bg-green-50 border border-green-100" : "bg-slate-50",
+                                status === 'paid' && "opacity-60"
+                              )}
+                            >
+                              <div className="relative">
+                                <Avatar className="h-12 w-12">
+                                  <AvatarImage src={member.profile?.avatar_url || ''} />
+                                  <AvatarFallback className={isHighlighted ? "bg-green-200 text-green-700" : "bg-slate-200 text-slate-600"}>
+                                    {member.profile?.name?.charAt(0) || '?'}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span className={cn(
+                                  "absolute -bottom-1 -right-1 w-5 h-5 rounded-full text-xs font-medium flex items-center justify-center",
+                                  isHighlighted ? "bg-green-500 text-white" : "bg-slate-200 text-slate-600"
+                                )}>
+                                  {status === 'paid' ? <Check className="w-3 h-3" /> : index + 1}
+                                </span>
+                              </div>
+                              <p className="text-xs font-medium text-slate-900 dark:text-white mt-2 text-center truncate max-w-[80px]">
+                                {holders.map(h => h.member.profile?.name?.split(' ')[0] || 'Unknown').join(' & ')}
+                              </p>
+                              {status === 'current' && (
+                                <span className="text-[10px] text-green-600 font-medium mt-1">THIS CYCLE</span>
+                              )}
+                              {status === 'next' && (
+                                <span className="text-[10px] text-green-600 font-medium mt-1">NEXT</span>
+                              )}
+                              {status === 'paid' && (
+                                <span className="text-[10px] text-slate-500 font-medium mt-1">PAID</span>
+                              )}
                             </div>
-                            <p className="text-xs font-medium text-slate-900 dark:text-white mt-2 text-center truncate max-w-[80px]">
-                              {member.profile?.name?.split(' ')[0] || 'Unknown'}
-                            </p>
-                            {index === 0 && (
-                              <span className="text-[10px] text-green-600 font-medium mt-1">NEXT</span>
-                            )}
-                          </div>
-                        ))}
-                      {members.filter(m => m.status === 'active').length > 6 && (
+                          );
+                        })}
+                      {payoutQueue.length > 6 && (
                         <div className="flex flex-col items-center justify-center p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 min-w-[80px]">
                           <span className="text-sm text-slate-500 dark:text-slate-400">
-                            +{members.filter(m => m.status === 'active').length - 6} more
+                            +{payoutQueue.length - 6} more
                           </span>
                         </div>
                       )}
                     </div>
+                    {getTotalShares(members) % 1 !== 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400 mt-3">
+                        Hands add up to {getTotalShares(members)}, so the last slot is only partly filled. Pair split hands so every slot is whole.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               </motion.div>
@@ -1435,6 +1955,7 @@ export default function GroupWorkspace() {
                           <th className="text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider px-6 py-4">Member</th>
                           <th className="text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider px-6 py-4">Role</th>
                           <th className="text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider px-6 py-4">Queue Position</th>
+                          <th className="text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider px-6 py-4">Hands</th>
                           <th className="text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider px-6 py-4">Status</th>
                           <th className="text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider px-6 py-4">Payment</th>
                           {isPresident && (
@@ -1447,7 +1968,7 @@ export default function GroupWorkspace() {
                           .sort((a, b) => a.queue_position - b.queue_position)
                           .map((member) => {
                             const memberPaymentLog = paymentLogs.find(l => l.member_id === member.id);
-                            const isFirst = members.filter(m => m.status === 'active').sort((a, b) => a.queue_position - b.queue_position)[0]?.id === member.id;
+                            const isFirst = (currentRecipient?.id ?? payoutQueue.find(e => e.status === 'next')?.member.id) === member.id;
                             
                             return (
                               <tr key={member.id} className="hover:bg-slate-50 dark:hover:bg-white/5 transition-colors">
@@ -1503,6 +2024,46 @@ export default function GroupWorkspace() {
                                     )}
                                   </div>
                                 </td>
+                                <td className="px-6 py-5">
+                                  {isPresident && member.status !== 'locked' ? (
+                                    <DropdownMenu>
+                                      <DropdownMenuTrigger asChild>
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          className="rounded-lg"
+                                          disabled={updatingSharesId === member.id}
+                                        >
+                                          {updatingSharesId === member.id ? (
+                                            <Loader2 className="w-4 h-4 animate-spin" />
+                                          ) : (
+                                            <>
+                                              {formatShares(getMemberShares(member))}
+                                              <ChevronDown className="w-4 h-4 ml-1" />
+                                            </>
+                                          )}
+                                        </Button>
+                                      </DropdownMenuTrigger>
+                                      <DropdownMenuContent align="start" className="dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
+                                        <DropdownMenuLabel>Hands held</DropdownMenuLabel>
+                                        <DropdownMenuSeparator className="dark:bg-white/10" />
+                                        {SHARE_PRESETS.map(shares => (
+                                          <DropdownMenuItem
+                                            key={shares}
+                                            onClick={() => handleUpdateShares(member, shares)}
+                                            disabled={shares === getMemberShares(member)}
+                                          >
+                                            {formatShares(shares)} · {formatMoney(getMemberContribution(group.contribution_amount, { shares }), group.currency)}
+                                          </DropdownMenuItem>
+                                        ))}
+                                      </DropdownMenuContent>
+                                    </DropdownMenu>
+                                  ) : (
+                                    <span className="text-sm text-slate-600 dark:text-slate-300">
+                                      {formatShares(getMemberShares(member))}
+                                    </span>
+                                  )}
+                                </td>
                                 <td className="px-6 py-5">
                                   <span className={cn(
                                     "px-3 py-1 rounded-full text-xs font-medium",
@@ -1524,22 +2085,19 @@ export default function GroupWorkspace() {
                                 {isPresident && (
                                   <td className="px-6 py-5 text-right">
                                     {member.status === 'locked' ? (
-                                      <Button 
-                                        size="sm" 
-                                        variant="outline"
-                                        className="rounded-lg"
-                                        onClick={() => handleRestoreMember(member.id)}
-                                        disabled={restoringMemberId === member.id}
-                                      >
-                                        {restoringMemberId === member.id ? (
-                                          <Loader2 className="w-4 h-4 animate-spin" />
-                                        ) : (
-                                          <>
-                                            <RotateCcw className="w-4 h-4 mr-1" />
-                                            Restore
-                                          </>
-                                        )}
-                                      </Button>
+                                      arrears.some(a => a.member_id === member.id && a.status === 'outstanding' && a.restore_on_settle) ? (
+                                        <span className="text-xs text-amber-600 dark:text-amber-400">Restores once arrears are paid</span>
+                                      ) : (
+                                        <Button 
+                                          size="sm" 
+                                          variant="outline"
+                                          className="rounded-lg"
+                                          onClick={() => setRestoringMember(member)}
+                                        >
+                                          <RotateCcw className="w-4 h-4 mr-1" />
+                                          Restore
+                                        </Button>
+                                      )
                                     ) : memberPaymentLog && ['unpaid', 'rejected'].includes(memberPaymentLog.status) ? (
                                       <Button 
                                         size="sm" 
@@ -1567,6 +2125,9 @@ export default function GroupWorkspace() {
                     </table>
                   </div>
                 </Card>
+
+                {/* Missed Payment Rules */}
+                <LockPolicyCard policy={lockPolicy} member={currentMember} />
               </motion.div>
             )}
 
@@ -1591,80 +2152,97 @@ export default function GroupWorkspace() {
                     </p>
                   </div>
                   <div className="flex items-center gap-3">
-                    {isPresident && !activeCycle && (
-                      <Button 
-                        className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600 dark:shadow-[0_0_20px_rgba(245,158,11,0.25)] transition-all duration-300"
-                        onClick={handleOpenCycleDialog}
-                      >
-                        <Play className="w-4 h-4 mr-2" strokeWidth={1.5} />
-                        Start Cycle
-                      </Button>
-                    )}
-                    {isPresident && activeCycle && (
+                    {isPresident && reopenableCycle && (
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
-                          <Button 
-                            variant="outline" 
-                            className="rounded-xl border-red-200 text-red-600 hover:bg-red-50 dark:border-red-500/30 dark:text-red-400 dark:hover:bg-red-500/10"
-                            disabled={closingCycle}
+                          <Button
+                            variant="outline"
+                            className="rounded-xl border-slate-200 dark:border-white/10"
+                            disabled={reopeningCycle}
                           >
-                            {closingCycle ? (
+                            {reopeningCycle ? (
                               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                             ) : (
-                              <StopCircle className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                              <RotateCcw className="w-4 h-4 mr-2" strokeWidth={1.5} />
                             )}
-                            Close Cycle
+                            Reopen Last Cycle
                           </Button>
                         </AlertDialogTrigger>
                         <AlertDialogContent className="dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
                           <AlertDialogHeader>
-                            <AlertDialogTitle className="dark:text-white">Close Current Cycle?</AlertDialogTitle>
+                            <AlertDialogTitle className="dark:text-white">Reopen the last cycle?</AlertDialogTitle>
                             <AlertDialogDescription className="dark:text-slate-400">
-                              This will finalize the current payment cycle. Members who haven't paid will receive a missed payment mark.
-                              After 3 missed payments, members will be locked from participating.
+                              The cycle due {format(new Date(reopenableCycle.due_date), 'MMM d, yyyy')} becomes active again.
+                              Missed payment counts and locks from closing it are reversed, and its late fees are removed.
+                              {activeCycle && ' The cycle opened after it will be removed, as long as no one has paid into it yet.'}
+                              {' '}Cycles can be reopened for {REOPEN_WINDOW_HOURS} hours after closing.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
                             <AlertDialogCancel className="dark:bg-slate-800 dark:text-white dark:border-white/10">Cancel</AlertDialogCancel>
-                            <AlertDialogAction onClick={handleCloseCycle} className="bg-red-500 hover:bg-red-600">
-                              Close Cycle
+                            <AlertDialogAction onClick={handleReopenCycle}>
+                              Reopen Cycle
                             </AlertDialogAction>
                           </AlertDialogFooter>
                         </AlertDialogContent>
                       </AlertDialog>
                     )}
+                    {isPresident && !activeCycle && !isRoundComplete && (
+                      <Button 
+                        className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600 dark:shadow-[0_0_20px_rgba(245,158,11,0.25)] transition-all duration-300"
+                        onClick={handleOpenCycleDialog}
+                      >
+                        <Play className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                        Start Cycle
+                      </Button>
+                    )}
+                    {isPresident && activeCycle && (
+                      <Button 
+                        variant="outline" 
+                        className="rounded-xl border-red-200 text-red-600 hover:bg-red-50 dark:border-red-500/30 dark:text-red-400 dark:hover:bg-red-500/10"
+                        onClick={() => setCloseDialogOpen(true)}
+                        disabled={closingCycle}
+                      >
+                        {closingCycle ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <StopCircle className="w-4 h-4 mr-2" strokeWidth={1.5} />
+                        )}
+                        Close Cycle
+                      </Button>
+                    )}
                   </div>
                 </div>
 
                 {/* My Payment Status Card - Show when user has unpaid/rejected payment */}
-                {activeCycle && myPaymentStatus && ['unpaid', 'rejected'].includes(myPaymentStatus) && (
+                {activeCycle && myPaymentLog && ['unpaid', 'rejected'].includes(myPaymentStatus) && (
                   <Card className="bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-500/10 dark:to-orange-500/10 rounded-[24px] border border-amber-200 dark:border-amber-500/20 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
-                    <CardContent className="p-6">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-4">
-                          <div className="w-12 h-12 bg-amber-100 dark:bg-amber-500/20 rounded-full flex items-center justify-center">
-                            <DollarSign className="w-6 h-6 text-amber-600 dark:text-amber-400" strokeWidth={1.5} />
-                          </div>
-                          <div>
-                            <h3 className="font-semibold text-slate-900 dark:text-white">Your Payment Due</h3>
-                            <p className="text-sm text-slate-600 dark:text-slate-400">
-                              ${group.contribution_amount} · {myPaymentStatus === 'rejected' ? 'Rejected - please resubmit' : 'Awaiting your payment'}
-                            </p>
-                          </div>
+                    <CardContent className="p-6 space-y-4">
+                      <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 bg-amber-100 dark:bg-amber-500/20 rounded-full flex items-center justify-center">
+                          <DollarSign className="w-6 h-6 text-amber-600 dark:text-amber-400" strokeWidth={1.5} />
+                        </div>
+                        <div>
+                          <h3 className="font-semibold text-slate-900 dark:text-white">Your Payment Due</h3>
+                          <p className="text-sm text-slate-600 dark:text-slate-400">
+                            {formatMoney(getLogDue(myPaymentLog), group.currency)} · {myPaymentStatus === 'rejected' ? 'Rejected - please resubmit' : 'Send it in one transfer or several'}
+                          </p>
                         </div>
-                        <Button 
-                          className="bg-amber-500 hover:bg-amber-600 text-white rounded-xl shadow-lg dark:shadow-[0_0_20px_rgba(245,158,11,0.25)]"
-                          onClick={handleMarkAsSent}
-                          disabled={markingAsSent}
-                        >
-                          {markingAsSent ? (
-                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                          ) : (
-                            <Send className="w-4 h-4 mr-2" strokeWidth={1.5} />
-                          )}
-                          Mark as Sent
-                        </Button>
                       </div>
+                      <PaymentInstallments
+                        log={myPaymentLog}
+                        currency={group.currency}
+                        installments={installmentsByLog.get(myPaymentLog.id) || []}
+                        groupId={group.id}
+                        groupName={group.name}
+                        contributionAmount={getLogDue(myPaymentLog)}
+                        memberUserId={user.id}
+                        memberName={currentMember?.profile?.name || user.email || 'Member'}
+                        currentUserId={user.id}
+                        currentUserName={currentMember?.profile?.name || user.email || 'Member'}
+                        canSubmit={currentMember?.status !== 'locked'}
+                        onChange={fetchGroupData}
+                      />
                     </CardContent>
                   </Card>
                 )}
@@ -1678,10 +2256,12 @@ export default function GroupWorkspace() {
                           <Button 
                             variant="outline" 
                             size="sm" 
-                            className={cn("rounded-full", !paymentLogs.some(l => l.status === 'pending') && "opacity-50")}
-                            disabled={!paymentLogs.some(l => l.status === 'pending')}
+                            className={cn("rounded-full", logsAwaitingReview.length === 0 && "opacity-50")}
+                            disabled={logsAwaitingReview.length === 0}
+                            onClick={isPresident ? () => navigate('/verify') : undefined}
+                            title={isPresident ? 'Open the verification queue' : undefined}
                           >
-                            Pending ({paymentLogs.filter(l => l.status === 'pending').length})
+                            Pending ({logsAwaitingReview.length})
                           </Button>
                           <Button 
                             variant="outline" 
@@ -1713,11 +2293,15 @@ export default function GroupWorkspace() {
                     <div className="divide-y divide-slate-100 dark:divide-white/5">
                       {paymentLogs
                         .sort((a, b) => {
-                          // Show pending first, then unpaid, then verified
+                          // Show logs awaiting review first, then unpaid, then verified
                           const order = { pending: 0, unpaid: 1, rejected: 2, verified: 3 };
-                          return order[a.status] - order[b.status];
+                          const rank = (log: PaymentLogWithMember) => logsAwaitingReview.includes(log) ? -1 : order[log.status];
+                          return rank(a) - rank(b);
                         })
-                        .map((log) => (
+                        .map((log) => {
+                          const logInstallments = installmentsByLog.get(log.id) || [];
+                          const balance = getInstallmentBalance(getLogDue(log), logInstallments, log.status);
+                          return (
                           <div key={log.id} className="p-6 hover:bg-slate-50 transition-colors">
                             <div className="flex items-center justify-between">
                               <div className="flex items-center gap-4">
@@ -1730,7 +2314,9 @@ export default function GroupWorkspace() {
                                 <div>
                                   <p className="font-medium text-slate-900 dark:text-white">{log.member?.profile?.name || 'Unknown'}</p>
                                   <p className="text-sm text-slate-500 dark:text-slate-400">
-                                    ${group.contribution_amount}
+                                    {logInstallments.length > 0
+                                      ? `${formatMoney(balance.submitted, group.currency)} of ${formatMoney(balance.due, group.currency)} sent`
+                                      : formatMoney(balance.due, group.currency)}
                                     {log.marked_at && ` • Submitted ${format(new Date(log.marked_at), 'MMM d, h:mm a')}`}
                                   </p>
                                 </div>
@@ -1738,8 +2324,8 @@ export default function GroupWorkspace() {
                               <div className="flex items-center gap-3">
                                 <PaymentStatusBadge status={log.status} />
                                 
-                                {/* President actions for pending payments */}
-                                {isPresident && log.status === 'pending' && (
+                                {/* President actions for pending payments marked before installments existed */}
+                                {isPresident && log.status === 'pending' && logInstallments.length === 0 && (
                                   <div className="flex items-center gap-2">
                                     <Button 
                                       size="sm"
@@ -1760,7 +2346,7 @@ export default function GroupWorkspace() {
                                       size="sm"
                                       variant="outline"
                                       className="rounded-lg border-red-200 text-red-600 hover:bg-red-50"
-                                      onClick={() => rejectPayment(log.id)}
+                                      onClick={() => setRejectingLog(log)}
                                       disabled={rejectingId === log.id}
                                     >
                                       {rejectingId === log.id ? (
@@ -1796,8 +2382,29 @@ export default function GroupWorkspace() {
                                 )}
                               </div>
                             </div>
+                            {logInstallments.length > 0 && (
+                              <div className="mt-4 sm:pl-16">
+                                <PaymentInstallments
+                                  log={log}
+                                  currency={group.currency}
+                                  installments={logInstallments}
+                                  groupId={group.id}
+                                  groupName={group.name}
+                                  contributionAmount={getLogDue(log)}
+                                  memberUserId={log.member?.user_id}
+                                  memberName={log.member?.profile?.name || 'Member'}
+                                  currentUserId={user.id}
+                                  currentUserName={currentMember?.profile?.name || user.email || 'President'}
+                                  canReview={isPresident}
+                                  duplicateReferences={duplicateReferences}
+                                  memberNames={memberNames}
+                                  onChange={fetchGroupData}
+                                />
+                              </div>
+                            )}
                           </div>
-                        ))}
+                          );
+                        })}
                     </div>
                   </Card>
                 ) : (
@@ -1813,6 +2420,53 @@ export default function GroupWorkspace() {
                   </Card>
                 )}
 
+                {/* Arrears */}
+                {arrears.length > 0 && (
+                  <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+                    <CardHeader>
+                      <CardTitle className="text-lg text-slate-900 dark:text-white">Arrears</CardTitle>
+                      <CardDescription className="text-slate-500 dark:text-slate-400">
+                        {formatMoney(sumAmounts(arrears.map(a => getArrearsBalance(a))), group.currency)} owed from missed cycles by restored members
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ArrearsLedger
+                        arrears={arrears}
+                        currency={group.currency}
+                        members={new Map(members.map(m => [m.id, { name: m.profile?.name || 'Unknown', userId: m.user_id }]))}
+                        canRecord={isPresident}
+                        currentUserId={user.id}
+                        currentUserName={currentMember?.profile?.name || user.email || 'President'}
+                        onChange={fetchGroupData}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Late Fees */}
+                {penalties.length > 0 && (
+                  <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+                    <CardHeader>
+                      <CardTitle className="text-lg text-slate-900 dark:text-white">Late Fees</CardTitle>
+                      <CardDescription className="text-slate-500 dark:text-slate-400">
+                        {formatMoney(getPenaltyTotals(penalties).outstanding, group.currency)} outstanding across the group
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <PenaltyLedger
+                        penalties={penalties}
+                        currency={group.currency}
+                        members={new Map(members.map(m => [m.id, { name: m.profile?.name || 'Unknown', userId: m.user_id }]))}
+                        showMemberNames
+                        canWaive={isPresident}
+                        currentUserId={user.id}
+                        currentUserName={currentMember?.profile?.name || user.email || 'President'}
+                        onChange={fetchGroupData}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Payout History */}
                 <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
                   <CardHeader>
@@ -1839,7 +2493,7 @@ export default function GroupWorkspace() {
                                 </div>
                               </div>
                               <span className="text-sm font-medium text-green-600 dark:text-green-400">
-                                ${(group.contribution_amount * members.filter(m => m.status === 'active').length).toLocaleString()}
+                                {formatMoney(getExpectedContribution(group.contribution_amount, members), group.currency)}
                               </span>
                             </div>
                           ))}
@@ -1879,7 +2533,7 @@ export default function GroupWorkspace() {
                   <StatsCard
                     icon={Wallet}
                     title="My Payments"
-                    value={`$${allCycles.filter(c => c.status === 'closed').length * group.contribution_amount}`}
+                    value={formatMoney(sumJournal(journal.filter(e => e.memberId === currentMember?.id), ['contribution', 'arrears_payment']), group.currency)}
                     subtitle="Total contributed"
                     color="blue"
                   />
@@ -1932,7 +2586,7 @@ export default function GroupWorkspace() {
                               </div>
                               <div className="flex items-center gap-2">
                                 <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
-                                <span className="font-medium text-green-600 dark:text-green-400">${group.contribution_amount}</span>
+                                <span className="font-medium text-green-600 dark:text-green-400">{formatMoney(getLogDue(log), group.currency)}</span>
                               </div>
                             </div>
                           ))}
@@ -1959,7 +2613,7 @@ export default function GroupWorkspace() {
                           <span className="text-sm text-slate-600 dark:text-slate-400">Paid</span>
                         </div>
                         <span className="font-medium text-slate-900 dark:text-white">
-                          {paymentLogs.filter(l => l.status === 'verified').length} (${paymentLogs.filter(l => l.status === 'verified').length * group.contribution_amount})
+                          {paymentLogs.filter(l => l.status === 'verified').length} ({formatMoney(sumLogDue(paymentLogs.filter(l => l.status === 'verified')), group.currency)})
                         </span>
                       </div>
                       <Progress 
@@ -1976,7 +2630,7 @@ export default function GroupWorkspace() {
                           <span className="text-sm text-slate-600 dark:text-slate-400">Pending</span>
                         </div>
                         <span className="font-medium text-slate-900 dark:text-white">
-                          {paymentLogs.filter(l => l.status === 'pending').length} (${paymentLogs.filter(l => l.status === 'pending').length * group.contribution_amount})
+                          {paymentLogs.filter(l => l.status === 'pending').length} ({formatMoney(sumLogDue(paymentLogs.filter(l => l.status === 'pending')), group.currency)})
                         </span>
                       </div>
                     </div>
@@ -1987,7 +2641,7 @@ export default function GroupWorkspace() {
                           <span className="text-sm text-slate-600 dark:text-slate-400">Unpaid</span>
                         </div>
                         <span className="font-medium text-slate-900 dark:text-white">
-                          {paymentLogs.filter(l => l.status === 'unpaid' || l.status === 'rejected').length} (${paymentLogs.filter(l => l.status === 'unpaid' || l.status === 'rejected').length * group.contribution_amount})
+                          {paymentLogs.filter(l => l.status === 'unpaid' || l.status === 'rejected').length} ({formatMoney(sumLogDue(paymentLogs.filter(l => l.status === 'unpaid' || l.status === 'rejected')), group.currency)})
                         </span>
                       </div>
                     </div>
@@ -2007,7 +2661,7 @@ export default function GroupWorkspace() {
                           const csvData = paymentLogs.map(log => ({
                             name: log.member?.profile?.name || 'Unknown',
                             email: log.member?.profile?.email || '',
-                            amount: group.contribution_amount,
+                            amount: getLogDue(log),
                             status: log.status,
                             marked_at: log.marked_at ? format(new Date(log.marked_at), 'yyyy-MM-dd HH:mm') : '',
                             verified_at: log.verified_at ? format(new Date(log.verified_at), 'yyyy-MM-dd HH:mm') : ''
@@ -2015,7 +2669,7 @@ export default function GroupWorkspace() {
                           const columns: CsvColumn<typeof csvData[0]>[] = [
                             { header: 'Name', accessor: 'name' },
                             { header: 'Email', accessor: 'email' },
-                            { header: 'Amount', accessor: 'amount' },
+                            { header: moneyHeader('Amount', group.currency), accessor: 'amount' },
                             { header: 'Status', accessor: 'status' },
                             { header: 'Submitted', accessor: 'marked_at' },
                             { header: 'Verified', accessor: 'verified_at' }
@@ -2031,6 +2685,28 @@ export default function GroupWorkspace() {
                     </div>
                   </CardContent>
                 </Card>
+
+                {/* Statement import for the president */}
+                {isPresident && (
+                  <Card className="bg-white dark:bg-slate-900/40 dark:backdrop-blur-xl rounded-[24px] border border-slate-100 dark:border-white/5 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none">
+                    <CardContent className="p-6">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h3 className="font-semibold text-slate-900 dark:text-white">Import Statement</h3>
+                          <p className="text-sm text-slate-500 dark:text-slate-400">Match a bank or mobile-money CSV statement to unpaid and pending payments</p>
+                        </div>
+                        <Button
+                          variant="outline"
+                          className="rounded-xl"
+                          onClick={() => navigate(`/groups/${group.id}/statement`)}
+                        >
+                          <Upload className="w-4 h-4 mr-2" />
+                          Import CSV
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
               </motion.div>
             )}
 
@@ -2058,7 +2734,7 @@ export default function GroupWorkspace() {
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <ActivityFeed groupId={id || ''} limit={50} showHeader={false} />
+                    <ActivityFeed groupId={id || ''} limit={50} showHeader={false} currency={group.currency} />
                   </CardContent>
                 </Card>
 
@@ -2088,7 +2764,7 @@ export default function GroupWorkspace() {
                         <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl">
                           <p className="text-sm text-slate-500 dark:text-slate-400">Total Collected</p>
                           <p className="text-2xl font-bold text-slate-900 dark:text-white">
-                            ${allCycles.filter(c => c.status === 'closed').length * group.contribution_amount * members.filter(m => m.status === 'active').length}
+                            {formatMoney(historicalStats.totalContributed, group.currency)}
                           </p>
                         </div>
                       </div>
@@ -2236,7 +2912,7 @@ export default function GroupWorkspace() {
                           {members.filter(m => m.status === 'active').length} active members
                         </p>
                         <p className="text-sm text-slate-500 dark:text-slate-400">
-                          ${group.contribution_amount} contribution · {group.cycle_frequency}
+                          {formatMoney(group.contribution_amount, group.currency)} contribution · {formatFrequency(group)}
                         </p>
                       </div>
                     </div>
@@ -2365,13 +3041,82 @@ export default function GroupWorkspace() {
         </div>
       </main>
 
+      {/* Close Cycle Preview */}
+      {isPresident && activeCycle && (
+        <CloseCyclePreviewDialog
+          open={closeDialogOpen}
+          currency={group.currency}
+          onOpenChange={setCloseDialogOpen}
+          cycle={activeCycle}
+          members={members}
+          paymentLogs={paymentLogs}
+          lockPolicy={lockPolicy}
+          closing={closingCycle}
+          verifyingLogId={verifyingId}
+          onVerify={(log, missed) => handleVerifyFromPreview(log as PaymentLogWithMember, missed)}
+          onExtend={(log, until) => handleExtendPayment(log as PaymentLogWithMember, until)}
+          onConfirm={handleCloseCycle}
+        />
+      )}
+
+      {queueRoundNumber !== null && (
+        <QueueStrategyDialog
+          open={queueDialogOpen}
+          onOpenChange={setQueueDialogOpen}
+          title={`Set the Round ${queueRoundNumber} Queue`}
+          description="Choose how the payout queue is set before the round's first cycle. Every position is rewritten at once."
+          confirmLabel="Set Order"
+          bidCount={openQueueBids.length}
+          submitting={settingQueue}
+          onConfirm={handleSetQueue}
+        />
+      )}
+
+      {/* Restore a locked member */}
+      {isPresident && user && (
+        <RestoreMemberDialog
+          groupId={group.id}
+          currency={group.currency}
+          contributionAmount={group.contribution_amount}
+          member={restoringMember}
+          onOpenChange={(open) => !open && setRestoringMember(null)}
+          currentUserId={user.id}
+          currentUserName={currentMember?.profile?.name || user.email || 'President'}
+          onRestored={fetchGroupData}
+        />
+      )}
+
+      {/* Reject a payment marked as sent before installments existed */}
+      {isPresident && (
+        <RejectPaymentDialog
+          open={!!rejectingLog}
+          onOpenChange={(open) => !open && setRejectingLog(null)}
+          memberName={rejectingLog?.member?.profile?.name || 'The member'}
+          amount={rejectingLog ? getLogDue(rejectingLog) : 0}
+          currency={group.currency}
+          rejecting={!!rejectingLog && rejectingId === rejectingLog.id}
+          onReject={(rejection) => rejectingLog && rejectPayment(rejectingLog, rejection)}
+        />
+      )}
+
+      {/* Drag-and-drop queue editor */}
+      {isPresident && (
+        <QueueEditorDialog
+          open={queueEditorOpen}
+          onOpenChange={setQueueEditorOpen}
+          members={members}
+          saving={savingQueueOrder}
+          onSave={handleSaveQueueOrder}
+        />
+      )}
+
       {/* Start Cycle Dialog */}
       <Dialog open={cycleDialogOpen} onOpenChange={setCycleDialogOpen}>
         <DialogContent className="rounded-[24px] dark:bg-slate-900/90 dark:backdrop-blur-xl dark:border-white/10">
           <DialogHeader>
             <DialogTitle className="dark:text-white">Start New Payment Cycle</DialogTitle>
             <DialogDescription className="dark:text-slate-400">
-              Set the start and end dates for this payment cycle.
+              Set the start and end dates for this payment cycle. Dates are pre-filled from the group's {formatFrequency(group).toLowerCase()} schedule.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -2419,7 +3164,7 @@ export default function GroupWorkspace() {
               Cancel
             </Button>
             <Button 
-              onClick={startNewCycle} 
+              onClick={() => startNewCycle()} 
               disabled={startingCycle || !selectedStartDate || !selectedDueDate}
               className="bg-green-500 hover:bg-green-600 text-white rounded-xl dark:bg-amber-500 dark:hover:bg-amber-600 dark:shadow-[0_0_20px_rgba(245,158,11,0.25)] transition-all duration-300"
             >
@@ -208,7 +208,7 @@ export default function IndexPage() {
               <FeatureCard
                 icon={Clock}
                 title="Flexible scheduling"
-                description="Weekly or monthly — your group decides. Customize contribution amounts and dates that work for everyone."
+                description="Weekly, bi-weekly, monthly, quarterly or every N days — your group decides. Customize contribution amounts and dates that work for everyone."
               />
               <FeatureCard
                 icon={CheckCircle}
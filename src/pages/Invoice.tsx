@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, DollarSign, Mail, Clock, CheckCircle, 
-  Send, Loader2, AlertCircle, Calendar, User, PiggyBank, Receipt
+  Loader2, AlertCircle, Calendar, User, PiggyBank, Receipt, Wallet, BadgeMinus, CalendarClock, MessageSquare
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,7 +13,19 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { addNotification, showNotification, requestNotificationPermission } from '@/lib/notifications';
-import { Group, GroupMember, PaymentCycle, PaymentLog, PaymentStatus } from '@/types/database';
+import { getCyclePayout, confirmPayoutReceived } from '@/lib/payouts';
+import { getLockPolicy, formatLockThreshold } from '@/lib/lockPolicy';
+import { getLateFeePolicy, calculateLateFee, formatLateFeePolicy } from '@/lib/lateFees';
+import { getMemberPenalties, getPenaltyTotals } from '@/lib/penalties';
+import { PenaltyLedger } from '@/components/PenaltyLedger';
+import { PaymentInstallments } from '@/components/PaymentInstallments';
+import { PaymentThread } from '@/components/PaymentThread';
+import { getLogInstallments } from '@/lib/installments';
+import { describeRejection, getPaymentLogEvents } from '@/lib/paymentEvents';
+import { getPaymentDeadline } from '@/lib/cycleManagement';
+import { formatMoney } from '@/lib/currency';
+import { formatShares, getMemberContribution, getMemberShares } from '@/lib/shares';
+import { Group, GroupMember, PaymentCycle, PaymentInstallment, PaymentLog, PaymentLogEvent, PaymentStatus, Payout, Penalty } from '@/types/database';
 import { format } from 'date-fns';
 
 export default function Invoice() {
@@ -23,11 +35,16 @@ export default function Invoice() {
   const { user } = useAuth();
   
   const [loading, setLoading] = useState(true);
-  const [marking, setMarking] = useState(false);
   const [group, setGroup] = useState<Group | null>(null);
   const [cycle, setCycle] = useState<PaymentCycle | null>(null);
   const [member, setMember] = useState<GroupMember | null>(null);
   const [paymentLog, setPaymentLog] = useState<PaymentLog | null>(null);
+  const [payout, setPayout] = useState<Payout | null>(null);
+  const [penalties, setPenalties] = useState<Penalty[]>([]);
+  const [installments, setInstallments] = useState<PaymentInstallment[]>([]);
+  const [paymentEvents, setPaymentEvents] = useState<PaymentLogEvent[]>([]);
+  const [recipientName, setRecipientName] = useState<string | null>(null);
+  const [confirmingPayout, setConfirmingPayout] = useState(false);
 
   const fetchInvoiceData = useCallback(async () => {
     try {
@@ -72,6 +89,31 @@ export default function Invoice() {
 
       if (logError && logError.code !== 'PGRST116') throw logError;
       setPaymentLog(logData);
+      setInstallments(logData ? await getLogInstallments([logData.id]) : []);
+      setPaymentEvents(logData ? await getPaymentLogEvents(logData.id) : []);
+
+      // Fetch the member's late fee ledger
+      setPenalties(await getMemberPenalties(memberData.id));
+
+      // Fetch this cycle's payout and who receives it
+      setPayout(await getCyclePayout(cycleId!));
+
+      if (cycleData.recipient_id) {
+        const { data: recipientData } = await supabase
+          .from('group_members')
+          .select('user_id')
+          .eq('id', cycleData.recipient_id)
+          .maybeSingle();
+
+        if (recipientData) {
+          const { data: recipientProfile } = await supabase
+            .from('profiles')
+            .select('name')
+            .eq('id', recipientData.user_id)
+            .maybeSingle();
+          setRecipientName(recipientProfile?.name || null);
+        }
+      }
 
     } catch (error) {
       console.error('Error fetching invoice data:', error);
@@ -113,6 +155,8 @@ export default function Invoice() {
         (payload) => {
           const newLog = payload.new as PaymentLog;
           setPaymentLog(newLog);
+          getLogInstallments([paymentLogId]).then(setInstallments);
+          getPaymentLogEvents(paymentLogId).then(setPaymentEvents);
 
           if (newLog.status === 'verified') {
             addNotification({
@@ -135,18 +179,18 @@ export default function Invoice() {
             addNotification({
               type: 'payment_rejected',
               title: 'Payment Rejected',
-              message: `Your payment for ${groupName || 'the group'} was rejected. Please check with the president.`,
+              message: `Your payment for ${groupName || 'the group'} was rejected. See the payment history for the reason.`,
               groupId: groupId,
             });
 
             showNotification('Payment Rejected', {
-              body: `Your payment was rejected. Please check with the president.`,
+              body: `Your payment was rejected. See the payment history for the reason.`,
               tag: `payment-rejected-${paymentLogId}`,
             });
 
             toast({
               title: "Payment Rejected",
-              description: "Please check with the president for details.",
+              description: "See the payment history for the president's reason.",
               variant: "destructive",
             });
           }
@@ -160,37 +204,42 @@ export default function Invoice() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [paymentLog?.id, group?.name, groupId, toast]);
 
-  const markAsSent = async () => {
-    if (!paymentLog) return;
+  const confirmPayout = async () => {
+    if (!payout || !group || !user) return;
 
-    setMarking(true);
+    setConfirmingPayout(true);
     try {
-      const { error } = await supabase
-        .from('payment_logs')
-        .update({
-          status: 'pending',
-          marked_at: new Date().toISOString(),
-        })
-        .eq('id', paymentLog.id);
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('name')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      const result = await confirmPayoutReceived({
+        payout,
+        groupName: group.name,
+        currency: group.currency,
+        presidentId: group.president_id,
+        actorId: user.id,
+        actorName: profile?.name || user.email || 'Member',
+      });
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.error);
 
       toast({
-        title: "Payment Marked as Sent!",
-        description: "The president will verify your payment shortly.",
+        title: "Payout Confirmed",
+        description: "Thanks for confirming you received your payout.",
       });
-
-      // Refresh data
-      setPaymentLog(prev => prev ? { ...prev, status: 'pending', marked_at: new Date().toISOString() } : null);
+      setPayout(result.payout || null);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to mark payment as sent";
+      const errorMessage = error instanceof Error ? error.message : "Failed to confirm payout";
       toast({
         title: "Error",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setMarking(false);
+      setConfirmingPayout(false);
     }
   };
 
@@ -254,10 +303,31 @@ export default function Invoice() {
   }
 
   const isLocked = member.status === 'locked';
-  const canMarkAsSent = paymentLog?.status === 'unpaid' && !isLocked;
+  // The president can give a member until after the due date (and past the close) to pay
+  const paymentDeadline = getPaymentDeadline(cycle, paymentLog);
+  const isExtended = paymentDeadline > new Date(cycle.due_date);
+  const canRecordPayment = ['unpaid', 'rejected'].includes(paymentLog?.status) && !isLocked
+    && (cycle.status === 'active' || (isExtended && paymentDeadline > new Date()));
   const isPending = paymentLog?.status === 'pending';
   const isVerified = paymentLog?.status === 'verified';
   const isRejected = paymentLog?.status === 'rejected';
+  const latestRejection = [...paymentEvents].reverse().find(e => e.event_type === 'rejected');
+  const isPayoutRecipient = cycle.recipient_id === member.id;
+  const memberShares = getMemberShares(member);
+  const amountDue = getMemberContribution(group.contribution_amount, member);
+
+  // Late fee for this cycle: recorded at close, otherwise estimated from when the payment was (or would be) sent
+  const lateFeePolicy = getLateFeePolicy(group);
+  const cyclePenalty = penalties.find(p => p.payment_log_id === paymentLog?.id);
+  const estimatedLateFee = !cyclePenalty && paymentLog && cycle.status === 'active'
+    ? calculateLateFee(
+        lateFeePolicy,
+        amountDue,
+        isPending || isVerified ? paymentLog.marked_at : new Date(),
+        paymentDeadline
+      )
+    : null;
+  const penaltyTotals = getPenaltyTotals(penalties);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted/20 relative overflow-hidden">
@@ -293,7 +363,7 @@ export default function Invoice() {
               <AlertCircle className="h-4 w-4" />
               <AlertTitle>Account Locked</AlertTitle>
               <AlertDescription>
-                Your account has been locked due to missed payments. Contact the group president to restore your access.
+                Your account was locked after {formatLockThreshold(getLockPolicy(group))}. Contact the group president to restore your access.
               </AlertDescription>
             </Alert>
           )}
@@ -329,8 +399,13 @@ export default function Invoice() {
                 Amount Due
               </CardDescription>
               <CardTitle className="text-5xl font-bold text-primary mt-2">
-                ${group.contribution_amount.toFixed(2)}
+                {formatMoney(amountDue, group.currency)}
               </CardTitle>
+              {memberShares !== 1 && (
+                <p className="text-sm text-muted-foreground">
+                  {formatShares(memberShares)} × {formatMoney(group.contribution_amount, group.currency)}
+                </p>
+              )}
             </CardHeader>
             <CardContent className="space-y-4 relative">
               <div className="flex items-center justify-between py-3 border-t">
@@ -342,6 +417,15 @@ export default function Invoice() {
                   {format(new Date(cycle.start_date), 'MMM d')} → {format(new Date(cycle.due_date), 'MMM d, yyyy')}
                 </span>
               </div>
+              {isExtended && (
+                <div className="flex items-center justify-between py-3 border-t">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <CalendarClock className="h-4 w-4" />
+                    <span>Extended To</span>
+                  </div>
+                  <span className="font-medium">{format(paymentDeadline, 'MMM d, yyyy')}</span>
+                </div>
+              )}
               <div className="flex items-center justify-between py-3 border-t">
                 <div className="flex items-center gap-2 text-muted-foreground">
                   <User className="h-4 w-4" />
@@ -349,9 +433,121 @@ export default function Invoice() {
                 </div>
                 <span className="font-medium">#{member.queue_position} in queue</span>
               </div>
+              {(cyclePenalty || estimatedLateFee) && (
+                <div className="flex items-center justify-between py-3 border-t">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <BadgeMinus className="h-4 w-4" />
+                    <span>
+                      Late Fee
+                      {cyclePenalty?.status === 'waived' && ' (waived)'}
+                      {estimatedLateFee && (isPending || isVerified ? ' (charged at close)' : ' (if paid today)')}
+                    </span>
+                  </div>
+                  <span className={cyclePenalty?.status === 'waived' ? 'font-medium line-through text-muted-foreground' : 'font-medium text-red-600'}>
+                    {formatMoney(cyclePenalty ? Number(cyclePenalty.amount) : estimatedLateFee.amount, group.currency)}
+                  </span>
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {/* Late Fees */}
+          {(penalties.length > 0 || lateFeePolicy.type !== 'none') && (
+            <Card className="card-elevated">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <BadgeMinus className="h-5 w-5 text-primary" />
+                  </div>
+                  Late Fees
+                </CardTitle>
+                <CardDescription>
+                  {formatLateFeePolicy(lateFeePolicy, group.currency)}
+                  {penaltyTotals.outstanding > 0 && ` · ${formatMoney(penaltyTotals.outstanding, group.currency)} outstanding`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PenaltyLedger penalties={penalties} members={new Map()} currency={group.currency} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Cycle Payout */}
+          {cycle.recipient_id && (
+            <Card className="card-elevated">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <Wallet className="h-5 w-5 text-primary" />
+                  </div>
+                  Cycle Payout
+                </CardTitle>
+                <CardDescription>
+                  {isPayoutRecipient ? 'You receive this cycle\'s payout' : `${recipientName || 'A member'} receives this cycle's payout`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Status</span>
+                  {payout?.status === 'confirmed' ? (
+                    <Badge variant="outline" className="gap-1 bg-green-500/10 text-green-600 border-green-500/20">
+                      <CheckCircle className="h-3 w-3" />
+                      Received
+                    </Badge>
+                  ) : payout?.status === 'sent' ? (
+                    <Badge variant="outline" className="gap-1 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                      <Clock className="h-3 w-3" />
+                      Sent, Awaiting Confirmation
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="gap-1 bg-muted text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      Not Sent Yet
+                    </Badge>
+                  )}
+                </div>
+                {payout?.sent_at && (
+                  <>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Amount</span>
+                      <span className="font-medium">{formatMoney(payout.amount, group.currency)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Sent</span>
+                      <span className="font-medium">{format(new Date(payout.sent_at), 'PP')}</span>
+                    </div>
+                    {payout.reference && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Reference</span>
+                        <span className="font-medium">{payout.reference}</span>
+                      </div>
+                    )}
+                  </>
+                )}
+                {payout?.confirmed_at && (
+                  <p className="text-xs text-muted-foreground">
+                    Confirmed: {format(new Date(payout.confirmed_at), 'PPp')}
+                  </p>
+                )}
+                {isPayoutRecipient && payout?.status === 'sent' && (
+                  <Button onClick={confirmPayout} disabled={confirmingPayout} className="w-full">
+                    {confirmingPayout ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Confirming...
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Confirm Receipt
+                      </>
+                    )}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* E-Transfer Instructions */}
           <Card className="card-elevated">
             <CardHeader>
@@ -377,29 +573,61 @@ export default function Invoice() {
             </CardContent>
           </Card>
 
-          {/* Action Button */}
-          <div className="space-y-3">
-            {canMarkAsSent && (
-              <Button 
-                onClick={markAsSent} 
-                disabled={marking}
-                className="w-full h-12 text-lg shadow-soft"
-                size="lg"
-              >
-                {marking ? (
-                  <>
-                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                    Marking...
-                  </>
-                ) : (
-                  <>
-                    <Send className="mr-2 h-5 w-5" />
-                    Mark as Sent
-                  </>
-                )}
-              </Button>
-            )}
+          {/* Installments */}
+          {paymentLog && (
+            <Card className="card-elevated">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <DollarSign className="h-5 w-5 text-primary" />
+                  </div>
+                  Your Payments
+                </CardTitle>
+                <CardDescription>
+                  Send your contribution in one transfer or several. It counts as paid once the total is covered.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PaymentInstallments
+                  log={paymentLog}
+                  installments={installments}
+                  groupId={group.id}
+                  groupName={group.name}
+                  contributionAmount={amountDue}
+                  currency={group.currency}
+                  memberUserId={user.id}
+                  memberName={user.user_metadata?.name || user.email || 'Member'}
+                  currentUserId={user.id}
+                  currentUserName={user.user_metadata?.name || user.email || 'Member'}
+                  canSubmit={canRecordPayment}
+                  onChange={fetchInvoiceData}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Submissions, rejections and resubmissions */}
+          {paymentLog && paymentEvents.length > 0 && (
+            <Card className="card-elevated">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-primary/10">
+                    <MessageSquare className="h-5 w-5 text-primary" />
+                  </div>
+                  Payment History
+                </CardTitle>
+                <CardDescription>
+                  Each time you sent this payment and any reason the president gave for rejecting it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PaymentThread events={paymentEvents} currency={group.currency} />
+              </CardContent>
+            </Card>
+          )}
 
+          {/* Payment Status Messages */}
+          <div className="space-y-3">
             {isPending && (
               <div className="text-center py-6 px-4 bg-yellow-500/5 border border-yellow-500/20 rounded-xl">
                 <div className="p-3 rounded-full bg-yellow-500/10 w-fit mx-auto mb-3">
@@ -432,27 +660,14 @@ export default function Invoice() {
                   </div>
                   <p className="font-medium text-destructive">Payment Rejected</p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    The president could not verify your payment. Please try again.
+                    The president could not verify your last payment. Please record it again above.
                   </p>
-                </div>
-                <Button 
-                  onClick={markAsSent} 
-                  disabled={marking}
-                  className="w-full"
-                  variant="outline"
-                >
-                  {marking ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Marking...
-                    </>
-                  ) : (
-                    <>
-                      <Send className="mr-2 h-4 w-4" />
-                      Mark as Sent Again
-                    </>
+                  {latestRejection && (
+                    <p className="text-sm font-medium mt-2">
+                      Reason: {describeRejection(latestRejection.reason, latestRejection.note)}
+                    </p>
                   )}
-                </Button>
+                </div>
               </div>
             )}
           </div>
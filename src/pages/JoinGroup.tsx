@@ -9,7 +9,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { MemberRole } from '@/types/database';
+import { CurrencyCode, FrequencyUnit, GroupFrequency, MemberRole } from '@/types/database';
+import { formatMoney } from '@/lib/currency';
+import { getMemberContribution } from '@/lib/shares';
+import { formatFrequency } from '@/lib/frequency';
 import { 
   checkRateLimit, 
   RATE_LIMITS, 
@@ -29,8 +32,11 @@ export default function JoinGroup() {
   const [groupPreview, setGroupPreview] = useState<{
     id: string;
     name: string;
-    frequency: string;
+    frequency: GroupFrequency;
+    frequency_interval: number | null;
+    frequency_unit: FrequencyUnit | null;
     contribution_amount: number;
+    currency: CurrencyCode;
     memberCount: number;
   } | null>(null);
 
@@ -68,7 +74,7 @@ export default function JoinGroup() {
       // Use ilike for case-insensitive matching
       const { data: group, error } = await supabase
         .from('groups')
-        .select('id, name, frequency, contribution_amount')
+        .select('id, name, frequency, frequency_interval, frequency_unit, contribution_amount, currency')
         .ilike('invite_code', sanitizedCode)
         .maybeSingle();
 
@@ -172,7 +178,7 @@ export default function JoinGroup() {
       // Check if there's an active cycle and create a payment log for the new member
       const { data: activeCycle } = await supabase
         .from('payment_cycles')
-        .select('id')
+        .select('id, contribution_amount')
         .eq('group_id', groupPreview.id)
         .eq('status', 'active')
         .maybeSingle();
@@ -184,6 +190,9 @@ export default function JoinGroup() {
             cycle_id: activeCycle.id,
             member_id: memberData.id,
             status: 'unpaid',
+            amount_due: activeCycle.contribution_amount === null
+              ? null
+              : getMemberContribution(activeCycle.contribution_amount, memberData),
           });
       }
 
@@ -309,11 +318,11 @@ export default function JoinGroup() {
                   <div className="grid grid-cols-2 gap-4">
                     <div className="p-3 bg-background/60 rounded-lg">
                       <p className="text-xs text-muted-foreground mb-1">Frequency</p>
-                      <p className="font-medium capitalize">{groupPreview.frequency}</p>
+                      <p className="font-medium">{formatFrequency(groupPreview)}</p>
                     </div>
                     <div className="p-3 bg-background/60 rounded-lg">
                       <p className="text-xs text-muted-foreground mb-1">Contribution</p>
-                      <p className="font-medium">${groupPreview.contribution_amount}</p>
+                      <p className="font-medium">{formatMoney(groupPreview.contribution_amount, groupPreview.currency)}</p>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,433 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, CheckCircle, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatMoney } from '@/lib/currency';
+import {
+  confirmStatementMatches,
+  DATE_FORMAT_OPTIONS,
+  DEFAULT_MATCH_WINDOW_DAYS,
+  getStatementCandidates,
+  getStatementRows,
+  guessColumnMapping,
+  MATCH_WINDOW_OPTIONS,
+  matchStatement,
+  readStatement,
+  type MatchReason,
+  type StatementCandidate,
+  type StatementColumnMapping,
+  type StatementDateFormat,
+  type StatementFile,
+} from '@/lib/statementImport';
+import { cn } from '@/lib/utils';
+import { Group } from '@/types/database';
+
+type MappedField = 'date' | 'amount' | 'reference' | 'payer';
+
+const MAPPED_FIELDS: { field: MappedField; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'amount', label: 'Amount received', required: true },
+  { field: 'reference', label: 'Reference', required: false },
+  { field: 'payer', label: 'Payer name', required: false },
+];
+
+const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  reference: 'Reference',
+  name: 'Payer name',
+  date: 'Date',
+};
+
+// Radix Select items cannot have an empty value
+const NO_COLUMN = 'none';
+
+type ImportGroup = Pick<Group, 'id' | 'name' | 'currency' | 'contribution_amount' | 'president_id'>;
+
+export default function StatementImport() {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [group, setGroup] = useState<ImportGroup | null>(null);
+  const [candidates, setCandidates] = useState<StatementCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fileName, setFileName] = useState('');
+  const [statement, setStatement] = useState<StatementFile | null>(null);
+  const [mapping, setMapping] = useState<StatementColumnMapping | null>(null);
+  const [windowDays, setWindowDays] = useState(DEFAULT_MATCH_WINDOW_DAYS);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/login');
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchCandidates = useCallback(async () => {
+    if (!user || !id) return;
+    setLoading(true);
+    try {
+      const { data: groupData, error: groupError } = await supabase
+        .from('groups')
+        .select('id, name, currency, contribution_amount, president_id')
+        .eq('id', id)
+        .single();
+
+      if (groupError) throw groupError;
+
+      const { data: membership } = await supabase
+        .from('group_members')
+        .select('role')
+        .eq('group_id', id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (groupData.president_id !== user.id && membership?.role !== 'vice_president') {
+        toast({
+          title: "Access Denied",
+          description: "Only group officers can import statements.",
+          variant: "destructive",
+        });
+        navigate(`/groups/${id}`);
+        return;
+      }
+
+      setGroup(groupData as ImportGroup);
+      setCandidates(await getStatementCandidates(groupData as ImportGroup));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load the group's payments";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id, toast, navigate]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  const rows = useMemo(() => {
+    if (!statement || !mapping) return [];
+    return getStatementRows(statement, mapping, group?.currency);
+  }, [statement, mapping, group?.currency]);
+
+  const matches = useMemo(
+    () => matchStatement(rows, candidates, windowDays, group?.currency),
+    [rows, candidates, windowDays, group?.currency]
+  );
+
+  // Confident matches start ticked; the rest are left for the officer to check
+  useEffect(() => {
+    setSelected(new Set(matches.filter(m => m.confident).map(m => m.row.line)));
+  }, [matches]);
+
+  const selectedMatches = matches.filter(m => selected.has(m.row.line));
+  const unmatchedCount = rows.length - matches.length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = readStatement(await file.text());
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('No rows found. Please choose a CSV export of your statement.');
+      }
+      setFileName(file.name);
+      setStatement(parsed);
+      setMapping(guessColumnMapping(parsed));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to read the statement";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleMatch = (line: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(line)) {
+        next.delete(line);
+      } else {
+        next.add(line);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!user || selectedMatches.length === 0) return;
+
+    setConfirming(true);
+    try {
+      const result = await confirmStatementMatches({
+        matches: selectedMatches,
+        actorId: user.id,
+        actorName: user.user_metadata?.name || user.email || 'Officer',
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      toast({
+        title: "Payments Verified",
+        description: `${result.verifiedCount} ${result.verifiedCount === 1 ? 'payment' : 'payments'} verified from the statement.`
+          + (result.skippedCount > 0 ? ` ${result.skippedCount} had already been settled.` : ''),
+      });
+      fetchCandidates();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to confirm matches";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const mappingIncomplete = !mapping || mapping.date === null || mapping.amount === null;
+
+  return (
+    <div className="min-h-screen bg-background dark:bg-[#020617]">
+      <header className="border-b border-border/50 dark:border-white/5 bg-background/80 dark:bg-slate-900/60 backdrop-blur-xl sticky top-0 z-50">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="rounded-full" asChild>
+              <Link to={`/groups/${id}`} aria-label="Back to group">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-lg font-semibold text-slate-900 dark:text-white">Import Statement</h1>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {loading
+                  ? 'Loading payments…'
+                  : `${group?.name || 'Group'} · ${candidates.length} ${candidates.length === 1 ? 'payment' : 'payments'} unpaid or awaiting verification`}
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Statement file */}
+        <section className="p-6 rounded-[20px] border border-slate-100 dark:border-white/5 bg-white dark:bg-slate-900/40 space-y-3">
+          <div>
+            <h2 className="font-semibold text-slate-900 dark:text-white">Statement</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              Download a CSV statement from your bank or mobile-money provider covering the payments you're expecting.
+            </p>
+          </div>
+          <label className="flex items-center gap-3 px-4 py-3 rounded-xl border border-dashed border-slate-200 dark:border-white/10 cursor-pointer hover:bg-slate-50 dark:hover:bg-white/5">
+            <Upload className="h-4 w-4 text-slate-500" strokeWidth={1.5} />
+            <span className="text-sm text-slate-600 dark:text-slate-300">
+              {fileName ? `${fileName} · ${statement?.rows.length || 0} rows` : 'Choose a CSV file'}
+            </span>
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </section>
+
+        {/* Column mapping */}
+        {statement && mapping && (
+          <section className="p-6 rounded-[20px] border border-slate-100 dark:border-white/5 bg-white dark:bg-slate-900/40 space-y-4">
+            <div>
+              <h2 className="font-semibold text-slate-900 dark:text-white">Columns</h2>
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Check which column holds each detail. Only money received is matched.
+              </p>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
+              {MAPPED_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{label}{!required && ' (optional)'}</Label>
+                  <Select
+                    value={mapping[field] === null ? NO_COLUMN : String(mapping[field])}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NO_COLUMN ? null : Number(value) })}
+                  >
+                    <SelectTrigger aria-label={`${label} column`}>
+                      <SelectValue placeholder="Choose a column" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in statement</SelectItem>
+                      {statement.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Date format</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(value) => setMapping({ ...mapping, dateFormat: value as StatementDateFormat })}
+                >
+                  <SelectTrigger aria-label="Date format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMAT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Match within</Label>
+                <Select value={String(windowDays)} onValueChange={(value) => setWindowDays(Number(value))}>
+                  <SelectTrigger aria-label="Match window">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MATCH_WINDOW_OPTIONS.map(days => (
+                      <SelectItem key={days} value={String(days)}>
+                        {days} days
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {/* Matches */}
+        {statement && (
+          <section className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-[20px] border border-slate-100 dark:border-white/5 bg-white dark:bg-slate-900/40">
+              <p className="text-sm text-slate-600 dark:text-slate-300">
+                {mappingIncomplete
+                  ? 'Choose the date and amount columns to match payments.'
+                  : `${matches.length} of ${rows.length} payments received matched`
+                    + (unmatchedCount > 0 ? ` · ${unmatchedCount} not matched` : '')}
+              </p>
+              <Button
+                size="sm"
+                className="bg-green-500 hover:bg-green-600 text-white rounded-lg dark:bg-green-600 dark:hover:bg-green-700"
+                onClick={handleConfirm}
+                disabled={confirming || selectedMatches.length === 0}
+              >
+                {confirming ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                )}
+                Verify {selectedMatches.length} {selectedMatches.length === 1 ? 'payment' : 'payments'}
+              </Button>
+            </div>
+
+            {loading ? (
+              <div className="space-y-3">
+                {[1, 2, 3].map(i => (
+                  <Skeleton key={i} className="h-20 w-full rounded-[20px]" />
+                ))}
+              </div>
+            ) : matches.length === 0 ? (
+              <EmptyState
+                icon={FileSpreadsheet}
+                title="No matches"
+                description="None of the money received matches an unpaid or pending payment. Check the column mapping or widen the match window."
+              />
+            ) : (
+              <div className="space-y-3">
+                {matches.map(match => (
+                  <label
+                    key={match.row.line}
+                    className={cn(
+                      'flex gap-4 p-4 rounded-[20px] border border-slate-100 dark:border-white/5 bg-white dark:bg-slate-900/40 cursor-pointer',
+                      selected.has(match.row.line) && 'bg-green-500/5 dark:bg-green-500/10'
+                    )}
+                  >
+                    <Checkbox
+                      className="mt-1"
+                      checked={selected.has(match.row.line)}
+                      onCheckedChange={() => toggleMatch(match.row.line)}
+                      aria-label={`Verify ${match.candidate.memberName}'s payment`}
+                    />
+                    <div className="flex-1 min-w-0 grid gap-3 sm:grid-cols-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 dark:text-white">
+                          {formatMoney(match.row.amount, group?.currency)}
+                          {match.row.date && (
+                            <span className="ml-2 text-sm font-normal text-slate-500 dark:text-slate-400">
+                              {format(match.row.date, 'MMM d, yyyy')}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 truncate">
+                          {match.row.payer || 'No payer details'}
+                          {match.row.reference && ` · Ref ${match.row.reference}`}
+                        </p>
+                      </div>
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-medium text-slate-900 dark:text-white">{match.candidate.memberName}</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                          {match.candidate.cycleNumber ? `Cycle ${match.candidate.cycleNumber}` : 'Cycle'} due {format(new Date(match.candidate.dueDate), 'MMM d')}
+                          {' · '}{match.candidate.log.status === 'pending' ? 'Awaiting verification' : 'Unpaid'}
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {match.reasons.map(reason => (
+                            <Badge key={reason} variant="outline" className="text-xs">
+                              {MATCH_REASON_LABELS[reason]}
+                            </Badge>
+                          ))}
+                          {!match.confident && (
+                            <Badge variant="outline" className="text-xs border-amber-200 text-amber-700 dark:border-amber-500/30 dark:text-amber-400">
+                              Check before verifying
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
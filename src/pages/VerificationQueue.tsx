@@ -0,0 +1,376 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { formatDistanceToNow, format } from 'date-fns';
+import { ArrowLeft, CheckCircle, ClipboardCheck, Keyboard, Loader2, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { PaymentProof } from '@/components/PaymentProof';
+import { RejectPaymentDialog } from '@/components/RejectPaymentDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { formatMoney } from '@/lib/currency';
+import { PAYMENT_METHOD_LABELS } from '@/lib/installments';
+import { type Rejection } from '@/lib/paymentEvents';
+import { getVerificationQueue, reviewPayments, type VerificationItem } from '@/lib/verificationQueue';
+import { cn } from '@/lib/utils';
+
+const SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'J / ↓', action: 'Next payment' },
+  { keys: 'K / ↑', action: 'Previous payment' },
+  { keys: 'X / Space', action: 'Select or deselect' },
+  { keys: 'A', action: 'Select all or none' },
+  { keys: 'V', action: 'Verify selected' },
+  { keys: 'R', action: 'Reject selected' },
+  { keys: 'Esc', action: 'Clear selection' },
+];
+
+// Shortcuts are ignored while typing
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export default function VerificationQueue() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [items, setItems] = useState<VerificationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const [reviewing, setReviewing] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+
+  const actorName = user?.user_metadata?.name || user?.email || 'Officer';
+  const selectedItems = useMemo(() => items.filter(item => selected.has(item.log.id)), [items, selected]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/login');
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchQueue = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const queue = await getVerificationQueue(user.id);
+      setItems(queue);
+      setSelected(new Set());
+      setFocusedIndex(index => Math.min(index, Math.max(queue.length - 1, 0)));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load the verification queue";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const toggleItem = useCallback((logId: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(logId)) {
+        next.delete(logId);
+      } else {
+        next.add(logId);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleAll = useCallback(() => {
+    setSelected(current => (current.size === items.length ? new Set() : new Set(items.map(item => item.log.id))));
+  }, [items]);
+
+  const handleReview = useCallback(async (verify: boolean, rejection?: Rejection) => {
+    if (!user || selectedItems.length === 0) return;
+
+    setReviewing(true);
+    try {
+      const result = await reviewPayments({
+        items: selectedItems,
+        verify,
+        rejection,
+        actorId: user.id,
+        actorName,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const count = `${result.reviewedCount} ${result.reviewedCount === 1 ? 'payment' : 'payments'}`;
+      toast({
+        title: verify ? "Payments Verified" : "Payments Rejected",
+        description: `${count} ${verify ? 'verified' : 'rejected and the members notified'}.`
+          + (result.skippedCount > 0 ? ` ${result.skippedCount} had already been reviewed.` : ''),
+      });
+      setRejectOpen(false);
+      fetchQueue();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to review payments";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setReviewing(false);
+    }
+  }, [user, selectedItems, actorName, toast, fetchQueue]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (rejectOpen || reviewing || e.metaKey || e.ctrlKey || e.altKey || isTyping(e.target)) return;
+      // Space on a focused checkbox or button already toggles it
+      if (e.key === ' ' && e.target instanceof HTMLButtonElement) return;
+
+      const focused = items[focusedIndex];
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          setFocusedIndex(index => Math.min(index + 1, items.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          setFocusedIndex(index => Math.max(index - 1, 0));
+          break;
+        case 'x':
+        case ' ':
+          if (focused) toggleItem(focused.log.id);
+          break;
+        case 'a':
+          toggleAll();
+          break;
+        case 'v':
+          handleReview(true);
+          break;
+        case 'r':
+          if (selectedItems.length > 0) setRejectOpen(true);
+          break;
+        case 'Escape':
+          setSelected(new Set());
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [items, focusedIndex, selectedItems, rejectOpen, reviewing, toggleItem, toggleAll, handleReview]);
+
+  // Keep the focused payment on screen while moving through the queue
+  useEffect(() => {
+    const focused = items[focusedIndex];
+    if (focused) {
+      document.getElementById(`verification-${focused.log.id}`)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [items, focusedIndex]);
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const groupCount = new Set(items.map(item => item.groupId)).size;
+
+  return (
+    <div className="min-h-screen bg-background dark:bg-[#020617]">
+      <header className="border-b border-border/50 dark:border-white/5 bg-background/80 dark:bg-slate-900/60 backdrop-blur-xl sticky top-0 z-50">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" className="rounded-full" asChild>
+              <Link to="/dashboard" aria-label="Back to dashboard">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-lg font-semibold text-slate-900 dark:text-white">Verification Queue</h1>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {loading
+                  ? 'Loading payments…'
+                  : `${items.length} ${items.length === 1 ? 'payment' : 'payments'} awaiting verification across ${groupCount} ${groupCount === 1 ? 'group' : 'groups'}`}
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 grid gap-6 lg:grid-cols-[1fr_260px]">
+        <div className="space-y-4">
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-[20px] border border-slate-100 dark:border-white/5 bg-white dark:bg-slate-900/40">
+            <label className="flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <Checkbox
+                checked={items.length > 0 && selected.size === items.length}
+                onCheckedChange={toggleAll}
+                disabled={items.length === 0}
+                aria-label="Select all payments"
+              />
+              {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+            </label>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="rounded-lg border-red-200 text-red-600 hover:bg-red-50"
+                onClick={() => setRejectOpen(true)}
+                disabled={reviewing || selected.size === 0}
+              >
+                <XCircle className="w-4 h-4 mr-1" strokeWidth={1.5} />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                className="bg-green-500 hover:bg-green-600 text-white rounded-lg dark:bg-green-600 dark:hover:bg-green-700"
+                onClick={() => handleReview(true)}
+                disabled={reviewing || selected.size === 0}
+              >
+                {reviewing ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                )}
+                Verify{selected.size > 0 && ` ${selected.size}`}
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map(i => (
+                <Skeleton key={i} className="h-24 w-full rounded-[20px]" />
+              ))}
+            </div>
+          ) : items.length === 0 ? (
+            <EmptyState
+              icon={ClipboardCheck}
+              title="All caught up"
+              description="No payments are waiting to be verified in the groups you help run."
+            />
+          ) : (
+            <div className="space-y-3">
+              {items.map((item, index) => (
+                <div
+                  key={item.log.id}
+                  id={`verification-${item.log.id}`}
+                  onClick={() => setFocusedIndex(index)}
+                  className={cn(
+                    'flex gap-4 p-4 rounded-[20px] border bg-white dark:bg-slate-900/40 transition-colors',
+                    index === focusedIndex
+                      ? 'border-slate-400 dark:border-white/30'
+                      : 'border-slate-100 dark:border-white/5',
+                    selected.has(item.log.id) && 'bg-green-500/5 dark:bg-green-500/10'
+                  )}
+                >
+                  <Checkbox
+                    className="mt-3"
+                    checked={selected.has(item.log.id)}
+                    onCheckedChange={() => toggleItem(item.log.id)}
+                    aria-label={`Select ${item.memberName}'s payment`}
+                  />
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={item.avatarUrl || ''} />
+                    <AvatarFallback className="bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                      {item.memberName.charAt(0)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900 dark:text-white">{item.memberName}</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                          <Link to={`/groups/${item.groupId}`} className="hover:underline">{item.groupName}</Link>
+                          {' · '}Cycle due {format(new Date(item.dueDate), 'MMM d')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold text-slate-900 dark:text-white">{formatMoney(item.amountDue, item.currency)}</p>
+                        {item.log.marked_at && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400">
+                            Sent {formatDistanceToNow(new Date(item.log.marked_at), { addSuffix: true })}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    {item.installments.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {item.installments.map(installment => (
+                          <div key={installment.id} className="flex items-center gap-2 rounded-lg border border-slate-100 dark:border-white/10 px-2 py-1.5">
+                            {installment.proof_path && <PaymentProof path={installment.proof_path} />}
+                            <div className="text-xs">
+                              <p className="font-medium text-slate-900 dark:text-white">{formatMoney(installment.amount, item.currency)}</p>
+                              <p className="text-slate-500 dark:text-slate-400">
+                                {installment.payment_method ? PAYMENT_METHOD_LABELS[installment.payment_method] : 'Sent'}
+                                {installment.reference && ` · Ref ${installment.reference}`}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <Badge variant="outline" className="text-xs">Marked as sent in full</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Keyboard shortcuts */}
+        <aside className="hidden lg:block">
+          <div className="sticky top-24 p-4 rounded-[20px] border border-slate-100 dark:border-white/5 bg-white dark:bg-slate-900/40 space-y-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-slate-900 dark:text-white">
+              <Keyboard className="h-4 w-4" />
+              Keyboard Shortcuts
+            </p>
+            <dl className="space-y-2 text-sm">
+              {SHORTCUTS.map(shortcut => (
+                <div key={shortcut.keys} className="flex items-center justify-between gap-3">
+                  <dt>
+                    <kbd className="px-1.5 py-0.5 rounded border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-slate-800 text-xs font-mono">
+                      {shortcut.keys}
+                    </kbd>
+                  </dt>
+                  <dd className="text-slate-500 dark:text-slate-400">{shortcut.action}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </aside>
+      </main>
+
+      <RejectPaymentDialog
+        open={rejectOpen}
+        onOpenChange={setRejectOpen}
+        memberName={selectedItems[0]?.memberName || 'The member'}
+        amount={selectedItems[0]?.amountDue || 0}
+        currency={selectedItems[0]?.currency}
+        description={selectedItems.length > 1
+          ? `${selectedItems.length} members will each be told why their payment was rejected so they can send it again.`
+          : undefined}
+        rejecting={reviewing}
+        onReject={(rejection) => handleReview(false, rejection)}
+      />
+    </div>
+  );
+}
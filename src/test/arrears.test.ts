@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from "vitest";
+import { calculateArrears, getArrearsBalance } from "@/lib/arrears";
+import type { InstallmentStatus, PaymentStatus } from "@/types/database";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const cycle = (id: string, day: number, status: "active" | "closed" = "closed") => ({
+  id,
+  status,
+  due_date: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+});
+
+const log = (id: string, cycle_id: string, status: PaymentStatus) => ({ id, cycle_id, status });
+const installment = (payment_log_id: string, amount: number, status: InstallmentStatus = "verified") => ({
+  payment_log_id,
+  amount,
+  status,
+});
+
+describe("arrears", () => {
+  describe("calculateArrears", () => {
+    const cycles = [cycle("c2", 14), cycle("c1", 7), cycle("c3", 21, "active")];
+
+    it("owes a full contribution for each closed cycle left unpaid, oldest first", () => {
+      const breakdown = calculateArrears(
+        100,
+        cycles,
+        [log("l1", "c1", "unpaid"), log("l2", "c2", "rejected"), log("l3", "c3", "unpaid")],
+        []
+      );
+
+      expect(breakdown.items.map(item => item.cycleId)).toEqual(["c1", "c2"]);
+      expect(breakdown.total).toBe(200);
+    });
+
+    it("skips verified cycles and takes off verified installments", () => {
+      const breakdown = calculateArrears(
+        100,
+        cycles,
+        [log("l1", "c1", "verified"), log("l2", "c2", "unpaid")],
+        [installment("l2", 40), installment("l2", 30, "pending"), installment("l2", 10, "rejected")]
+      );
+
+      expect(breakdown.items).toEqual([
+        { cycleId: "c2", dueDate: "2024-01-14T00:00:00Z", due: 100, paid: 40, owed: 60 },
+      ]);
+      expect(breakdown.total).toBe(60);
+    });
+
+    it("leaves out payments still awaiting verification", () => {
+      const breakdown = calculateArrears(
+        100,
+        cycles,
+        [log("l1", "c1", "pending"), log("l2", "c2", "unpaid")],
+        [installment("l1", 40), installment("l1", 60, "pending")]
+      );
+
+      expect(breakdown.items.map(item => item.cycleId)).toEqual(["c2"]);
+      expect(breakdown.total).toBe(100);
+    });
+
+    it("leaves out cycles already covered by an arrears record", () => {
+      const breakdown = calculateArrears(
+        50.5,
+        cycles,
+        [log("l1", "c1", "unpaid"), log("l2", "c2", "unpaid")],
+        [],
+        ["c1"]
+      );
+
+      expect(breakdown.items.map(item => item.cycleId)).toEqual(["c2"]);
+      expect(breakdown.total).toBe(50.5);
+    });
+
+    it("owes nothing for cycles the member had no log in", () => {
+      expect(calculateArrears(100, cycles, [], [])).toEqual({ items: [], total: 0 });
+    });
+  });
+
+  describe("getArrearsBalance", () => {
+    it("is what is left after payments, never below zero", () => {
+      expect(getArrearsBalance({ amount: 100.1, amount_paid: 33.37 })).toBe(66.73);
+      expect(getArrearsBalance({ amount: 50, amount_paid: 60 })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,744 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createLocalDb, localRpc, resetLocalDb, signInAs } from "./localDb";
+import { closeCycle, previewCycleClose, reopenCycle } from "@/lib/cycleManagement";
+
+let db: PGlite;
+
+// Route supabase.rpc() calls to the local database; activity log writes are ignored
+vi.mock("@/integrations/supabase/client", async () => {
+  const { localRpc } = await import("./localDb");
+  return {
+    supabase: {
+      from: () => ({ insert: async () => ({ error: null }) }),
+      rpc: localRpc(() => db),
+    },
+  };
+});
+
+const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+const USERS = [
+  "00000000-0000-0000-0000-000000000002",
+  "00000000-0000-0000-0000-000000000003",
+  "00000000-0000-0000-0000-000000000004",
+];
+
+interface SeedLog {
+  status: string;
+  missed?: number;
+  streak?: number;
+  markedAt?: string;
+  extendedUntil?: string;
+  shares?: number;
+}
+
+interface SeedPolicy {
+  threshold?: number;
+  countMode?: "consecutive" | "cumulative";
+  graceDays?: number | null;
+  decayCycles?: number | null;
+  lateFeeType?: "none" | "flat" | "percent";
+  lateFeeAmount?: number;
+  lateFeePerDay?: boolean;
+}
+
+const DUE_DATE = "2024-03-01T00:00:00Z";
+
+async function seedCycle(logs: SeedLog[], policy: SeedPolicy = {}) {
+  await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, ...USERS]]);
+  const { rows: [group] } = await db.query<{ id: string }>(
+    `INSERT INTO groups (name, president_id, lock_threshold, lock_count_mode, lock_grace_days, lock_decay_cycles,
+       late_fee_type, late_fee_amount, late_fee_per_day)
+     VALUES ('Test Group', $1, $2, $3, $4, $5, $6, $7, $8) RETURNING id`,
+    [
+      PRESIDENT,
+      policy.threshold ?? 3,
+      policy.countMode ?? "consecutive",
+      policy.graceDays ?? null,
+      policy.decayCycles ?? null,
+      policy.lateFeeType ?? "none",
+      policy.lateFeeAmount ?? 0,
+      policy.lateFeePerDay ?? false,
+    ]
+  );
+  const { rows: [cycle] } = await db.query<{ id: string }>(
+    "INSERT INTO payment_cycles (group_id, due_date) VALUES ($1, $2) RETURNING id",
+    [group.id, DUE_DATE]
+  );
+
+  const memberIds: string[] = [];
+  for (const [index, log] of logs.entries()) {
+    const { rows: [member] } = await db.query<{ id: string }>(
+      `INSERT INTO group_members (group_id, user_id, queue_position, missed_payment_count, on_time_streak, shares)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+      [group.id, USERS[index], index + 1, log.missed || 0, log.streak || 0, log.shares ?? 1]
+    );
+    await db.query(
+      "INSERT INTO payment_logs (cycle_id, member_id, status, marked_at, extended_until) VALUES ($1, $2, $3, $4, $5)",
+      [cycle.id, member.id, log.status, log.markedAt || null, log.extendedUntil || null]
+    );
+    memberIds.push(member.id);
+  }
+
+  return { groupId: group.id, cycleId: cycle.id, memberIds };
+}
+
+// Opens the group's next cycle with a verified payment from each member
+async function seedNextCycle(groupId: string, memberIds: string[]) {
+  const { rows: [cycle] } = await db.query<{ id: string }>(
+    "INSERT INTO payment_cycles (group_id, due_date) VALUES ($1, '2024-04-01T00:00:00Z') RETURNING id",
+    [groupId]
+  );
+  await db.query(
+    "INSERT INTO payment_logs (cycle_id, member_id, status, marked_at) SELECT $1, unnest($2::uuid[]), 'verified', '2024-03-25T00:00:00Z'",
+    [cycle.id, memberIds]
+  );
+  return cycle.id;
+}
+
+// Moves the end of a member's extension into the past
+async function endExtension(memberId: string, until = "2024-03-10T00:00:00Z") {
+  await db.query("UPDATE payment_logs SET extended_until = $2 WHERE member_id = $1 AND miss_deferred", [memberId, until]);
+}
+
+async function getMember(id: string) {
+  const { rows } = await db.query<{ status: string; missed_payment_count: number; on_time_streak: number }>(
+    "SELECT status, missed_payment_count, on_time_streak FROM group_members WHERE id = $1",
+    [id]
+  );
+  return rows[0];
+}
+
+describe("closeCycle (close_payment_cycle)", () => {
+  beforeAll(async () => {
+    db = await createLocalDb();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  }, 60000);
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await resetLocalDb(db);
+    await signInAs(db, PRESIDENT);
+  });
+
+  it("records missed payments and locks members reaching the limit", async () => {
+    const { cycleId, memberIds } = await seedCycle([
+      { status: "verified" },
+      { status: "unpaid", missed: 2 },
+      { status: "rejected" },
+    ]);
+
+    const result = await closeCycle(cycleId);
+
+    expect(result.success).toBe(true);
+    expect(result.alreadyClosed).toBe(false);
+    expect(result.missedPayments).toBe(2);
+    expect(result.lockedMembers).toEqual([memberIds[1]]);
+    expect(result.report.verifiedCount).toBe(1);
+    expect(result.report.members).toHaveLength(2);
+
+    expect(await getMember(memberIds[0])).toMatchObject({ status: "active", missed_payment_count: 0 });
+    expect(await getMember(memberIds[1])).toMatchObject({ status: "locked", missed_payment_count: 3 });
+    expect(await getMember(memberIds[2])).toMatchObject({ status: "active", missed_payment_count: 1 });
+
+    const { rows } = await db.query<{ status: string; closed_at: string | null }>(
+      "SELECT status, closed_at FROM payment_cycles WHERE id = $1",
+      [cycleId]
+    );
+    expect(rows[0].status).toBe("closed");
+    expect(rows[0].closed_at).not.toBeNull();
+  });
+
+  it("is idempotent when retried", async () => {
+    const { cycleId, memberIds } = await seedCycle([{ status: "unpaid" }, { status: "pending" }]);
+
+    const first = await closeCycle(cycleId);
+    const retry = await closeCycle(cycleId);
+
+    expect(retry.success).toBe(true);
+    expect(retry.alreadyClosed).toBe(true);
+    expect(retry.missedPayments).toBe(first.missedPayments);
+    expect(retry.report.members).toEqual(first.report.members);
+    expect(retry.report.pendingCount).toBe(1);
+    expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 1 });
+  });
+
+  it("only counts a missed payment once when a second close arrives mid-flight", async () => {
+    const { cycleId, memberIds } = await seedCycle([{ status: "unpaid" }]);
+
+    const results = await Promise.all([closeCycle(cycleId), closeCycle(cycleId)]);
+
+    expect(results.filter(r => r.alreadyClosed)).toHaveLength(1);
+    expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 1 });
+  });
+
+  it("does not report members who were already locked as newly locked", async () => {
+    const { cycleId, memberIds } = await seedCycle([{ status: "unpaid", missed: 3 }]);
+    await db.query("UPDATE group_members SET status = 'locked' WHERE id = $1", [memberIds[0]]);
+
+    const result = await closeCycle(cycleId);
+
+    expect(result.lockedMembers).toEqual([]);
+    expect(await getMember(memberIds[0])).toMatchObject({ status: "locked", missed_payment_count: 4 });
+  });
+
+  it("rejects callers who are not the group president", async () => {
+    const { cycleId, memberIds } = await seedCycle([{ status: "unpaid" }]);
+    await signInAs(db, USERS[0]);
+
+    const result = await closeCycle(cycleId);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/president/);
+    expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0 });
+  });
+
+  it("rolls everything back when the close fails part way", async () => {
+    const { cycleId, memberIds } = await seedCycle([{ status: "unpaid" }, { status: "unpaid" }]);
+    // Make the final cycle update fail after the members have been updated
+    await db.exec(`
+      CREATE FUNCTION fail_close() RETURNS TRIGGER AS $$
+      BEGIN RAISE EXCEPTION 'connection lost'; END;
+      $$ LANGUAGE plpgsql;
+      CREATE TRIGGER fail_close BEFORE UPDATE ON payment_cycles FOR EACH ROW EXECUTE FUNCTION fail_close();
+    `);
+
+    try {
+      const result = await closeCycle(cycleId);
+      expect(result.success).toBe(false);
+    } finally {
+      await db.exec("DROP TRIGGER fail_close ON payment_cycles; DROP FUNCTION fail_close();");
+    }
+
+    expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0 });
+    expect(await getMember(memberIds[1])).toMatchObject({ missed_payment_count: 0 });
+  });
+
+  describe("preview", () => {
+    it("reports what a close would do without changing anything", async () => {
+      const { cycleId, memberIds } = await seedCycle(
+        [{ status: "unpaid", missed: 2 }, { status: "pending", markedAt: "2024-03-03T00:00:00Z" }, { status: "verified" }],
+        { lateFeeType: "flat", lateFeeAmount: 5 }
+      );
+
+      const preview = await previewCycleClose(cycleId);
+
+      expect(preview.success).toBe(true);
+      expect(preview.report.dryRun).toBe(true);
+      expect(preview.report.lockedMembers).toEqual([memberIds[0]]);
+      expect(preview.report.members).toEqual([
+        expect.objectContaining({ memberId: memberIds[0], missedPaymentCount: 3, status: "locked", locked: true }),
+      ]);
+      expect(preview.report.pendingMembers.map(m => m.memberId)).toEqual([memberIds[1]]);
+      expect(preview.report.penalties).toEqual([{ memberId: memberIds[1], paymentLogId: expect.any(String), amount: 5, daysLate: 2 }]);
+
+      expect(await getMember(memberIds[0])).toMatchObject({ status: "active", missed_payment_count: 2 });
+      const { rows: penalties } = await db.query("SELECT id FROM penalties WHERE cycle_id = $1", [cycleId]);
+      expect(penalties).toHaveLength(0);
+      const { rows } = await db.query<{ status: string }>("SELECT status FROM payment_cycles WHERE id = $1", [cycleId]);
+      expect(rows[0].status).toBe("active");
+    });
+
+    it("matches the report of the close that follows", async () => {
+      const { cycleId } = await seedCycle([{ status: "unpaid" }, { status: "rejected", missed: 1 }, { status: "verified" }]);
+
+      const preview = await previewCycleClose(cycleId);
+      const result = await closeCycle(cycleId);
+
+      expect(result.report.dryRun).toBe(false);
+      expect(result.report.members).toEqual(preview.report.members);
+      expect(result.report.lockedMembers).toEqual(preview.report.lockedMembers);
+    });
+  });
+
+  describe("lock policy", () => {
+    it("locks at the group's own threshold", async () => {
+      const { cycleId, memberIds } = await seedCycle([{ status: "unpaid", missed: 1 }], { threshold: 2 });
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.lockedMembers).toEqual([memberIds[0]]);
+      expect(result.report.policy).toMatchObject({ threshold: 2, countMode: "consecutive" });
+      expect(await getMember(memberIds[0])).toMatchObject({ status: "locked", missed_payment_count: 2 });
+    });
+
+    it("resets the count after an on-time payment in consecutive mode", async () => {
+      const { cycleId, memberIds } = await seedCycle([{ status: "verified", missed: 2 }]);
+
+      await closeCycle(cycleId);
+
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0, on_time_streak: 1 });
+    });
+
+    it("keeps the count after an on-time payment in cumulative mode", async () => {
+      const { cycleId, memberIds } = await seedCycle([{ status: "verified", missed: 2 }], { countMode: "cumulative" });
+
+      await closeCycle(cycleId);
+
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 2, on_time_streak: 1 });
+    });
+
+    it("removes one miss after the decay streak in cumulative mode", async () => {
+      const { cycleId, memberIds } = await seedCycle(
+        [{ status: "verified", missed: 2, streak: 1 }, { status: "unpaid", missed: 1, streak: 1 }],
+        { countMode: "cumulative", decayCycles: 2 }
+      );
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.report.decayedMembers).toEqual([memberIds[0]]);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 1, on_time_streak: 0 });
+      expect(await getMember(memberIds[1])).toMatchObject({ missed_payment_count: 2, on_time_streak: 0 });
+    });
+
+    it("counts payments marked after the grace period as missed", async () => {
+      const { cycleId, memberIds } = await seedCycle(
+        [
+          { status: "verified", markedAt: "2024-03-03T12:00:00Z" },
+          { status: "pending", markedAt: "2024-03-06T12:00:00Z" },
+        ],
+        { graceDays: 3 }
+      );
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.missedPayments).toBe(1);
+      expect(result.report.members[0]).toMatchObject({ memberId: memberIds[1], logStatus: "pending", late: true });
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0 });
+      expect(await getMember(memberIds[1])).toMatchObject({ missed_payment_count: 1 });
+    });
+
+    it("does not count a miss for a member given an extension past the close", async () => {
+      const { cycleId, memberIds } = await seedCycle([
+        { status: "unpaid", extendedUntil: "2999-01-01T00:00:00Z" },
+        { status: "unpaid", extendedUntil: "2024-03-05T00:00:00Z" },
+      ]);
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.report.extendedMembers.map(m => m.memberId)).toEqual([memberIds[0]]);
+      expect(result.report.members.map(m => m.memberId)).toEqual([memberIds[1]]);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0 });
+    });
+
+    it("records the miss at the next close when an extension ends unpaid", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([
+        { status: "unpaid", missed: 2, extendedUntil: "2999-01-01T00:00:00Z" },
+        { status: "verified" },
+      ]);
+      await closeCycle(cycleId);
+      await endExtension(memberIds[0]);
+      const nextCycleId = await seedNextCycle(groupId, memberIds);
+
+      const preview = await previewCycleClose(nextCycleId);
+      const result = await closeCycle(nextCycleId);
+
+      expect(preview.report?.lapsedExtensions).toEqual(result.report.lapsedExtensions);
+      expect(result.report.lapsedExtensions).toEqual([
+        expect.objectContaining({
+          cycleId,
+          memberId: memberIds[0],
+          logStatus: "unpaid",
+          missed: true,
+          missedPaymentCount: 3,
+          locked: true,
+        }),
+      ]);
+      expect(result.lockedMembers).toEqual([memberIds[0]]);
+      expect(await getMember(memberIds[0])).toMatchObject({ status: "locked" });
+    });
+
+    it("settles an ended extension only once", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([
+        { status: "unpaid", extendedUntil: "2999-01-01T00:00:00Z" },
+      ]);
+      await closeCycle(cycleId);
+      await endExtension(memberIds[0]);
+      await closeCycle(await seedNextCycle(groupId, memberIds));
+
+      const result = await closeCycle(await seedNextCycle(groupId, memberIds));
+
+      expect(result.report.lapsedExtensions).toEqual([]);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0, on_time_streak: 2 });
+    });
+
+    it("does not count a miss when the payment arrives before the extension ends", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle(
+        [{ status: "unpaid", extendedUntil: "2999-01-01T00:00:00Z" }],
+        { graceDays: 0 }
+      );
+      await closeCycle(cycleId);
+      await endExtension(memberIds[0]);
+      await db.query(
+        "UPDATE payment_logs SET status = 'verified', marked_at = '2024-03-08T00:00:00Z' WHERE cycle_id = $1",
+        [cycleId]
+      );
+
+      const result = await closeCycle(await seedNextCycle(groupId, memberIds));
+
+      expect(result.report.lapsedExtensions).toEqual([
+        expect.objectContaining({ memberId: memberIds[0], missed: false, late: false }),
+      ]);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 0 });
+    });
+
+    it("ignores late payments when no grace period is set", async () => {
+      const { cycleId } = await seedCycle([{ status: "verified", markedAt: "2024-04-01T00:00:00Z" }]);
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.missedPayments).toBe(0);
+    });
+  });
+
+  describe("late fees", () => {
+    async function getPenalties(cycleId: string) {
+      const { rows } = await db.query<{ member_id: string; amount: string; days_late: number }>(
+        "SELECT member_id, amount, days_late FROM penalties WHERE cycle_id = $1 ORDER BY amount",
+        [cycleId]
+      );
+      return rows.map(row => ({ ...row, amount: Number(row.amount) }));
+    }
+
+    it("charges a flat fee on payments marked after the due date", async () => {
+      const { cycleId, memberIds } = await seedCycle(
+        [
+          { status: "verified", markedAt: "2024-02-28T12:00:00Z" },
+          { status: "verified", markedAt: "2024-03-03T12:00:00Z" },
+          { status: "unpaid" },
+        ],
+        { lateFeeType: "flat", lateFeeAmount: 5 }
+      );
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.report.penalties).toEqual([{ memberId: memberIds[1], paymentLogId: expect.any(String), amount: 5, daysLate: 3 }]);
+      expect(await getPenalties(cycleId)).toEqual([{ member_id: memberIds[1], amount: 5, days_late: 3 }]);
+    });
+
+    it("counts days late from the end of an extension", async () => {
+      const { cycleId, memberIds } = await seedCycle(
+        [
+          { status: "verified", markedAt: "2024-03-03T12:00:00Z", extendedUntil: "2024-03-05T00:00:00Z" },
+          { status: "verified", markedAt: "2024-03-07T12:00:00Z", extendedUntil: "2024-03-05T00:00:00Z" },
+        ],
+        { lateFeeType: "flat", lateFeeAmount: 5, lateFeePerDay: true }
+      );
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.report.penalties).toEqual([{ memberId: memberIds[1], paymentLogId: expect.any(String), amount: 15, daysLate: 3 }]);
+    });
+
+    it("charges a percentage of the contribution per day late", async () => {
+      const { cycleId } = await seedCycle(
+        [{ status: "pending", markedAt: "2024-03-02T12:00:00Z" }],
+        { lateFeeType: "percent", lateFeeAmount: 2.5, lateFeePerDay: true }
+      );
+
+      await closeCycle(cycleId);
+
+      // 2.5% of 100 = 2.50 per day, 2 days late
+      expect((await getPenalties(cycleId))[0]).toMatchObject({ amount: 5, days_late: 2 });
+    });
+
+    it("scales a percentage fee with the member's hands", async () => {
+      const { cycleId } = await seedCycle(
+        [{ status: "pending", markedAt: "2024-03-01T12:00:00Z", shares: 2 }],
+        { lateFeeType: "percent", lateFeeAmount: 5 }
+      );
+
+      await closeCycle(cycleId);
+
+      // 5% of a 2 x 100 contribution
+      expect((await getPenalties(cycleId))[0]).toMatchObject({ amount: 10, days_late: 1 });
+    });
+
+    it("charges nothing when the group has no late fee", async () => {
+      const { cycleId } = await seedCycle([{ status: "verified", markedAt: "2024-03-10T00:00:00Z" }]);
+
+      await closeCycle(cycleId);
+
+      expect(await getPenalties(cycleId)).toEqual([]);
+    });
+
+    it("does not charge twice when a close is retried", async () => {
+      const { cycleId } = await seedCycle(
+        [{ status: "verified", markedAt: "2024-03-02T00:00:00Z" }],
+        { lateFeeType: "flat", lateFeeAmount: 5 }
+      );
+
+      await closeCycle(cycleId);
+      await closeCycle(cycleId);
+
+      expect(await getPenalties(cycleId)).toHaveLength(1);
+    });
+  });
+
+  describe("reopening", () => {
+    const reopen = (cycleId: string, groupId: string) =>
+      reopenCycle({ cycleId, groupId, actorId: PRESIDENT, actorName: "President" });
+
+    it("reverses the missed counts, locks and late fees of the close", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle(
+        [
+          { status: "unpaid", missed: 2, streak: 0 },
+          { status: "verified", missed: 1, streak: 4 },
+          { status: "verified", markedAt: "2024-03-02T12:00:00Z" },
+        ],
+        { lateFeeType: "flat", lateFeeAmount: 5 }
+      );
+      await closeCycle(cycleId);
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.success).toBe(true);
+      expect(result.unlockedMembers).toEqual([memberIds[0]]);
+      expect(result.removedPenalties).toBe(1);
+      expect(await getMember(memberIds[0])).toMatchObject({ status: "active", missed_payment_count: 2, on_time_streak: 0 });
+      expect(await getMember(memberIds[1])).toMatchObject({ missed_payment_count: 1, on_time_streak: 4 });
+      const { rows } = await db.query<{ status: string; close_report: unknown }>(
+        "SELECT status, close_report FROM payment_cycles WHERE id = $1",
+        [cycleId]
+      );
+      expect(rows[0]).toEqual({ status: "active", close_report: null });
+    });
+
+    it("keeps a late fee the president waived, and leaves it waived when the cycle closes again", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle(
+        [
+          { status: "verified", markedAt: "2024-03-02T12:00:00Z" },
+          { status: "verified", markedAt: "2024-03-03T12:00:00Z" },
+        ],
+        { lateFeeType: "flat", lateFeeAmount: 5 }
+      );
+      await closeCycle(cycleId);
+      await db.query("UPDATE penalties SET status = 'waived' WHERE member_id = $1", [memberIds[0]]);
+
+      const result = await reopen(cycleId, groupId);
+      await closeCycle(cycleId);
+
+      expect(result.removedPenalties).toBe(1);
+      const { rows } = await db.query<{ member_id: string; status: string }>(
+        "SELECT member_id, status FROM penalties WHERE cycle_id = $1 ORDER BY days_late",
+        [cycleId]
+      );
+      expect(rows).toEqual([
+        { member_id: memberIds[0], status: "waived" },
+        { member_id: memberIds[1], status: "outstanding" },
+      ]);
+    });
+
+    it("keeps changes made to members after the close", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([
+        { status: "unpaid", missed: 2, streak: 0 },
+        { status: "unpaid", missed: 1, streak: 0 },
+      ]);
+      await closeCycle(cycleId);
+      // The president restores the locked member before noticing the close was a mistake
+      await db.query(
+        "UPDATE group_members SET status = 'active', missed_payment_count = 0, on_time_streak = 0 WHERE id = $1",
+        [memberIds[0]]
+      );
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.unlockedMembers).toEqual([]);
+      expect(await getMember(memberIds[0])).toMatchObject({ status: "active", missed_payment_count: 0 });
+      expect(await getMember(memberIds[1])).toMatchObject({ status: "active", missed_payment_count: 1 });
+    });
+
+    it("leaves an ended extension for the next close again", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle(
+        [{ status: "unpaid", missed: 1, extendedUntil: "2999-01-01T00:00:00Z" }],
+        { countMode: "cumulative" }
+      );
+      await closeCycle(cycleId);
+      await endExtension(memberIds[0]);
+      const nextCycleId = await seedNextCycle(groupId, memberIds);
+      await closeCycle(nextCycleId);
+
+      await reopen(nextCycleId, groupId);
+      const result = await closeCycle(nextCycleId);
+
+      expect(result.report.lapsedExtensions.map(lapsed => lapsed.memberId)).toEqual([memberIds[0]]);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 2 });
+    });
+
+    it("closes normally again after a reopen", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([{ status: "unpaid" }, { status: "unpaid" }]);
+      await closeCycle(cycleId);
+      await reopen(cycleId, groupId);
+      await db.query("UPDATE payment_logs SET status = 'verified' WHERE member_id = $1", [memberIds[1]]);
+
+      const result = await closeCycle(cycleId);
+
+      expect(result.alreadyClosed).toBe(false);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 1 });
+      expect(await getMember(memberIds[1])).toMatchObject({ missed_payment_count: 0 });
+    });
+
+    it("removes an untouched cycle opened after the close", async () => {
+      const { groupId, cycleId } = await seedCycle([{ status: "unpaid" }]);
+      await closeCycle(cycleId);
+      const { rows: [next] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_cycles (group_id) VALUES ($1) RETURNING id",
+        [groupId]
+      );
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.removedCycles).toEqual([next.id]);
+    });
+
+    it("refuses when the next cycle already has payments", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([{ status: "unpaid" }]);
+      await closeCycle(cycleId);
+      const { rows: [next] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_cycles (group_id) VALUES ($1) RETURNING id",
+        [groupId]
+      );
+      await db.query("INSERT INTO payment_logs (cycle_id, member_id, status) VALUES ($1, $2, 'pending')", [
+        next.id,
+        memberIds[0],
+      ]);
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/already has payments/);
+      expect(await getMember(memberIds[0])).toMatchObject({ missed_payment_count: 1 });
+    });
+
+    it("reactivates a round the close completed and removes the round started after it", async () => {
+      const { groupId, cycleId } = await seedCycle([{ status: "verified" }]);
+      const { rows: [round] } = await db.query<{ id: string }>(
+        "INSERT INTO rounds (group_id, round_number) VALUES ($1, 1) RETURNING id",
+        [groupId]
+      );
+      await db.query("UPDATE payment_cycles SET round_id = $1 WHERE id = $2", [round.id, cycleId]);
+      await closeCycle(cycleId);
+      await db.query("UPDATE rounds SET status = 'completed', completed_at = NOW() WHERE id = $1", [round.id]);
+      await db.query("INSERT INTO rounds (group_id, round_number) VALUES ($1, 2)", [groupId]);
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.removedRounds).toBe(1);
+      const { rows } = await db.query<{ round_number: number; status: string }>(
+        "SELECT round_number, status FROM rounds WHERE group_id = $1",
+        [groupId]
+      );
+      expect(rows).toEqual([{ round_number: 1, status: "active" }]);
+    });
+
+    it("only reopens within the window", async () => {
+      const { groupId, cycleId } = await seedCycle([{ status: "unpaid" }]);
+      await closeCycle(cycleId);
+      await db.query("UPDATE payment_cycles SET closed_at = NOW() - INTERVAL '3 days' WHERE id = $1", [cycleId]);
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/48 hours/);
+    });
+
+    it("rejects callers who are not the group president", async () => {
+      const { groupId, cycleId } = await seedCycle([{ status: "unpaid" }]);
+      await closeCycle(cycleId);
+      await signInAs(db, USERS[0]);
+
+      const result = await reopen(cycleId, groupId);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/president/);
+    });
+  });
+
+  describe("starting the next cycle (start_payment_cycle)", () => {
+    const startNext = (groupId: string, recipientId: string) =>
+      localRpc(() => db)("start_payment_cycle", {
+        p_group_id: groupId,
+        p_recipient_id: recipientId,
+        p_start_date: "2024-03-01T00:00:00Z",
+        p_due_date: "2024-04-01T00:00:00Z",
+      });
+
+    it("gives a group from before rounds its first round and bills every active member for their hands", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([{ status: "verified", shares: 2 }, { status: "verified" }]);
+      await closeCycle(cycleId);
+
+      const { data, error } = await startNext(groupId, memberIds[1]);
+
+      expect(error).toBeNull();
+      const { rows: rounds } = await db.query<{ id: string; round_number: number }>(
+        "SELECT id, round_number FROM rounds WHERE group_id = $1",
+        [groupId]
+      );
+      expect(rounds).toHaveLength(1);
+      expect(data).toMatchObject({ round_id: rounds[0].id, recipient_id: memberIds[1], status: "active" });
+      const { rows: cycles } = await db.query<{ round_id: string }>("SELECT round_id FROM payment_cycles WHERE group_id = $1", [groupId]);
+      expect(cycles.every(cycle => cycle.round_id === rounds[0].id)).toBe(true);
+      const { rows: logs } = await db.query<{ member_id: string; amount_due: string }>(
+        "SELECT member_id, amount_due FROM payment_logs WHERE cycle_id = $1 ORDER BY amount_due DESC",
+        [(data as { id: string }).id]
+      );
+      expect(logs).toEqual([
+        { member_id: memberIds[0], amount_due: "200.00" },
+        { member_id: memberIds[1], amount_due: "100.00" },
+      ]);
+    });
+
+    it("numbers the cycle after the highest used, not the number of cycles", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([{ status: "verified" }]);
+      // Cycle 2 was removed by a reopen, leaving 1 and 3
+      await db.query("UPDATE payment_cycles SET cycle_number = 3 WHERE id = $1", [cycleId]);
+      await db.query("INSERT INTO payment_cycles (group_id, cycle_number, status) VALUES ($1, 1, 'closed')", [groupId]);
+      await closeCycle(cycleId);
+
+      const { data } = await startNext(groupId, memberIds[0]);
+
+      expect(data).toMatchObject({ cycle_number: 4 });
+    });
+
+    it("refuses while the current cycle is still open", async () => {
+      const { groupId, memberIds } = await seedCycle([{ status: "unpaid" }]);
+
+      const { error } = await startNext(groupId, memberIds[0]);
+
+      expect(error.message).toMatch(/Close the current cycle/);
+      const { rows } = await db.query("SELECT id FROM rounds WHERE group_id = $1", [groupId]);
+      expect(rows).toEqual([]);
+    });
+
+    it("refuses once the round is complete", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([{ status: "verified" }]);
+      await closeCycle(cycleId);
+      await db.query("INSERT INTO rounds (group_id, round_number, status) VALUES ($1, 1, 'completed')", [groupId]);
+
+      const { error } = await startNext(groupId, memberIds[0]);
+
+      expect(error.message).toMatch(/round is complete/);
+    });
+
+    it("rejects callers who are not the group president", async () => {
+      const { groupId, cycleId, memberIds } = await seedCycle([{ status: "verified" }]);
+      await closeCycle(cycleId);
+      await signInAs(db, USERS[0]);
+
+      const { error } = await startNext(groupId, memberIds[0]);
+
+      expect(error.message).toMatch(/president/);
+    });
+  });
+
+  it("reports a missing cycle", async () => {
+    const result = await closeCycle("00000000-0000-0000-0000-00000000ffff");
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not found/);
+  });
+});
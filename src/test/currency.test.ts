@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { formatMoney, getCurrency, moneyHeader } from "@/lib/currency";
+
+// Intl separates some symbols from the amount with a non-breaking space
+const plain = (value: string) => value.replace(/\u00a0/g, " ");
+
+describe("currency", () => {
+  describe("formatMoney", () => {
+    it("uses each currency's symbol, grouping and minor units", () => {
+      expect(plain(formatMoney(1234.5, "USD"))).toBe("$1,234.50");
+      expect(plain(formatMoney(1234.5, "KES"))).toBe("Ksh 1,234.50");
+      expect(plain(formatMoney(1234.5, "NGN"))).toBe("₦1,234.50");
+      expect(plain(formatMoney(1234.5, "GHS"))).toBe("GH₵1,234.50");
+      expect(plain(formatMoney(1234.5, "GBP"))).toBe("£1,234.50");
+      expect(plain(formatMoney(1234.5, "EUR"))).toBe("€1,234.50");
+    });
+
+    it("falls back to dollars for groups without a known currency", () => {
+      expect(formatMoney(50, null)).toBe("$50.00");
+      expect(formatMoney(50, "XYZ")).toBe("$50.00");
+      expect(getCurrency(undefined).code).toBe("USD");
+    });
+
+    it("rounds to minor units without showing negative zero", () => {
+      expect(formatMoney(10.005, "GBP")).toBe("£10.01");
+      expect(formatMoney(-0.001, "EUR")).toBe("€0.00");
+      expect(formatMoney(-12.5, "NGN")).toBe("-₦12.50");
+    });
+  });
+
+  describe("moneyHeader", () => {
+    it("names the currency code so exported amounts stay numeric", () => {
+      expect(moneyHeader("Amount", "KES")).toBe("Amount (KES)");
+      expect(moneyHeader("Balance")).toBe("Balance (USD)");
+    });
+  });
+});
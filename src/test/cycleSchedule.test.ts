@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import {
+  getOccurrence,
+  getScheduledCycle,
+  getNextCycleDates,
+  getUpcomingCycles,
+  getGroupSchedule,
+  skipExcludedDates,
+  parseScheduleDate,
+  type CycleSchedule,
+} from "@/lib/cycleSchedule";
+
+const day = (date: Date) => format(date, "yyyy-MM-dd");
+
+describe("cycleSchedule", () => {
+  describe("getOccurrence", () => {
+    it("adds whole weeks for weekly groups", () => {
+      const schedule: CycleSchedule = { frequency: "weekly", anchorDate: new Date(2024, 0, 5) };
+      expect(day(getOccurrence(schedule, 0))).toBe("2024-01-05");
+      expect(day(getOccurrence(schedule, 1))).toBe("2024-01-12");
+      expect(day(getOccurrence(schedule, 4))).toBe("2024-02-02");
+    });
+
+    it("clamps a 31st anchor to the last day of short months", () => {
+      const schedule: CycleSchedule = { frequency: "monthly", anchorDate: new Date(2024, 0, 31) };
+      expect(day(getOccurrence(schedule, 1))).toBe("2024-02-29");
+      expect(day(getOccurrence(schedule, 2))).toBe("2024-03-31");
+      expect(day(getOccurrence(schedule, 3))).toBe("2024-04-30");
+      expect(day(getOccurrence(schedule, 13))).toBe("2025-02-28");
+    });
+
+    it("rolls a missing anchor day to the next month when configured", () => {
+      const schedule: CycleSchedule = {
+        frequency: "monthly",
+        anchorDate: new Date(2023, 0, 30),
+        monthEndRule: "next_month",
+      };
+      expect(day(getOccurrence(schedule, 1))).toBe("2023-03-01");
+      expect(day(getOccurrence(schedule, 2))).toBe("2023-03-30");
+    });
+
+    it("adds two weeks per cycle for bi-weekly groups", () => {
+      const schedule: CycleSchedule = { frequency: "bi-weekly", anchorDate: new Date(2024, 0, 5) };
+      expect(day(getOccurrence(schedule, 1))).toBe("2024-01-19");
+      expect(day(getOccurrence(schedule, 3))).toBe("2024-02-16");
+    });
+
+    it("adds three months per cycle for quarterly groups", () => {
+      const schedule: CycleSchedule = { frequency: "quarterly", anchorDate: new Date(2024, 0, 31) };
+      expect(day(getOccurrence(schedule, 1))).toBe("2024-04-30");
+      expect(day(getOccurrence(schedule, 2))).toBe("2024-07-31");
+      expect(day(getOccurrence(schedule, 4))).toBe("2025-01-31");
+    });
+
+    it("uses the interval and unit for custom groups", () => {
+      const days: CycleSchedule = { frequency: "custom", interval: 10, unit: "days", anchorDate: new Date(2024, 0, 1) };
+      expect(day(getOccurrence(days, 3))).toBe("2024-01-31");
+
+      const weeks: CycleSchedule = { frequency: "custom", interval: 3, unit: "weeks", anchorDate: new Date(2024, 0, 1) };
+      expect(day(getOccurrence(weeks, 2))).toBe("2024-02-12");
+    });
+  });
+
+  describe("skipExcludedDates", () => {
+    it("moves forward past consecutive skipped dates", () => {
+      const result = skipExcludedDates(new Date(2024, 11, 25), ["2024-12-25", "2024-12-26"]);
+      expect(day(result)).toBe("2024-12-27");
+    });
+
+    it("leaves dates that are not skipped untouched", () => {
+      expect(day(skipExcludedDates(new Date(2024, 11, 24), ["2024-12-25"]))).toBe("2024-12-24");
+    });
+  });
+
+  describe("getScheduledCycle", () => {
+    it("runs from one occurrence to the next", () => {
+      const schedule: CycleSchedule = { frequency: "monthly", anchorDate: new Date(2024, 0, 15) };
+      const cycle = getScheduledCycle(schedule, 2);
+      expect(day(cycle.startDate)).toBe("2024-03-15");
+      expect(day(cycle.dueDate)).toBe("2024-04-15");
+    });
+
+    it("applies skipped dates to both ends of the cycle", () => {
+      const schedule: CycleSchedule = {
+        frequency: "weekly",
+        anchorDate: new Date(2024, 11, 18),
+        skipDates: ["2024-12-25"],
+      };
+      const cycle = getScheduledCycle(schedule, 0);
+      expect(day(cycle.startDate)).toBe("2024-12-18");
+      expect(day(cycle.dueDate)).toBe("2024-12-26");
+    });
+  });
+
+  describe("getNextCycleDates", () => {
+    const schedule: CycleSchedule = { frequency: "monthly", anchorDate: new Date(2024, 0, 1) };
+
+    it("starts the first cycle that is still running today", () => {
+      const cycle = getNextCycleDates(schedule, { today: new Date(2024, 2, 10) });
+      expect(day(cycle.startDate)).toBe("2024-03-01");
+      expect(day(cycle.dueDate)).toBe("2024-04-01");
+    });
+
+    it("never starts before the previous cycle's due date", () => {
+      const cycle = getNextCycleDates(schedule, {
+        previousDueDate: new Date(2024, 3, 1),
+        today: new Date(2024, 2, 10),
+      });
+      expect(day(cycle.startDate)).toBe("2024-04-01");
+    });
+
+    it("finds the next cycle of a daily schedule anchored years ago", () => {
+      const daily: CycleSchedule = { frequency: "custom", interval: 1, unit: "days", anchorDate: new Date(2009, 5, 15) };
+      const cycle = getNextCycleDates(daily, { today: new Date(2024, 5, 15) });
+      expect(day(cycle.startDate)).toBe("2024-06-15");
+      expect(day(cycle.dueDate)).toBe("2024-06-16");
+      expect(cycle).toEqual(getScheduledCycle(daily, cycle.index));
+    });
+
+    it("still finds a cycle pushed back by skipped dates far from the anchor", () => {
+      const weekly: CycleSchedule = {
+        frequency: "weekly",
+        anchorDate: new Date(2010, 0, 4),
+        skipDates: ["2024-06-10", "2024-06-11", "2024-06-12"],
+      };
+      const cycle = getNextCycleDates(weekly, { today: new Date(2024, 5, 12) });
+      expect(day(cycle.startDate)).toBe("2024-06-03");
+      expect(day(cycle.dueDate)).toBe("2024-06-13");
+    });
+
+    it("uses the first occurrence when the anchor is in the future", () => {
+      const cycle = getNextCycleDates(schedule, { today: new Date(2023, 5, 1) });
+      expect(cycle.index).toBe(0);
+      expect(day(cycle.startDate)).toBe("2024-01-01");
+    });
+  });
+
+  describe("getUpcomingCycles", () => {
+    it("lists consecutive cycles", () => {
+      const schedule: CycleSchedule = { frequency: "weekly", anchorDate: new Date(2024, 0, 1) };
+      const cycles = getUpcomingCycles(schedule, 3, { today: new Date(2024, 0, 3) });
+      expect(cycles.map(c => day(c.startDate))).toEqual(["2024-01-01", "2024-01-08", "2024-01-15"]);
+    });
+  });
+
+  describe("getGroupSchedule", () => {
+    it("prefers the group's anchor over the fallback", () => {
+      const schedule = getGroupSchedule(
+        {
+          frequency: "monthly",
+          schedule_anchor_date: "2024-05-31",
+          schedule_month_end_rule: "last_day",
+          schedule_skip_dates: [],
+        },
+        "2020-01-01T00:00:00.000Z"
+      );
+      expect(day(schedule.anchorDate)).toBe("2024-05-31");
+    });
+
+    it("falls back when no anchor is set", () => {
+      const schedule = getGroupSchedule(
+        {
+          frequency: "weekly",
+          schedule_anchor_date: null,
+          schedule_month_end_rule: null,
+          schedule_skip_dates: null,
+        },
+        new Date(2024, 1, 2)
+      );
+      expect(day(schedule.anchorDate)).toBe("2024-02-02");
+      expect(schedule.monthEndRule).toBe("last_day");
+      expect(schedule.skipDates).toEqual([]);
+    });
+  });
+
+  it("parses yyyy-MM-dd as a local date", () => {
+    expect(day(parseScheduleDate("2024-02-29"))).toBe("2024-02-29");
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildGroupJournal,
+  getAccountBalances,
+  reconcileCycles,
+  sumJournal,
+  type GroupLedgerData,
+} from "@/lib/groupLedger";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const day = (d: number) => `2024-01-${String(d).padStart(2, "0")}T00:00:00Z`;
+
+const ledgerData = (): GroupLedgerData => ({
+  cycles: [
+    { id: "c1", due_date: day(7), status: "closed", round_id: "r1", recipient_id: "m1" },
+    { id: "c2", due_date: day(14), status: "closed", round_id: "r1", recipient_id: "m2" },
+    { id: "c3", due_date: day(21), status: "active", round_id: "r1", recipient_id: "m2" },
+  ],
+  logs: [
+    { id: "l1", cycle_id: "c1", member_id: "m1", status: "verified", verified_at: day(6) },
+    { id: "l2", cycle_id: "c1", member_id: "m2", status: "verified", verified_at: day(7) },
+    { id: "l3", cycle_id: "c2", member_id: "m1", status: "pending", verified_at: null },
+    { id: "l4", cycle_id: "c2", member_id: "m2", status: "verified", verified_at: day(13) },
+    { id: "l5", cycle_id: "c3", member_id: "m1", status: "unpaid", verified_at: null },
+  ],
+  installments: [
+    { id: "i1", payment_log_id: "l3", amount: 60, status: "verified", paid_at: day(12), verified_at: day(12) },
+    { id: "i2", payment_log_id: "l3", amount: 40, status: "pending", paid_at: day(13), verified_at: null },
+  ],
+  penalties: [
+    { id: "p1", cycle_id: "c2", member_id: "m1", amount: 10, status: "outstanding", created_at: day(15), waived_at: null },
+    { id: "p2", cycle_id: "c2", member_id: "m1", amount: 5, status: "waived", created_at: day(15), waived_at: day(16) },
+  ],
+  payouts: [
+    { id: "po1", cycle_id: "c1", recipient_id: "m1", amount: 300, status: "confirmed", sent_at: day(8), created_at: day(8) },
+    { id: "po2", cycle_id: "c2", recipient_id: "m2", amount: 400, status: "sent", sent_at: day(15), created_at: day(15) },
+    { id: "po3", cycle_id: "c3", recipient_id: "m1", amount: 300, status: "pending", sent_at: null, created_at: day(22) },
+  ],
+  arrears: [{ id: "a1", member_id: "m2", amount_paid: 25, updated_at: day(20) }],
+  rounds: [{ id: "r1", round_number: 1, queue_mode: "bidding" }],
+  bids: [{ member_id: "m2", round_number: 1, discount: 50 }],
+});
+
+const members = [{ id: "m1" }, { id: "m2", shares: 2 }];
+
+describe("groupLedger", () => {
+  describe("buildGroupJournal", () => {
+    it("posts contributions, arrears payments, payouts, fees and waivers as balanced entries, oldest first", () => {
+      const journal = buildGroupJournal(members, 100, ledgerData());
+
+      expect(journal.map(e => [e.kind, e.debit, e.credit, e.amount])).toEqual([
+        ["contribution", "pot", "member:m1", 100],
+        ["contribution", "pot", "member:m2", 200],
+        ["payout", "member:m1", "pot", 300],
+        ["contribution", "pot", "member:m1", 60],
+        ["contribution", "pot", "member:m2", 200],
+        ["payout", "member:m2", "pot", 400],
+        ["late_fee", "member:m1", "fees", 10],
+        ["late_fee", "member:m1", "fees", 5],
+        ["fee_waived", "fees", "member:m1", 5],
+        ["arrears_payment", "pot", "member:m2", 25],
+      ]);
+      expect(sumJournal(journal, ["contribution", "arrears_payment"])).toBe(585);
+    });
+  });
+
+  describe("getAccountBalances", () => {
+    it("keeps the books balanced across the pot, fees and member accounts", () => {
+      const balances = getAccountBalances(buildGroupJournal(members, 100, ledgerData()));
+      const byAccount = new Map(balances.map(b => [b.account, b.balance]));
+
+      expect(byAccount.get("pot")).toBe(-115);
+      expect(byAccount.get("fees")).toBe(-10);
+      expect(byAccount.get("member:m1")).toBe(150);
+      expect(byAccount.get("member:m2")).toBe(-25);
+      expect(balances.reduce((total, b) => total + Math.round(b.balance * 100), 0)).toBe(0);
+    });
+  });
+
+  describe("reconcileCycles", () => {
+    const reconcile = (data: GroupLedgerData) => reconcileCycles(members, 100, data, buildGroupJournal(members, 100, data));
+
+    it("matches payouts of every hand but the recipient's own, less a winning bid", () => {
+      const data = ledgerData();
+      data.payouts[0].amount = 200;
+      data.payouts[1].amount = 150;
+
+      expect(reconcile(data).map(r => [r.cycleId, r.collected, r.expectedPayout, r.paidOut, r.difference, r.status])).toEqual([
+        ["c2", 260, 150, 150, 0, "matched"],
+        ["c1", 300, 200, 200, 0, "matched"],
+      ]);
+    });
+
+    it("flags payouts that differ from the expected payout", () => {
+      const data = ledgerData();
+      data.payouts[0].amount = 150;
+      data.payouts[1].amount = 140;
+
+      expect(reconcile(data).map(r => [r.cycleId, r.expectedPayout, r.paidOut, r.difference, r.status])).toEqual([
+        ["c2", 150, 140, -10, "mismatch"],
+        ["c1", 200, 150, -50, "mismatch"],
+      ]);
+    });
+
+    it("flags payouts the verified contributions don't cover, even when they are the amount owed", () => {
+      const data = ledgerData();
+      data.installments = [];
+      data.payouts[1].amount = 150;
+
+      expect(reconcile(data).find(r => r.cycleId === "c2")).toMatchObject({
+        collected: 200,
+        expectedPayout: 150,
+        difference: 0,
+        shortfall: 50,
+        status: "short",
+      });
+      expect(reconcile(ledgerData()).map(r => [r.cycleId, r.shortfall, r.status])).toEqual([
+        ["c2", 240, "short"],
+        ["c1", 100, "short"],
+      ]);
+    });
+
+    it("works the expected payout out from the amounts recorded at the time", () => {
+      const data = ledgerData();
+      data.cycles[0].contribution_amount = 50;
+      data.logs[0].amount_due = 50;
+      data.logs[1].amount_due = 100;
+      data.payouts[0].amount = 100;
+
+      expect(reconcile(data).find(r => r.cycleId === "c1")).toMatchObject({ expectedPayout: 100, status: "matched" });
+    });
+
+    it("leaves collected cycles awaiting their payout unflagged", () => {
+      const data = ledgerData();
+      data.payouts = [];
+
+      expect(reconcile(data).map(r => r.status)).toEqual(["awaiting_payout", "awaiting_payout"]);
+    });
+  });
+});
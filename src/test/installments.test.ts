@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  findDuplicateReferences,
+  getInstallmentBalance,
+  getLogStatusFromInstallments,
+  normalizeReference,
+} from "@/lib/installments";
+import type { InstallmentStatus, PaymentInstallment } from "@/types/database";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+let nextId = 0;
+const installment = (
+  amount: number,
+  status: InstallmentStatus,
+  createdAt: string,
+  verifiedAt: string | null = null,
+  reference: string | null = null
+): PaymentInstallment => ({
+  id: `installment-${++nextId}`,
+  payment_log_id: "log-1",
+  group_id: "group-1",
+  member_id: "member-1",
+  amount,
+  paid_at: createdAt,
+  payment_method: null,
+  reference,
+  proof_path: null,
+  status,
+  verified_at: verifiedAt,
+  verified_by: null,
+  created_at: createdAt,
+});
+
+describe("installments", () => {
+  describe("getInstallmentBalance", () => {
+    it("keeps a running balance against the contribution", () => {
+      const balance = getInstallmentBalance(100, [
+        installment(40, "verified", "2024-03-01T10:00:00Z"),
+        installment(25, "pending", "2024-03-02T10:00:00Z"),
+        installment(10, "rejected", "2024-03-03T10:00:00Z"),
+      ]);
+      expect(balance).toEqual({
+        due: 100,
+        verified: 40,
+        pending: 25,
+        submitted: 65,
+        remaining: 35,
+        isFullyPaid: false,
+      });
+    });
+
+    it("adds amounts in cents so thirds cover the total", () => {
+      const balance = getInstallmentBalance(100, [
+        installment(33.33, "verified", "2024-03-01T10:00:00Z"),
+        installment(33.33, "verified", "2024-03-02T10:00:00Z"),
+        installment(33.34, "verified", "2024-03-03T10:00:00Z"),
+      ]);
+      expect(balance.remaining).toBe(0);
+      expect(balance.isFullyPaid).toBe(true);
+    });
+
+    it("treats a log marked before installments existed as the full amount", () => {
+      expect(getInstallmentBalance(50, [], "pending").pending).toBe(50);
+      expect(getInstallmentBalance(50, [], "verified").isFullyPaid).toBe(true);
+      expect(getInstallmentBalance(50, [], "unpaid").remaining).toBe(50);
+    });
+  });
+
+  describe("getLogStatusFromInstallments", () => {
+    it("stays unpaid while the contribution is only partly sent", () => {
+      const update = getLogStatusFromInstallments(100, [installment(60, "pending", "2024-03-01T10:00:00Z")]);
+      expect(update).toEqual({ status: "unpaid", marked_at: null, verified_at: null });
+    });
+
+    it("is pending from the submission that covers the contribution", () => {
+      const update = getLogStatusFromInstallments(100, [
+        installment(60, "verified", "2024-03-01T10:00:00Z", "2024-03-01T12:00:00Z"),
+        installment(40, "pending", "2024-03-04T09:00:00Z"),
+      ]);
+      expect(update).toEqual({ status: "pending", marked_at: "2024-03-04T09:00:00Z", verified_at: null });
+    });
+
+    it("is verified once every installment covering it is verified", () => {
+      const update = getLogStatusFromInstallments(100, [
+        installment(60, "verified", "2024-03-01T10:00:00Z", "2024-03-01T12:00:00Z"),
+        installment(40, "verified", "2024-03-04T09:00:00Z", "2024-03-05T08:00:00Z"),
+      ]);
+      expect(update).toEqual({
+        status: "verified",
+        marked_at: "2024-03-04T09:00:00Z",
+        verified_at: "2024-03-05T08:00:00Z",
+      });
+    });
+
+    it("is rejected when the latest installment was rejected", () => {
+      const update = getLogStatusFromInstallments(100, [
+        installment(50, "verified", "2024-03-01T10:00:00Z", "2024-03-01T12:00:00Z"),
+        installment(50, "rejected", "2024-03-02T10:00:00Z"),
+      ]);
+      expect(update.status).toBe("rejected");
+    });
+  });
+
+  describe("findDuplicateReferences", () => {
+    it("ignores case, spaces and dashes when comparing references", () => {
+      expect(normalizeReference(" qk-12 ab ")).toBe("QK12AB");
+      expect(normalizeReference(null)).toBe("");
+    });
+
+    it("flags every installment sharing a reference with the others that used it", () => {
+      const first = installment(50, "verified", "2024-03-01T10:00:00Z", null, "QK12AB");
+      const reused = installment(50, "pending", "2024-04-01T10:00:00Z", null, "qk-12ab");
+      const other = installment(50, "pending", "2024-04-02T10:00:00Z", null, "ZZ99");
+      const duplicates = findDuplicateReferences([reused, other, first]);
+
+      expect(duplicates.get(reused.id)).toEqual([first]);
+      expect(duplicates.get(first.id)).toEqual([reused]);
+      expect(duplicates.has(other.id)).toBe(false);
+    });
+
+    it("does not flag a reference resubmitted after a rejection", () => {
+      const rejected = installment(50, "rejected", "2024-03-01T10:00:00Z", null, "QK12AB");
+      const resubmitted = installment(50, "pending", "2024-03-02T10:00:00Z", null, "QK12AB");
+      const blank = installment(50, "pending", "2024-03-03T10:00:00Z", null, " ");
+      const alsoBlank = installment(50, "pending", "2024-03-04T10:00:00Z", null, "-");
+
+      expect(findDuplicateReferences([rejected, resubmitted, blank, alsoBlank]).size).toBe(0);
+    });
+  });
+});
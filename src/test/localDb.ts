@@ -0,0 +1,365 @@
+import { PGlite, type Transaction } from "@electric-sql/pglite";
+import closePaymentCycleSql from "../../supabase/sql/close_payment_cycle.sql?raw";
+import reopenPaymentCycleSql from "../../supabase/sql/reopen_payment_cycle.sql?raw";
+import setQueueOrderSql from "../../supabase/sql/set_queue_order.sql?raw";
+import approveQueueSwapSql from "../../supabase/sql/approve_queue_swap.sql?raw";
+import reviewPaymentsSql from "../../supabase/sql/review_payments.sql?raw";
+import confirmStatementMatchesSql from "../../supabase/sql/confirm_statement_matches.sql?raw";
+import drawLotteryOrderSql from "../../supabase/sql/draw_lottery_order.sql?raw";
+import startRoundSql from "../../supabase/sql/start_round.sql?raw";
+import setRoundQueueSql from "../../supabase/sql/set_round_queue.sql?raw";
+import startPaymentCycleSql from "../../supabase/sql/start_payment_cycle.sql?raw";
+
+/**
+ * Local stand-in for the Supabase database
+ * Mirrors the tables from the README's Database Setup section that the
+ * database functions touch, plus Supabase's auth.uid() and roles, and the
+ * row level security policies the tests check
+ */
+const SCHEMA_SQL = `
+  CREATE ROLE authenticated;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY);
+
+  -- Supabase reads the caller from the request's JWT claims
+  CREATE FUNCTION auth.uid() RETURNS UUID AS $$
+    SELECT NULLIF(current_setting('request.jwt.claim.sub', TRUE), '')::UUID
+  $$ LANGUAGE sql STABLE;
+
+  CREATE TYPE member_status AS ENUM ('active', 'locked', 'pending');
+  CREATE TYPE member_role AS ENUM ('president', 'vice_president', 'member');
+  CREATE TYPE payment_status AS ENUM ('unpaid', 'pending', 'verified', 'rejected');
+  CREATE TYPE cycle_status AS ENUM ('active', 'closed');
+  CREATE TYPE lock_count_mode AS ENUM ('consecutive', 'cumulative');
+  CREATE TYPE late_fee_type AS ENUM ('none', 'flat', 'percent');
+  CREATE TYPE penalty_status AS ENUM ('outstanding', 'waived');
+  CREATE TYPE round_status AS ENUM ('active', 'completed');
+  CREATE TYPE round_queue_mode AS ENUM ('carry_over', 'lottery', 'bidding', 'seniority');
+  CREATE TYPE swap_status AS ENUM ('proposed', 'accepted', 'declined', 'approved', 'rejected', 'cancelled');
+  CREATE TYPE payout_status AS ENUM ('pending', 'sent', 'confirmed');
+  CREATE TYPE installment_status AS ENUM ('pending', 'verified', 'rejected');
+  CREATE TYPE payment_event_type AS ENUM ('submitted', 'rejected', 'resubmitted');
+  CREATE TYPE rejection_reason AS ENUM ('wrong_amount', 'transfer_not_found', 'wrong_account', 'unclear_proof', 'other');
+
+  CREATE TABLE groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    president_id UUID NOT NULL REFERENCES auth.users(id),
+    contribution_amount DECIMAL(10,2) NOT NULL DEFAULT 100,
+    lock_threshold INTEGER NOT NULL DEFAULT 3,
+    lock_count_mode lock_count_mode NOT NULL DEFAULT 'consecutive',
+    lock_grace_days INTEGER,
+    lock_decay_cycles INTEGER,
+    late_fee_type late_fee_type NOT NULL DEFAULT 'none',
+    late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    late_fee_per_day BOOLEAN NOT NULL DEFAULT FALSE
+  );
+
+  CREATE TABLE group_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id),
+    queue_position INTEGER NOT NULL,
+    role member_role NOT NULL DEFAULT 'member',
+    status member_status NOT NULL DEFAULT 'active',
+    shares NUMERIC(5,2) NOT NULL DEFAULT 1,
+    missed_payment_count INTEGER NOT NULL DEFAULT 0,
+    on_time_streak INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(group_id, user_id),
+    UNIQUE(group_id, queue_position)
+  );
+
+  CREATE TABLE rounds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    round_number INTEGER NOT NULL,
+    status round_status NOT NULL DEFAULT 'active',
+    queue_mode round_queue_mode NOT NULL DEFAULT 'carry_over',
+    queue_seed TEXT,
+    queue_order JSONB,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(group_id, round_number)
+  );
+
+  CREATE TABLE payment_cycles (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    round_id UUID REFERENCES rounds(id) ON DELETE SET NULL,
+    recipient_id UUID REFERENCES group_members(id),
+    cycle_number INTEGER,
+    start_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    due_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    status cycle_status NOT NULL DEFAULT 'active',
+    contribution_amount DECIMAL(10,2),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  );
+
+  CREATE TABLE payment_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    cycle_id UUID NOT NULL REFERENCES payment_cycles(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES group_members(id),
+    status payment_status NOT NULL DEFAULT 'unpaid',
+    marked_at TIMESTAMP WITH TIME ZONE,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    extended_until TIMESTAMP WITH TIME ZONE,
+    miss_deferred BOOLEAN NOT NULL DEFAULT FALSE,
+    amount_due DECIMAL(10,2),
+    UNIQUE(cycle_id, member_id)
+  );
+
+  CREATE TABLE payment_installments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_log_id UUID NOT NULL REFERENCES payment_logs(id) ON DELETE CASCADE,
+    group_id UUID REFERENCES groups(id) ON DELETE CASCADE,
+    member_id UUID REFERENCES group_members(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    reference TEXT,
+    status installment_status NOT NULL DEFAULT 'pending',
+    verified_at TIMESTAMP WITH TIME ZONE,
+    verified_by UUID
+  );
+
+  CREATE TABLE payment_log_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_log_id UUID NOT NULL REFERENCES payment_logs(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    event_type payment_event_type NOT NULL,
+    actor_id UUID,
+    actor_name TEXT,
+    amount DECIMAL(10,2),
+    reason rejection_reason,
+    note TEXT
+  );
+
+  CREATE TABLE payouts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    cycle_id UUID NOT NULL UNIQUE REFERENCES payment_cycles(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    recipient_id UUID NOT NULL REFERENCES group_members(id),
+    amount DECIMAL(10,2) NOT NULL,
+    status payout_status NOT NULL DEFAULT 'pending',
+    reference TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    sent_by UUID REFERENCES auth.users(id),
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  );
+
+  ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+  CREATE POLICY "Users can view payouts of their groups" ON payouts FOR SELECT
+    USING (group_id IN (SELECT group_id FROM group_members WHERE user_id = auth.uid()));
+  CREATE POLICY "Presidents can manage payouts" ON payouts FOR ALL
+    USING (group_id IN (SELECT id FROM groups WHERE president_id = auth.uid()));
+  CREATE POLICY "Recipients can confirm their payouts" ON payouts FOR UPDATE
+    USING (recipient_id IN (SELECT id FROM group_members WHERE user_id = auth.uid()));
+
+  CREATE TABLE queue_swap_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    requester_id UUID NOT NULL REFERENCES group_members(id) ON DELETE CASCADE,
+    target_id UUID NOT NULL REFERENCES group_members(id) ON DELETE CASCADE,
+    status swap_status NOT NULL DEFAULT 'proposed',
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decided_by UUID,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  );
+
+  ALTER TABLE queue_swap_requests ENABLE ROW LEVEL SECURITY;
+  CREATE POLICY "Users can view swap requests of their groups" ON queue_swap_requests FOR SELECT
+    USING (group_id IN (SELECT group_id FROM group_members WHERE user_id = auth.uid()));
+  CREATE POLICY "Members can accept or decline swaps asked of them" ON queue_swap_requests FOR UPDATE
+    USING (status = 'proposed' AND target_id IN (SELECT id FROM group_members WHERE user_id = auth.uid()))
+    WITH CHECK (status IN ('accepted', 'declined') AND target_id IN (SELECT id FROM group_members WHERE user_id = auth.uid()));
+  CREATE POLICY "Members can withdraw their swap requests" ON queue_swap_requests FOR UPDATE
+    USING (status IN ('proposed', 'accepted') AND requester_id IN (SELECT id FROM group_members WHERE user_id = auth.uid()))
+    WITH CHECK (status = 'cancelled' AND requester_id IN (SELECT id FROM group_members WHERE user_id = auth.uid()));
+  CREATE POLICY "Presidents can turn down accepted swaps" ON queue_swap_requests FOR UPDATE
+    USING (status = 'accepted' AND group_id IN (SELECT id FROM groups WHERE president_id = auth.uid()))
+    WITH CHECK (status = 'rejected' AND group_id IN (SELECT id FROM groups WHERE president_id = auth.uid()));
+
+  CREATE TABLE penalties (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    cycle_id UUID NOT NULL REFERENCES payment_cycles(id) ON DELETE CASCADE,
+    member_id UUID NOT NULL REFERENCES group_members(id),
+    payment_log_id UUID NOT NULL UNIQUE REFERENCES payment_logs(id) ON DELETE CASCADE,
+    amount DECIMAL(10,2) NOT NULL,
+    days_late INTEGER NOT NULL,
+    status penalty_status NOT NULL DEFAULT 'outstanding'
+  );
+
+  GRANT USAGE ON SCHEMA auth TO authenticated;
+  GRANT ALL ON ALL TABLES IN SCHEMA public TO authenticated;
+`;
+
+export async function createLocalDb(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(SCHEMA_SQL);
+  await db.exec(closePaymentCycleSql);
+  await db.exec(reopenPaymentCycleSql);
+  await db.exec(setQueueOrderSql);
+  await db.exec(approveQueueSwapSql);
+  await db.exec(reviewPaymentsSql);
+  await db.exec(confirmStatementMatchesSql);
+  await db.exec(drawLotteryOrderSql);
+  await db.exec(startRoundSql);
+  await db.exec(setRoundQueueSql);
+  await db.exec(startPaymentCycleSql);
+  return db;
+}
+
+/**
+ * Stand-in for supabase.rpc() that calls the database function on a local database
+ * Takes a getter, as vi.mock factories run before the test has created its database
+ */
+export function localRpc(getDb: () => PGlite) {
+  return async (fn: string, params: Record<string, unknown>) => {
+    const keys = Object.keys(params);
+    const args = keys.map((key, i) => `${key} => $${i + 1}`).join(", ");
+    try {
+      const { rows } = await getDb().query<{ result: unknown }>(
+        `SELECT ${fn}(${args}) AS result`,
+        keys.map(key => params[key])
+      );
+      return { data: rows[0].result, error: null };
+    } catch (error) {
+      return { data: null, error };
+    }
+  };
+}
+
+/**
+ * Stand-in for supabase.from() that runs the query on a local database as the signed-in client,
+ * so constraints and row level security apply
+ * Covers the query builder calls the lib makes: select, insert, update, eq, neq, in, is, order,
+ * limit, single and maybeSingle. Rows come back as JSON, as they do from the API
+ */
+export function localFrom(getDb: () => PGlite) {
+  return (table: string) => {
+    type Row = Record<string, unknown>;
+    type Result<T> = { data: T | null; error: unknown };
+
+    const params: unknown[] = [];
+    const param = (value: unknown) => `$${params.push(value)}`;
+    const where: string[] = [];
+    const orderBy: string[] = [];
+    let action: "select" | "insert" | "update" = "select";
+    let values: Row[] = [];
+    let columns = "*";
+    let returning = false;
+    let limit = "";
+
+    const statement = () => {
+      const filter = where.length > 0 ? ` WHERE ${where.join(" AND ")}` : "";
+      if (action === "insert") {
+        const keys = Array.from(new Set(values.flatMap(row => Object.keys(row))));
+        const rows = values.map(row => `(${keys.map(key => (row[key] === undefined ? "DEFAULT" : param(row[key]))).join(", ")})`);
+        return `INSERT INTO ${table} (${keys.join(", ")}) VALUES ${rows.join(", ")} RETURNING ${columns}`;
+      }
+      if (action === "update") {
+        const changes = Object.entries(values[0]).map(([key, value]) => `${key} = ${param(value)}`);
+        return `UPDATE ${table} SET ${changes.join(", ")}${filter} RETURNING ${columns}`;
+      }
+      const order = orderBy.length > 0 ? ` ORDER BY ${orderBy.join(", ")}` : "";
+      return `SELECT ${columns} FROM ${table}${filter}${order}${limit}`;
+    };
+
+    const run = async (): Promise<Result<Row[]>> => {
+      try {
+        const { rows } = await asClient(getDb(), tx =>
+          tx.query<{ row: Row }>(`WITH result AS (${statement()}) SELECT to_jsonb(result) AS row FROM result`, params)
+        );
+        return { data: rows.map(({ row }) => row), error: null };
+      } catch (error) {
+        return { data: null, error };
+      }
+    };
+
+    const builder = {
+      select: (selected = "*") => {
+        columns = selected;
+        returning = true;
+        return builder;
+      },
+      insert: (rows: Row | Row[]) => {
+        action = "insert";
+        values = Array.isArray(rows) ? rows : [rows];
+        return builder;
+      },
+      update: (changes: Row) => {
+        action = "update";
+        values = [changes];
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        where.push(`${column} = ${param(value)}`);
+        return builder;
+      },
+      neq: (column: string, value: unknown) => {
+        where.push(`${column} <> ${param(value)}`);
+        return builder;
+      },
+      in: (column: string, list: unknown[]) => {
+        where.push(`${column} = ANY(${param(list)})`);
+        return builder;
+      },
+      is: (column: string, value: boolean | null) => {
+        where.push(`${column} IS ${value === null ? "NULL" : String(value).toUpperCase()}`);
+        return builder;
+      },
+      order: (column: string, { ascending = true }: { ascending?: boolean } = {}) => {
+        orderBy.push(`${column} ${ascending ? "ASC" : "DESC"}`);
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = ` LIMIT ${Number(count)}`;
+        return builder;
+      },
+      single: async (): Promise<Result<Row>> => {
+        const { data, error } = await run();
+        if (error) return { data: null, error };
+        return data.length === 1
+          ? { data: data[0], error: null }
+          : { data: null, error: new Error("JSON object requested, multiple (or no) rows returned") };
+      },
+      maybeSingle: async (): Promise<Result<Row>> => {
+        const { data, error } = await run();
+        if (error) return { data: null, error };
+        return data.length <= 1
+          ? { data: data[0] || null, error: null }
+          : { data: null, error: new Error("JSON object requested, multiple rows returned") };
+      },
+      then: <T>(resolve: (result: Result<Row[]>) => T, reject?: (reason: unknown) => T) =>
+        run()
+          .then(({ data, error }) => ({ data: returning || action === "select" ? data : null, error }))
+          .then(resolve, reject),
+    };
+    return builder;
+  };
+}
+
+/**
+ * Run the following queries as a signed-in user (what auth.uid() returns)
+ */
+export async function signInAs(db: PGlite, userId: string | null): Promise<void> {
+  await db.query("SELECT set_config('request.jwt.claim.sub', $1, FALSE)", [userId || ""]);
+}
+
+/**
+ * Run queries as a signed-in client's requests run: as the authenticated role, so row level security applies
+ */
+export async function asClient<T>(db: PGlite, run: (tx: Transaction) => Promise<T>): Promise<T> {
+  return db.transaction(async tx => {
+    await tx.query("SET LOCAL ROLE authenticated");
+    return run(tx);
+  });
+}
+
+/**
+ * Remove all rows so each test starts from an empty database
+ */
+export async function resetLocalDb(db: PGlite): Promise<void> {
+  await db.exec("TRUNCATE queue_swap_requests, penalties, payouts, payment_log_events, payment_installments, payment_logs, payment_cycles, rounds, group_members, groups, auth.users CASCADE");
+}
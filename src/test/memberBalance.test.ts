@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from "vitest";
+import type { GroupLedgerData } from "@/lib/groupLedger";
+import { buildMemberBalance } from "@/lib/memberBalance";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const emptyData = (): GroupLedgerData => ({
+  cycles: [],
+  logs: [],
+  installments: [],
+  penalties: [],
+  payouts: [],
+  arrears: [],
+  rounds: [],
+  bids: [],
+});
+
+const day = (d: number) => `2024-01-${String(d).padStart(2, "0")}T00:00:00Z`;
+
+describe("memberBalance", () => {
+  describe("buildMemberBalance", () => {
+    it("charges each cycle and credits verified payments, keeping a running balance", () => {
+      const data = emptyData();
+      data.cycles = [{ id: "c1", due_date: day(7), status: "closed" }, { id: "c2", due_date: day(14), status: "active" }];
+      data.logs = [
+        { id: "l1", cycle_id: "c1", member_id: "m1", status: "verified", verified_at: day(8) },
+        { id: "l2", cycle_id: "c2", member_id: "m1", status: "unpaid", verified_at: null },
+        { id: "l3", cycle_id: "c1", member_id: "m2", status: "verified", verified_at: day(8) },
+      ];
+
+      const balance = buildMemberBalance({ id: "m1" }, 100, data);
+
+      expect(balance.entries.map(e => [e.type, e.balance])).toEqual([
+        ["contribution_due", 100],
+        ["payment", 0],
+        ["contribution_due", 100],
+      ]);
+      expect(balance.totalDue).toBe(200);
+      expect(balance.totalPaid).toBe(100);
+      expect(balance.balance).toBe(100);
+    });
+
+    it("scales the contribution by shares and credits only verified installments", () => {
+      const data = emptyData();
+      data.cycles = [{ id: "c1", due_date: day(7), status: "active" }];
+      data.logs = [{ id: "l1", cycle_id: "c1", member_id: "m1", status: "pending", verified_at: null }];
+      data.installments = [
+        { id: "i1", payment_log_id: "l1", amount: 80.1, status: "verified", paid_at: day(5), verified_at: day(6) },
+        { id: "i2", payment_log_id: "l1", amount: 50, status: "pending", paid_at: day(6), verified_at: null },
+      ];
+
+      const balance = buildMemberBalance({ id: "m1", shares: 2 }, 75, data);
+
+      expect(balance.totalDue).toBe(150);
+      expect(balance.totalPaid).toBe(80.1);
+      expect(balance.balance).toBe(69.9);
+    });
+
+    it("charges what was owed at the time, not the current contribution or shares", () => {
+      const data = emptyData();
+      data.cycles = [
+        { id: "c1", due_date: day(7), status: "closed", contribution_amount: 50 },
+        { id: "c2", due_date: day(14), status: "closed", contribution_amount: 50 },
+      ];
+      data.logs = [
+        { id: "l1", cycle_id: "c1", member_id: "m1", status: "verified", verified_at: day(7), amount_due: 50 },
+        { id: "l2", cycle_id: "c2", member_id: "m1", status: "unpaid", verified_at: null },
+      ];
+
+      const balance = buildMemberBalance({ id: "m1", shares: 2 }, 100, data);
+
+      expect(balance.entries.map(e => [e.type, e.charge, e.credit])).toEqual([
+        ["contribution_due", 50, 0],
+        ["payment", 0, 50],
+        ["contribution_due", 100, 0],
+      ]);
+      expect(balance.balance).toBe(100);
+    });
+
+    it("charges late fees, credits waivers and arrears payments", () => {
+      const data = emptyData();
+      data.penalties = [
+        { id: "p1", cycle_id: "c1", member_id: "m1", amount: 10, status: "outstanding", created_at: day(8), waived_at: null },
+        { id: "p2", cycle_id: "c1", member_id: "m1", amount: 5, status: "waived", created_at: day(9), waived_at: day(10) },
+      ];
+      data.arrears = [{ id: "a1", member_id: "m1", amount_paid: 4, updated_at: day(11) }];
+
+      const balance = buildMemberBalance({ id: "m1" }, 100, data);
+
+      expect(balance.totalFees).toBe(15);
+      expect(balance.totalWaived).toBe(5);
+      expect(balance.totalPaid).toBe(4);
+      expect(balance.balance).toBe(6);
+    });
+
+    it("lists payouts received without changing what is owed", () => {
+      const data = emptyData();
+      data.payouts = [
+        { id: "po1", cycle_id: "c1", recipient_id: "m1", amount: 500, status: "confirmed", sent_at: day(15), created_at: day(14) },
+        { id: "po2", cycle_id: "c2", recipient_id: "m1", amount: 500, status: "pending", sent_at: null, created_at: day(20) },
+      ];
+
+      const balance = buildMemberBalance({ id: "m1" }, 100, data);
+
+      expect(balance.entries).toHaveLength(1);
+      expect(balance.entries[0]).toMatchObject({ type: "payout_received", received: 500, balance: 0 });
+      expect(balance.totalReceived).toBe(500);
+      expect(balance.balance).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  addMoney,
+  allocateMoney,
+  fromMinor,
+  multiplyMoney,
+  parseAmount,
+  parseMoney,
+  subtractMoney,
+  sumAmounts,
+  toMinor,
+} from "@/lib/money";
+
+describe("money", () => {
+  describe("toMinor and fromMinor", () => {
+    it("converts between major and minor units with half-up rounding", () => {
+      expect(toMinor(12.5)).toBe(1250);
+      expect(toMinor("33.33")).toBe(3333);
+      expect(toMinor(1.005)).toBe(101);
+      expect(toMinor(-1.005)).toBe(-101);
+      expect(toMinor(null)).toBe(0);
+      expect(fromMinor(1250)).toBe(12.5);
+    });
+
+    it("rounds in the requested direction", () => {
+      expect(toMinor(10.019, "USD", "down")).toBe(1001);
+      expect(toMinor(10.011, "USD", "up")).toBe(1002);
+    });
+
+    it("refuses fractions of a minor unit", () => {
+      expect(() => fromMinor(12.5)).toThrow(RangeError);
+      expect(() => addMoney(1, 0.5)).toThrow(RangeError);
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("adds and subtracts without floating point drift", () => {
+      expect(0.1 + 0.2).not.toBe(0.3);
+      expect(sumAmounts([0.1, 0.2])).toBe(0.3);
+      expect(fromMinor(addMoney(toMinor(33.33), toMinor(33.33), toMinor(33.34)))).toBe(100);
+      expect(fromMinor(subtractMoney(toMinor(100), toMinor(99.99)))).toBe(0.01);
+    });
+
+    it("multiplies by hands and percentages, rounding to the minor unit", () => {
+      expect(multiplyMoney(toMinor(33.33), 3)).toBe(9999);
+      expect(multiplyMoney(toMinor(33.33), 1.5)).toBe(5000);
+      expect(multiplyMoney(toMinor(50), 0.025)).toBe(125);
+      expect(multiplyMoney(toMinor(33.33), 0.5, "down")).toBe(1666);
+    });
+  });
+
+  describe("allocateMoney", () => {
+    it("always adds back up to the total", () => {
+      const parts = allocateMoney(10000, [1, 1, 1]);
+      expect(parts).toEqual([3334, 3333, 3333]);
+      expect(addMoney(...parts)).toBe(10000);
+    });
+
+    it("gives leftover units to the largest remainders, earlier members first on ties", () => {
+      expect(allocateMoney(100, [1, 1, 1, 1, 1, 1])).toEqual([17, 17, 17, 17, 16, 16]);
+      expect(allocateMoney(1001, [0.25, 0.75])).toEqual([250, 751]);
+      expect(allocateMoney(5, [2, 1, 1])).toEqual([3, 1, 1]);
+    });
+
+    it("splits evenly when no member has a weight and keeps the sign of negative totals", () => {
+      expect(allocateMoney(10, [0, 0])).toEqual([5, 5]);
+      expect(allocateMoney(-10, [1, 2])).toEqual([-3, -7]);
+    });
+  });
+
+  describe("parseMoney", () => {
+    it("parses typed amounts exactly", () => {
+      expect(parseMoney("0.29")).toBe(29);
+      expect(parseMoney(" 1250.5 ")).toBe(125050);
+      expect(parseMoney(".75")).toBe(75);
+      expect(parseMoney("10.005")).toBe(1001);
+      expect(parseMoney("-3")).toBe(-300);
+    });
+
+    it("rejects anything that is not a plain number", () => {
+      expect(parseMoney("")).toBeNull();
+      expect(parseMoney(".")).toBeNull();
+      expect(parseMoney("1e3")).toBeNull();
+      expect(parseMoney("12abc")).toBeNull();
+      expect(parseAmount("abc")).toBeNaN();
+      expect(parseAmount("19.999")).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import { describeRejection, getSubmissionEventType, validateRejection } from "@/lib/paymentEvents";
+import type { InstallmentStatus, PaymentInstallment } from "@/types/database";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const installment = (status: InstallmentStatus, createdAt: string): PaymentInstallment => ({
+  id: `installment-${createdAt}`,
+  payment_log_id: "log-1",
+  group_id: "group-1",
+  member_id: "member-1",
+  amount: 50,
+  paid_at: createdAt,
+  payment_method: "bank_transfer",
+  reference: null,
+  proof_path: null,
+  status,
+  verified_at: null,
+  verified_by: null,
+  created_at: createdAt,
+});
+
+describe("paymentEvents", () => {
+  describe("describeRejection", () => {
+    it("uses the preset label with any details the president added", () => {
+      expect(describeRejection("wrong_amount", null)).toBe("Wrong amount");
+      expect(describeRejection("transfer_not_found", "  Nothing on the statement for March ")).toBe(
+        "Can't find the transfer: Nothing on the statement for March"
+      );
+    });
+
+    it("uses the typed reason for other", () => {
+      expect(describeRejection("other", "Sent from a business account")).toBe("Sent from a business account");
+      expect(describeRejection(null, null)).toBe("No reason given");
+    });
+  });
+
+  describe("validateRejection", () => {
+    it("requires other to be described", () => {
+      expect(validateRejection({ reason: "other", note: " " })).not.toBeNull();
+      expect(validateRejection({ reason: "other", note: "Duplicate of last week" })).toBeNull();
+      expect(validateRejection({ reason: "wrong_account" })).toBeNull();
+    });
+  });
+
+  describe("getSubmissionEventType", () => {
+    it("is a resubmission when the latest installment was rejected", () => {
+      expect(getSubmissionEventType("unpaid", [
+        installment("verified", "2024-03-01T10:00:00Z"),
+        installment("rejected", "2024-03-02T10:00:00Z"),
+      ])).toBe("resubmitted");
+    });
+
+    it("is a new submission once something was sent after the rejection", () => {
+      expect(getSubmissionEventType("unpaid", [
+        installment("rejected", "2024-03-01T10:00:00Z"),
+        installment("pending", "2024-03-02T10:00:00Z"),
+      ])).toBe("submitted");
+      expect(getSubmissionEventType("unpaid", [])).toBe("submitted");
+    });
+
+    it("falls back to the log status for payments marked before installments existed", () => {
+      expect(getSubmissionEventType("rejected", [])).toBe("resubmitted");
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getPayoutSlots,
+  getPayoutRotation,
+  getPayoutQueue,
+  getCycleSlotHolders,
+  getNextRecipient,
+  splitSlotPayout,
+} from "@/lib/payoutRotation";
+import type { MemberStatus } from "@/types/database";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const member = (id: string, queue_position: number, shares?: number, status: MemberStatus = "active") => ({
+  id,
+  queue_position,
+  status,
+  shares,
+});
+
+const cycle = (id: string, recipient_id: string, day: number, status: "active" | "closed" = "closed") => ({
+  id,
+  recipient_id,
+  status,
+  start_date: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+  created_at: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+});
+
+const holders = (slot: { holders: { member: { id: string }; portion: number }[] }) =>
+  slot.holders.map(h => [h.member.id, h.portion]);
+
+describe("payoutRotation", () => {
+  describe("getPayoutSlots", () => {
+    it("gives one slot per member by default", () => {
+      const slots = getPayoutSlots([member("b", 2), member("a", 1)]);
+      expect(slots.map(holders)).toEqual([[["a", 1]], [["b", 1]]]);
+    });
+
+    it("gives a double hand two slots", () => {
+      const slots = getPayoutSlots([member("a", 1, 2), member("b", 2)]);
+      expect(slots.map(holders)).toEqual([[["a", 1]], [["a", 1]], [["b", 1]]]);
+    });
+
+    it("puts split hands in one shared slot", () => {
+      const slots = getPayoutSlots([member("a", 1, 1.5), member("b", 2, 0.5), member("c", 3)]);
+      expect(slots.map(holders)).toEqual([[["a", 1]], [["a", 0.5], ["b", 0.5]], [["c", 1]]]);
+    });
+
+    it("skips members who are not active", () => {
+      const slots = getPayoutSlots([member("a", 1), member("b", 2, 1, "locked")]);
+      expect(slots).toHaveLength(1);
+    });
+
+    it("fills a slot from quarter hands across several members", () => {
+      const slots = getPayoutSlots([
+        member("a", 1, 0.25),
+        member("b", 2, 0.25),
+        member("c", 3, 1.25),
+        member("d", 4, 0.25),
+      ]);
+      expect(slots.map(holders)).toEqual([[["a", 0.25], ["b", 0.25], ["c", 0.5]], [["c", 0.75], ["d", 0.25]]]);
+      expect(slots.map(s => s.size)).toEqual([1, 1]);
+    });
+
+    it("follows queue position, not the order members are listed in", () => {
+      const slots = getPayoutSlots([member("c", 30), member("a", 10), member("b", 20)]);
+      expect(slots.map(s => s.holders[0].member.id)).toEqual(["a", "b", "c"]);
+    });
+
+    it("leaves a partial last slot when hands do not add up", () => {
+      const slots = getPayoutSlots([member("a", 1), member("b", 2, 0.5)]);
+      expect(slots[1].size).toBe(0.5);
+    });
+  });
+
+  describe("getPayoutRotation", () => {
+    const members = [member("a", 1), member("b", 2), member("c", 3)];
+
+    it("starts with the first member in the queue", () => {
+      const rotation = getPayoutRotation(members, []);
+      expect(rotation).toMatchObject({ roundNumber: 1, paidSlots: [], currentSlot: null, nextRecipientId: "a" });
+    });
+
+    it("pays each member once in queue order, replaying cycles by start date", () => {
+      const rotation = getPayoutRotation(members, [cycle("c2", "b", 2), cycle("c1", "a", 1)]);
+      expect(rotation.paidSlots).toEqual([0, 1]);
+      expect(rotation.nextRecipientId).toBe("c");
+    });
+
+    it("starts a new round once everyone has been paid", () => {
+      const rotation = getPayoutRotation(members, [
+        cycle("c1", "a", 1),
+        cycle("c2", "b", 2),
+        cycle("c3", "c", 3),
+        cycle("c4", "a", 4),
+      ]);
+      expect(rotation.roundNumber).toBe(2);
+      expect(rotation.paidSlots).toEqual([0]);
+      expect(rotation.nextRecipientId).toBe("b");
+    });
+
+    it("ignores cycles without a recorded recipient", () => {
+      const rotation = getPayoutRotation(members, [cycle("c1", "a", 1), { ...cycle("c2", "", 2), recipient_id: null }]);
+      expect(rotation.nextRecipientId).toBe("b");
+    });
+
+    it("pays a double hand twice before starting a new round", () => {
+      const members = [member("a", 1, 2), member("b", 2)];
+      const afterOne = getPayoutRotation(members, [cycle("c1", "a", 1)]);
+      expect(afterOne.nextRecipientId).toBe("a");
+      expect(afterOne.nextSlot).toBe(1);
+
+      const afterTwo = getPayoutRotation(members, [cycle("c1", "a", 1), cycle("c2", "a", 2)]);
+      expect(afterTwo.nextRecipientId).toBe("b");
+      expect(afterTwo.roundNumber).toBe(1);
+
+      const afterThree = getPayoutRotation(members, [cycle("c1", "a", 1), cycle("c2", "a", 2), cycle("c3", "b", 3)]);
+      expect(afterThree.nextSlot).toBe(0);
+
+      const nextRound = getPayoutRotation(members, [
+        cycle("c1", "a", 1),
+        cycle("c2", "a", 2),
+        cycle("c3", "b", 3),
+        cycle("c4", "a", 4),
+      ]);
+      expect(nextRound.roundNumber).toBe(2);
+    });
+
+    it("tracks the slot of the active cycle", () => {
+      const rotation = getPayoutRotation(
+        [member("a", 1, 2), member("b", 2)],
+        [cycle("c1", "a", 1), cycle("c2", "a", 2, "active")]
+      );
+      expect(rotation.currentSlot).toBe(1);
+      expect(rotation.paidSlots).toEqual([0]);
+      expect(rotation.nextSlot).toBe(2);
+    });
+  });
+
+  describe("getNextRecipient", () => {
+    it("skips locked members", () => {
+      const members = [member("a", 1), member("b", 2, 1, "locked"), member("c", 3)];
+      expect(getNextRecipient(members, [cycle("c1", "a", 1)])?.id).toBe("c");
+    });
+
+    it("returns null without active members", () => {
+      expect(getNextRecipient([member("a", 1, 1, "locked")], [])).toBeNull();
+    });
+  });
+
+  describe("getPayoutQueue", () => {
+    it("lists one entry per slot", () => {
+      const queue = getPayoutQueue([member("a", 1, 2), member("b", 2, 0.5), member("c", 3, 0.5)], [cycle("c1", "a", 1)]);
+      expect(queue.map(e => [e.member.id, e.status])).toEqual([
+        ["a", "paid"],
+        ["a", "next"],
+        ["b", "upcoming"],
+      ]);
+      expect(queue[2].holders.map(h => h.member.id)).toEqual(["b", "c"]);
+    });
+  });
+
+  describe("getCycleSlotHolders", () => {
+    it("finds everyone sharing the slot a cycle paid", () => {
+      const members = [member("a", 1), member("b", 2, 0.5), member("c", 3, 0.5)];
+      const cycles = [cycle("c1", "a", 1), cycle("c2", "b", 2)];
+      expect(getCycleSlotHolders(members, cycles, "c2").map(h => h.member.id)).toEqual(["b", "c"]);
+    });
+  });
+
+  describe("splitSlotPayout", () => {
+    it("divides by portion and gives the leftover cent to the first holder", () => {
+      const split = splitSlotPayout(
+        [
+          { member: member("a", 1), portion: 0.5 },
+          { member: member("b", 2), portion: 0.5 },
+        ],
+        100.01
+      );
+      expect(split.map(s => s.amount)).toEqual([50.01, 50]);
+    });
+  });
+});
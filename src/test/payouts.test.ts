@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createLocalDb, resetLocalDb, signInAs } from "./localDb";
+import { confirmPayoutReceived, markPayoutSent, type MarkPayoutSentInput } from "@/lib/payouts";
+import type { Payout } from "@/types/database";
+
+let db: PGlite;
+
+// Route supabase.from() queries to the local database, as the signed-in client
+vi.mock("@/integrations/supabase/client", async () => {
+  const { localFrom } = await import("./localDb");
+  return { supabase: { from: localFrom(() => db) } };
+});
+
+// Notifications and activity are covered elsewhere
+vi.mock("@/lib/activity", () => ({
+  createDbNotification: vi.fn(),
+  logActivity: vi.fn(),
+}));
+
+const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+const RECIPIENT = "00000000-0000-0000-0000-000000000002";
+const MEMBER = "00000000-0000-0000-0000-000000000003";
+
+describe("payouts", () => {
+  beforeAll(async () => {
+    db = await createLocalDb();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await resetLocalDb(db);
+    await signInAs(db, PRESIDENT);
+  });
+
+  // A group whose president, recipient and one other member are all members, with one cycle to pay out
+  async function seedCycle(): Promise<MarkPayoutSentInput> {
+    await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, RECIPIENT, MEMBER]]);
+    const { rows: [group] } = await db.query<{ id: string }>(
+      "INSERT INTO groups (name, president_id) VALUES ('Test Group', $1) RETURNING id",
+      [PRESIDENT]
+    );
+    const { rows: [, recipient] } = await db.query<{ id: string }>(
+      `INSERT INTO group_members (group_id, user_id, queue_position, role)
+       VALUES ($1, $2, 3, 'president'), ($1, $3, 1, 'member'), ($1, $4, 2, 'member') RETURNING id`,
+      [group.id, PRESIDENT, RECIPIENT, MEMBER]
+    );
+    const { rows: [cycle] } = await db.query<{ id: string }>(
+      "INSERT INTO payment_cycles (group_id, recipient_id) VALUES ($1, $2) RETURNING id",
+      [group.id, recipient.id]
+    );
+    return {
+      cycleId: cycle.id,
+      groupId: group.id,
+      groupName: "Test Group",
+      recipientId: recipient.id,
+      recipientUserId: RECIPIENT,
+      recipientName: "Recipient",
+      amount: 500,
+      sentAt: "2024-03-31T10:00:00Z",
+      reference: "TRX-1",
+      actorId: PRESIDENT,
+      actorName: "President",
+    };
+  }
+
+  const getPayouts = async (cycleId: string) => {
+    const { rows } = await db.query<Payout>("SELECT * FROM payouts WHERE cycle_id = $1", [cycleId]);
+    return rows;
+  };
+
+  describe("markPayoutSent", () => {
+    it("records the payout, then updates it if sent again before it is confirmed", async () => {
+      const input = await seedCycle();
+
+      expect((await markPayoutSent(input)).success).toBe(true);
+      const result = await markPayoutSent({ ...input, reference: "TRX-2" });
+
+      expect(result.success).toBe(true);
+      expect(result.payout).toMatchObject({ status: "sent", reference: "TRX-2", amount: 500, sent_by: PRESIDENT });
+      const payouts = await getPayouts(input.cycleId);
+      expect(payouts).toHaveLength(1);
+      expect(payouts[0]).toMatchObject({ status: "sent", reference: "TRX-2" });
+    });
+
+    it("leaves a confirmed payout confirmed", async () => {
+      const input = await seedCycle();
+      await markPayoutSent(input);
+      await db.query("UPDATE payouts SET status = 'confirmed', confirmed_at = '2024-04-01T10:00:00Z'");
+
+      const result = await markPayoutSent({ ...input, reference: "TRX-2" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/already confirmed/);
+      const [payout] = await getPayouts(input.cycleId);
+      expect(payout).toMatchObject({ status: "confirmed", reference: "TRX-1" });
+      expect(payout.confirmed_at).not.toBeNull();
+    });
+
+    it("lets only the president record a payout", async () => {
+      const input = await seedCycle();
+      await signInAs(db, MEMBER);
+
+      const result = await markPayoutSent({ ...input, actorId: MEMBER, actorName: "Member" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/row-level security/);
+      expect(await getPayouts(input.cycleId)).toEqual([]);
+    });
+  });
+
+  describe("confirmPayoutReceived", () => {
+    const confirm = (payout: Payout, userId: string) =>
+      confirmPayoutReceived({
+        payout,
+        groupName: "Test Group",
+        presidentId: PRESIDENT,
+        actorId: userId,
+        actorName: "Recipient",
+      });
+
+    it("lets the recipient confirm a sent payout", async () => {
+      const input = await seedCycle();
+      const { payout } = await markPayoutSent(input);
+      await signInAs(db, RECIPIENT);
+
+      const result = await confirm(payout!, RECIPIENT);
+
+      expect(result.success).toBe(true);
+      expect(result.payout).toMatchObject({ status: "confirmed" });
+      expect((await getPayouts(input.cycleId))[0].status).toBe("confirmed");
+    });
+
+    it("does not let another member confirm it", async () => {
+      const input = await seedCycle();
+      const { payout } = await markPayoutSent(input);
+      await signInAs(db, MEMBER);
+
+      const result = await confirm(payout!, MEMBER);
+
+      expect(result.success).toBe(false);
+      expect((await getPayouts(input.cycleId))[0].status).toBe("sent");
+    });
+  });
+});
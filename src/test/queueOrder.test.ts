@@ -0,0 +1,315 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createLocalDb, resetLocalDb, signInAs } from "./localDb";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  applyQueueOrder,
+  drawLotteryOrder,
+  getBiddingOrder,
+  getQueueOrder,
+  getSeniorityOrder,
+  moveQueueItem,
+  seededRandom,
+  shuffleQueue,
+  verifyLotteryDraw,
+} from "@/lib/queueOrder";
+
+let db: PGlite;
+
+// Route supabase.rpc() calls to the local database
+vi.mock("@/integrations/supabase/client", async () => {
+  const { localRpc } = await import("./localDb");
+  return { supabase: { rpc: localRpc(() => db) } };
+});
+
+const member = (id: string, queue_position: number, joined: number, status: "active" | "locked" = "active") => ({
+  id,
+  queue_position,
+  status,
+  created_at: `2024-01-${String(joined).padStart(2, "0")}T00:00:00Z`,
+});
+
+const members = [member("a", 1, 3), member("b", 2, 1), member("c", 3, 2), member("d", 4, 1, "locked")];
+
+describe("queueOrder", () => {
+  describe("shuffleQueue", () => {
+    it("returns every item once without changing the original", () => {
+      const items = ["a", "b", "c", "d"];
+      const shuffled = shuffleQueue(items, () => 0);
+      expect(shuffled).toEqual(["b", "c", "d", "a"]);
+      expect([...shuffled].sort()).toEqual(items);
+      expect(items).toEqual(["a", "b", "c", "d"]);
+    });
+  });
+
+  describe("lottery", () => {
+    it("gives the same sequence for the same seed", () => {
+      const first = seededRandom("seed-1");
+      const second = seededRandom("seed-1");
+      const other = seededRandom("seed-2");
+      const draws = [first(), first(), first()];
+      expect([second(), second(), second()]).toEqual(draws);
+      expect(other()).not.toBe(draws[0]);
+      draws.forEach(draw => expect(draw).toBeGreaterThanOrEqual(0));
+      draws.forEach(draw => expect(draw).toBeLessThan(1));
+    });
+
+    it("draws the same order whatever order the members are listed in", () => {
+      expect(drawLotteryOrder(["c", "a", "b"], "abc")).toEqual(drawLotteryOrder(["a", "b", "c"], "abc"));
+    });
+
+    it("verifies a recorded draw and spots a tampered one", () => {
+      const order = drawLotteryOrder(["a", "b", "c", "e", "f"], "0f3c");
+      expect(verifyLotteryDraw({ queue_mode: "lottery", queue_seed: "0f3c", queue_order: order })).toBe(true);
+      expect(verifyLotteryDraw({ queue_mode: "lottery", queue_seed: "0f3c", queue_order: [...order].reverse() })).toBe(false);
+    });
+
+    it("only draws active members", () => {
+      expect(getQueueOrder("lottery", members, { seed: "abc" }).sort()).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("getSeniorityOrder", () => {
+    it("puts the earliest joiners first, ties in queue order", () => {
+      expect(getSeniorityOrder([...members, member("e", 5, 1)])).toEqual(["b", "e", "c", "a"]);
+    });
+  });
+
+  describe("moveQueueItem", () => {
+    it("moves an item and shifts the ones in between", () => {
+      expect(moveQueueItem(["a", "b", "c", "d"], 0, 2)).toEqual(["b", "c", "a", "d"]);
+      expect(moveQueueItem(["a", "b", "c", "d"], 3, 1)).toEqual(["a", "d", "b", "c"]);
+    });
+
+    it("ignores moves off either end", () => {
+      expect(moveQueueItem(["a", "b"], 0, -1)).toEqual(["a", "b"]);
+      expect(moveQueueItem(["a", "b"], 1, 2)).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("getBiddingOrder", () => {
+    it("puts the biggest discounts first and keeps everyone else in queue order", () => {
+      const bids = [
+        { member_id: "c", discount: 20 },
+        { member_id: "b", discount: 50 },
+      ];
+      expect(getBiddingOrder(members, bids)).toEqual(["b", "c", "a"]);
+    });
+
+    it("keeps queue order for tied bids", () => {
+      const bids = [
+        { member_id: "c", discount: 10 },
+        { member_id: "a", discount: 10 },
+      ];
+      expect(getBiddingOrder(members, bids)).toEqual(["a", "c", "b"]);
+    });
+  });
+
+  describe("set_queue_order", () => {
+    const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+    const USERS = [
+      "00000000-0000-0000-0000-000000000002",
+      "00000000-0000-0000-0000-000000000003",
+      "00000000-0000-0000-0000-000000000004",
+    ];
+
+    beforeAll(async () => {
+      db = await createLocalDb();
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      await resetLocalDb(db);
+      await signInAs(db, PRESIDENT);
+    });
+
+    async function seedGroup() {
+      await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, ...USERS]]);
+      const { rows: [group] } = await db.query<{ id: string }>(
+        "INSERT INTO groups (name, president_id) VALUES ('Test Group', $1) RETURNING id",
+        [PRESIDENT]
+      );
+      const memberIds: string[] = [];
+      for (const [index, userId] of USERS.entries()) {
+        const { rows: [row] } = await db.query<{ id: string }>(
+          "INSERT INTO group_members (group_id, user_id, queue_position) VALUES ($1, $2, $3) RETURNING id",
+          [group.id, userId, index + 1]
+        );
+        memberIds.push(row.id);
+      }
+      return { groupId: group.id, memberIds };
+    }
+
+    const getOrder = async (groupId: string) => {
+      const { rows } = await db.query<{ id: string; queue_position: number }>(
+        "SELECT id, queue_position FROM group_members WHERE group_id = $1 ORDER BY queue_position",
+        [groupId]
+      );
+      return rows;
+    };
+
+    it("rewrites every position in the new order", async () => {
+      const { groupId, memberIds } = await seedGroup();
+
+      const result = await applyQueueOrder(groupId, [memberIds[2], memberIds[0], memberIds[1]]);
+
+      expect(result.success).toBe(true);
+      expect(result.previousOrder).toEqual(memberIds);
+      expect(await getOrder(groupId)).toEqual([
+        { id: memberIds[2], queue_position: 1 },
+        { id: memberIds[0], queue_position: 2 },
+        { id: memberIds[1], queue_position: 3 },
+      ]);
+    });
+
+    it("keeps members left out of the list after the listed ones", async () => {
+      const { groupId, memberIds } = await seedGroup();
+
+      await applyQueueOrder(groupId, [memberIds[2]]);
+
+      expect((await getOrder(groupId)).map(row => row.id)).toEqual([memberIds[2], memberIds[0], memberIds[1]]);
+    });
+
+    it("rejects members from another group and changes nothing", async () => {
+      const { groupId, memberIds } = await seedGroup();
+
+      const result = await applyQueueOrder(groupId, [memberIds[1], "00000000-0000-0000-0000-00000000ffff"]);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/belong to the group/);
+      expect((await getOrder(groupId)).map(row => row.id)).toEqual(memberIds);
+    });
+
+    it("saves when the queue is still the one the editor started from", async () => {
+      const { groupId, memberIds } = await seedGroup();
+
+      const result = await applyQueueOrder(groupId, [memberIds[1], memberIds[0], memberIds[2]], memberIds);
+
+      expect(result.success).toBe(true);
+      expect((await getOrder(groupId)).map(row => row.id)).toEqual([memberIds[1], memberIds[0], memberIds[2]]);
+    });
+
+    it("rejects a save made from a stale queue and changes nothing", async () => {
+      const { groupId, memberIds } = await seedGroup();
+      const changed = [memberIds[2], memberIds[0], memberIds[1]];
+      await applyQueueOrder(groupId, changed);
+
+      const result = await applyQueueOrder(groupId, [...memberIds].reverse(), memberIds);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/changed by someone else/);
+      expect((await getOrder(groupId)).map(row => row.id)).toEqual(changed);
+    });
+
+    it("rejects callers who are not the group president", async () => {
+      const { groupId, memberIds } = await seedGroup();
+      await signInAs(db, USERS[0]);
+
+      const result = await applyQueueOrder(groupId, [...memberIds].reverse());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/president/);
+    });
+
+    describe("round queues (start_round, set_round_queue)", () => {
+      const getRounds = async (groupId: string) => {
+        const { rows } = await db.query<{ round_number: number; status: string; queue_mode: string; queue_seed: string | null }>(
+          "SELECT round_number, status, queue_mode, queue_seed FROM rounds WHERE group_id = $1 ORDER BY round_number",
+          [groupId]
+        );
+        return rows;
+      };
+
+      it("draws the lottery in the database from a seed members can re-run", async () => {
+        const { groupId, memberIds } = await seedGroup();
+        await db.query("INSERT INTO rounds (group_id, round_number, status) VALUES ($1, 1, 'completed')", [groupId]);
+
+        const { data, error } = await supabase.rpc("start_round", {
+          p_group_id: groupId,
+          p_queue_mode: "lottery",
+          p_queue_order: [...memberIds].reverse(),
+        });
+
+        expect(error).toBeNull();
+        expect(data).toMatchObject({ round_number: 2, status: "active", queue_seed: expect.stringMatching(/^[0-9a-f]{32}$/) });
+        expect(data.queue_order).toEqual(drawLotteryOrder(memberIds, data.queue_seed));
+        expect(verifyLotteryDraw(data)).toBe(true);
+        expect((await getOrder(groupId)).map(row => row.id)).toEqual(data.queue_order);
+      });
+
+      it("draws the same order as members re-running the draw in the app", async () => {
+        const { memberIds } = await seedGroup();
+
+        for (const seed of ["0f3c", "seed-1", "9b1e6c2f04a87d35e0c4f1a2b3d4e5f6"]) {
+          const { rows: [row] } = await db.query<{ order: string[] }>(
+            "SELECT draw_lottery_order($1::uuid[], $2) AS order",
+            [memberIds, seed]
+          );
+          expect(row.order).toEqual(drawLotteryOrder(memberIds, seed));
+        }
+      });
+
+      it("writes the queue and creates the round together", async () => {
+        const { groupId, memberIds } = await seedGroup();
+        await db.query("INSERT INTO rounds (group_id, round_number, status) VALUES ($1, 1, 'completed')", [groupId]);
+        const order = [memberIds[2], memberIds[0], memberIds[1]];
+
+        const { data, error } = await supabase.rpc("start_round", {
+          p_group_id: groupId,
+          p_queue_mode: "seniority",
+          p_queue_order: order,
+        });
+
+        expect(error).toBeNull();
+        expect(data).toMatchObject({ round_number: 2, status: "active", queue_seed: null, queue_order: order });
+        expect((await getOrder(groupId)).map(row => row.id)).toEqual(order);
+      });
+
+      it("starts no round and leaves the queue alone when the order cannot be written", async () => {
+        const { groupId, memberIds } = await seedGroup();
+
+        const { error } = await supabase.rpc("start_round", {
+          p_group_id: groupId,
+          p_queue_mode: "seniority",
+          p_queue_order: [memberIds[1], "00000000-0000-0000-0000-00000000ffff"],
+        });
+
+        expect(error).not.toBeNull();
+        expect(await getRounds(groupId)).toEqual([]);
+        expect((await getOrder(groupId)).map(row => row.id)).toEqual(memberIds);
+      });
+
+      it("refuses to start a round while another is in progress", async () => {
+        const { groupId, memberIds } = await seedGroup();
+        await db.query("INSERT INTO rounds (group_id, round_number) VALUES ($1, 1)", [groupId]);
+
+        const { error } = await supabase.rpc("start_round", {
+          p_group_id: groupId,
+          p_queue_mode: "carry_over",
+          p_queue_order: memberIds,
+        });
+
+        expect(error).toMatchObject({ message: expect.stringMatching(/still in progress/) });
+      });
+
+      it("draws a round's lottery only once", async () => {
+        const { groupId } = await seedGroup();
+        const { rows: [round] } = await db.query<{ id: string }>(
+          "INSERT INTO rounds (group_id, round_number) VALUES ($1, 1) RETURNING id",
+          [groupId]
+        );
+        const { data: drawn } = await supabase.rpc("set_round_queue", { p_round_id: round.id, p_queue_mode: "lottery" });
+
+        const { error } = await supabase.rpc("set_round_queue", { p_round_id: round.id, p_queue_mode: "lottery" });
+
+        expect(error).toMatchObject({ message: expect.stringMatching(/already been drawn/) });
+        expect(await getRounds(groupId)).toEqual([{ round_number: 1, status: "active", queue_mode: "lottery", queue_seed: drawn.queue_seed }]);
+        expect((await getOrder(groupId)).map(row => row.id)).toEqual(drawn.queue_order);
+      });
+    });
+  });
+});
@@ -0,0 +1,283 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { asClient, createLocalDb, resetLocalDb, signInAs } from "./localDb";
+import { approveQueueSwap, getSwappableMemberIds } from "@/lib/queueSwaps";
+import type { QueueSwapRequest } from "@/types/database";
+
+let db: PGlite;
+
+// Route supabase.rpc() calls to the local database
+vi.mock("@/integrations/supabase/client", async () => {
+  const { localRpc } = await import("./localDb");
+  return { supabase: { rpc: localRpc(() => db) } };
+});
+
+// Notifications and activity are covered elsewhere
+vi.mock("@/lib/activity", () => ({
+  createDbNotification: vi.fn(),
+  logActivity: vi.fn(),
+}));
+
+const member = (id: string, queue_position: number, status: "active" | "locked" = "active") => ({
+  id,
+  queue_position,
+  status,
+});
+
+const cycle = (id: string, recipient_id: string, day: number, status: "active" | "closed" = "closed") => ({
+  id,
+  recipient_id,
+  status,
+  start_date: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+  created_at: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+});
+
+describe("queueSwaps", () => {
+  describe("getSwappableMemberIds", () => {
+    const members = [member("c", 3), member("a", 1), member("b", 2), member("d", 4, "locked")];
+
+    it("offers every active member before the round starts", () => {
+      expect(getSwappableMemberIds(members, [])).toEqual(["a", "b", "c"]);
+    });
+
+    it("leaves out members already paid or being paid this round", () => {
+      expect(getSwappableMemberIds(members, [cycle("c1", "a", 1), cycle("c2", "b", 2, "active")])).toEqual(["c"]);
+    });
+  });
+
+  describe("approve_queue_swap", () => {
+    const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+    const USERS = [
+      "00000000-0000-0000-0000-000000000002",
+      "00000000-0000-0000-0000-000000000003",
+      "00000000-0000-0000-0000-000000000004",
+    ];
+
+    beforeAll(async () => {
+      db = await createLocalDb();
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      await resetLocalDb(db);
+      await signInAs(db, PRESIDENT);
+    });
+
+    async function seedSwap(status: string) {
+      await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, ...USERS]]);
+      const { rows: [group] } = await db.query<{ id: string }>(
+        "INSERT INTO groups (name, president_id) VALUES ('Test Group', $1) RETURNING id",
+        [PRESIDENT]
+      );
+      const memberIds: string[] = [];
+      for (const [index, userId] of USERS.entries()) {
+        const { rows: [row] } = await db.query<{ id: string }>(
+          "INSERT INTO group_members (group_id, user_id, queue_position) VALUES ($1, $2, $3) RETURNING id",
+          [group.id, userId, index + 1]
+        );
+        memberIds.push(row.id);
+      }
+      const { rows: [request] } = await db.query<QueueSwapRequest>(
+        "INSERT INTO queue_swap_requests (group_id, requester_id, target_id, status) VALUES ($1, $2, $3, $4) RETURNING *",
+        [group.id, memberIds[2], memberIds[0], status]
+      );
+      return { groupId: group.id, memberIds, request };
+    }
+
+    const approve = (request: QueueSwapRequest) => {
+      const party = { memberId: "", userId: "", name: "" };
+      return approveQueueSwap({
+        request,
+        groupName: "Test Group",
+        requester: party,
+        target: party,
+        presidentId: PRESIDENT,
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+    };
+
+    const getOrder = async (groupId: string) => {
+      const { rows } = await db.query<{ id: string }>(
+        "SELECT id FROM group_members WHERE group_id = $1 ORDER BY queue_position",
+        [groupId]
+      );
+      return rows.map(row => row.id);
+    };
+
+    const getStatus = async (requestId: string) => {
+      const { rows: [row] } = await db.query<{ status: string }>(
+        "SELECT status FROM queue_swap_requests WHERE id = $1",
+        [requestId]
+      );
+      return row.status;
+    };
+
+    it("exchanges the two positions and approves the request", async () => {
+      const { groupId, memberIds, request } = await seedSwap("accepted");
+
+      const result = await approve(request);
+
+      expect(result.success).toBe(true);
+      expect(await getOrder(groupId)).toEqual([memberIds[2], memberIds[1], memberIds[0]]);
+      expect(await getStatus(request.id)).toBe("approved");
+    });
+
+    it("refuses a swap the other member has not accepted", async () => {
+      const { groupId, memberIds, request } = await seedSwap("proposed");
+
+      const result = await approve(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/agreed to/);
+      expect(await getOrder(groupId)).toEqual(memberIds);
+    });
+
+    it("cannot apply the same swap twice", async () => {
+      const { groupId, memberIds, request } = await seedSwap("accepted");
+
+      await approve(request);
+      const result = await approve(request);
+
+      expect(result.success).toBe(false);
+      expect(await getOrder(groupId)).toEqual([memberIds[2], memberIds[1], memberIds[0]]);
+    });
+
+    it("refuses a locked member and changes nothing", async () => {
+      const { groupId, memberIds, request } = await seedSwap("accepted");
+      await db.query("UPDATE group_members SET status = 'locked' WHERE id = $1", [memberIds[0]]);
+
+      const result = await approve(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/active/);
+      expect(await getOrder(groupId)).toEqual(memberIds);
+      expect(await getStatus(request.id)).toBe("accepted");
+    });
+
+    it("refuses a member already paid this round and changes nothing", async () => {
+      const { groupId, memberIds, request } = await seedSwap("accepted");
+      const { rows: [round] } = await db.query<{ id: string }>(
+        "INSERT INTO rounds (group_id, round_number) VALUES ($1, 1) RETURNING id",
+        [groupId]
+      );
+      await db.query(
+        "INSERT INTO payment_cycles (group_id, round_id, recipient_id, status) VALUES ($1, $2, $3, 'closed')",
+        [groupId, round.id, memberIds[0]]
+      );
+
+      const result = await approve(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/paid this round/);
+      expect(await getOrder(groupId)).toEqual(memberIds);
+      expect(await getStatus(request.id)).toBe("accepted");
+    });
+
+    it("rejects callers who are not the group president", async () => {
+      const { request } = await seedSwap("accepted");
+      await signInAs(db, USERS[0]);
+
+      const result = await approve(request);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/president/);
+    });
+  });
+
+  describe("swap request policies", () => {
+    const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+    const REQUESTER = "00000000-0000-0000-0000-000000000002";
+    const TARGET = "00000000-0000-0000-0000-000000000003";
+
+    beforeAll(async () => {
+      db = await createLocalDb();
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      await resetLocalDb(db);
+    });
+
+    async function seedRequest() {
+      await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, REQUESTER, TARGET]]);
+      const { rows: [group] } = await db.query<{ id: string }>(
+        "INSERT INTO groups (name, president_id) VALUES ('Test Group', $1) RETURNING id",
+        [PRESIDENT]
+      );
+      await db.query(
+        "INSERT INTO group_members (group_id, user_id, queue_position, role) VALUES ($1, $2, 3, 'president')",
+        [group.id, PRESIDENT]
+      );
+      const { rows: [requester] } = await db.query<{ id: string }>(
+        "INSERT INTO group_members (group_id, user_id, queue_position) VALUES ($1, $2, 1) RETURNING id",
+        [group.id, REQUESTER]
+      );
+      const { rows: [target] } = await db.query<{ id: string }>(
+        "INSERT INTO group_members (group_id, user_id, queue_position) VALUES ($1, $2, 2) RETURNING id",
+        [group.id, TARGET]
+      );
+      const { rows: [request] } = await db.query<{ id: string }>(
+        "INSERT INTO queue_swap_requests (group_id, requester_id, target_id) VALUES ($1, $2, $3) RETURNING id",
+        [group.id, requester.id, target.id]
+      );
+      return request.id;
+    }
+
+    // Sets a request's status as the signed-in user, returning how many rows changed
+    const setStatusAs = async (userId: string, requestId: string, status: string) => {
+      await signInAs(db, userId);
+      const result = await asClient(db, tx =>
+        tx.query("UPDATE queue_swap_requests SET status = $2 WHERE id = $1", [requestId, status])
+      );
+      return result.affectedRows;
+    };
+
+    const getStatus = async (requestId: string) => {
+      const { rows: [row] } = await db.query<{ status: string }>(
+        "SELECT status FROM queue_swap_requests WHERE id = $1",
+        [requestId]
+      );
+      return row.status;
+    };
+
+    it("lets only the member asked accept or decline", async () => {
+      const requestId = await seedRequest();
+
+      await expect(setStatusAs(REQUESTER, requestId, "accepted")).rejects.toThrow(/row-level security/);
+      expect(await setStatusAs(PRESIDENT, requestId, "accepted")).toBe(0);
+      expect(await getStatus(requestId)).toBe("proposed");
+
+      expect(await setStatusAs(TARGET, requestId, "accepted")).toBe(1);
+      expect(await getStatus(requestId)).toBe("accepted");
+    });
+
+    it("lets the requester only withdraw their request", async () => {
+      const requestId = await seedRequest();
+
+      await expect(setStatusAs(TARGET, requestId, "cancelled")).rejects.toThrow(/row-level security/);
+      expect(await getStatus(requestId)).toBe("proposed");
+
+      expect(await setStatusAs(REQUESTER, requestId, "cancelled")).toBe(1);
+      expect(await getStatus(requestId)).toBe("cancelled");
+    });
+
+    it("lets the president turn down only a swap both members agreed to", async () => {
+      const requestId = await seedRequest();
+
+      expect(await setStatusAs(PRESIDENT, requestId, "rejected")).toBe(0);
+
+      await setStatusAs(TARGET, requestId, "accepted");
+      await expect(setStatusAs(PRESIDENT, requestId, "approved")).rejects.toThrow(/row-level security/);
+      expect(await setStatusAs(PRESIDENT, requestId, "rejected")).toBe(1);
+      expect(await getStatus(requestId)).toBe("rejected");
+    });
+  });
+});
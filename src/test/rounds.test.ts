@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { getRoundCycles, isRoundComplete, summarizeRound } from "@/lib/rounds";
+import type { PaymentStatus, PayoutStatus } from "@/types/database";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const member = (id: string, queue_position: number, shares?: number) => ({
+  id,
+  queue_position,
+  status: "active" as const,
+  shares,
+});
+
+const cycle = (id: string, recipient_id: string, day: number, status: "active" | "closed" = "closed", round_id = "r1") => ({
+  id,
+  recipient_id,
+  status,
+  round_id,
+  start_date: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+  created_at: `2024-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+});
+
+const log = (cycle_id: string, member_id: string, status: PaymentStatus) => ({ cycle_id, member_id, status });
+const payout = (cycle_id: string, amount: number, status: PayoutStatus = "confirmed") => ({ cycle_id, amount, status });
+
+describe("rounds", () => {
+  describe("getRoundCycles", () => {
+    it("keeps only the round's cycles", () => {
+      const cycles = [cycle("c1", "a", 1, "closed", "r1"), cycle("c2", "a", 2, "closed", "r2")];
+      expect(getRoundCycles(cycles, { id: "r2" }).map(c => c.id)).toEqual(["c2"]);
+    });
+
+    it("keeps every cycle when the group has no rounds yet", () => {
+      const cycles = [cycle("c1", "a", 1), cycle("c2", "b", 2)];
+      expect(getRoundCycles(cycles, null)).toHaveLength(2);
+    });
+  });
+
+  describe("isRoundComplete", () => {
+    const members = [member("a", 1), member("b", 2)];
+
+    it("is not complete while a slot is unpaid", () => {
+      expect(isRoundComplete(members, [cycle("c1", "a", 1)])).toBe(false);
+    });
+
+    it("is not complete while the last cycle is still open", () => {
+      expect(isRoundComplete(members, [cycle("c1", "a", 1), cycle("c2", "b", 2, "active")])).toBe(false);
+    });
+
+    it("is complete once every slot has been paid", () => {
+      expect(isRoundComplete(members, [cycle("c1", "a", 1), cycle("c2", "b", 2)])).toBe(true);
+    });
+
+    it("waits for a double hand's second payout", () => {
+      const doubled = [member("a", 1, 2), member("b", 2)];
+      expect(isRoundComplete(doubled, [cycle("c1", "a", 1), cycle("c2", "b", 2)])).toBe(false);
+      expect(isRoundComplete(doubled, [cycle("c1", "a", 1), cycle("c2", "a", 2), cycle("c3", "b", 3)])).toBe(true);
+    });
+
+    it("is never complete without members", () => {
+      expect(isRoundComplete([], [])).toBe(false);
+    });
+  });
+
+  describe("summarizeRound", () => {
+    it("totals verified contributions and sent payouts, and counts misses per member", () => {
+      const summary = summarizeRound(
+        [cycle("c1", "a", 1), cycle("c2", "b", 2), cycle("c3", "c", 3, "active")],
+        [
+          log("c1", "a", "verified"),
+          log("c1", "b", "unpaid"),
+          log("c2", "a", "verified"),
+          log("c2", "b", "rejected"),
+          log("c3", "a", "unpaid"),
+        ],
+        [payout("c1", 100), payout("c2", 100, "pending")],
+        [member("a", 1, 2), member("b", 2)],
+        50
+      );
+
+      expect(summary).toEqual({
+        cycleCount: 2,
+        totalCollected: 200,
+        totalPaidOut: 100,
+        misses: [{ memberId: "b", count: 2 }],
+      });
+    });
+  });
+});
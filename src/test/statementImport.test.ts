@@ -0,0 +1,350 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createLocalDb, resetLocalDb, signInAs } from "./localDb";
+import {
+  confirmStatementMatches,
+  getStatementRows,
+  guessColumnMapping,
+  matchStatement,
+  parseStatementAmount,
+  parseStatementDate,
+  payerNameScore,
+  readStatement,
+  type StatementCandidate,
+  type StatementMatch,
+  type StatementRow,
+} from "@/lib/statementImport";
+import { logActivities } from "@/lib/activity";
+import type { PaymentLog, PaymentStatus } from "@/types/database";
+
+let db: PGlite;
+
+// Route supabase.rpc() calls to the local database
+vi.mock("@/integrations/supabase/client", async () => {
+  const { localRpc } = await import("./localDb");
+  return { supabase: { rpc: localRpc(() => db) } };
+});
+
+// Activity is covered elsewhere
+vi.mock("@/lib/activity", () => ({
+  logActivities: vi.fn(),
+}));
+
+const candidate = (
+  id: string,
+  overrides: Partial<StatementCandidate> & { status?: PaymentStatus } = {}
+): StatementCandidate => ({
+  log: { id, status: overrides.status || "unpaid", marked_at: null } as PaymentLog,
+  cycleNumber: 1,
+  dueDate: "2024-03-31T00:00:00Z",
+  memberId: `member-${id}`,
+  memberUserId: `user-${id}`,
+  memberName: "Member",
+  amount: 50,
+  expectedDate: "2024-03-31T00:00:00Z",
+  references: [],
+  ...overrides,
+});
+
+const row = (line: number, overrides: Partial<StatementRow> = {}): StatementRow => ({
+  line,
+  date: new Date(2024, 2, 30),
+  amount: 50,
+  reference: "",
+  payer: "",
+  ...overrides,
+});
+
+describe("statementImport", () => {
+  describe("readStatement", () => {
+    it("skips account details above the table and handles quoted cells", () => {
+      const file = readStatement(
+        "Account,12345678\n" +
+        "Period,March 2024\n" +
+        "\n" +
+        "Receipt No.;Completion Time;Details;Paid In;Withdrawn\r\n" +
+        "SCK12AB;31/03/2024 10:15;\"Funds received from JANE DOE; 0712\";1.250,00;\r\n" +
+        "SCK34CD;01/04/2024 09:00;Airtime purchase;;100,00\r\n"
+      );
+
+      expect(file.headers).toEqual(["Receipt No.", "Completion Time", "Details", "Paid In", "Withdrawn"]);
+      expect(file.rows).toHaveLength(2);
+      expect(file.rows[0][2]).toBe("Funds received from JANE DOE; 0712");
+    });
+  });
+
+  describe("guessColumnMapping", () => {
+    it("picks the date, amount, reference and payer columns from common headers", () => {
+      const file = readStatement(
+        "Transaction Date,Description,Reference,Debit,Credit\n" +
+        "03/15/2024,Transfer from John Smith,TRX-001,,50.00\n"
+      );
+
+      expect(guessColumnMapping(file)).toEqual({
+        date: 0,
+        amount: 4,
+        reference: 2,
+        payer: 1,
+        dateFormat: "mdy",
+      });
+    });
+  });
+
+  describe("parseStatementDate", () => {
+    it("reads numeric dates in the chosen format", () => {
+      expect(parseStatementDate("05/03/2024", "dmy")).toEqual(new Date(2024, 2, 5));
+      expect(parseStatementDate("05/03/2024", "mdy")).toEqual(new Date(2024, 4, 3));
+      expect(parseStatementDate("2024-03-05 14:20", "dmy")).toEqual(new Date(2024, 2, 5));
+      expect(parseStatementDate("5-3-24", "dmy")).toEqual(new Date(2024, 2, 5));
+    });
+
+    it("reads dates with month names", () => {
+      expect(parseStatementDate("05 Mar 2024", "mdy")).toEqual(new Date(2024, 2, 5));
+      expect(parseStatementDate("March 5, 2024", "dmy")).toEqual(new Date(2024, 2, 5));
+    });
+
+    it("rejects dates that do not exist", () => {
+      expect(parseStatementDate("31/02/2024", "dmy")).toBeNull();
+      expect(parseStatementDate("Opening balance", "dmy")).toBeNull();
+    });
+  });
+
+  describe("parseStatementAmount", () => {
+    it("reads thousands and decimal separators either way round", () => {
+      expect(parseStatementAmount("KES 1,250.00")).toBe(1250);
+      expect(parseStatementAmount("1.250,50")).toBe(1250.5);
+      expect(parseStatementAmount("1,000")).toBe(1000);
+      expect(parseStatementAmount("12.5")).toBe(12.5);
+    });
+
+    it("reads money going out as negative and ignores text", () => {
+      expect(parseStatementAmount("(50.00)")).toBe(-50);
+      expect(parseStatementAmount("-50")).toBe(-50);
+      expect(parseStatementAmount("50.00 DR")).toBe(-50);
+      expect(parseStatementAmount("")).toBeNull();
+      expect(parseStatementAmount("n/a")).toBeNull();
+    });
+  });
+
+  describe("getStatementRows", () => {
+    it("keeps only money received", () => {
+      const file = readStatement(
+        "Date,Amount,Name\n" +
+        "30/03/2024,50.00,Jane Doe\n" +
+        "30/03/2024,-20.00,Electricity\n" +
+        "31/03/2024,,Balance\n"
+      );
+
+      const rows = getStatementRows(file, { date: 0, amount: 1, reference: null, payer: 2, dateFormat: "dmy" });
+
+      expect(rows).toEqual([{ line: 2, date: new Date(2024, 2, 30), amount: 50, reference: "", payer: "Jane Doe" }]);
+    });
+  });
+
+  describe("payerNameScore", () => {
+    it("scores the share of the member's names in the payer text", () => {
+      expect(payerNameScore("Funds received from JANE W DOE 0712", "Jane Doe")).toBe(1);
+      expect(payerNameScore("Transfer from Jane Smith", "Jane Doe")).toBe(0.5);
+      expect(payerNameScore("", "Jane Doe")).toBe(0);
+    });
+  });
+
+  describe("matchStatement", () => {
+    it("only matches the exact amount within the date window", () => {
+      const matches = matchStatement(
+        [row(2, { amount: 40 }), row(3, { date: new Date(2024, 1, 1) }), row(4)],
+        [candidate("a")]
+      );
+
+      expect(matches.map(m => m.row.line)).toEqual([4]);
+      expect(matches[0].reasons).toEqual(["date"]);
+      expect(matches[0].confident).toBe(false);
+    });
+
+    it("matches the member's reference even outside the date window", () => {
+      const matches = matchStatement(
+        [row(2, { date: new Date(2024, 5, 1), reference: "trx-001 " })],
+        [candidate("a", { references: ["TRX001"] })]
+      );
+
+      expect(matches[0].reasons).toEqual(["reference"]);
+      expect(matches[0].confident).toBe(true);
+    });
+
+    it("gives each line and payment to the strongest match", () => {
+      const matches = matchStatement(
+        [row(2, { payer: "John Smith" }), row(3, { payer: "Jane Doe" })],
+        [candidate("jane", { memberName: "Jane Doe" }), candidate("john", { memberName: "John Smith" })]
+      );
+
+      expect(matches.map(m => [m.row.line, m.candidate.log.id])).toEqual([[2, "john"], [3, "jane"]]);
+      expect(matches.every(m => m.confident)).toBe(true);
+    });
+
+    it("leaves a line unmatched once its payment is taken", () => {
+      const matches = matchStatement([row(2), row(3)], [candidate("a")]);
+
+      expect(matches).toHaveLength(1);
+    });
+  });
+
+  describe("confirm_statement_matches", () => {
+    const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+    const MEMBER = "00000000-0000-0000-0000-000000000002";
+    const OTHER = "00000000-0000-0000-0000-000000000003";
+
+    beforeAll(async () => {
+      db = await createLocalDb();
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      vi.clearAllMocks();
+      await resetLocalDb(db);
+      await signInAs(db, PRESIDENT);
+    });
+
+    // A group with three payments: unpaid with a pending installment, pending with installments, and verified
+    async function seedPayments() {
+      await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, MEMBER, OTHER]]);
+      const { rows: [group] } = await db.query<{ id: string }>(
+        "INSERT INTO groups (name, president_id, contribution_amount) VALUES ('Test Group', $1, 50) RETURNING id",
+        [PRESIDENT]
+      );
+      const { rows: [member] } = await db.query<{ id: string }>(
+        "INSERT INTO group_members (group_id, user_id, queue_position) VALUES ($1, $2, 1) RETURNING id",
+        [group.id, MEMBER]
+      );
+      const { rows: [other] } = await db.query<{ id: string }>(
+        "INSERT INTO group_members (group_id, user_id, queue_position) VALUES ($1, $2, 2) RETURNING id",
+        [group.id, OTHER]
+      );
+      const { rows: [first, second] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_cycles (group_id) VALUES ($1), ($1) RETURNING id",
+        [group.id]
+      );
+      const { rows: [unpaidLog] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_logs (cycle_id, member_id, status) VALUES ($1, $2, 'unpaid') RETURNING id",
+        [first.id, member.id]
+      );
+      await db.query(
+        "INSERT INTO payment_installments (payment_log_id, amount, status) VALUES ($1, 20, 'pending')",
+        [unpaidLog.id]
+      );
+      const { rows: [pendingLog] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_logs (cycle_id, member_id, status, marked_at) VALUES ($1, $2, 'pending', '2024-03-29T10:00:00Z') RETURNING id",
+        [first.id, other.id]
+      );
+      await db.query(
+        "INSERT INTO payment_installments (payment_log_id, amount, status) VALUES ($1, 50, 'pending')",
+        [pendingLog.id]
+      );
+      const { rows: [verifiedLog] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_logs (cycle_id, member_id, status) VALUES ($1, $2, 'verified') RETURNING id",
+        [second.id, member.id]
+      );
+      return { groupId: group.id, memberId: member.id, unpaidLogId: unpaidLog.id, pendingLogId: pendingLog.id, verifiedLogId: verifiedLog.id };
+    }
+
+    const match = (logId: string, amount: number, reference = ""): StatementMatch => ({
+      row: row(2, { amount, reference }),
+      candidate: candidate(logId, { memberName: "Member", memberUserId: MEMBER }),
+      reasons: ["date"],
+      confident: false,
+    });
+
+    const getInstallments = async (logId: string) => {
+      const { rows } = await db.query<{ amount: string; status: string; reference: string | null }>(
+        "SELECT amount, status, reference FROM payment_installments WHERE payment_log_id = $1 ORDER BY amount",
+        [logId]
+      );
+      return rows;
+    };
+
+    const getLogStatus = async (logId: string) => {
+      const { rows: [log] } = await db.query<{ status: string }>("SELECT status FROM payment_logs WHERE id = $1", [logId]);
+      return log.status;
+    };
+
+    it("verifies pending installments and records the rest of the statement amount with its reference", async () => {
+      const { unpaidLogId, groupId, memberId } = await seedPayments();
+
+      const result = await confirmStatementMatches({
+        matches: [match(unpaidLogId, 50, "SCK12AB")],
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+
+      expect(result).toEqual({ success: true, verifiedCount: 1, skippedCount: 0 });
+      expect(await getLogStatus(unpaidLogId)).toBe("verified");
+      expect(await getInstallments(unpaidLogId)).toEqual([
+        { amount: "20.00", status: "verified", reference: null },
+        { amount: "30.00", status: "verified", reference: "SCK12AB" },
+      ]);
+
+      const { rows: [recorded] } = await db.query<{ group_id: string; member_id: string }>(
+        "SELECT group_id, member_id FROM payment_installments WHERE payment_log_id = $1 AND reference IS NOT NULL",
+        [unpaidLogId]
+      );
+      expect(recorded).toEqual({ group_id: groupId, member_id: memberId });
+      expect(vi.mocked(logActivities).mock.calls[0][0][0]).toMatchObject({
+        action_type: "payment_verified",
+        metadata: { amount: 50, source: "statement", reference: "SCK12AB" },
+      });
+    });
+
+    it("verifies a pending payment without recording anything extra", async () => {
+      const { pendingLogId } = await seedPayments();
+
+      await confirmStatementMatches({ matches: [match(pendingLogId, 50)], actorId: PRESIDENT, actorName: "President" });
+
+      expect(await getLogStatus(pendingLogId)).toBe("verified");
+      expect(await getInstallments(pendingLogId)).toEqual([{ amount: "50.00", status: "verified", reference: null }]);
+    });
+
+    it("leaves a payment unpaid when the statement line covers only part of it", async () => {
+      const { unpaidLogId } = await seedPayments();
+
+      const result = await confirmStatementMatches({
+        matches: [match(unpaidLogId, 30, "SCK12AB")],
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+
+      expect(result.success).toBe(true);
+      expect(await getLogStatus(unpaidLogId)).toBe("unpaid");
+      expect(await getInstallments(unpaidLogId)).toEqual([
+        { amount: "10.00", status: "verified", reference: "SCK12AB" },
+        { amount: "20.00", status: "verified", reference: null },
+      ]);
+    });
+
+    it("skips payments that are already verified", async () => {
+      const { unpaidLogId, verifiedLogId } = await seedPayments();
+
+      const result = await confirmStatementMatches({
+        matches: [match(unpaidLogId, 50), { ...match(verifiedLogId, 50), row: row(3) }],
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+
+      expect(result).toEqual({ success: true, verifiedCount: 1, skippedCount: 1 });
+      expect(await getInstallments(verifiedLogId)).toEqual([]);
+    });
+
+    it("refuses members who do not run the group", async () => {
+      const { unpaidLogId } = await seedPayments();
+      await signInAs(db, MEMBER);
+
+      const result = await confirmStatementMatches({ matches: [match(unpaidLogId, 50)], actorId: MEMBER, actorName: "Member" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/officers/);
+      expect(await getLogStatus(unpaidLogId)).toBe("unpaid");
+    });
+  });
+});
@@ -0,0 +1,225 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createLocalDb, resetLocalDb, signInAs } from "./localDb";
+import { reviewPayments, sortVerificationQueue, type VerificationItem } from "@/lib/verificationQueue";
+import { createDbNotifications, logActivities } from "@/lib/activity";
+import type { PaymentLog } from "@/types/database";
+
+let db: PGlite;
+
+// Route supabase.rpc() calls to the local database
+vi.mock("@/integrations/supabase/client", async () => {
+  const { localRpc } = await import("./localDb");
+  return { supabase: { rpc: localRpc(() => db) } };
+});
+
+// Notifications and activity are covered elsewhere
+vi.mock("@/lib/activity", () => ({
+  createDbNotification: vi.fn(),
+  createDbNotifications: vi.fn(),
+  logActivity: vi.fn(),
+  logActivities: vi.fn(),
+}));
+
+const item = (id: string, markedAt: string | null): VerificationItem => ({
+  log: { id, status: "pending", marked_at: markedAt } as PaymentLog,
+  groupId: "group-1",
+  groupName: "Test Group",
+  currency: "USD",
+  dueDate: "2024-03-31T00:00:00Z",
+  memberId: `member-${id}`,
+  memberUserId: `user-${id}`,
+  memberName: `Member ${id}`,
+  avatarUrl: null,
+  amountDue: 100,
+  installments: [],
+});
+
+describe("verificationQueue", () => {
+  describe("sortVerificationQueue", () => {
+    it("puts the oldest submissions first and unknown times last", () => {
+      const sorted = sortVerificationQueue([
+        item("b", "2024-03-02T10:00:00Z"),
+        item("c", null),
+        item("a", "2024-03-01T10:00:00Z"),
+      ]);
+      expect(sorted.map(i => i.log.id)).toEqual(["a", "b", "c"]);
+    });
+  });
+
+  describe("review_payments", () => {
+    const PRESIDENT = "00000000-0000-0000-0000-000000000001";
+    const VICE_PRESIDENT = "00000000-0000-0000-0000-000000000002";
+    const MEMBER = "00000000-0000-0000-0000-000000000003";
+
+    beforeAll(async () => {
+      db = await createLocalDb();
+    });
+
+    afterAll(async () => {
+      await db.close();
+    });
+
+    beforeEach(async () => {
+      vi.clearAllMocks();
+      await resetLocalDb(db);
+      await signInAs(db, PRESIDENT);
+    });
+
+    // One group with a pending payment from each member: the vice president's in installments, the member's marked before installments existed
+    async function seedPayments() {
+      await db.query("INSERT INTO auth.users (id) SELECT unnest($1::uuid[])", [[PRESIDENT, VICE_PRESIDENT, MEMBER]]);
+      const { rows: [group] } = await db.query<{ id: string }>(
+        "INSERT INTO groups (name, president_id, contribution_amount) VALUES ('Test Group', $1, 50) RETURNING id",
+        [PRESIDENT]
+      );
+      const { rows: [vicePresident] } = await db.query<{ id: string }>(
+        "INSERT INTO group_members (group_id, user_id, queue_position, role) VALUES ($1, $2, 1, 'vice_president') RETURNING id",
+        [group.id, VICE_PRESIDENT]
+      );
+      const { rows: [member] } = await db.query<{ id: string }>(
+        "INSERT INTO group_members (group_id, user_id, queue_position, shares) VALUES ($1, $2, 2, 2) RETURNING id",
+        [group.id, MEMBER]
+      );
+      const { rows: [cycle] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_cycles (group_id) VALUES ($1) RETURNING id",
+        [group.id]
+      );
+      const { rows: [installmentLog] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_logs (cycle_id, member_id, status, marked_at) VALUES ($1, $2, 'pending', '2024-03-02T10:00:00Z') RETURNING id",
+        [cycle.id, vicePresident.id]
+      );
+      await db.query(
+        "INSERT INTO payment_installments (payment_log_id, amount, status) VALUES ($1, 20, 'verified'), ($1, 30, 'pending')",
+        [installmentLog.id]
+      );
+      const { rows: [legacyLog] } = await db.query<{ id: string }>(
+        "INSERT INTO payment_logs (cycle_id, member_id, status, marked_at) VALUES ($1, $2, 'pending', '2024-03-01T10:00:00Z') RETURNING id",
+        [cycle.id, member.id]
+      );
+      return {
+        items: [
+          { ...item(installmentLog.id, "2024-03-02T10:00:00Z"), memberUserId: VICE_PRESIDENT },
+          { ...item(legacyLog.id, "2024-03-01T10:00:00Z"), memberUserId: MEMBER },
+        ],
+        installmentLogId: installmentLog.id,
+        legacyLogId: legacyLog.id,
+      };
+    }
+
+    const getLogStatus = async (logId: string) => {
+      const { rows: [row] } = await db.query<{ status: string; marked_at: string | null }>(
+        "SELECT status, marked_at FROM payment_logs WHERE id = $1",
+        [logId]
+      );
+      return row;
+    };
+
+    const getInstallmentStatuses = async (logId: string) => {
+      const { rows } = await db.query<{ status: string }>(
+        "SELECT status FROM payment_installments WHERE payment_log_id = $1 ORDER BY amount",
+        [logId]
+      );
+      return rows.map(row => row.status);
+    };
+
+    it("verifies every selected payment and its pending installments in one call", async () => {
+      const { items, installmentLogId, legacyLogId } = await seedPayments();
+
+      const result = await reviewPayments({ items, verify: true, actorId: PRESIDENT, actorName: "President" });
+
+      expect(result).toEqual({ success: true, reviewedCount: 2, skippedCount: 0 });
+      expect((await getLogStatus(installmentLogId)).status).toBe("verified");
+      expect((await getLogStatus(legacyLogId)).status).toBe("verified");
+      expect(await getInstallmentStatuses(installmentLogId)).toEqual(["verified", "verified"]);
+      expect(createDbNotifications).toHaveBeenCalledTimes(0);
+      expect(vi.mocked(logActivities).mock.calls[0][0]).toHaveLength(2);
+    });
+
+    it("rejects with a reason, records it in each thread and notifies each member", async () => {
+      const { items, installmentLogId, legacyLogId } = await seedPayments();
+
+      const result = await reviewPayments({
+        items,
+        verify: false,
+        rejection: { reason: "transfer_not_found", note: "Nothing on the March statement" },
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+
+      expect(result.success).toBe(true);
+      expect(await getLogStatus(installmentLogId)).toEqual({ status: "rejected", marked_at: null });
+      expect((await getLogStatus(legacyLogId)).status).toBe("rejected");
+      expect(await getInstallmentStatuses(installmentLogId)).toEqual(["verified", "rejected"]);
+
+      const { rows: events } = await db.query<{ payment_log_id: string; amount: string; reason: string; note: string }>(
+        "SELECT payment_log_id, amount, reason, note FROM payment_log_events ORDER BY amount"
+      );
+      expect(events).toEqual([
+        { payment_log_id: installmentLogId, amount: "30.00", reason: "transfer_not_found", note: "Nothing on the March statement" },
+        { payment_log_id: legacyLogId, amount: "100.00", reason: "transfer_not_found", note: "Nothing on the March statement" },
+      ]);
+
+      const notifications = vi.mocked(createDbNotifications).mock.calls[0][0];
+      expect(notifications.map(n => n.userId).sort()).toEqual([VICE_PRESIDENT, MEMBER].sort());
+      expect(notifications[0].message).toMatch(/Can't find the transfer: Nothing on the March statement/);
+    });
+
+    it("records what was owed when the payment was due, not the current contribution", async () => {
+      const { items, legacyLogId } = await seedPayments();
+      await db.query("UPDATE payment_logs SET amount_due = 50 WHERE id = $1", [legacyLogId]);
+
+      await reviewPayments({
+        items,
+        verify: false,
+        rejection: { reason: "wrong_amount" },
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+
+      const { rows: [event] } = await db.query<{ amount: string }>(
+        "SELECT amount FROM payment_log_events WHERE payment_log_id = $1",
+        [legacyLogId]
+      );
+      expect(event.amount).toBe("50.00");
+    });
+
+    it("skips payments that were already reviewed", async () => {
+      const { items, legacyLogId } = await seedPayments();
+      await db.query("UPDATE payment_logs SET status = 'verified' WHERE id = $1", [legacyLogId]);
+
+      const result = await reviewPayments({ items, verify: true, actorId: PRESIDENT, actorName: "President" });
+
+      expect(result).toEqual({ success: true, reviewedCount: 1, skippedCount: 1 });
+    });
+
+    it("lets a vice president review but no other member", async () => {
+      const { items } = await seedPayments();
+
+      await signInAs(db, MEMBER);
+      const refused = await reviewPayments({ items, verify: true, actorId: MEMBER, actorName: "Member" });
+      expect(refused.success).toBe(false);
+      expect(refused.error).toMatch(/officers/);
+
+      await signInAs(db, VICE_PRESIDENT);
+      const allowed = await reviewPayments({ items, verify: true, actorId: VICE_PRESIDENT, actorName: "Vice President" });
+      expect(allowed.reviewedCount).toBe(2);
+    });
+
+    it("refuses a rejection of other without a description", async () => {
+      const { items, legacyLogId } = await seedPayments();
+
+      const result = await reviewPayments({
+        items,
+        verify: false,
+        rejection: { reason: "other", note: " " },
+        actorId: PRESIDENT,
+        actorName: "President",
+      });
+
+      expect(result.success).toBe(false);
+      expect((await getLogStatus(legacyLogId)).status).toBe("pending");
+    });
+  });
+});
@@ -1,8 +1,25 @@
 export type MemberStatus = 'active' | 'locked' | 'pending';
 export type PaymentStatus = 'unpaid' | 'pending' | 'verified' | 'rejected';
-export type GroupFrequency = 'weekly' | 'monthly';
+export type GroupFrequency = 'weekly' | 'bi-weekly' | 'monthly' | 'quarterly' | 'custom';
+export type FrequencyUnit = 'days' | 'weeks';
+export type CurrencyCode = 'USD' | 'KES' | 'NGN' | 'GHS' | 'GBP' | 'EUR';
 export type CycleStatus = 'active' | 'closed';
 export type MemberRole = 'president' | 'vice_president' | 'member';
+export type PayoutStatus = 'pending' | 'sent' | 'confirmed';
+export type ScheduleMode = 'manual' | 'confirm' | 'auto';
+export type MonthEndRule = 'last_day' | 'next_month';
+export type LockCountMode = 'consecutive' | 'cumulative';
+export type LateFeeType = 'none' | 'flat' | 'percent';
+export type PenaltyStatus = 'outstanding' | 'waived';
+export type InstallmentStatus = 'pending' | 'verified' | 'rejected';
+export type PaymentMethod = 'bank_transfer' | 'mobile_money' | 'e_transfer' | 'cash' | 'other';
+export type PaymentEventType = 'submitted' | 'rejected' | 'resubmitted';
+export type RejectionReason = 'wrong_amount' | 'transfer_not_found' | 'wrong_account' | 'unclear_proof' | 'other';
+export type RoundStatus = 'active' | 'completed';
+export type RoundQueueMode = 'carry_over' | 'lottery' | 'bidding' | 'seniority';
+export type RestoreMode = 'keep_position' | 'move_to_end' | 'after_arrears';
+export type ArrearsStatus = 'outstanding' | 'settled';
+export type SwapStatus = 'proposed' | 'accepted' | 'declined' | 'approved' | 'rejected' | 'cancelled';
 
 export interface Profile {
   id: string;
@@ -19,10 +36,24 @@ export interface Group {
   name: string;
   president_id: string;
   frequency: GroupFrequency;
+  frequency_interval: number | null;
+  frequency_unit: FrequencyUnit | null;
   contribution_amount: number;
+  currency: CurrencyCode;
   president_email: string;
   invite_code: string;
   photo_url: string | null;
+  schedule_mode: ScheduleMode;
+  schedule_anchor_date: string | null;
+  schedule_month_end_rule: MonthEndRule;
+  schedule_skip_dates: string[];
+  lock_threshold: number;
+  lock_count_mode: LockCountMode;
+  lock_grace_days: number | null;
+  lock_decay_cycles: number | null;
+  late_fee_type: LateFeeType;
+  late_fee_amount: number; // flat amount, or percent of the contribution
+  late_fee_per_day: boolean;
   archived_at: string | null;
   created_at: string;
   updated_at: string;
@@ -35,7 +66,46 @@ export interface GroupMember {
   queue_position: number;
   status: MemberStatus;
   role: MemberRole;
+  shares: number; // hands held: 2 for a double hand, 0.5 for a split one
   missed_payment_count: number;
+  on_time_streak: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Round {
+  id: string;
+  group_id: string;
+  round_number: number;
+  status: RoundStatus;
+  queue_mode: RoundQueueMode; // how the payout queue was set when the round started
+  queue_seed: string | null; // lottery draws only, so members can re-run the draw
+  queue_order: string[] | null; // member ids in the order the queue was set
+  started_at: string;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface QueueBid {
+  id: string;
+  group_id: string;
+  round_number: number;
+  member_id: string;
+  discount: number; // taken off the member's payout in exchange for an earlier slot
+  created_at: string;
+  updated_at: string;
+}
+
+export interface QueueSwapRequest {
+  id: string;
+  group_id: string;
+  requester_id: string; // member who proposed the swap
+  target_id: string; // member asked to trade slots
+  status: SwapStatus;
+  note: string | null;
+  responded_at: string | null; // when the target accepted or declined
+  decided_at: string | null; // when the president approved or rejected
+  decided_by: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -43,9 +113,14 @@ export interface GroupMember {
 export interface PaymentCycle {
   id: string;
   group_id: string;
+  round_id: string | null;
+  recipient_id: string | null;
+  cycle_number: number | null;
   start_date: string;
   due_date: string;
   status: CycleStatus;
+  contribution_amount: number | null; // per hand when the cycle started; null for older cycles
+  closed_at: string | null;
   created_at: string;
 }
 
@@ -54,13 +129,91 @@ export interface PaymentLog {
   cycle_id: string;
   member_id: string;
   status: PaymentStatus;
+  amount_due: number | null; // contribution owed, fixed when the log was created; null for older logs
   marked_at: string | null;
   verified_at: string | null;
+  extended_until: string | null; // president-granted extension past the cycle's due date
+  miss_deferred: boolean; // extension outlived the close; the next close settles the miss
   reminder_count: number;
   last_reminded_at: string | null;
   created_at: string;
 }
 
+export interface PaymentInstallment {
+  id: string;
+  payment_log_id: string;
+  group_id: string;
+  member_id: string;
+  amount: number;
+  paid_at: string; // date the member says they sent it
+  payment_method: PaymentMethod | null; // null for installments recorded before methods were captured
+  reference: string | null;
+  proof_path: string | null; // file in the payment-proofs storage bucket
+  status: InstallmentStatus;
+  verified_at: string | null;
+  verified_by: string | null;
+  created_at: string; // when it was submitted
+}
+
+// One entry in a payment log's thread of submissions and rejections
+export interface PaymentLogEvent {
+  id: string;
+  payment_log_id: string;
+  group_id: string;
+  installment_id: string | null; // null for payments marked as sent before installments existed
+  event_type: PaymentEventType;
+  actor_id: string | null;
+  actor_name: string | null;
+  amount: number | null;
+  reason: RejectionReason | null; // set on rejections
+  note: string | null; // the president's details on a rejection, or the member's reply on a resubmission
+  created_at: string;
+}
+
+export interface Payout {
+  id: string;
+  cycle_id: string;
+  group_id: string;
+  recipient_id: string;
+  amount: number;
+  status: PayoutStatus;
+  reference: string | null;
+  sent_at: string | null;
+  sent_by: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+}
+
+export interface Penalty {
+  id: string;
+  group_id: string;
+  cycle_id: string;
+  member_id: string;
+  payment_log_id: string;
+  amount: number;
+  days_late: number;
+  status: PenaltyStatus;
+  waived_at: string | null;
+  waived_by: string | null;
+  waive_reason: string | null;
+  created_at: string;
+}
+
+export interface Arrears {
+  id: string;
+  group_id: string;
+  member_id: string;
+  amount: number; // missed contributions owed when the member was restored
+  amount_paid: number;
+  cycle_ids: string[]; // missed cycles the amount covers
+  status: ArrearsStatus;
+  restore_on_settle: boolean; // member stays locked until their arrears are paid
+  created_by: string | null;
+  created_at: string;
+  settled_at: string | null;
+  updated_at: string;
+}
+
 // Activity types for group feed
 export type ActivityType =
   | 'payment_marked_sent'
@@ -72,7 +225,24 @@ export type ActivityType =
   | 'cycle_started'
   | 'cycle_closed'
   | 'reminder_sent'
-  | 'member_reminded';
+  | 'member_reminded'
+  | 'payout_sent'
+  | 'payout_confirmed'
+  | 'penalty_waived'
+  | 'payment_extended'
+  | 'cycle_reopened'
+  | 'round_completed'
+  | 'round_started'
+  | 'queue_ordered'
+  | 'queue_reordered'
+  | 'arrears_recorded'
+  | 'arrears_paid'
+  | 'swap_proposed'
+  | 'swap_accepted'
+  | 'swap_declined'
+  | 'swap_cancelled'
+  | 'swap_approved'
+  | 'swap_rejected';
 
 export interface ActivityLog {
   id: string;
@@ -94,7 +264,10 @@ export type NotificationType =
   | 'cycle_started'
   | 'cycle_closed'
   | 'member_joined'
-  | 'member_locked';
+  | 'member_locked'
+  | 'payout_sent'
+  | 'payout_confirmed'
+  | 'queue_swap';
 
 export interface DbNotification {
   id: string;
@@ -0,0 +1,71 @@
+-- Approve a queue swap both members agreed to, exchanging their positions in a single transaction
+--
+-- 1. Only the group president can approve, and only a request the other member accepted
+-- 2. Both members must still be active in the group, and neither may have been paid in the
+--    current round or be the recipient of its open cycle, as their slot is settled
+-- 3. queue_position is unique per group, so the requester is parked on a negative position
+--    while the target moves into their slot
+-- 4. The request is marked approved along with the swap, so it can never be applied twice
+
+CREATE OR REPLACE FUNCTION public.approve_queue_swap(p_request_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_request queue_swap_requests%ROWTYPE;
+  v_group groups%ROWTYPE;
+  v_requester group_members%ROWTYPE;
+  v_target group_members%ROWTYPE;
+  v_decided_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  SELECT * INTO v_request FROM queue_swap_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Swap request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_group FROM groups WHERE id = v_request.group_id;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can approve a swap' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Only a swap both members agreed to can be approved';
+  END IF;
+
+  SELECT * INTO v_requester FROM group_members WHERE id = v_request.requester_id FOR UPDATE;
+  SELECT * INTO v_target FROM group_members WHERE id = v_request.target_id FOR UPDATE;
+
+  IF v_requester.status IS DISTINCT FROM 'active' OR v_target.status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Both members must be active to swap payout slots';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM payment_cycles pc
+    JOIN rounds r ON r.id = pc.round_id
+    WHERE r.group_id = v_request.group_id
+      AND r.status = 'active'
+      AND pc.recipient_id IN (v_request.requester_id, v_request.target_id)
+  ) THEN
+    RAISE EXCEPTION 'A member who has been paid this round, or is being paid now, cannot swap payout slots';
+  END IF;
+
+  UPDATE group_members SET queue_position = -v_requester.queue_position - 1 WHERE id = v_requester.id;
+  UPDATE group_members SET queue_position = v_requester.queue_position, updated_at = v_decided_at WHERE id = v_target.id;
+  UPDATE group_members SET queue_position = v_target.queue_position, updated_at = v_decided_at WHERE id = v_requester.id;
+
+  UPDATE queue_swap_requests
+  SET status = 'approved', decided_at = v_decided_at, decided_by = auth.uid(), updated_at = v_decided_at
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object(
+    'request_id', p_request_id,
+    'group_id', v_request.group_id,
+    'requester_position', v_target.queue_position,
+    'target_position', v_requester.queue_position,
+    'decided_at', v_decided_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.approve_queue_swap(UUID) TO authenticated;
@@ -0,0 +1,368 @@
+-- Close a payment cycle in a single transaction
+--
+-- 1. Locks the cycle row so concurrent closes of the same cycle run one after the other
+-- 2. If the cycle is already closed, returns the report saved by the original close
+--    without touching any member (safe to retry)
+-- 3. Applies the group's lock policy to every member with a payment log:
+--    - 'unpaid' or 'rejected' logs, and payments marked after the grace period, are missed
+--    - a miss increments missed_payment_count and resets the on-time streak
+--    - an on-time payment resets the count (consecutive mode) or, in cumulative mode,
+--      removes one miss after every lock_decay_cycles on-time cycles in a row
+--    - members who reach lock_threshold are locked
+--    - an unpaid log the president extended past the close is not counted as missed yet, and
+--      payments on an extended log are only late after the extension ends
+-- 4. Settles extensions from earlier closes that have ended since: a log still unpaid (or
+--    paid after the grace period) when its extension ran out is missed now, a log paid in
+--    time counts as on time, and a late payment is charged the late fee
+-- 5. Charges the group's late fee on payments marked as sent after the due date,
+--    one penalty per payment log
+-- 6. Closes the cycle and stores the report on it, with a snapshot of every member's
+--    standing before and after the close so reopen_payment_cycle can reverse it
+--
+-- Any error rolls the whole close back, so members are never half-updated.
+-- With p_dry_run the same report is worked out and returned without writing anything,
+-- so the president can preview a close before committing to it.
+
+ALTER TABLE payment_cycles ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payment_cycles ADD COLUMN IF NOT EXISTS close_report JSONB;
+ALTER TABLE payment_logs ADD COLUMN IF NOT EXISTS extended_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE payment_logs ADD COLUMN IF NOT EXISTS miss_deferred BOOLEAN NOT NULL DEFAULT FALSE;
+
+DROP FUNCTION IF EXISTS public.close_payment_cycle(UUID);
+
+-- How one cycle's payment changes a member's standing under the group's lock policy
+-- p_state holds missed_payment_count, on_time_streak and status; the result adds whether
+-- this payment locked the member or removed one of their misses
+CREATE OR REPLACE FUNCTION public.apply_lock_policy(p_group groups, p_state JSONB, p_missed BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  v_count INTEGER := (p_state ->> 'missed_payment_count')::INTEGER;
+  v_streak INTEGER := (p_state ->> 'on_time_streak')::INTEGER;
+  v_status member_status := (p_state ->> 'status')::member_status;
+  v_locked BOOLEAN := FALSE;
+  v_decayed BOOLEAN := FALSE;
+BEGIN
+  IF p_missed THEN
+    v_count := v_count + 1;
+    v_streak := 0;
+    IF v_count >= p_group.lock_threshold AND v_status <> 'locked' THEN
+      v_status := 'locked';
+      v_locked := TRUE;
+    END IF;
+  ELSIF p_group.lock_count_mode = 'consecutive' THEN
+    v_count := 0;
+    v_streak := v_streak + 1;
+  ELSE
+    v_streak := v_streak + 1;
+    IF p_group.lock_decay_cycles IS NOT NULL AND v_count > 0 AND v_streak >= p_group.lock_decay_cycles THEN
+      v_count := v_count - 1;
+      v_streak := 0;
+      v_decayed := TRUE;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'missed_payment_count', v_count,
+    'on_time_streak', v_streak,
+    'status', v_status,
+    'locked', v_locked,
+    'decayed', v_decayed
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- The group's late fee for a payment marked p_days_late days after its deadline
+CREATE OR REPLACE FUNCTION public.late_fee_for(p_group groups, p_shares NUMERIC, p_days_late INTEGER)
+RETURNS DECIMAL(10,2) AS $$
+  SELECT ROUND(
+    CASE p_group.late_fee_type
+      WHEN 'flat' THEN p_group.late_fee_amount
+      ELSE ROUND(p_group.contribution_amount * p_shares * p_group.late_fee_amount / 100, 2)
+    END * CASE WHEN p_group.late_fee_per_day THEN p_days_late ELSE 1 END,
+    2
+  );
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.close_payment_cycle(p_cycle_id UUID, p_dry_run BOOLEAN DEFAULT FALSE)
+RETURNS JSONB AS $$
+DECLARE
+  v_cycle payment_cycles%ROWTYPE;
+  v_group groups%ROWTYPE;
+  v_log RECORD;
+  v_missed BOOLEAN;
+  v_late BOOLEAN;
+  v_extended BOOLEAN;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_state JSONB;
+  v_outcome JSONB;
+  v_states JSONB := '{}'::jsonb; -- each member's standing as the close works through their payments
+  v_members JSONB := '[]'::jsonb;
+  v_locked JSONB := '[]'::jsonb;
+  v_decayed_members JSONB := '[]'::jsonb;
+  v_penalties JSONB := '[]'::jsonb;
+  v_pending JSONB := '[]'::jsonb;
+  v_extended_members JSONB := '[]'::jsonb;
+  v_lapsed JSONB := '[]'::jsonb;
+  v_snapshot JSONB := '[]'::jsonb;
+  v_days_late INTEGER;
+  v_fee DECIMAL(10,2);
+  v_report JSONB;
+  v_closed_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  SELECT * INTO v_cycle FROM payment_cycles WHERE id = p_cycle_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cycle not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_group FROM groups WHERE id = v_cycle.group_id;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can close a cycle' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_cycle.status = 'closed' THEN
+    RETURN COALESCE(v_cycle.close_report, jsonb_build_object(
+      'cycle_id', v_cycle.id,
+      'group_id', v_cycle.group_id,
+      'closed_at', v_cycle.closed_at,
+      'verified_count', 0,
+      'pending_count', 0,
+      'missed_payments', 0,
+      'locked_members', '[]'::jsonb,
+      'decayed_members', '[]'::jsonb,
+      'penalties', '[]'::jsonb,
+      'members', '[]'::jsonb
+    )) || jsonb_build_object('already_closed', TRUE, 'dry_run', p_dry_run);
+  END IF;
+
+  -- Extensions that ran past an earlier close and have ended since: that close held the miss back
+  FOR v_log IN
+    SELECT pl.id AS log_id, pl.cycle_id, pl.status AS log_status, pl.marked_at, pl.extended_until, pc.due_date,
+           gm.id AS member_id, gm.user_id, gm.status AS member_status, gm.missed_payment_count, gm.on_time_streak, gm.shares
+    FROM payment_logs pl
+    JOIN payment_cycles pc ON pc.id = pl.cycle_id
+    JOIN group_members gm ON gm.id = pl.member_id
+    WHERE pc.group_id = v_cycle.group_id AND pc.id <> p_cycle_id
+      AND pl.miss_deferred AND pl.extended_until <= v_closed_at
+    ORDER BY pl.extended_until, gm.queue_position
+    FOR UPDATE OF pl, gm
+  LOOP
+    v_state := v_states -> v_log.member_id::TEXT;
+    IF v_state IS NULL THEN
+      v_state := jsonb_build_object(
+        'missed_payment_count', v_log.missed_payment_count,
+        'on_time_streak', v_log.on_time_streak,
+        'status', v_log.member_status
+      );
+      v_snapshot := v_snapshot || (jsonb_build_object('member_id', v_log.member_id) || v_state);
+    END IF;
+
+    v_deadline := GREATEST(v_log.due_date, v_log.extended_until);
+    v_late := v_log.log_status IN ('pending', 'verified')
+      AND v_group.lock_grace_days IS NOT NULL
+      AND v_log.marked_at IS NOT NULL
+      AND v_log.marked_at > v_deadline + make_interval(days => v_group.lock_grace_days);
+    v_missed := v_log.log_status IN ('unpaid', 'rejected') OR v_late;
+
+    v_outcome := public.apply_lock_policy(v_group, v_state, v_missed);
+    v_state := v_outcome - 'locked' - 'decayed';
+    v_states := v_states || jsonb_build_object(v_log.member_id::TEXT, v_state);
+    IF (v_outcome ->> 'locked')::BOOLEAN THEN
+      v_locked := v_locked || to_jsonb(v_log.member_id);
+    END IF;
+    IF (v_outcome ->> 'decayed')::BOOLEAN THEN
+      v_decayed_members := v_decayed_members || to_jsonb(v_log.member_id);
+    END IF;
+
+    IF v_log.log_status IN ('pending', 'verified')
+      AND v_log.marked_at > v_deadline
+      AND v_group.late_fee_type <> 'none'
+      AND v_group.late_fee_amount > 0
+    THEN
+      v_days_late := CEIL(EXTRACT(EPOCH FROM (v_log.marked_at - v_deadline)) / 86400)::INTEGER;
+      v_fee := public.late_fee_for(v_group, v_log.shares, v_days_late);
+
+      IF NOT p_dry_run THEN
+        INSERT INTO penalties (group_id, cycle_id, member_id, payment_log_id, amount, days_late)
+        VALUES (v_cycle.group_id, v_log.cycle_id, v_log.member_id, v_log.log_id, v_fee, v_days_late)
+        ON CONFLICT (payment_log_id) DO NOTHING;
+      END IF;
+
+      v_penalties := v_penalties || jsonb_build_object(
+        'member_id', v_log.member_id,
+        'payment_log_id', v_log.log_id,
+        'amount', v_fee,
+        'days_late', v_days_late
+      );
+    END IF;
+
+    IF NOT p_dry_run THEN
+      UPDATE payment_logs SET miss_deferred = FALSE WHERE id = v_log.log_id;
+      UPDATE group_members
+      SET missed_payment_count = (v_state ->> 'missed_payment_count')::INTEGER,
+          on_time_streak = (v_state ->> 'on_time_streak')::INTEGER,
+          status = (v_state ->> 'status')::member_status,
+          updated_at = v_closed_at
+      WHERE id = v_log.member_id;
+    END IF;
+
+    v_lapsed := v_lapsed || jsonb_build_object(
+      'log_id', v_log.log_id,
+      'cycle_id', v_log.cycle_id,
+      'member_id', v_log.member_id,
+      'user_id', v_log.user_id,
+      'log_status', v_log.log_status,
+      'extended_until', v_log.extended_until,
+      'missed', v_missed,
+      'late', v_late,
+      'missed_payment_count', (v_state ->> 'missed_payment_count')::INTEGER,
+      'status', v_state ->> 'status',
+      'locked', (v_outcome ->> 'locked')::BOOLEAN
+    );
+  END LOOP;
+
+  FOR v_log IN
+    SELECT pl.id AS log_id, pl.status AS log_status, pl.marked_at, pl.extended_until, gm.id AS member_id, gm.user_id,
+           gm.status AS member_status, gm.missed_payment_count, gm.on_time_streak, gm.shares
+    FROM payment_logs pl
+    JOIN group_members gm ON gm.id = pl.member_id
+    WHERE pl.cycle_id = p_cycle_id
+    ORDER BY gm.queue_position
+    FOR UPDATE OF gm
+  LOOP
+    -- Members whose lapsed extension was settled above carry on from that standing
+    v_state := v_states -> v_log.member_id::TEXT;
+    IF v_state IS NULL THEN
+      v_state := jsonb_build_object(
+        'missed_payment_count', v_log.missed_payment_count,
+        'on_time_streak', v_log.on_time_streak,
+        'status', v_log.member_status
+      );
+      v_snapshot := v_snapshot || (jsonb_build_object('member_id', v_log.member_id) || v_state);
+    END IF;
+
+    v_deadline := GREATEST(v_cycle.due_date, COALESCE(v_log.extended_until, v_cycle.due_date));
+    v_extended := v_log.log_status IN ('unpaid', 'rejected') AND COALESCE(v_log.extended_until > v_closed_at, FALSE);
+    v_late := v_log.log_status IN ('pending', 'verified')
+      AND v_group.lock_grace_days IS NOT NULL
+      AND v_log.marked_at IS NOT NULL
+      AND v_log.marked_at > v_deadline + make_interval(days => v_group.lock_grace_days);
+    v_missed := (v_log.log_status IN ('unpaid', 'rejected') AND NOT v_extended) OR v_late;
+
+    IF v_log.log_status = 'pending' THEN
+      v_pending := v_pending || jsonb_build_object(
+        'member_id', v_log.member_id,
+        'user_id', v_log.user_id,
+        'marked_at', v_log.marked_at
+      );
+    END IF;
+
+    v_outcome := v_state || jsonb_build_object('locked', FALSE, 'decayed', FALSE);
+    IF v_extended THEN
+      -- The miss is settled by the first close after the extension ends
+      v_extended_members := v_extended_members || jsonb_build_object(
+        'member_id', v_log.member_id,
+        'user_id', v_log.user_id,
+        'extended_until', v_log.extended_until
+      );
+      IF NOT p_dry_run THEN
+        UPDATE payment_logs SET miss_deferred = TRUE WHERE id = v_log.log_id;
+      END IF;
+    ELSE
+      v_outcome := public.apply_lock_policy(v_group, v_state, v_missed);
+      v_state := v_outcome - 'locked' - 'decayed';
+      v_states := v_states || jsonb_build_object(v_log.member_id::TEXT, v_state);
+      IF (v_outcome ->> 'locked')::BOOLEAN THEN
+        v_locked := v_locked || to_jsonb(v_log.member_id);
+      END IF;
+      IF (v_outcome ->> 'decayed')::BOOLEAN THEN
+        v_decayed_members := v_decayed_members || to_jsonb(v_log.member_id);
+      END IF;
+    END IF;
+
+    IF v_log.log_status IN ('pending', 'verified')
+      AND v_log.marked_at > v_deadline
+      AND v_group.late_fee_type <> 'none'
+      AND v_group.late_fee_amount > 0
+    THEN
+      v_days_late := CEIL(EXTRACT(EPOCH FROM (v_log.marked_at - v_deadline)) / 86400)::INTEGER;
+      v_fee := public.late_fee_for(v_group, v_log.shares, v_days_late);
+
+      IF NOT p_dry_run THEN
+        INSERT INTO penalties (group_id, cycle_id, member_id, payment_log_id, amount, days_late)
+        VALUES (v_cycle.group_id, p_cycle_id, v_log.member_id, v_log.log_id, v_fee, v_days_late)
+        ON CONFLICT (payment_log_id) DO NOTHING;
+      END IF;
+
+      v_penalties := v_penalties || jsonb_build_object(
+        'member_id', v_log.member_id,
+        'payment_log_id', v_log.log_id,
+        'amount', v_fee,
+        'days_late', v_days_late
+      );
+    END IF;
+
+    IF NOT p_dry_run THEN
+      UPDATE group_members
+      SET missed_payment_count = (v_state ->> 'missed_payment_count')::INTEGER,
+          on_time_streak = (v_state ->> 'on_time_streak')::INTEGER,
+          status = (v_state ->> 'status')::member_status,
+          updated_at = v_closed_at
+      WHERE id = v_log.member_id;
+    END IF;
+
+    IF v_missed THEN
+      v_members := v_members || jsonb_build_object(
+        'member_id', v_log.member_id,
+        'user_id', v_log.user_id,
+        'log_status', v_log.log_status,
+        'late', v_late,
+        'missed_payment_count', (v_state ->> 'missed_payment_count')::INTEGER,
+        'status', v_state ->> 'status',
+        'locked', (v_outcome ->> 'locked')::BOOLEAN
+      );
+    END IF;
+  END LOOP;
+
+  -- Each snapshot entry also records what the close left behind, under 'closed'
+  SELECT COALESCE(jsonb_agg(s || jsonb_build_object('closed', COALESCE(v_states -> (s ->> 'member_id'), s - 'member_id'))), '[]'::jsonb)
+  INTO v_snapshot
+  FROM jsonb_array_elements(v_snapshot) s;
+
+  v_report := jsonb_build_object(
+    'cycle_id', v_cycle.id,
+    'group_id', v_cycle.group_id,
+    'closed_at', v_closed_at,
+    'policy', jsonb_build_object(
+      'threshold', v_group.lock_threshold,
+      'count_mode', v_group.lock_count_mode,
+      'grace_days', v_group.lock_grace_days,
+      'decay_cycles', v_group.lock_decay_cycles
+    ),
+    'verified_count', (SELECT COUNT(*) FROM payment_logs WHERE cycle_id = p_cycle_id AND status = 'verified'),
+    'pending_count', (SELECT COUNT(*) FROM payment_logs WHERE cycle_id = p_cycle_id AND status = 'pending'),
+    'missed_payments', jsonb_array_length(v_members),
+    'locked_members', v_locked,
+    'decayed_members', v_decayed_members,
+    'penalties', v_penalties,
+    'pending_members', v_pending,
+    'extended_members', v_extended_members,
+    'lapsed_extensions', v_lapsed,
+    'snapshot', v_snapshot,
+    'members', v_members
+  );
+
+  IF p_dry_run THEN
+    RETURN v_report || jsonb_build_object('already_closed', FALSE, 'dry_run', TRUE);
+  END IF;
+
+  UPDATE payment_cycles
+  SET status = 'closed', closed_at = v_closed_at, close_report = v_report, updated_at = v_closed_at
+  WHERE id = p_cycle_id;
+
+  RETURN v_report || jsonb_build_object('already_closed', FALSE, 'dry_run', FALSE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.close_payment_cycle(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,129 @@
+-- Verify the payments matched to lines of a bank or mobile-money statement in a single transaction
+--
+-- 1. The caller must be the president or a vice president of every group the payments belong to
+-- 2. Each match is { log_id, amount, paid_at, reference }: the statement line's amount, date and reference
+-- 3. Only payments still unpaid or awaiting verification are confirmed; anything else is skipped
+-- 4. Pending installments of the payment are verified; whatever the statement line covers beyond them
+--    is recorded as a verified installment carrying the statement's reference, so the transfer is on file
+--    and later submissions reusing the reference are flagged
+-- 5. The payment is verified once its verified installments cover the amount due; a statement line
+--    that covers less leaves it unpaid with the rest still owed
+-- 6. Returns the payments that were verified so the caller can log the activity
+
+CREATE OR REPLACE FUNCTION public.confirm_statement_matches(
+  p_matches JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_verified_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_verified JSONB := '[]'::JSONB;
+  v_match JSONB;
+  v_log RECORD;
+  v_amount NUMERIC;
+  v_pending NUMERIC;
+  v_paid NUMERIC;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_matches) m
+    WHERE (m->>'amount')::NUMERIC <= 0
+  ) THEN
+    RAISE EXCEPTION 'Statement amounts must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_matches) m
+    JOIN payment_logs pl ON pl.id = (m->>'log_id')::UUID
+    JOIN payment_cycles pc ON pc.id = pl.cycle_id
+    JOIN groups g ON g.id = pc.group_id
+    WHERE g.president_id IS DISTINCT FROM auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM group_members gm
+        WHERE gm.group_id = g.id AND gm.user_id = auth.uid() AND gm.role = 'vice_president'
+      )
+  ) THEN
+    RAISE EXCEPTION 'Only group officers can confirm statement matches' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_match IN SELECT * FROM jsonb_array_elements(p_matches)
+  LOOP
+    SELECT
+      pl.id,
+      pl.member_id,
+      pc.group_id,
+      gm.user_id AS member_user_id,
+      COALESCE(pl.amount_due, ROUND(COALESCE(pc.contribution_amount, g.contribution_amount) * gm.shares, 2)) AS due
+    INTO v_log
+    FROM payment_logs pl
+    JOIN payment_cycles pc ON pc.id = pl.cycle_id
+    JOIN groups g ON g.id = pc.group_id
+    JOIN group_members gm ON gm.id = pl.member_id
+    WHERE pl.id = (v_match->>'log_id')::UUID AND pl.status IN ('unpaid', 'pending')
+    FOR UPDATE OF pl;
+
+    CONTINUE WHEN NOT FOUND;
+
+    v_amount := (v_match->>'amount')::NUMERIC;
+
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_pending
+    FROM payment_installments
+    WHERE payment_log_id = v_log.id AND status = 'pending';
+
+    UPDATE payment_installments
+    SET status = 'verified', verified_at = v_verified_at, verified_by = auth.uid()
+    WHERE payment_log_id = v_log.id AND status = 'pending';
+
+    IF v_amount > v_pending THEN
+      INSERT INTO payment_installments (
+        payment_log_id, group_id, member_id, amount, paid_at, reference, status, verified_at, verified_by
+      )
+      VALUES (
+        v_log.id,
+        v_log.group_id,
+        v_log.member_id,
+        v_amount - v_pending,
+        COALESCE((v_match->>'paid_at')::TIMESTAMP WITH TIME ZONE, v_verified_at),
+        NULLIF(BTRIM(v_match->>'reference'), ''),
+        'verified',
+        v_verified_at,
+        auth.uid()
+      );
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_paid
+    FROM payment_installments
+    WHERE payment_log_id = v_log.id AND status = 'verified';
+
+    IF v_paid >= v_log.due THEN
+      UPDATE payment_logs
+      SET
+        status = 'verified',
+        verified_at = v_verified_at,
+        marked_at = COALESCE(marked_at, (v_match->>'paid_at')::TIMESTAMP WITH TIME ZONE, v_verified_at)
+      WHERE id = v_log.id;
+    ELSE
+      UPDATE payment_logs
+      SET status = 'unpaid', verified_at = NULL, marked_at = NULL
+      WHERE id = v_log.id;
+    END IF;
+
+    v_verified := v_verified || jsonb_build_object(
+      'log_id', v_log.id,
+      'group_id', v_log.group_id,
+      'member_id', v_log.member_id,
+      'member_user_id', v_log.member_user_id,
+      'amount', v_amount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'verified', v_verified,
+    'verified_at', v_verified_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.confirm_statement_matches(JSONB) TO authenticated;
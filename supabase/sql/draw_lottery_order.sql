@@ -0,0 +1,49 @@
+-- Draw a lottery payout order from a seed, exactly as members re-run it in the app to check
+-- a draw (drawLotteryOrder in src/lib/queueOrder.ts)
+--
+-- 1. Member ids are sorted first, so the draw only depends on who takes part and the seed
+-- 2. The seed is hashed with 32-bit FNV-1a and fed to mulberry32, which drives a
+--    Fisher-Yates shuffle
+-- 3. 32-bit integer arithmetic is done on BIGINT, keeping the low 32 bits
+--
+-- Returns the member ids in their drawn order.
+
+-- Low 32 bits of the product of two unsigned 32-bit integers (Math.imul)
+CREATE OR REPLACE FUNCTION public.lottery_imul(p_a BIGINT, p_b BIGINT)
+RETURNS BIGINT AS $$
+  SELECT ((p_a & 65535) * p_b + (((p_a >> 16) * p_b) & 65535) * 65536) & 4294967295;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.draw_lottery_order(p_member_ids UUID[], p_seed TEXT)
+RETURNS UUID[] AS $$
+DECLARE
+  v_order UUID[];
+  v_count INTEGER;
+  v_state BIGINT := 2166136261; -- FNV-1a offset basis
+  v_t BIGINT;
+  v_i INTEGER;
+  v_j INTEGER;
+  v_swap UUID;
+BEGIN
+  SELECT COALESCE(array_agg(id ORDER BY id::TEXT COLLATE "C"), '{}') INTO v_order
+  FROM unnest(p_member_ids) AS members(id);
+  v_count := COALESCE(array_length(v_order, 1), 0);
+
+  FOR v_i IN 1..length(p_seed) LOOP
+    v_state := public.lottery_imul(v_state # ascii(substr(p_seed, v_i, 1)), 16777619);
+  END LOOP;
+
+  FOR v_i IN REVERSE v_count - 1..1 LOOP
+    v_state := (v_state + 1831565813) & 4294967295;
+    v_t := public.lottery_imul(v_state # (v_state >> 15), 1 | v_state);
+    v_t := ((v_t + public.lottery_imul(v_t # (v_t >> 7), 61 | v_t)) & 4294967295) # v_t;
+    v_j := (((v_t # (v_t >> 14)) * (v_i + 1)) >> 32)::INTEGER;
+
+    v_swap := v_order[v_i + 1];
+    v_order[v_i + 1] := v_order[v_j + 1];
+    v_order[v_j + 1] := v_swap;
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
@@ -0,0 +1,162 @@
+-- Reopen a cycle that was closed by mistake, in a single transaction
+--
+-- 1. Only the group president, only the group's most recently closed cycle, and only
+--    within 48 hours of the close
+-- 2. A cycle opened automatically after the close is removed, as long as nobody has
+--    paid into it or been paid out from it yet
+-- 3. Every member's missed count, on-time streak and status go back to the snapshot
+--    close_payment_cycle saved before it changed them, which also unlocks members
+--    this close locked. A field changed again since the close (e.g. a member restored
+--    by the president) keeps its current value
+-- 4. Outstanding late fees charged by the close are removed, and the cycle is active again.
+--    Fees the president already waived are kept, so the waiver stands when the cycle closes again.
+--    Extensions from earlier cycles that the close settled are left to the next close again
+-- 5. If the close completed the cycle's round, the round is active again and any round
+--    started since (with no cycles left in it) is removed. A reordered queue is kept
+--
+-- Closing the cycle again later applies the lock policy from scratch.
+
+CREATE OR REPLACE FUNCTION public.reopen_payment_cycle(p_cycle_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_cycle payment_cycles%ROWTYPE;
+  v_group groups%ROWTYPE;
+  v_snapshot JSONB;
+  v_unlocked JSONB;
+  v_removed_cycles JSONB;
+  v_removed_penalties INTEGER;
+  v_removed_rounds INTEGER := 0;
+  v_reopened_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  SELECT * INTO v_cycle FROM payment_cycles WHERE id = p_cycle_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cycle not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_group FROM groups WHERE id = v_cycle.group_id;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can reopen a cycle' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_cycle.status <> 'closed' THEN
+    RAISE EXCEPTION 'This cycle is not closed';
+  END IF;
+
+  IF v_cycle.closed_at IS NULL OR v_cycle.closed_at < v_reopened_at - INTERVAL '48 hours' THEN
+    RAISE EXCEPTION 'A cycle can only be reopened within 48 hours of closing';
+  END IF;
+
+  v_snapshot := v_cycle.close_report -> 'snapshot';
+  IF v_snapshot IS NULL THEN
+    RAISE EXCEPTION 'This cycle was closed before reopening was supported';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM payment_cycles
+    WHERE group_id = v_cycle.group_id AND id <> p_cycle_id AND status = 'closed' AND closed_at > v_cycle.closed_at
+  ) THEN
+    RAISE EXCEPTION 'Only the most recently closed cycle can be reopened';
+  END IF;
+
+  -- Cycles started since the close (e.g. opened automatically) must still be untouched
+  IF EXISTS (
+    SELECT 1 FROM payment_cycles pc
+    WHERE pc.group_id = v_cycle.group_id AND pc.id <> p_cycle_id AND pc.status = 'active'
+      AND (
+        EXISTS (SELECT 1 FROM payment_logs pl WHERE pl.cycle_id = pc.id AND pl.status <> 'unpaid')
+        OR EXISTS (
+          SELECT 1 FROM payment_installments pi JOIN payment_logs pl ON pl.id = pi.payment_log_id
+          WHERE pl.cycle_id = pc.id
+        )
+        OR EXISTS (SELECT 1 FROM payouts p WHERE p.cycle_id = pc.id)
+      )
+  ) THEN
+    RAISE EXCEPTION 'The next cycle already has payments. Close it before reopening this one';
+  END IF;
+
+  WITH removed AS (
+    DELETE FROM payment_cycles
+    WHERE group_id = v_cycle.group_id AND id <> p_cycle_id AND status = 'active'
+    RETURNING id
+  )
+  SELECT COALESCE(jsonb_agg(id), '[]'::jsonb) INTO v_removed_cycles FROM removed;
+
+  -- Snapshots from before 'closed' was recorded restore every field
+  SELECT COALESCE(jsonb_agg(gm.id), '[]'::jsonb) INTO v_unlocked
+  FROM group_members gm
+  JOIN jsonb_array_elements(v_snapshot) s ON gm.id = (s ->> 'member_id')::UUID
+  WHERE gm.status = 'locked' AND (s ->> 'status') <> 'locked'
+    AND gm.status::TEXT = COALESCE(s #>> '{closed,status}', gm.status::TEXT);
+
+  UPDATE group_members gm
+  SET missed_payment_count = CASE
+        WHEN gm.missed_payment_count = COALESCE((s #>> '{closed,missed_payment_count}')::INTEGER, gm.missed_payment_count)
+        THEN (s ->> 'missed_payment_count')::INTEGER
+        ELSE gm.missed_payment_count
+      END,
+      on_time_streak = CASE
+        WHEN gm.on_time_streak = COALESCE((s #>> '{closed,on_time_streak}')::INTEGER, gm.on_time_streak)
+        THEN (s ->> 'on_time_streak')::INTEGER
+        ELSE gm.on_time_streak
+      END,
+      status = CASE
+        WHEN gm.status::TEXT = COALESCE(s #>> '{closed,status}', gm.status::TEXT)
+        THEN (s ->> 'status')::member_status
+        ELSE gm.status
+      END,
+      updated_at = v_reopened_at
+  FROM jsonb_array_elements(v_snapshot) s
+  WHERE gm.id = (s ->> 'member_id')::UUID;
+
+  DELETE FROM penalties
+  WHERE status = 'outstanding'
+    AND (
+      cycle_id = p_cycle_id
+      OR payment_log_id IN (
+        SELECT (l ->> 'log_id')::UUID
+        FROM jsonb_array_elements(COALESCE(v_cycle.close_report -> 'lapsed_extensions', '[]'::jsonb)) l
+      )
+    );
+  GET DIAGNOSTICS v_removed_penalties = ROW_COUNT;
+
+  UPDATE payment_logs SET miss_deferred = FALSE WHERE cycle_id = p_cycle_id;
+
+  UPDATE payment_logs
+  SET miss_deferred = TRUE
+  WHERE id IN (
+    SELECT (l ->> 'log_id')::UUID
+    FROM jsonb_array_elements(COALESCE(v_cycle.close_report -> 'lapsed_extensions', '[]'::jsonb)) l
+  );
+
+  UPDATE payment_cycles
+  SET status = 'active', closed_at = NULL, close_report = NULL, updated_at = v_reopened_at
+  WHERE id = p_cycle_id;
+
+  IF v_cycle.round_id IS NOT NULL THEN
+    DELETE FROM rounds r
+    WHERE r.group_id = v_cycle.group_id
+      AND r.round_number > (SELECT round_number FROM rounds WHERE id = v_cycle.round_id)
+      AND NOT EXISTS (SELECT 1 FROM payment_cycles pc WHERE pc.round_id = r.id);
+    GET DIAGNOSTICS v_removed_rounds = ROW_COUNT;
+
+    UPDATE rounds
+    SET status = 'active', completed_at = NULL
+    WHERE id = v_cycle.round_id AND status = 'completed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'cycle_id', p_cycle_id,
+    'group_id', v_cycle.group_id,
+    'reopened_at', v_reopened_at,
+    'restored_members', jsonb_array_length(v_snapshot),
+    'unlocked_members', v_unlocked,
+    'removed_penalties', v_removed_penalties,
+    'removed_cycles', v_removed_cycles,
+    'removed_rounds', v_removed_rounds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reopen_payment_cycle(UUID) TO authenticated;
@@ -0,0 +1,113 @@
+-- Verify or reject a batch of submitted payments in a single transaction
+--
+-- 1. The caller must be the president or a vice president of every group the payments belong to
+-- 2. Only payments still awaiting verification are reviewed; anything already reviewed is skipped
+-- 3. Verifying verifies every pending installment of the payment along with the payment itself
+-- 4. Rejecting needs a reason ('other' has to be described): every pending installment is rejected,
+--    the payment goes back to rejected so the member can send it again, and the reason is added
+--    to the payment's thread
+-- 5. Returns the payments that were reviewed so the caller can notify each member
+
+CREATE OR REPLACE FUNCTION public.review_payments(
+  p_log_ids UUID[],
+  p_verify BOOLEAN,
+  p_reason rejection_reason DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_actor_name TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_reviewed_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_note TEXT := NULLIF(BTRIM(p_note), '');
+  v_reviewed JSONB := '[]'::JSONB;
+  v_log RECORD;
+  v_amount NUMERIC;
+  v_has_installments BOOLEAN;
+BEGIN
+  IF NOT p_verify AND p_reason IS NULL THEN
+    RAISE EXCEPTION 'Please choose a reason for rejecting the payments';
+  END IF;
+
+  IF NOT p_verify AND p_reason = 'other' AND v_note IS NULL THEN
+    RAISE EXCEPTION 'Please describe why the payments were rejected';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM payment_logs pl
+    JOIN payment_cycles pc ON pc.id = pl.cycle_id
+    JOIN groups g ON g.id = pc.group_id
+    WHERE pl.id = ANY(p_log_ids)
+      AND g.president_id IS DISTINCT FROM auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM group_members gm
+        WHERE gm.group_id = g.id AND gm.user_id = auth.uid() AND gm.role = 'vice_president'
+      )
+  ) THEN
+    RAISE EXCEPTION 'Only group officers can review payments' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_log IN
+    SELECT
+      pl.id,
+      pl.member_id,
+      pc.group_id,
+      gm.user_id AS member_user_id,
+      COALESCE(pl.amount_due, ROUND(COALESCE(pc.contribution_amount, g.contribution_amount) * gm.shares, 2)) AS due
+    FROM payment_logs pl
+    JOIN payment_cycles pc ON pc.id = pl.cycle_id
+    JOIN groups g ON g.id = pc.group_id
+    JOIN group_members gm ON gm.id = pl.member_id
+    WHERE pl.id = ANY(p_log_ids) AND pl.status = 'pending'
+    ORDER BY pl.marked_at NULLS LAST
+    FOR UPDATE OF pl
+  LOOP
+    SELECT COUNT(*) > 0, SUM(amount) FILTER (WHERE status = 'pending')
+    INTO v_has_installments, v_amount
+    FROM payment_installments
+    WHERE payment_log_id = v_log.id;
+
+    -- Payments marked as sent before installments existed stand in for the full contribution
+    v_amount := COALESCE(v_amount, v_log.due);
+
+    UPDATE payment_installments
+    SET
+      status = CASE WHEN p_verify THEN 'verified' ELSE 'rejected' END::installment_status,
+      verified_at = CASE WHEN p_verify THEN v_reviewed_at END,
+      verified_by = auth.uid()
+    WHERE payment_log_id = v_log.id AND status = 'pending';
+
+    IF p_verify THEN
+      UPDATE payment_logs
+      SET status = 'verified', verified_at = v_reviewed_at
+      WHERE id = v_log.id;
+    ELSE
+      UPDATE payment_logs
+      SET
+        status = 'rejected',
+        verified_at = NULL,
+        marked_at = CASE WHEN v_has_installments THEN NULL ELSE marked_at END
+      WHERE id = v_log.id;
+
+      INSERT INTO payment_log_events (payment_log_id, group_id, event_type, actor_id, actor_name, amount, reason, note)
+      VALUES (v_log.id, v_log.group_id, 'rejected', auth.uid(), p_actor_name, v_amount, p_reason, v_note);
+    END IF;
+
+    v_reviewed := v_reviewed || jsonb_build_object(
+      'log_id', v_log.id,
+      'group_id', v_log.group_id,
+      'member_id', v_log.member_id,
+      'member_user_id', v_log.member_user_id,
+      'amount', v_amount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'verified', p_verify,
+    'reviewed', v_reviewed,
+    'reviewed_at', v_reviewed_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.review_payments(UUID[], BOOLEAN, rejection_reason, TEXT, TEXT) TO authenticated;
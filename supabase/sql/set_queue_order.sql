@@ -0,0 +1,74 @@
+-- Rewrite a group's payout queue in a single transaction
+--
+-- 1. Only the group president can reorder the queue
+-- 2. p_member_ids lists the new order; every id must be a member of the group, once
+-- 3. Members left out of the list keep their relative order after the listed ones
+-- 4. p_expected_order, when given, is the full queue the editor started from; if anyone
+--    changed the queue since, nothing is written and the caller must reload
+-- 5. queue_position is unique per group, so every member is first parked on a negative
+--    position and then moved to 1, 2, 3... in the new order
+--
+-- Returns the order before and after the change, as member ids.
+
+DROP FUNCTION IF EXISTS public.set_queue_order(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.set_queue_order(
+  p_group_id UUID,
+  p_member_ids UUID[],
+  p_expected_order UUID[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_group groups%ROWTYPE;
+  v_previous UUID[];
+  v_order UUID[];
+  v_listed INTEGER := COALESCE(array_length(p_member_ids, 1), 0);
+BEGIN
+  SELECT * INTO v_group FROM groups WHERE id = p_group_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can change the payout queue' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_listed <> (SELECT COUNT(DISTINCT id) FROM unnest(p_member_ids) AS listed(id)) THEN
+    RAISE EXCEPTION 'A member can only appear once in the queue';
+  END IF;
+
+  IF v_listed <> (SELECT COUNT(*) FROM group_members WHERE group_id = p_group_id AND id = ANY(p_member_ids)) THEN
+    RAISE EXCEPTION 'Every member in the queue must belong to the group';
+  END IF;
+
+  -- Lock the group's members so concurrent reorders apply one after the other
+  SELECT array_agg(id ORDER BY queue_position) INTO v_previous
+  FROM (SELECT id, queue_position FROM group_members WHERE group_id = p_group_id FOR UPDATE) members;
+
+  IF p_expected_order IS NOT NULL AND COALESCE(v_previous, '{}') IS DISTINCT FROM p_expected_order THEN
+    RAISE EXCEPTION 'The payout queue was changed by someone else. Reload it and try again' USING ERRCODE = '40001';
+  END IF;
+
+  SELECT array_agg(id ORDER BY array_position(p_member_ids, id) NULLS LAST, queue_position) INTO v_order
+  FROM group_members
+  WHERE group_id = p_group_id;
+
+  UPDATE group_members
+  SET queue_position = -queue_position - 1
+  WHERE group_id = p_group_id;
+
+  UPDATE group_members gm
+  SET queue_position = o.position, updated_at = NOW()
+  FROM unnest(v_order) WITH ORDINALITY AS o(id, position)
+  WHERE gm.id = o.id;
+
+  RETURN jsonb_build_object(
+    'group_id', p_group_id,
+    'previous_order', to_jsonb(COALESCE(v_previous, '{}')),
+    'order', to_jsonb(COALESCE(v_order, '{}'))
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_queue_order(UUID, UUID[], UUID[]) TO authenticated;
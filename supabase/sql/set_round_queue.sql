@@ -0,0 +1,75 @@
+-- Set the payout queue of a round that has not begun, in a single transaction
+--
+-- 1. Only the group president, only for the group's active round, and only before the
+--    round's first cycle starts
+-- 2. A round's lottery is drawn once: after a draw the round's queue can no longer be set,
+--    so the president cannot redraw until the order suits them
+-- 3. A lottery is drawn here, from a seed generated here, among the active members
+--    (draw_lottery_order); for any other mode the queue is p_queue_order
+-- 4. Unless the current order is kept ('carry_over'), the queue is rewritten through
+--    set_queue_order, and the round records how it was set
+--
+-- Returns the updated round.
+
+DROP FUNCTION IF EXISTS public.set_round_queue(UUID, round_queue_mode, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_round_queue(
+  p_round_id UUID,
+  p_queue_mode round_queue_mode,
+  p_queue_order UUID[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_round rounds%ROWTYPE;
+  v_group groups%ROWTYPE;
+  v_seed TEXT;
+  v_order UUID[] := p_queue_order;
+BEGIN
+  SELECT * INTO v_round FROM rounds WHERE id = p_round_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_group FROM groups WHERE id = v_round.group_id;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can set the payout queue' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_round.status <> 'active' THEN
+    RAISE EXCEPTION 'This round is complete. Start a new round to set its queue';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payment_cycles WHERE round_id = p_round_id) THEN
+    RAISE EXCEPTION 'The queue can only be set before the round''s first cycle starts';
+  END IF;
+
+  IF v_round.queue_mode = 'lottery' AND v_round.queue_seed IS NOT NULL THEN
+    RAISE EXCEPTION 'This round''s lottery has already been drawn';
+  END IF;
+
+  IF p_queue_mode = 'lottery' THEN
+    v_seed := replace(gen_random_uuid()::TEXT, '-', '');
+    v_order := public.draw_lottery_order(
+      ARRAY(SELECT id FROM group_members WHERE group_id = v_round.group_id AND status = 'active'),
+      v_seed
+    );
+  END IF;
+
+  IF p_queue_mode <> 'carry_over' THEN
+    PERFORM public.set_queue_order(v_round.group_id, v_order);
+  END IF;
+
+  UPDATE rounds
+  SET queue_mode = p_queue_mode,
+      queue_seed = v_seed,
+      queue_order = to_jsonb(v_order)
+  WHERE id = p_round_id
+  RETURNING * INTO v_round;
+
+  RETURN to_jsonb(v_round);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_round_queue(UUID, round_queue_mode, UUID[]) TO authenticated;
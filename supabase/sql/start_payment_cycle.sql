@@ -0,0 +1,113 @@
+-- Start a group's next payment cycle in a single transaction
+--
+-- get_active_round returns the round new cycles belong to:
+-- 1. Groups from before rounds existed get round 1, holding every cycle they already have
+-- 2. Returns null when the latest round is complete and the next one has not been started
+--
+-- start_payment_cycle:
+-- 1. Only the group president, and only while no other cycle is open
+-- 2. The cycle belongs to the active round (a completed round must be followed by a new one first)
+-- 3. The recipient, worked out from the round's rotation, must be an active member
+-- 4. The cycle number follows the highest one used, so numbers freed by a reopen are not repeated
+-- 5. Every active member gets an 'unpaid' payment log with the contribution they owe for their hands
+--
+-- Returns the new cycle.
+
+CREATE OR REPLACE FUNCTION public.get_active_round(p_group_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_round rounds%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM groups WHERE id = p_group_id AND president_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the group president can manage rounds' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM rounds WHERE group_id = p_group_id) THEN
+    SELECT * INTO v_round FROM rounds WHERE group_id = p_group_id AND status = 'active';
+    RETURN CASE WHEN FOUND THEN to_jsonb(v_round) END;
+  END IF;
+
+  INSERT INTO rounds (group_id, round_number, queue_mode)
+  VALUES (p_group_id, 1, 'carry_over')
+  RETURNING * INTO v_round;
+
+  UPDATE payment_cycles
+  SET round_id = v_round.id
+  WHERE group_id = p_group_id AND round_id IS NULL;
+
+  RETURN to_jsonb(v_round);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.start_payment_cycle(
+  p_group_id UUID,
+  p_recipient_id UUID,
+  p_start_date TIMESTAMP WITH TIME ZONE,
+  p_due_date TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_group groups%ROWTYPE;
+  v_round JSONB;
+  v_cycle payment_cycles%ROWTYPE;
+BEGIN
+  SELECT * INTO v_group FROM groups WHERE id = p_group_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can start a cycle' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_start_date >= p_due_date THEN
+    RAISE EXCEPTION 'Start date must be before end date';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM payment_cycles WHERE group_id = p_group_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Close the current cycle before starting the next one';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM group_members WHERE group_id = p_group_id AND status = 'active') THEN
+    RAISE EXCEPTION 'No active members to create payment logs for';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM group_members WHERE id = p_recipient_id AND group_id = p_group_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'The payout recipient must be an active member of the group';
+  END IF;
+
+  v_round := public.get_active_round(p_group_id);
+
+  IF v_round IS NULL THEN
+    RAISE EXCEPTION 'This round is complete. Start a new round before the next cycle';
+  END IF;
+
+  INSERT INTO payment_cycles (
+    group_id, round_id, recipient_id, cycle_number, start_date, due_date, status, contribution_amount
+  )
+  VALUES (
+    p_group_id,
+    (v_round->>'id')::UUID,
+    p_recipient_id,
+    (SELECT COALESCE(MAX(cycle_number), 0) + 1 FROM payment_cycles WHERE group_id = p_group_id),
+    p_start_date,
+    p_due_date,
+    'active',
+    v_group.contribution_amount
+  )
+  RETURNING * INTO v_cycle;
+
+  INSERT INTO payment_logs (cycle_id, member_id, status, amount_due)
+  SELECT v_cycle.id, id, 'unpaid', ROUND(v_group.contribution_amount * shares, 2)
+  FROM group_members
+  WHERE group_id = p_group_id AND status = 'active';
+
+  RETURN to_jsonb(v_cycle);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_active_round(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_payment_cycle(UUID, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,67 @@
+-- Start a group's next payout round in a single transaction
+--
+-- 1. Only the group president, and only once every earlier round is complete
+-- 2. A lottery is drawn here, from a seed generated here, among the active members
+--    (draw_lottery_order); for any other mode the queue is p_queue_order
+-- 3. Unless the current order is kept ('carry_over'), the queue is rewritten through
+--    set_queue_order
+-- 4. The round is created with how its queue was set: the mode, the lottery seed and the
+--    order, so members can re-run a lottery draw
+--
+-- Returns the new round.
+
+DROP FUNCTION IF EXISTS public.start_round(UUID, round_queue_mode, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.start_round(
+  p_group_id UUID,
+  p_queue_mode round_queue_mode,
+  p_queue_order UUID[] DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_group groups%ROWTYPE;
+  v_round rounds%ROWTYPE;
+  v_seed TEXT;
+  v_order UUID[] := p_queue_order;
+BEGIN
+  SELECT * INTO v_group FROM groups WHERE id = p_group_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_group.president_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group president can start a round' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM rounds WHERE group_id = p_group_id AND status = 'active') THEN
+    RAISE EXCEPTION 'The current round is still in progress';
+  END IF;
+
+  IF p_queue_mode = 'lottery' THEN
+    v_seed := replace(gen_random_uuid()::TEXT, '-', '');
+    v_order := public.draw_lottery_order(
+      ARRAY(SELECT id FROM group_members WHERE group_id = p_group_id AND status = 'active'),
+      v_seed
+    );
+  END IF;
+
+  IF p_queue_mode <> 'carry_over' THEN
+    PERFORM public.set_queue_order(p_group_id, v_order);
+  END IF;
+
+  INSERT INTO rounds (group_id, round_number, queue_mode, queue_seed, queue_order)
+  VALUES (
+    p_group_id,
+    (SELECT COALESCE(MAX(round_number), 0) + 1 FROM rounds WHERE group_id = p_group_id),
+    p_queue_mode,
+    v_seed,
+    to_jsonb(v_order)
+  )
+  RETURNING * INTO v_round;
+
+  RETURN to_jsonb(v_round);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.start_round(UUID, round_queue_mode, UUID[]) TO authenticated;